@@ -21,6 +21,7 @@ import Billing from "@/routes/Billing";
 import Expenses from "@/routes/Expenses";
 import Analytics from "@/routes/Analytics";
 import Admin from "@/routes/Admin";
+import LobbyDisplay from "@/routes/LobbyDisplay";
 import NotFound from "./pages/NotFound";
 import Unauthorized from "./pages/Unauthorized";
 
@@ -53,6 +54,7 @@ const App = () => (
         <Routes>
           {/* Public routes */}
           <Route path="/auth/login" element={<Login />} />
+          <Route path="/lobby" element={<LobbyDisplay />} />
           
           {/* Protected routes with app shell */}
           <Route path="/" element={
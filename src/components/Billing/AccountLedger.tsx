@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen, PiggyBank } from 'lucide-react';
+import { useBilling } from '@/hooks/useBilling';
+import { formatMoney } from '@/lib/invoice';
+import { LEDGER_ENTRY_LABELS, type LedgerEntryType } from '@/lib/ledger';
+import { PrepaymentModal } from '@/components/Billing/PrepaymentModal';
+
+interface AccountLedgerProps {
+  patientId: string;
+  patientName?: string;
+}
+
+const ENTRY_CLASSES: Record<LedgerEntryType, string> = {
+  charge: 'bg-amber-100 text-amber-800',
+  void: 'bg-gray-100 text-gray-800',
+  payment: 'bg-green-100 text-green-800',
+  refund: 'bg-red-100 text-red-800',
+  credit_note: 'bg-teal-100 text-teal-800',
+  write_off: 'bg-slate-100 text-slate-800',
+  prepayment: 'bg-blue-100 text-blue-800',
+  credit_applied: 'bg-purple-100 text-purple-800',
+};
+
+export function AccountLedger({ patientId, patientName }: AccountLedgerProps) {
+  const { usePatientLedger } = useBilling();
+  const { data: ledger, isLoading } = usePatientLedger(patientId);
+  const [showPrepayment, setShowPrepayment] = useState(false);
+
+  const summary = ledger?.summary;
+  // Newest first for reading; the running balance is computed oldest first
+  const entries = [...(ledger?.entries || [])].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <BookOpen className="h-5 w-5 mr-2" />
+            Account Ledger
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setShowPrepayment(true)}>
+            <PiggyBank className="h-4 w-4 mr-2" />
+            Record Prepayment
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Charges, payments and credits in date order with a running balance
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Billed</div>
+              <div className="font-medium">{formatMoney(summary.totalBilled)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Received</div>
+              <div className="font-medium">{formatMoney(summary.totalPaid)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Unapplied credit</div>
+              <div className="font-medium text-blue-600">{formatMoney(summary.unappliedCredit)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Balance</div>
+              <div className={`font-semibold ${summary.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatMoney(summary.balance)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading ledger...</div>
+        ) : entries.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Charges</TableHead>
+                <TableHead className="text-right">Credits</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>{format(new Date(entry.date), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>
+                    <Badge className={ENTRY_CLASSES[entry.type]}>{LEDGER_ENTRY_LABELS[entry.type]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {entry.description}
+                    {entry.memo !== undefined && (
+                      <span className="text-muted-foreground"> ({formatMoney(entry.memo)})</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.reference}</TableCell>
+                  <TableCell className="text-right">{entry.debit > 0 && formatMoney(entry.debit)}</TableCell>
+                  <TableCell className="text-right">{entry.credit > 0 && formatMoney(entry.credit)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatMoney(entry.balance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No account activity yet
+          </div>
+        )}
+      </CardContent>
+
+      <PrepaymentModal
+        open={showPrepayment}
+        onOpenChange={setShowPrepayment}
+        patientId={patientId}
+        patientName={patientName}
+      />
+    </Card>
+  );
+}
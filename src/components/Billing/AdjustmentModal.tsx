@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
+import { useMe } from '@/hooks/useMe';
+import { PAYMENT_METHODS, formatInvoiceNumber, formatMoney, type PaymentMethod } from '@/lib/invoice';
+import {
+  ADJUSTMENT_KINDS,
+  ADJUSTMENT_REASONS,
+  getAdjustmentLimit,
+  requiresApproval,
+  type AdjustmentKind,
+} from '@/lib/adjustments';
+
+interface AdjustmentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice | null;
+  kind: AdjustmentKind;
+}
+
+export function AdjustmentModal({ open, onOpenChange, invoice, kind }: AdjustmentModalProps) {
+  const { requestAdjustment } = useBilling();
+  const { profile } = useMe();
+  const [amount, setAmount] = useState(0);
+  const [reasonCode, setReasonCode] = useState('');
+  const [reasonNote, setReasonNote] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+
+  const currency = invoice?.currency || 'EGP';
+  const limit = invoice ? getAdjustmentLimit(kind, invoice) : 0;
+  const kindConfig = ADJUSTMENT_KINDS.find(k => k.value === kind);
+  const needsApproval = requiresApproval(profile?.role);
+  const canSubmit = amount > 0 && amount <= limit && !!reasonCode && (reasonCode !== 'other' || !!reasonNote.trim());
+
+  // Default to everything that can be adjusted, e.g. the full overpayment for a refund
+  useEffect(() => {
+    if (open) {
+      setAmount(limit);
+      setReasonCode('');
+      setReasonNote('');
+      setMethod('cash');
+    }
+  }, [open, limit]);
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      await requestAdjustment.mutateAsync({
+        invoiceId: invoice.id,
+        kind,
+        amount,
+        reasonCode,
+        reasonNote,
+        method: kind === 'refund' ? method : undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{kindConfig?.label}{invoice && ` · ${formatInvoiceNumber(invoice)}`}</DialogTitle>
+          <DialogDescription>
+            {kindConfig?.description}. Up to {formatMoney(limit, currency)}.
+            {needsApproval && ' An admin must approve it before it takes effect.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="adjustment-amount">Amount *</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                min="0"
+                max={limit}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            {kind === 'refund' && (
+              <div className="space-y-1">
+                <Label>Paid out by</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Reason *</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {ADJUSTMENT_REASONS[kind].map(reason => (
+                  <SelectItem key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="adjustment-note">Details{reasonCode === 'other' && ' *'}</Label>
+            <Textarea
+              id="adjustment-note"
+              value={reasonNote}
+              onChange={(e) => setReasonNote(e.target.value)}
+              placeholder="e.g. Crown cancelled after impression"
+            />
+          </div>
+
+          {amount > limit && (
+            <p className="text-sm text-destructive">Amount is more than {formatMoney(limit, currency)}.</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit || requestAdjustment.isPending}>
+              {requestAdjustment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {needsApproval ? 'Request Approval' : `Issue ${kindConfig?.label}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { addMonths, format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
+import { formatInvoiceNumber, formatMoney, getInvoiceBalance, roundMoney } from '@/lib/invoice';
+import {
+  INSTALLMENT_FREQUENCIES,
+  buildInstallmentSchedule,
+  validateInstallmentSchedule,
+  type InstallmentFrequency,
+  type ScheduledInstallment,
+} from '@/lib/installments';
+
+interface InstallmentPlanModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice | null;
+}
+
+const ROUNDING_OPTIONS = [
+  { value: '0.01', label: 'No rounding' },
+  { value: '1', label: 'Nearest 1' },
+  { value: '5', label: 'Nearest 5' },
+  { value: '10', label: 'Nearest 10' },
+  { value: '50', label: 'Nearest 50' },
+  { value: '100', label: 'Nearest 100' },
+];
+
+export function InstallmentPlanModal({ open, onOpenChange, invoice }: InstallmentPlanModalProps) {
+  const { createInstallmentPlan } = useBilling();
+  const [downPayment, setDownPayment] = useState(0);
+  const [count, setCount] = useState(3);
+  const [frequency, setFrequency] = useState<InstallmentFrequency>('monthly');
+  const [firstDueDate, setFirstDueDate] = useState('');
+  const [roundTo, setRoundTo] = useState('1');
+  const [schedule, setSchedule] = useState<ScheduledInstallment[]>([]);
+
+  const balance = invoice ? getInvoiceBalance(invoice) : 0;
+  const currency = invoice?.currency || 'EGP';
+  const scheduled = roundMoney(schedule.reduce((sum, item) => sum + (Number(item.amount) || 0), 0));
+  const scheduleError = validateInstallmentSchedule(schedule, balance);
+
+  useEffect(() => {
+    if (open) {
+      setDownPayment(0);
+      setCount(3);
+      setFrequency('monthly');
+      setFirstDueDate(format(addMonths(new Date(), 1), 'yyyy-MM-dd'));
+      setRoundTo('1');
+    }
+  }, [open]);
+
+  // Regenerate the schedule whenever the parameters change; manual edits apply on top
+  useEffect(() => {
+    if (!open || !firstDueDate) return;
+    setSchedule(buildInstallmentSchedule({
+      total: balance,
+      downPayment,
+      count,
+      frequency,
+      firstDueDate,
+      roundTo: Number(roundTo),
+    }));
+  }, [open, balance, downPayment, count, frequency, firstDueDate, roundTo]);
+
+  const updateItem = (index: number, updates: Partial<ScheduledInstallment>) => {
+    setSchedule(prev => prev.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  // Put whatever is left over on the last installment
+  const balanceLastItem = () => {
+    if (schedule.length === 0) return;
+    const othersTotal = schedule.slice(0, -1).reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+    updateItem(schedule.length - 1, { amount: roundMoney(balance - othersTotal) });
+  };
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      await createInstallmentPlan.mutateAsync({
+        invoiceId: invoice.id,
+        installments: schedule.map(({ due_date, amount }) => ({ due_date, amount })),
+        downPayment,
+        frequency,
+        count,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Installment Plan{invoice && ` · ${formatInvoiceNumber(invoice)}`}</DialogTitle>
+          <DialogDescription>
+            Spread the outstanding balance of {formatMoney(balance, currency)} over scheduled installments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="down-payment" className="text-xs">Down payment</Label>
+              <Input
+                id="down-payment"
+                type="number"
+                min="0"
+                step="0.01"
+                value={downPayment}
+                onChange={(e) => setDownPayment(Number(e.target.value))}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="installment-count" className="text-xs">Installments</Label>
+              <Input
+                id="installment-count"
+                type="number"
+                min="1"
+                max="60"
+                value={count}
+                onChange={(e) => setCount(Number(e.target.value))}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Frequency</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as InstallmentFrequency)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSTALLMENT_FREQUENCIES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="first-due" className="text-xs">First due</Label>
+              <Input
+                id="first-due"
+                type="date"
+                value={firstDueDate}
+                onChange={(e) => setFirstDueDate(e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Rounding</Label>
+              <Select value={roundTo} onValueChange={setRoundTo}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUNDING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Due date</TableHead>
+                <TableHead>Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedule.map((item, index) => (
+                <TableRow key={index}>
+                  <TableCell className="text-muted-foreground">
+                    {item.isDownPayment ? 'Down' : index + (schedule[0]?.isDownPayment ? 0 : 1)}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={item.due_date}
+                      onChange={(e) => updateItem(index, { due_date: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.amount}
+                      onChange={(e) => updateItem(index, { amount: Number(e.target.value) })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between text-sm border-t pt-3">
+            <span className="text-muted-foreground">
+              Scheduled {formatMoney(scheduled, currency)} of {formatMoney(balance, currency)}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={balanceLastItem}
+              disabled={schedule.length === 0 || scheduled === roundMoney(balance)}
+            >
+              Adjust last installment
+            </Button>
+          </div>
+          {scheduleError && <p className="text-sm text-destructive">{scheduleError}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!!scheduleError || createInstallmentPlan.isPending}>
+              {createInstallmentPlan.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Plan
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
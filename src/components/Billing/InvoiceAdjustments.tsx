@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, FileMinus, Loader2, X } from 'lucide-react';
+import { useBilling } from '@/hooks/useBilling';
+import { useMe } from '@/hooks/useMe';
+import { formatInvoiceNumber, formatMoney, getPaymentMethodLabel } from '@/lib/invoice';
+import { getAdjustmentKindLabel, getReasonLabel, type AdjustmentStatus } from '@/lib/adjustments';
+
+const STATUS_CLASSES: Record<AdjustmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800',
+};
+
+export function InvoiceAdjustments() {
+  const { useInvoiceAdjustments, decideAdjustment } = useBilling();
+  const { profile } = useMe();
+  const [statusFilter, setStatusFilter] = useState<AdjustmentStatus | 'all'>('pending');
+  const { data: adjustments, isLoading } = useInvoiceAdjustments(statusFilter);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const isAdmin = profile?.role === 'admin';
+
+  const handleApprove = async (adjustmentId: string) => {
+    try {
+      await decideAdjustment.mutateAsync({ adjustmentId, approve: true });
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingId) return;
+
+    try {
+      await decideAdjustment.mutateAsync({ adjustmentId: rejectingId, approve: false, note: rejectNote });
+      setRejectingId(null);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <FileMinus className="h-5 w-5 mr-2" />
+            Refunds, Credit Notes & Write-offs
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as AdjustmentStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+        <CardDescription>
+          {isAdmin
+            ? 'Requests from staff wait here until you approve or reject them'
+            : 'Requests take effect once an admin approves them'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Loading adjustments...</div>
+        ) : adjustments?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Patient</TableHead>
+                <TableHead>Invoice #</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {adjustments.map(adjustment => (
+                <TableRow key={adjustment.id}>
+                  <TableCell className="text-sm">
+                    <div>{format(new Date(adjustment.requested_at), 'MMM dd, HH:mm')}</div>
+                    <div className="text-muted-foreground">{adjustment.requester?.full_name}</div>
+                  </TableCell>
+                  <TableCell>{adjustment.patients?.arabic_full_name}</TableCell>
+                  <TableCell className="font-mono">{formatInvoiceNumber(adjustment.invoices)}</TableCell>
+                  <TableCell>
+                    <div>{getAdjustmentKindLabel(adjustment.kind)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {adjustment.document_number && <span className="font-mono">{adjustment.document_number}</span>}
+                      {adjustment.method && getPaymentMethodLabel(adjustment.method)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{getReasonLabel(adjustment.kind, adjustment.reason_code)}</div>
+                    {adjustment.reason_note && (
+                      <div className="text-muted-foreground">{adjustment.reason_note}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatMoney(adjustment.amount, adjustment.invoices.currency)}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_CLASSES[adjustment.status]}>{adjustment.status}</Badge>
+                    {adjustment.decided_at && adjustment.status !== 'pending' && (
+                      <div className="text-xs text-muted-foreground mt-1" title={adjustment.decision_note || undefined}>
+                        {adjustment.decider?.full_name} · {format(new Date(adjustment.decided_at), 'MMM dd')}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isAdmin && adjustment.status === 'pending' && (
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleApprove(adjustment.id)}
+                          disabled={decideAdjustment.isPending}
+                          title="Approve"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setRejectNote('');
+                            setRejectingId(adjustment.id);
+                          }}
+                          disabled={decideAdjustment.isPending}
+                          title="Reject"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No {statusFilter === 'all' ? '' : `${statusFilter} `}adjustments.
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejectingId} onOpenChange={(open) => !open && setRejectingId(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Adjustment</DialogTitle>
+            <DialogDescription>The requester will see your reason.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reject-note">Reason *</Label>
+            <Textarea
+              id="reject-note"
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="e.g. Balance is being collected by installments"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setRejectingId(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectNote.trim() || decideAdjustment.isPending}
+            >
+              {decideAdjustment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
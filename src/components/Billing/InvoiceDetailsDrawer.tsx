@@ -0,0 +1,303 @@
+import { format, parseISO } from 'date-fns';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Ban, Banknote, CalendarClock, FileMinus, Printer, Receipt, Undo2, XCircle } from 'lucide-react';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
+import { formatInvoiceNumber, formatMoney, getInvoiceBalance, getPaymentMethodLabel, getTotalPaid } from '@/lib/invoice';
+import { getAdjustmentKindLabel, getAdjustmentLimit, getReasonLabel, type AdjustmentKind } from '@/lib/adjustments';
+
+interface InvoiceDetailsDrawerProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+  onTakePayment: (invoice: Invoice) => void;
+  onVoid: (invoice: Invoice) => void;
+  onSetupInstallments?: (invoice: Invoice) => void;
+  onAdjust?: (invoice: Invoice, kind: AdjustmentKind) => void;
+}
+
+const ADJUSTMENT_STATUS_CLASSES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800',
+};
+
+export function InvoiceDetailsDrawer({
+  invoice,
+  onClose,
+  onTakePayment,
+  onVoid,
+  onSetupInstallments,
+  onAdjust,
+}: InvoiceDetailsDrawerProps) {
+  const { printInvoice } = useBilling();
+
+  if (!invoice) return null;
+
+  const totalPaid = getTotalPaid(invoice.payments);
+  const balance = getInvoiceBalance(invoice);
+  const lineDiscounts = (invoice.invoice_items || []).reduce((sum, item) => sum + Number(item.discount || 0), 0);
+  const isVoid = invoice.status === 'void';
+  const installments = (invoice.installment_plans || [])
+    .flatMap(plan => plan.installment_items || [])
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const adjustments = [...(invoice.invoice_adjustments || [])]
+    .sort((a, b) => a.requested_at.localeCompare(b.requested_at));
+  const adjustmentTotal = Number(invoice.adjustment_total || 0);
+
+  return (
+    <Sheet open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Invoice {formatInvoiceNumber(invoice)}
+          </SheetTitle>
+          <SheetDescription>
+            {invoice.patients?.arabic_full_name} · {format(new Date(invoice.created_at), 'MMM dd, yyyy')}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          {isVoid && (
+            <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+              <div className="font-medium text-destructive">Void</div>
+              <div>{invoice.void_reason}</div>
+              {invoice.voided_at && (
+                <div className="text-muted-foreground text-xs mt-1">
+                  {format(new Date(invoice.voided_at), 'MMM dd, yyyy HH:mm')}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Lines</h4>
+            {invoice.invoice_items?.map(item => (
+              <div key={item.id} className="flex justify-between gap-4 text-sm">
+                <div>
+                  <div>{item.description}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.qty} × {formatMoney(item.unit_price, invoice.currency)}
+                    {Number(item.discount) > 0 && ` − ${formatMoney(Number(item.discount), invoice.currency)}`}
+                  </div>
+                </div>
+                <span>{formatMoney(item.line_total, invoice.currency)}</span>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{formatMoney(invoice.subtotal || invoice.total_amount, invoice.currency)}</span>
+            </div>
+            {lineDiscounts > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Line discounts</span>
+                <span>-{formatMoney(lineDiscounts, invoice.currency)}</span>
+              </div>
+            )}
+            {Number(invoice.discount_amount) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Invoice discount</span>
+                <span>-{formatMoney(invoice.discount_amount, invoice.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span>{formatMoney(invoice.total_amount, invoice.currency)}</span>
+            </div>
+            {adjustmentTotal > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credits & write-offs</span>
+                <span>-{formatMoney(adjustmentTotal, invoice.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Paid</span>
+              <span>{formatMoney(totalPaid, invoice.currency)}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Balance</span>
+              <span>{formatMoney(balance, invoice.currency)}</span>
+            </div>
+          </div>
+
+          {(invoice.payments?.length || 0) > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payments</h4>
+                {invoice.payments?.map(payment => (
+                  <div key={payment.id} className="flex justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{getPaymentMethodLabel(payment.method)}</Badge>
+                      <span className="text-muted-foreground">
+                        {payment.receipt_number && <span className="font-mono">{payment.receipt_number} · </span>}
+                        {format(new Date(payment.paid_at), 'MMM dd, HH:mm')}
+                        {payment.reference && ` · ${payment.reference}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span>{formatMoney(payment.amount, invoice.currency)}</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={() => printInvoice.mutate({
+                          invoiceId: invoice.id,
+                          kind: 'receipt',
+                          paymentId: payment.id,
+                        })}
+                        disabled={printInvoice.isPending}
+                        title="Print receipt"
+                      >
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {adjustments.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Adjustments</h4>
+                {adjustments.map(adjustment => (
+                  <div key={adjustment.id} className="flex justify-between gap-4 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span>{getAdjustmentKindLabel(adjustment.kind)}</span>
+                        <Badge className={ADJUSTMENT_STATUS_CLASSES[adjustment.status]}>{adjustment.status}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {adjustment.document_number && <span className="font-mono">{adjustment.document_number} · </span>}
+                        {getReasonLabel(adjustment.kind, adjustment.reason_code)}
+                        {adjustment.reason_note && ` · ${adjustment.reason_note}`}
+                      </div>
+                    </div>
+                    <span>-{formatMoney(adjustment.amount, invoice.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {installments.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Installments</h4>
+                {installments.map(item => {
+                  const isOverdue = !item.paid && item.due_date < today;
+                  return (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <span>{format(parseISO(item.due_date), 'MMM dd, yyyy')}</span>
+                        {item.paid ? (
+                          <Badge className="bg-green-100 text-green-800">paid</Badge>
+                        ) : isOverdue ? (
+                          <Badge className="bg-red-100 text-red-800">overdue</Badge>
+                        ) : (
+                          <Badge variant="outline">due</Badge>
+                        )}
+                      </div>
+                      <span>{formatMoney(item.amount, invoice.currency)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {invoice.notes && (
+            <>
+              <Separator />
+              <p className="text-sm text-muted-foreground">{invoice.notes}</p>
+            </>
+          )}
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => printInvoice.mutate({ invoiceId: invoice.id })}
+            disabled={printInvoice.isPending}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print Invoice
+          </Button>
+
+          {!isVoid && (
+            <div className="flex gap-2">
+              {balance > 0 && (
+                <Button className="flex-1" onClick={() => onTakePayment(invoice)}>
+                  <Banknote className="h-4 w-4 mr-2" />
+                  Take Payment
+                </Button>
+              )}
+              {balance > 0 && installments.length === 0 && onSetupInstallments && (
+                <Button variant="outline" className="flex-1" onClick={() => onSetupInstallments(invoice)}>
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Installments
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => onVoid(invoice)}
+                disabled={totalPaid !== 0}
+                title={totalPaid !== 0 ? 'Refund payments before voiding' : undefined}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Void
+              </Button>
+            </div>
+          )}
+
+          {!isVoid && onAdjust && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onAdjust(invoice, 'refund')}
+                disabled={getAdjustmentLimit('refund', invoice) <= 0}
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Refund
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onAdjust(invoice, 'credit_note')}
+                disabled={getAdjustmentLimit('credit_note', invoice) <= 0}
+              >
+                <FileMinus className="h-4 w-4 mr-2" />
+                Credit Note
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onAdjust(invoice, 'write_off')}
+                disabled={getAdjustmentLimit('write_off', invoice) <= 0}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Write-off
+              </Button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,382 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import { useBilling, procedureRowToInvoiceItem, type InvoiceItem } from '@/hooks/useBilling';
+import { usePatientsQuery } from '@/routes/Patients/usePatientsQuery';
+import { useDebounce } from '@/hooks/useDebounce';
+import { calculateInvoiceTotals, calculateLineTotal, formatMoney } from '@/lib/invoice';
+
+interface NewInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialVisitId?: string;
+}
+
+interface EditableLine extends InvoiceItem {
+  key: string;
+}
+
+const newLineKey = () => Math.random().toString(36).slice(2);
+
+export function NewInvoiceModal({ open, onOpenChange, initialVisitId }: NewInvoiceModalProps) {
+  const { useCheckoutVisits, useProcedureRowsForCheckout, createInvoice } = useBilling();
+  const { data: visits } = useCheckoutVisits();
+
+  const [source, setSource] = useState<'visit' | 'manual'>('visit');
+  const [visitId, setVisitId] = useState<string>(initialVisitId || '');
+  const [manualPatient, setManualPatient] = useState<{ id: string; arabic_full_name: string } | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [invoiceDiscount, setInvoiceDiscount] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [seededVisitId, setSeededVisitId] = useState('');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+
+  const { data: procedureRows, isLoading: rowsLoading } = useProcedureRowsForCheckout(
+    source === 'visit' ? visitId || undefined : undefined
+  );
+
+  const { data: patientsData } = usePatientsQuery({
+    filters: {
+      searchTerm: debouncedSearchTerm,
+      statuses: [],
+    },
+    page: 1,
+    pageSize: 10,
+  });
+
+  const selectedVisit = visits?.find(v => v.id === visitId);
+  const patientId = source === 'visit' ? selectedVisit?.patient_id : manualPatient?.id;
+
+  // Completed procedures are billed by default; planned ones can be ticked in.
+  // Seed once per visit so a background refetch never wipes edited lines.
+  useEffect(() => {
+    if (source !== 'visit' || !procedureRows || seededVisitId === visitId) return;
+    setLines(
+      procedureRows
+        .filter(row => row.status === 'complete')
+        .map(row => ({ ...procedureRowToInvoiceItem(row), key: row.id }))
+    );
+    setSeededVisitId(visitId);
+  }, [procedureRows, source, visitId, seededVisitId]);
+
+  useEffect(() => {
+    if (open) {
+      setVisitId(initialVisitId || '');
+      setSource('visit');
+    }
+  }, [open, initialVisitId]);
+
+  const resetForm = () => {
+    setVisitId('');
+    setSeededVisitId('');
+    setManualPatient(null);
+    setSearchTerm('');
+    setLines([]);
+    setInvoiceDiscount(0);
+    setNotes('');
+  };
+
+  const handleSourceChange = (value: string) => {
+    resetForm();
+    setSource(value as 'visit' | 'manual');
+  };
+
+  const toggleProcedureRow = (rowId: string, checked: boolean) => {
+    const row = procedureRows?.find(r => r.id === rowId);
+    if (!row) return;
+
+    setLines(prev => checked
+      ? [...prev, { ...procedureRowToInvoiceItem(row), key: row.id }]
+      : prev.filter(line => line.procedure_row_id !== rowId)
+    );
+  };
+
+  const addManualLine = () => {
+    setLines(prev => [
+      ...prev,
+      { key: newLineKey(), description: '', qty: 1, unit_price: 0, discount: 0, line_total: 0 },
+    ]);
+  };
+
+  const updateLine = (key: string, updates: Partial<EditableLine>) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+      const updated = { ...line, ...updates };
+      return { ...updated, line_total: calculateLineTotal(updated) };
+    }));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(prev => prev.filter(line => line.key !== key));
+  };
+
+  const totals = calculateInvoiceTotals(lines, invoiceDiscount);
+  const canSubmit = !!patientId && lines.length > 0 && lines.every(line => line.description.trim());
+
+  const handleSubmit = async () => {
+    if (!patientId) return;
+
+    try {
+      await createInvoice.mutateAsync({
+        visitId: source === 'visit' ? visitId : undefined,
+        patientId,
+        items: lines.map(({ key: _key, ...item }) => item),
+        discountAmount: totals.invoiceDiscount,
+        notes: notes || undefined,
+      });
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Tabs value={source} onValueChange={handleSourceChange}>
+            <TabsList>
+              <TabsTrigger value="visit">Checkout Visit</TabsTrigger>
+              <TabsTrigger value="manual">Manual Invoice</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {source === 'visit' ? (
+            <div className="space-y-3">
+              <Label>Completed Visit</Label>
+              <Select value={visitId} onValueChange={setVisitId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a completed visit to check out" />
+                </SelectTrigger>
+                <SelectContent>
+                  {visits?.map(visit => (
+                    <SelectItem key={visit.id} value={visit.id}>
+                      {visit.patients.arabic_full_name} · {format(new Date(visit.ended_at || visit.started_at), 'MMM dd, HH:mm')}
+                      {visit.providers?.display_name ? ` · ${visit.providers.display_name}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {visits?.length === 0 && (
+                <p className="text-sm text-muted-foreground">No completed visits waiting for checkout.</p>
+              )}
+
+              {visitId && (
+                rowsLoading ? (
+                  <div className="text-sm text-muted-foreground">Loading procedures...</div>
+                ) : procedureRows?.length ? (
+                  <div className="border rounded-lg divide-y">
+                    {procedureRows.map(row => {
+                      const item = procedureRowToInvoiceItem(row);
+                      return (
+                        <label key={row.id} className="flex items-center gap-3 p-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={lines.some(line => line.procedure_row_id === row.id)}
+                            onCheckedChange={(checked) => toggleProcedureRow(row.id, !!checked)}
+                          />
+                          <span className="flex-1">{item.description}</span>
+                          <Badge variant={row.status === 'complete' ? 'default' : 'secondary'}>{row.status}</Badge>
+                          <span className="w-28 text-right">{formatMoney(item.unit_price)}</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No unbilled procedures on this visit.</p>
+                )
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <Label>Patient</Label>
+              {manualPatient ? (
+                <div className="flex items-center justify-between p-3 border rounded-lg">
+                  <span className="font-medium" dir="rtl">{manualPatient.arabic_full_name}</span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setManualPatient(null)}>
+                    Change
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                    <Input
+                      placeholder="ابحث بالاسم العربي أو رقم الهاتف"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 text-right"
+                      dir="rtl"
+                    />
+                  </div>
+                  {searchTerm && (patientsData?.patients.length || 0) > 0 && (
+                    <div className="border rounded-lg max-h-48 overflow-y-auto">
+                      {patientsData?.patients.map(patient => (
+                        <div
+                          key={patient.id}
+                          className="p-3 hover:bg-muted cursor-pointer border-b last:border-b-0"
+                          onClick={() => setManualPatient(patient)}
+                        >
+                          <div className="font-medium" dir="rtl">{patient.arabic_full_name}</div>
+                          {patient.phone && (
+                            <div className="text-sm text-muted-foreground">{patient.phone}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Invoice Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addManualLine}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-20">Qty</TableHead>
+                  <TableHead className="w-28">Unit Price</TableHead>
+                  <TableHead className="w-28">Discount</TableHead>
+                  <TableHead className="w-28 text-right">Total</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      <Input
+                        value={line.description}
+                        onChange={(e) => updateLine(line.key, { description: e.target.value })}
+                        placeholder="Description"
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={line.qty}
+                        onChange={(e) => updateLine(line.key, { qty: Number(e.target.value) })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_price}
+                        onChange={(e) => updateLine(line.key, { unit_price: Number(e.target.value) })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.discount || 0}
+                        onChange={(e) => updateLine(line.key, { discount: Number(e.target.value) })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatMoney(line.line_total)}
+                    </TableCell>
+                    <TableCell>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => removeLine(line.key)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      No lines yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-notes">Notes</Label>
+              <Textarea
+                id="invoice-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional notes"
+              />
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatMoney(totals.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Line discounts</span>
+                <span>-{formatMoney(totals.lineDiscounts)}</span>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="invoice-discount" className="text-muted-foreground font-normal">
+                  Invoice discount
+                </Label>
+                <Input
+                  id="invoice-discount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={invoiceDiscount}
+                  onChange={(e) => setInvoiceDiscount(Number(e.target.value))}
+                  className="h-8 w-32 text-right"
+                />
+              </div>
+              <div className="flex justify-between border-t pt-2 text-base font-semibold">
+                <span>Total</span>
+                <span>{formatMoney(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit || createInvoice.isPending}>
+              {createInvoice.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Invoice
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlarmClock, Banknote, Loader2, PhoneCall } from 'lucide-react';
+import { useBilling, type Invoice, type OverdueInstallment } from '@/hooks/useBilling';
+import { formatInvoiceNumber, formatMoney, roundMoney } from '@/lib/invoice';
+import { AGING_BUCKETS, getAgingBucket, getDaysOverdue, type AgingBucket } from '@/lib/installments';
+
+interface OverdueInstallmentsProps {
+  onTakePayment: (invoice: Invoice, amount: number) => void;
+}
+
+const BUCKET_CLASSES: Record<AgingBucket, string> = {
+  '0-30': 'bg-amber-100 text-amber-800',
+  '31-60': 'bg-orange-100 text-orange-800',
+  '61-90': 'bg-red-100 text-red-800',
+  '90+': 'bg-red-200 text-red-900',
+};
+
+export function OverdueInstallments({ onTakePayment }: OverdueInstallmentsProps) {
+  const { useOverdueInstallments, logInstallmentReminder } = useBilling();
+  const { data: items, isLoading } = useOverdueInstallments();
+  const [bucketFilter, setBucketFilter] = useState<AgingBucket | null>(null);
+  const [remindingItem, setRemindingItem] = useState<OverdueInstallment | null>(null);
+  const [note, setNote] = useState('');
+
+  const rows = (items || []).map(item => {
+    const daysOverdue = getDaysOverdue(item.due_date);
+    return { item, daysOverdue, bucket: getAgingBucket(daysOverdue) };
+  });
+  const visibleRows = bucketFilter ? rows.filter(row => row.bucket === bucketFilter) : rows;
+
+  // Everything overdue on an invoice, so one call can collect all of it
+  const getOverdueForInvoice = (invoiceId: string) =>
+    roundMoney(rows
+      .filter(row => row.item.installment_plans.invoice_id === invoiceId)
+      .reduce((sum, row) => sum + Number(row.item.amount), 0));
+
+  const openReminder = (item: OverdueInstallment) => {
+    setNote('');
+    setRemindingItem(item);
+  };
+
+  const handleLogReminder = async () => {
+    if (!remindingItem) return;
+
+    try {
+      await logInstallmentReminder.mutateAsync({ item: remindingItem, note });
+      setRemindingItem(null);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading overdue installments...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {AGING_BUCKETS.map(bucket => {
+          const bucketRows = rows.filter(row => row.bucket === bucket.value);
+          const amount = bucketRows.reduce((sum, row) => sum + Number(row.item.amount), 0);
+          const isActive = bucketFilter === bucket.value;
+
+          return (
+            <Card
+              key={bucket.value}
+              className={`cursor-pointer transition-colors ${isActive ? 'border-primary' : 'hover:border-primary/50'}`}
+              onClick={() => setBucketFilter(isActive ? null : bucket.value)}
+            >
+              <CardHeader className="pb-2">
+                <CardDescription>{bucket.label}</CardDescription>
+                <CardTitle className="text-2xl">{formatMoney(amount, '')}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {bucketRows.length} installment{bucketRows.length === 1 ? '' : 's'}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <AlarmClock className="h-5 w-5 mr-2" />
+            Overdue Installments
+          </CardTitle>
+          <CardDescription>
+            {bucketFilter
+              ? `Showing ${AGING_BUCKETS.find(b => b.value === bucketFilter)?.label} overdue`
+              : 'Unpaid installments past their due date, oldest first'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {visibleRows.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Overdue</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Last reminded</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(({ item, daysOverdue, bucket }) => {
+                  const invoice = item.installment_plans.invoices;
+
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>{invoice.patients?.arabic_full_name}</TableCell>
+                      <TableCell>
+                        {invoice.patients?.phone && (
+                          <a href={`tel:${invoice.patients.phone}`} className="hover:underline">
+                            {invoice.patients.phone}
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">{formatInvoiceNumber(invoice)}</TableCell>
+                      <TableCell>{format(parseISO(item.due_date), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>
+                        <Badge className={BUCKET_CLASSES[bucket]}>{daysOverdue} days</Badge>
+                      </TableCell>
+                      <TableCell>{formatMoney(item.amount, invoice.currency)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {item.last_reminded_at ? (
+                          <div title={item.reminder_note || undefined}>
+                            {format(new Date(item.last_reminded_at), 'MMM dd')}
+                            {item.reminder_count > 1 && ` (${item.reminder_count}×)`}
+                          </div>
+                        ) : (
+                          'Never'
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => openReminder(item)} title="Log reminder call">
+                            <PhoneCall className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => onTakePayment(invoice, getOverdueForInvoice(invoice.id))}
+                            title="Take payment"
+                          >
+                            <Banknote className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No overdue installments.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!remindingItem} onOpenChange={(open) => !open && setRemindingItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Log Reminder</DialogTitle>
+            <DialogDescription>
+              {remindingItem && (
+                <>
+                  {remindingItem.installment_plans.invoices.patients?.arabic_full_name} ·{' '}
+                  {formatMoney(remindingItem.amount, remindingItem.installment_plans.invoices.currency)} due{' '}
+                  {format(parseISO(remindingItem.due_date), 'MMM dd, yyyy')}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reminder-note">Outcome</Label>
+            <Textarea
+              id="reminder-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Promised to pay on Thursday, no answer"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => setRemindingItem(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleLogReminder} disabled={logInstallmentReminder.isPending}>
+              {logInstallmentReminder.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Log Reminder
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useBilling } from '@/hooks/useBilling';
+import { PAYMENT_METHODS, formatMoney, type PaymentMethod } from '@/lib/invoice';
+
+interface PrepaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  patientName?: string;
+}
+
+export function PrepaymentModal({ open, onOpenChange, patientId, patientName }: PrepaymentModalProps) {
+  const { recordPrepayment } = useBilling();
+  const [amount, setAmount] = useState(0);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAmount(0);
+      setMethod('cash');
+      setReference('');
+      setNotes('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      await recordPrepayment.mutateAsync({ patientId, amount, method, reference, notes });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Prepayment</DialogTitle>
+          <DialogDescription>
+            Money taken on account{patientName && ` for ${patientName}`}. It stays as credit until applied to an invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="prepayment-amount">Amount *</Label>
+              <Input
+                id="prepayment-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="prepayment-reference">Reference</Label>
+            <Input
+              id="prepayment-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder={method === 'cash' ? 'Optional' : 'Txn / last 4 digits'}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="prepayment-notes">Notes</Label>
+            <Textarea
+              id="prepayment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Deposit for orthodontic treatment"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={amount <= 0 || recordPrepayment.isPending}>
+              {recordPrepayment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record {formatMoney(amount)}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
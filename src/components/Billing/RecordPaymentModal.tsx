@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useBilling, type Invoice, type SplitPaymentPart } from '@/hooks/useBilling';
+import { PAYMENT_METHODS, formatInvoiceNumber, formatMoney, getInvoiceBalance, roundMoney, type PaymentMethod } from '@/lib/invoice';
+
+interface RecordPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice | null;
+  defaultAmount?: number; // e.g. just the overdue installments; defaults to the full balance
+}
+
+export function RecordPaymentModal({ open, onOpenChange, invoice, defaultAmount }: RecordPaymentModalProps) {
+  const { recordPayments } = useBilling();
+  const [parts, setParts] = useState<SplitPaymentPart[]>([]);
+
+  const balance = invoice ? getInvoiceBalance(invoice) : 0;
+  const currency = invoice?.currency || 'EGP';
+  const entered = roundMoney(parts.reduce((sum, part) => sum + (Number(part.amount) || 0), 0));
+  const remaining = roundMoney(balance - entered);
+  const canSubmit = entered > 0 && remaining >= 0;
+
+  // Start with the full balance in cash; the receptionist splits from there
+  useEffect(() => {
+    if (open) {
+      const amount = defaultAmount !== undefined ? Math.min(defaultAmount, balance) : balance;
+      setParts([{ method: 'cash', amount, reference: '' }]);
+    }
+  }, [open, balance, defaultAmount]);
+
+  const updatePart = (index: number, updates: Partial<SplitPaymentPart>) => {
+    setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...updates } : part)));
+  };
+
+  const addPart = () => {
+    const used = new Set(parts.map(p => p.method));
+    const nextMethod = PAYMENT_METHODS.find(m => !used.has(m.value))?.value || 'cash';
+    setParts(prev => [...prev, { method: nextMethod, amount: Math.max(0, remaining), reference: '' }]);
+  };
+
+  const removePart = (index: number) => {
+    setParts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      await recordPayments.mutateAsync({ invoiceId: invoice.id, parts });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Payment{invoice && ` · ${formatInvoiceNumber(invoice)}`}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Balance due</span>
+            <span className="font-semibold">{formatMoney(balance, currency)}</span>
+          </div>
+
+          <div className="space-y-3">
+            {parts.map((part, index) => (
+              <div key={index} className="grid grid-cols-[8rem_1fr_1fr_auto] gap-2 items-end">
+                <div className="space-y-1">
+                  {index === 0 && <Label className="text-xs">Method</Label>}
+                  <Select
+                    value={part.method}
+                    onValueChange={(value) => updatePart(index, { method: value as PaymentMethod })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map(method => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  {index === 0 && <Label className="text-xs">Amount</Label>}
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={part.amount}
+                    onChange={(e) => updatePart(index, { amount: Number(e.target.value) })}
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  {index === 0 && <Label className="text-xs">Reference</Label>}
+                  <Input
+                    value={part.reference || ''}
+                    onChange={(e) => updatePart(index, { reference: e.target.value })}
+                    placeholder={part.method === 'cash' ? 'Optional' : 'Txn / last 4 digits'}
+                    className="h-9"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removePart(index)}
+                  disabled={parts.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button type="button" variant="outline" size="sm" onClick={addPart}>
+            <Plus className="h-4 w-4 mr-2" />
+            Split Payment
+          </Button>
+
+          <div className="flex justify-between text-sm border-t pt-3">
+            <span className="text-muted-foreground">Remaining after payment</span>
+            <span className={remaining < 0 ? 'text-destructive font-medium' : 'font-medium'}>
+              {formatMoney(remaining, currency)}
+            </span>
+          </div>
+          {remaining < 0 && (
+            <p className="text-sm text-destructive">Payments exceed the balance due.</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit || recordPayments.isPending}>
+              {recordPayments.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record {formatMoney(entered, currency)}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
+import { formatInvoiceNumber, getTotalPaid } from '@/lib/invoice';
+
+interface VoidInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice | null;
+}
+
+export function VoidInvoiceModal({ open, onOpenChange, invoice }: VoidInvoiceModalProps) {
+  const { voidInvoice } = useBilling();
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const hasPayments = getTotalPaid(invoice?.payments) !== 0;
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      await voidInvoice.mutateAsync({ invoiceId: invoice.id, reason });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Void Invoice{invoice && ` ${formatInvoiceNumber(invoice)}`}</DialogTitle>
+          <DialogDescription>
+            A void invoice stays on record but no longer counts towards the patient's balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasPayments ? (
+          <p className="text-sm text-destructive">
+            This invoice has payments recorded. Refund them before voiding.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason *</Label>
+            <Textarea
+              id="void-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Duplicate invoice, billed the wrong patient"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={hasPayments || !reason.trim() || voidInvoice.isPending}
+          >
+            {voidInvoice.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Void Invoice
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
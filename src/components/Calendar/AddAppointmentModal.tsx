@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,12 +7,28 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { format, addMinutes } from 'date-fns';
-import { Calendar, Clock, Search, Plus, User, Phone } from 'lucide-react';
-import { useCreateAppointment, useProviders, useRooms, useCheckProviderConflict } from '@/hooks/useCalendarData';
+import { format, addMinutes, addMonths } from 'date-fns';
+import { Calendar, Clock, Search, Plus, User, Phone, Repeat, CheckCircle, AlertCircle } from 'lucide-react';
+import { useCreateAppointment, useProviders, useRooms } from '@/hooks/useCalendarData';
+import { useOverbookingCheck } from '@/hooks/useOverbookingPolicy';
+import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
+import { useAppointmentSeries, type OccurrenceCheck } from '@/hooks/useAppointmentSeries';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import { formatDuration } from '@/lib/appointmentTypes';
+import SlotFinder from './SlotFinder';
+import {
+  describeRecurrence,
+  generateOccurrences,
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAYS,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+import type { SlotCandidate } from '@/lib/slotFinder';
 import { usePatientsQuery, useCreatePatientMutation } from '@/routes/Patients/usePatientsQuery';
 import { useAppStore } from '@/store/appStore';
 import { useToast } from '@/hooks/use-toast';
@@ -21,6 +38,7 @@ const appointmentSchema = z.object({
   patient_id: z.string().min(1, 'Patient is required'),
   provider_id: z.string().optional(),
   room_id: z.string().optional(),
+  appointment_type_id: z.string().optional(),
   starts_at: z.string().min(1, 'Start time is required'),
   ends_at: z.string().min(1, 'End time is required'),
   status: z.string().min(1, 'Status is required'),
@@ -36,8 +54,21 @@ interface AddAppointmentModalProps {
   selectedTime?: string;
   selectedProvider?: string;
   selectedRoom?: string;
+  // Prefill when booking from a treatment plan
+  defaultPatient?: { id: string; arabic_full_name: string; phone?: string | null };
+  defaultAppointmentTypeId?: string;
+  defaultDurationMinutes?: number;
+  defaultNotes?: string;
 }
 
+const defaultRecurrence: RecurrenceRule = {
+  frequency: 'weekly',
+  interval: 4,
+  weekday: null,
+  count: 6,
+  until: null,
+};
+
 const statusOptions = [
   { value: 'planned', label: 'Planned' },
   { value: 'confirmed', label: 'Confirmed' },
@@ -51,6 +82,10 @@ export default function AddAppointmentModal({
   selectedTime,
   selectedProvider,
   selectedRoom,
+  defaultPatient,
+  defaultAppointmentTypeId,
+  defaultDurationMinutes,
+  defaultNotes,
 }: AddAppointmentModalProps) {
   const { toast } = useToast();
   const { currentClinic } = useAppStore();
@@ -58,12 +93,18 @@ export default function AddAppointmentModal({
   const [showCreatePatient, setShowCreatePatient] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState<any>(null);
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const [repeat, setRepeat] = useState(false);
+  const [showSlotFinder, setShowSlotFinder] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(defaultRecurrence);
+  const [overbookReason, setOverbookReason] = useState('');
 
   const { data: providers = [] } = useProviders();
   const { data: rooms = [] } = useRooms();
   const createAppointmentMutation = useCreateAppointment();
   const createPatientMutation = useCreatePatientMutation();
-  const checkConflictMutation = useCheckProviderConflict();
+  const { checkOccurrences, createSeries } = useAppointmentSeries();
+  const { isTimeSlotAvailable, validateAndNotify } = useAvailabilityValidation();
+  const { activeTypes, getType } = useAppointmentTypes();
 
   // Search patients
   const { data: patientsData } = usePatientsQuery({
@@ -94,6 +135,9 @@ export default function AddAppointmentModal({
   const watchedProviderId = watch('provider_id');
   const watchedStartTime = watch('starts_at');
   const watchedEndTime = watch('ends_at');
+  const watchedRoomId = watch('room_id');
+  const watchedStatus = watch('status');
+  const watchedTypeId = watch('appointment_type_id');
 
   // Set default values when modal opens
   useEffect(() => {
@@ -102,7 +146,8 @@ export default function AddAppointmentModal({
         ? `${format(selectedDate, 'yyyy-MM-dd')}T${selectedTime}`
         : `${format(selectedDate, 'yyyy-MM-dd')}T09:00`;
       
-      const endTime = `${format(selectedDate, 'yyyy-MM-dd')}T${format(addMinutes(new Date(`2000-01-01T${selectedTime || '09:00'}`), 30), 'HH:mm')}`;
+      const duration = defaultDurationMinutes || 30;
+      const endTime = format(addMinutes(new Date(startTime), duration), "yyyy-MM-dd'T'HH:mm");
 
       setValue('starts_at', startTime);
       setValue('ends_at', endTime);
@@ -114,18 +159,94 @@ export default function AddAppointmentModal({
         setValue('room_id', selectedRoom);
       }
     }
-  }, [isOpen, selectedDate, selectedTime, selectedProvider, selectedRoom, setValue]);
+  }, [isOpen, selectedDate, selectedTime, selectedProvider, selectedRoom, defaultDurationMinutes, setValue]);
 
-  // Check for provider conflicts
   useEffect(() => {
-    if (watchedProviderId && watchedStartTime && watchedEndTime) {
-      checkConflictMutation.mutate({
-        providerId: watchedProviderId,
-        startTime: watchedStartTime,
-        endTime: watchedEndTime,
-      });
+    if (!isOpen) return;
+
+    if (defaultPatient) {
+      setSelectedPatient(defaultPatient);
+    }
+    if (defaultAppointmentTypeId) {
+      setValue('appointment_type_id', defaultAppointmentTypeId);
+    }
+    if (defaultNotes) {
+      setValue('notes', defaultNotes);
     }
-  }, [watchedProviderId, watchedStartTime, watchedEndTime]);
+  }, [isOpen, defaultPatient, defaultAppointmentTypeId, defaultNotes, setValue]);
+
+  // A type's default length replaces the current one; the start time stays
+  const handleTypeChange = (typeId: string | undefined) => {
+    setValue('appointment_type_id', typeId);
+
+    const type = getType(typeId);
+    if (type && watchedStartTime) {
+      setValue('ends_at', format(addMinutes(new Date(watchedStartTime), type.default_duration_minutes), "yyyy-MM-dd'T'HH:mm"));
+    }
+  };
+
+  // Check the booking against the clinic's overbooking policy
+  const { data: overbooking } = useOverbookingCheck(
+    !repeat && watchedStartTime && watchedEndTime
+      ? {
+          providerId: watchedProviderId,
+          roomId: watchedRoomId,
+          startTime: new Date(watchedStartTime).toISOString(),
+          endTime: new Date(watchedEndTime).toISOString(),
+        }
+      : null
+  );
+  const needsOverbook = !!overbooking && !overbooking.withinPolicy;
+
+  // A single booking must fall within clinic, room and provider hours; series dates are checked one by one below
+  const slotUnavailable = !repeat && !!watchedStartTime && !!watchedEndTime && !isTimeSlotAvailable(
+    new Date(watchedStartTime),
+    new Date(watchedEndTime),
+    watchedRoomId || undefined,
+    watchedProviderId || undefined
+  );
+
+  // Preview the series dates and check each one against hours, closures and the provider's bookings
+  const occurrences = useMemo(() => {
+    if (!repeat || !watchedStartTime || !watchedEndTime) return [];
+
+    const firstStart = new Date(watchedStartTime);
+    const duration = Math.round((new Date(watchedEndTime).getTime() - firstStart.getTime()) / 60000);
+    if (isNaN(duration) || duration <= 0) return [];
+
+    return generateOccurrences(firstStart, duration, recurrence);
+  }, [repeat, recurrence, watchedStartTime, watchedEndTime]);
+
+  const { data: occurrenceChecks = [], isFetching: isCheckingOccurrences } = useQuery<OccurrenceCheck[]>({
+    queryKey: [
+      'series-preview',
+      occurrences.map(o => o.start.toISOString()),
+      occurrences[0]?.end.toISOString(),
+      watchedProviderId,
+      watchedRoomId,
+    ],
+    queryFn: () => checkOccurrences(occurrences, { providerId: watchedProviderId, roomId: watchedRoomId }),
+    enabled: occurrences.length > 0,
+    staleTime: 0,
+  });
+
+  const bookableOccurrences = occurrenceChecks.filter(check => !check.issue);
+
+  const durationMinutes = watchedStartTime && watchedEndTime
+    ? Math.round((new Date(watchedEndTime).getTime() - new Date(watchedStartTime).getTime()) / 60000)
+    : 30;
+
+  const handleSlotSelect = (candidate: SlotCandidate) => {
+    setValue('starts_at', format(candidate.start, "yyyy-MM-dd'T'HH:mm"));
+    setValue('ends_at', format(candidate.end, "yyyy-MM-dd'T'HH:mm"));
+    setValue('provider_id', candidate.providerId || undefined);
+    setValue('room_id', candidate.roomId || undefined);
+    setShowSlotFinder(false);
+  };
+
+  const updateRecurrence = (updates: Partial<RecurrenceRule>) => {
+    setRecurrence(prev => ({ ...prev, ...updates }));
+  };
 
   // Auto-fill room when provider has a default room
   useEffect(() => {
@@ -155,16 +276,50 @@ export default function AddAppointmentModal({
       return;
     }
 
+    if (repeat) {
+      const firstStart = new Date(data.starts_at);
+      try {
+        await createSeries.mutateAsync({
+          patientId: selectedPatient.id,
+          providerId: data.provider_id,
+          roomId: data.room_id,
+          appointmentTypeId: data.appointment_type_id,
+          firstStart,
+          durationMinutes: Math.round((new Date(data.ends_at).getTime() - firstStart.getTime()) / 60000),
+          rule: recurrence,
+          status: data.status === 'confirmed' ? 'confirmed' : 'planned',
+          notes: data.notes,
+          occurrences: bookableOccurrences,
+        });
+        handleClose();
+      } catch (error) {
+        // Error handled by the mutation
+      }
+      return;
+    }
+
+    if (!validateAndNotify(
+      new Date(data.starts_at),
+      new Date(data.ends_at),
+      data.room_id || undefined,
+      data.provider_id || undefined
+    )) {
+      return;
+    }
+
     try {
       await createAppointmentMutation.mutateAsync({
         patient_id: selectedPatient.id,
         clinic_id: currentClinic.id,
         provider_id: data.provider_id,
         room_id: data.room_id,
+        appointment_type_id: data.appointment_type_id,
         starts_at: data.starts_at,
         ends_at: data.ends_at,
         status: data.status as 'planned' | 'confirmed' | 'arrived' | 'ready' | 'in_chair' | 'completed' | 'cancelled' | 'no_show',
         notes: data.notes,
+        overbook: needsOverbook,
+        overbook_reason: needsOverbook ? overbookReason.trim() : null,
       });
 
       toast({
@@ -177,10 +332,11 @@ export default function AddAppointmentModal({
       setSelectedPatient(null);
       setSearchTerm('');
       setShowCreatePatient(false);
+      setOverbookReason('');
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create appointment",
+        description: (error as Error).message || "Failed to create appointment",
         variant: "destructive",
       });
     }
@@ -221,6 +377,10 @@ export default function AddAppointmentModal({
     setSelectedPatient(null);
     setSearchTerm('');
     setShowCreatePatient(false);
+    setRepeat(false);
+    setRecurrence(defaultRecurrence);
+    setShowSlotFinder(false);
+    setOverbookReason('');
   };
 
   return (
@@ -310,7 +470,50 @@ export default function AddAppointmentModal({
             )}
           </div>
 
+          {/* Appointment Type */}
+          {activeTypes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Appointment Type</Label>
+              <Select
+                value={watchedTypeId ?? 'none'}
+                onValueChange={(v) => handleTypeChange(v === 'none' ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No Type</SelectItem>
+                  {activeTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: type.color }} />
+                      {type.name}
+                      <span className="text-muted-foreground ml-1">({formatDuration(type.default_duration_minutes)})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Date and Time */}
+          <div className="flex items-center justify-between">
+            <Label>Date and Time</Label>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowSlotFinder(!showSlotFinder)}>
+              <Search className="h-4 w-4 mr-1" />
+              {showSlotFinder ? 'Hide slot finder' : 'Find next available'}
+            </Button>
+          </div>
+
+          {showSlotFinder && (
+            <SlotFinder
+              durationMinutes={durationMinutes}
+              providerId={watchedProviderId}
+              roomId={watchedRoomId}
+              earliestDate={watchedStartTime ? new Date(watchedStartTime) : undefined}
+              onSelect={handleSlotSelect}
+            />
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="starts_at">Start Time *</Label>
@@ -349,6 +552,165 @@ export default function AddAppointmentModal({
             </div>
           </div>
 
+          {/* Recurrence */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="repeat" className="flex items-center gap-2">
+                <Repeat className="h-4 w-4" />
+                Repeat
+              </Label>
+              <Switch
+                id="repeat"
+                checked={repeat}
+                onCheckedChange={(checked) => {
+                  setRepeat(checked);
+                  if (checked && watchedStatus === 'arrived') setValue('status', 'planned');
+                }}
+              />
+            </div>
+
+            {repeat && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Every</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="52"
+                      value={recurrence.interval}
+                      onChange={(e) => updateRecurrence({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>&nbsp;</Label>
+                    <Select
+                      value={recurrence.frequency}
+                      onValueChange={(v) => updateRecurrence({ frequency: v as RecurrenceRule['frequency'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECURRENCE_FREQUENCIES.map(frequency => (
+                          <SelectItem key={frequency.value} value={frequency.value}>
+                            {frequency.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>On</Label>
+                    <Select
+                      value={recurrence.weekday === null || recurrence.weekday === undefined ? 'same' : String(recurrence.weekday)}
+                      onValueChange={(v) => updateRecurrence({ weekday: v === 'same' ? null : Number(v) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="same">
+                          {recurrence.frequency === 'weekly' ? 'Same weekday' : 'Same date'}
+                        </SelectItem>
+                        {WEEKDAYS.map((weekday, index) => (
+                          <SelectItem key={weekday} value={String(index)}>
+                            {weekday}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Ends</Label>
+                    <Select
+                      value={recurrence.until ? 'until' : 'count'}
+                      onValueChange={(v) => updateRecurrence(
+                        v === 'until'
+                          ? { count: null, until: format(addMonths(new Date(), 6), 'yyyy-MM-dd') }
+                          : { count: 6, until: null }
+                      )}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">After a number of visits</SelectItem>
+                        <SelectItem value="until">On a date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>{recurrence.until ? 'End date' : 'Visits'}</Label>
+                    {recurrence.until ? (
+                      <Input
+                        type="date"
+                        value={recurrence.until}
+                        onChange={(e) => updateRecurrence({ until: e.target.value || null })}
+                      />
+                    ) : (
+                      <Input
+                        type="number"
+                        min="2"
+                        max={MAX_SERIES_OCCURRENCES}
+                        value={recurrence.count ?? ''}
+                        onChange={(e) => updateRecurrence({
+                          count: Math.min(MAX_SERIES_OCCURRENCES, Math.max(1, Number(e.target.value) || 1)),
+                        })}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {watchedStartTime && (
+                  <p className="text-sm text-muted-foreground">
+                    {describeRecurrence(recurrence, new Date(watchedStartTime))}
+                  </p>
+                )}
+
+                {/* Preview */}
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">Dates</span>
+                    <span className="text-muted-foreground">
+                      {isCheckingOccurrences
+                        ? 'Checking availability...'
+                        : `${bookableOccurrences.length} of ${occurrenceChecks.length} can be booked`}
+                    </span>
+                  </div>
+                  <div className="border rounded-lg max-h-48 overflow-y-auto divide-y">
+                    {occurrenceChecks.map(check => (
+                      <div key={check.index} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                        <span className={check.issue ? 'text-muted-foreground line-through' : undefined}>
+                          {format(check.start, 'EEE, MMM d, yyyy · HH:mm')}
+                        </span>
+                        {check.issue ? (
+                          <span className="flex items-center gap-1 text-destructive text-xs">
+                            <AlertCircle className="h-3 w-3" />
+                            {check.issue}
+                          </span>
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        )}
+                      </div>
+                    ))}
+                    {occurrenceChecks.length === 0 && !isCheckingOccurrences && (
+                      <div className="px-3 py-2 text-sm text-muted-foreground">No dates match this rule</div>
+                    )}
+                  </div>
+                  {occurrenceChecks.length > bookableOccurrences.length && (
+                    <p className="text-xs text-muted-foreground">
+                      Dates that fail are skipped; book them separately once a slot is free.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Provider and Room */}
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -375,13 +737,6 @@ export default function AddAppointmentModal({
                   </Select>
                 )}
               />
-              {checkConflictMutation.data && (
-                <div className="flex items-center gap-2">
-                  <Badge variant="destructive" className="text-xs">
-                    ⚠️ Provider Conflict Detected
-                  </Badge>
-                </div>
-              )}
             </div>
 
             <div className="space-y-2">
@@ -420,7 +775,7 @@ export default function AddAppointmentModal({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {statusOptions.map((status) => (
+                    {statusOptions.filter(status => !repeat || status.value !== 'arrived').map((status) => (
                       <SelectItem key={status.value} value={status.value}>
                         {status.label}
                       </SelectItem>
@@ -450,6 +805,36 @@ export default function AddAppointmentModal({
             />
           </div>
 
+          {/* Overbooking */}
+          {needsOverbook && (
+            <div className="space-y-2 p-3 border border-destructive/50 rounded-lg bg-destructive/5">
+              <div className="flex items-center gap-2">
+                <Badge variant="destructive" className="text-xs">Overbooking</Badge>
+                <span className="text-sm">{overbooking.message}.</span>
+              </div>
+              {overbooking.canOverride ? (
+                <Textarea
+                  placeholder="Overbook reason (required)"
+                  value={overbookReason}
+                  onChange={(e) => setOverbookReason(e.target.value)}
+                  rows={2}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Your role cannot approve overbooking. Pick another time, provider or room.
+                </p>
+              )}
+            </div>
+          )}
+
+          {slotUnavailable && (
+            <p className="text-sm text-destructive">
+              {watchedProviderId
+                ? 'This time is outside clinic, room or provider hours.'
+                : 'This time is outside clinic or room hours.'}
+            </p>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-3">
             <Button type="button" variant="outline" onClick={handleClose}>
@@ -457,9 +842,20 @@ export default function AddAppointmentModal({
             </Button>
             <Button 
               type="submit" 
-              disabled={isSubmitting || !selectedPatient || createAppointmentMutation.isPending}
+              disabled={
+                isSubmitting ||
+                !selectedPatient ||
+                createAppointmentMutation.isPending ||
+                slotUnavailable ||
+                (needsOverbook && (!overbooking.canOverride || !overbookReason.trim())) ||
+                (repeat && (isCheckingOccurrences || bookableOccurrences.length === 0))
+              }
             >
-              {isSubmitting ? 'Creating...' : 'Create Appointment'}
+              {isSubmitting
+                ? 'Creating...'
+                : repeat
+                  ? `Book ${bookableOccurrences.length} Appointments`
+                  : 'Create Appointment'}
             </Button>
           </div>
         </form>
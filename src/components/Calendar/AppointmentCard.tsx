@@ -56,6 +56,8 @@ export default function AppointmentCard({
         compact ? "p-2" : "p-3",
         className
       )}
+      // The appointment type's color marks the card edge when it has one
+      style={appointment.appointment_types ? { borderLeftColor: appointment.appointment_types.color } : undefined}
       onClick={onClick}
     >
       {/* Header */}
@@ -80,6 +82,19 @@ export default function AppointmentCard({
         </Badge>
       </div>
 
+      {/* Appointment Type */}
+      {appointment.appointment_types && (
+        <div className="flex items-center gap-2 mb-1.5">
+          <span
+            className="h-2.5 w-2.5 rounded-full shrink-0"
+            style={{ backgroundColor: appointment.appointment_types.color }}
+          />
+          <span className="text-xs font-medium text-muted-foreground truncate">
+            {appointment.appointment_types.name}
+          </span>
+        </div>
+      )}
+
       {/* Patient Info */}
       <div className="space-y-1.5">
         <div className="flex items-center gap-2">
@@ -30,16 +30,30 @@ import {
   Save,
   X,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Repeat,
+  Ban
 } from 'lucide-react';
 import { CalendarAppointment, useUpdateAppointment, useDeleteAppointment, useProviders, useRooms } from '@/hooks/useCalendarData';
+import { useAppointmentSeries, getSeriesRule, type SeriesUpdate } from '@/hooks/useAppointmentSeries';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import { describeRecurrence, type SeriesScope } from '@/lib/recurrence';
+import { useStatusHistory } from '@/hooks/useAppointmentStatus';
+import {
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_TRANSITIONS,
+  NEXT_STATUS,
+  type AppointmentStatus,
+} from '@/lib/appointmentStatus';
 import { getStatusColor } from './AppointmentCard';
+import SeriesScopeDialog from './SeriesScopeDialog';
 import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
 const updateAppointmentSchema = z.object({
   provider_id: z.string().optional(),
   room_id: z.string().optional(),
+  appointment_type_id: z.string().optional(),
   starts_at: z.string().min(1, 'Start time is required'),
   ends_at: z.string().min(1, 'End time is required'),
   status: z.enum(['planned', 'confirmed', 'arrived', 'ready', 'in_chair', 'completed', 'no_show', 'cancelled']),
@@ -48,22 +62,22 @@ const updateAppointmentSchema = z.object({
 
 type UpdateAppointmentFormData = z.infer<typeof updateAppointmentSchema>;
 
+// History rows also hold 'discharged', which is not an appointment status
+const formatStatus = (status: string) =>
+  APPOINTMENT_STATUS_LABELS[status as AppointmentStatus] || status.replace('_', ' ');
+
 interface AppointmentDetailsDrawerProps {
   appointment: CalendarAppointment | null;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const statusOptions = [
-  { value: 'planned', label: 'Planned' },
-  { value: 'confirmed', label: 'Confirmed' },
-  { value: 'arrived', label: 'Arrived' },
-  { value: 'ready', label: 'Ready' },
-  { value: 'in_chair', label: 'In Chair' },
-  { value: 'completed', label: 'Completed' },
-  { value: 'cancelled', label: 'Cancelled' },
-  { value: 'no_show', label: 'No Show' },
-];
+// The current status plus the moves the status machine allows from it
+const getStatusOptions = (current: AppointmentStatus) =>
+  [current, ...APPOINTMENT_TRANSITIONS[current]].map(value => ({
+    value,
+    label: APPOINTMENT_STATUS_LABELS[value],
+  }));
 
 export default function AppointmentDetailsDrawer({
   appointment,
@@ -77,6 +91,13 @@ export default function AppointmentDetailsDrawer({
   const { data: rooms = [] } = useRooms();
   const updateAppointmentMutation = useUpdateAppointment();
   const deleteAppointmentMutation = useDeleteAppointment();
+  const { useSeries, updateOccurrences, cancelOccurrences } = useAppointmentSeries();
+  const { data: series } = useSeries(appointment?.series_id);
+  const { activeTypes } = useAppointmentTypes();
+  const { data: statusHistory = [] } = useStatusHistory(appointment?.id);
+  // Series edits and cancellations ask which occurrences they apply to first
+  const [scopeAction, setScopeAction] = useState<'edit' | 'cancel' | null>(null);
+  const [pendingEdit, setPendingEdit] = useState<UpdateAppointmentFormData | null>(null);
 
   const {
     control,
@@ -93,6 +114,7 @@ export default function AppointmentDetailsDrawer({
       reset({
         provider_id: appointment.provider_id || '',
         room_id: appointment.room_id || '',
+        appointment_type_id: appointment.appointment_type_id || undefined,
         starts_at: format(new Date(appointment.starts_at), "yyyy-MM-dd'T'HH:mm"),
         ends_at: format(new Date(appointment.ends_at), "yyyy-MM-dd'T'HH:mm"),
         status: appointment.status,
@@ -104,12 +126,19 @@ export default function AppointmentDetailsDrawer({
   const onSubmit = async (data: UpdateAppointmentFormData) => {
     if (!appointment) return;
 
+    if (appointment.series_id) {
+      setPendingEdit(data);
+      setScopeAction('edit');
+      return;
+    }
+
     try {
       await updateAppointmentMutation.mutateAsync({
         id: appointment.id,
         updates: {
           provider_id: data.provider_id || null,
           room_id: data.room_id || null,
+          appointment_type_id: data.appointment_type_id || null,
           starts_at: data.starts_at,
           ends_at: data.ends_at,
           status: data.status,
@@ -126,12 +155,40 @@ export default function AppointmentDetailsDrawer({
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update appointment",
+        description: error instanceof Error ? error.message : "Failed to update appointment",
         variant: "destructive",
       });
     }
   };
 
+  const handleScopeConfirm = async (scope: SeriesScope) => {
+    if (!appointment) return;
+
+    try {
+      if (scopeAction === 'edit' && pendingEdit) {
+        // Only what was changed is copied to the other occurrences
+        const updates: SeriesUpdate = { starts_at: pendingEdit.starts_at, ends_at: pendingEdit.ends_at };
+        if ((pendingEdit.provider_id || null) !== appointment.provider_id) updates.provider_id = pendingEdit.provider_id || null;
+        if ((pendingEdit.room_id || null) !== appointment.room_id) updates.room_id = pendingEdit.room_id || null;
+        if ((pendingEdit.appointment_type_id || null) !== appointment.appointment_type_id) {
+          updates.appointment_type_id = pendingEdit.appointment_type_id || null;
+        }
+        if (pendingEdit.status !== appointment.status) updates.status = pendingEdit.status;
+        if ((pendingEdit.notes || null) !== appointment.notes) updates.notes = pendingEdit.notes || null;
+
+        await updateOccurrences.mutateAsync({ appointment, scope, updates });
+        setIsEditing(false);
+      } else if (scopeAction === 'cancel') {
+        await cancelOccurrences.mutateAsync({ appointment, scope });
+        onClose();
+      }
+      setScopeAction(null);
+      setPendingEdit(null);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
   const handleDelete = async () => {
     if (!appointment) return;
 
@@ -164,35 +221,21 @@ export default function AppointmentDetailsDrawer({
 
       toast({
         title: "Success",
-        description: `Status updated to ${newStatus}`,
+        description: `Status updated to ${APPOINTMENT_STATUS_LABELS[newStatus]}`,
       });
     } catch (error) {
       toast({
         title: "Error", 
-        description: "Failed to update status",
+        description: error instanceof Error ? error.message : "Failed to update status",
         variant: "destructive",
       });
     }
   };
 
-  const getNextStatus = (currentStatus: CalendarAppointment['status']): CalendarAppointment['status'] | null => {
-    const statusFlow: Record<CalendarAppointment['status'], CalendarAppointment['status']> = {
-      planned: 'confirmed',
-      confirmed: 'arrived',
-      arrived: 'ready',
-      ready: 'in_chair',
-      in_chair: 'completed',
-      completed: 'completed', // No next status
-      cancelled: 'cancelled', // No next status
-      no_show: 'no_show', // No next status
-    };
-    
-    const nextStatus = statusFlow[currentStatus];
-    return nextStatus === currentStatus ? null : nextStatus;
-  };
-
   if (!appointment) return null;
 
+  const nextStatus = NEXT_STATUS[appointment.status];
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
@@ -243,18 +286,33 @@ export default function AppointmentDetailsDrawer({
               <Badge className={getStatusColor(appointment.status)}>
                 {appointment.status.replace('_', ' ').toUpperCase()}
               </Badge>
-              {getNextStatus(appointment.status) && (
+              {nextStatus && (
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleStatusChange(getNextStatus(appointment.status)!)}
+                  onClick={() => handleStatusChange(nextStatus)}
                   disabled={updateAppointmentMutation.isPending}
                 >
                   <CheckCircle className="h-4 w-4 mr-1" />
-                  Mark {getNextStatus(appointment.status)?.replace('_', ' ')}
+                  Mark {APPOINTMENT_STATUS_LABELS[nextStatus].toLowerCase()}
                 </Button>
               )}
             </div>
+            {statusHistory.length > 0 && (
+              <div className="space-y-1">
+                {statusHistory.map(transition => (
+                  <div key={transition.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {transition.from_status
+                        ? `${formatStatus(transition.from_status)} → ${formatStatus(transition.to_status)}`
+                        : `Booked as ${formatStatus(transition.to_status)}`}
+                      {transition.profiles?.full_name && ` · ${transition.profiles.full_name}`}
+                    </span>
+                    <span>{format(new Date(transition.changed_at), 'MMM d, h:mm a')}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <Separator />
@@ -356,6 +414,37 @@ export default function AppointmentDetailsDrawer({
                 />
               </div>
 
+              {/* Appointment Type */}
+              <div className="space-y-2">
+                <Label>Appointment Type</Label>
+                <Controller
+                  name="appointment_type_id"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value ?? 'none'} onValueChange={(v) => field.onChange(v === 'none' ? undefined : v)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select Type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No Type</SelectItem>
+                        {/* Keep a since-deactivated type selectable on the appointments that use it */}
+                        {appointment.appointment_types && !activeTypes.some(t => t.id === appointment.appointment_types!.id) && (
+                          <SelectItem value={appointment.appointment_types.id}>
+                            {appointment.appointment_types.name}
+                          </SelectItem>
+                        )}
+                        {activeTypes.map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: type.color }} />
+                            {type.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+
               {/* Status */}
               <div className="space-y-2">
                 <Label>Status</Label>
@@ -368,7 +457,7 @@ export default function AppointmentDetailsDrawer({
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {statusOptions.map((status) => (
+                        {getStatusOptions(appointment.status).map((status) => (
                           <SelectItem key={status.value} value={status.value}>
                             {status.label}
                           </SelectItem>
@@ -433,6 +522,17 @@ export default function AppointmentDetailsDrawer({
                 </span>
               </div>
 
+              {/* Appointment Type */}
+              {appointment.appointment_types && (
+                <div className="flex items-center gap-3">
+                  <span
+                    className="h-4 w-4 rounded-full"
+                    style={{ backgroundColor: appointment.appointment_types.color }}
+                  />
+                  <span className="text-sm">{appointment.appointment_types.name}</span>
+                </div>
+              )}
+
               {/* Provider */}
               {appointment.providers && (
                 <div className="flex items-center gap-3">
@@ -454,6 +554,21 @@ export default function AppointmentDetailsDrawer({
                 </div>
               )}
 
+              {/* Series */}
+              {series && (
+                <div className="flex items-center gap-3">
+                  <Repeat className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm">
+                    {describeRecurrence(getSeriesRule(series), new Date(series.first_starts_at))}
+                    {appointment.series_index !== null && (
+                      <span className="text-muted-foreground ml-1">
+                        · visit {appointment.series_index + 1} of {series.occurrence_count || series.appointments.length}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
+
               {/* Notes */}
               {appointment.notes && (
                 <div className="space-y-2">
@@ -473,6 +588,13 @@ export default function AppointmentDetailsDrawer({
                   <Edit className="h-4 w-4 mr-1" />
                   Edit
                 </Button>
+
+                {appointment.series_id && ['planned', 'confirmed'].includes(appointment.status) && (
+                  <Button size="sm" variant="outline" onClick={() => setScopeAction('cancel')}>
+                    <Ban className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
                 
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -504,6 +626,19 @@ export default function AppointmentDetailsDrawer({
           )}
         </div>
       </SheetContent>
+
+      <SeriesScopeDialog
+        open={!!scopeAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setScopeAction(null);
+            setPendingEdit(null);
+          }
+        }}
+        action={scopeAction || 'edit'}
+        onConfirm={handleScopeConfirm}
+        isPending={updateOccurrences.isPending || cancelOccurrences.isPending}
+      />
     </Sheet>
   );
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Link2, Loader2, RefreshCw, Unlink } from 'lucide-react';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+import { useProviders } from '@/hooks/useCalendarData';
+import { getCalendarFeedUrl, useCalendarFeeds } from '@/hooks/useCalendarFeeds';
+
+interface CalendarFeedDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CalendarFeedDialog({ isOpen, onClose }: CalendarFeedDialogProps) {
+  const { profile } = useAppStore();
+  const { toast } = useToast();
+  const { data: providers = [] } = useProviders();
+  const { getFeed, createFeed, revokeFeed } = useCalendarFeeds();
+
+  // Providers subscribe to their own calendar; admins can set one up for anyone
+  const isAdmin = profile?.role === 'admin';
+  const availableProviders = isAdmin ? providers : providers.filter(p => p.user_id === profile?.user_id);
+  const [pickedProviderId, setPickedProviderId] = useState('');
+  const providerId = pickedProviderId || availableProviders[0]?.id || '';
+  const feed = providerId ? getFeed(providerId) : undefined;
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : '';
+
+  const copyFeedUrl = () => {
+    navigator.clipboard.writeText(feedUrl);
+    toast({
+      title: 'Feed link copied',
+      description: 'Add it as a subscribed calendar on your phone.',
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createFeed.mutateAsync(providerId);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Calendar Subscription
+          </DialogTitle>
+          <DialogDescription>
+            A private link your phone calendar keeps in sync. Appointments show patient
+            initials and the appointment type only.
+          </DialogDescription>
+        </DialogHeader>
+
+        {availableProviders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your account is not linked to a provider in this clinic.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Provider</Label>
+              <Select value={providerId} onValueChange={setPickedProviderId} disabled={availableProviders.length === 1}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProviders.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {feed ? (
+              <div className="space-y-2">
+                <Label>Feed link</Label>
+                <div className="flex gap-2">
+                  <Input value={feedUrl} readOnly className="text-xs font-mono" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="sm" onClick={copyFeedUrl} title="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Created {format(new Date(feed.created_at), 'MMM d, yyyy')}
+                  {feed.last_accessed_at && ` · last synced ${format(new Date(feed.last_accessed_at), 'MMM d, HH:mm')}`}
+                </p>
+                <div className="flex justify-end gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeFeed.mutate(providerId)}
+                    disabled={revokeFeed.isPending || createFeed.isPending}
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCreate}
+                    disabled={revokeFeed.isPending || createFeed.isPending}
+                  >
+                    {createFeed.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                    )}
+                    New Link
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={handleCreate} disabled={!providerId || createFeed.isPending}>
+                {createFeed.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Feed Link
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,30 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, Filter, X } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Columns3, Download, Filter, Link2, Palette, X } from 'lucide-react';
 import { useProviders, useRooms } from '@/hooks/useCalendarData';
 import { CalendarFilters } from '@/hooks/useCalendarData';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import type { CalendarResourceMode } from '@/lib/calendarResources';
 
 interface CalendarFiltersProps {
   filters: CalendarFilters;
   onFiltersChange: (filters: CalendarFilters) => void;
-  onExport: (type: 'csv' | 'pdf') => void;
+  onExport: (type: 'csv' | 'pdf' | 'ics') => void;
+  // Day view resource columns
+  resourceMode?: CalendarResourceMode | null;
+  onResourceModeChange?: (mode: CalendarResourceMode | null) => void;
+  hiddenResourceIds?: string[];
+  onHiddenResourceIdsChange?: (ids: string[]) => void;
+  colorBy?: CalendarColorBy;
+  onColorByChange?: (colorBy: CalendarColorBy) => void;
+  onSubscribe?: () => void;
 }
 
+export type CalendarColorBy = 'provider' | 'type';
+
 const statusOptions = [
   { value: 'planned', label: 'Planned' },
   { value: 'confirmed', label: 'Confirmed' },
@@ -22,9 +36,33 @@ const statusOptions = [
   { value: 'no_show', label: 'No Show' },
 ];
 
-export default function CalendarFiltersComponent({ filters, onFiltersChange, onExport }: CalendarFiltersProps) {
+export default function CalendarFiltersComponent({
+  filters,
+  onFiltersChange,
+  onExport,
+  resourceMode,
+  onResourceModeChange,
+  hiddenResourceIds = [],
+  onHiddenResourceIdsChange,
+  colorBy = 'provider',
+  onColorByChange,
+  onSubscribe,
+}: CalendarFiltersProps) {
   const { data: providers = [] } = useProviders();
   const { data: rooms = [] } = useRooms();
+  const { appointmentTypes } = useAppointmentTypes();
+
+  const resourceOptions = resourceMode === 'room'
+    ? rooms.map(room => ({ id: room.id, title: room.name }))
+    : resourceMode === 'provider'
+      ? providers.map(provider => ({ id: provider.id, title: provider.display_name }))
+      : [];
+
+  const toggleResource = (id: string, visible: boolean) => {
+    onHiddenResourceIdsChange?.(
+      visible ? hiddenResourceIds.filter(hiddenId => hiddenId !== id) : [...hiddenResourceIds, id]
+    );
+  };
 
   const activeFiltersCount = Object.values(filters).filter(Boolean).length;
 
@@ -91,6 +129,25 @@ export default function CalendarFiltersComponent({ filters, onFiltersChange, onE
           </SelectContent>
         </Select>
 
+        {/* Appointment Type Filter */}
+        <Select
+          value={filters.appointmentTypeId ?? 'all'}
+          onValueChange={(value) => updateFilter('appointmentTypeId', value)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="All Types" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            {appointmentTypes.map((type) => (
+              <SelectItem key={type.id} value={type.id}>
+                <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: type.color }} />
+                {type.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Status Filter */}
         <Select
           value={filters.status ?? 'all'}
@@ -122,6 +179,79 @@ export default function CalendarFiltersComponent({ filters, onFiltersChange, onE
         )}
       </div>
 
+      {/* Event colors */}
+      {onColorByChange && (
+        <Select value={colorBy} onValueChange={(value) => onColorByChange(value as CalendarColorBy)}>
+          <SelectTrigger className="w-44">
+            <Palette className="h-4 w-4 mr-1" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="provider">Color by provider</SelectItem>
+            <SelectItem value="type">Color by type</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Resource columns (day view) */}
+      {onResourceModeChange && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={resourceMode ?? 'none'}
+            onValueChange={(value) => {
+              onResourceModeChange(value === 'none' ? null : value as CalendarResourceMode);
+              onHiddenResourceIdsChange?.([]);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <Columns3 className="h-4 w-4 mr-1" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Single column</SelectItem>
+              <SelectItem value="room">By room</SelectItem>
+              <SelectItem value="provider">By provider</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {resourceMode && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  Columns
+                  {hiddenResourceIds.length > 0 && (
+                    <Badge variant="secondary" className="ml-1 text-xs">
+                      {resourceOptions.length - hiddenResourceIds.length}/{resourceOptions.length}
+                    </Badge>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 p-2" align="end">
+                <div className="space-y-1">
+                  {resourceOptions.map(option => (
+                    <label
+                      key={option.id}
+                      className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={!hiddenResourceIds.includes(option.id)}
+                        onCheckedChange={(checked) => toggleResource(option.id, !!checked)}
+                      />
+                      {option.title}
+                    </label>
+                  ))}
+                  {resourceOptions.length === 0 && (
+                    <p className="px-2 py-1.5 text-sm text-muted-foreground">
+                      No {resourceMode === 'room' ? 'rooms' : 'providers'} set up
+                    </p>
+                  )}
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      )}
+
       {/* Export Options */}
       <div className="flex items-center gap-2">
         <Button
@@ -142,6 +272,26 @@ export default function CalendarFiltersComponent({ filters, onFiltersChange, onE
           <Download className="h-4 w-4 mr-1" />
           PDF
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onExport('ics')}
+          className="text-xs"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          iCal
+        </Button>
+        {onSubscribe && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onSubscribe}
+            className="text-xs"
+          >
+            <Link2 className="h-4 w-4 mr-1" />
+            Subscribe
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader2 } from 'lucide-react';
+import { SERIES_SCOPES, type SeriesScope } from '@/lib/recurrence';
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: 'edit' | 'cancel';
+  onConfirm: (scope: SeriesScope) => void;
+  isPending?: boolean;
+}
+
+export default function SeriesScopeDialog({ open, onOpenChange, action, onConfirm, isPending }: SeriesScopeDialogProps) {
+  const [scope, setScope] = useState<SeriesScope>('this');
+
+  useEffect(() => {
+    if (open) setScope('this');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{action === 'edit' ? 'Edit recurring appointment' : 'Cancel recurring appointment'}</DialogTitle>
+          <DialogDescription>
+            This appointment is part of a series. Occurrences that are past or already checked in are not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={scope} onValueChange={(v) => setScope(v as SeriesScope)} className="space-y-2">
+          {SERIES_SCOPES.map(option => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`series-scope-${option.value}`} />
+              <Label htmlFor={`series-scope-${option.value}`}>{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button
+            variant={action === 'cancel' ? 'destructive' : 'default'}
+            onClick={() => onConfirm(scope)}
+            disabled={isPending}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {action === 'edit' ? 'Save' : 'Cancel Appointments'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
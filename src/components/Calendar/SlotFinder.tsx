@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Loader2, Search } from 'lucide-react';
+import { useProviders, useRooms } from '@/hooks/useCalendarData';
+import { useSlotFinder } from '@/hooks/useSlotFinder';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_SEARCH_DAYS, TIME_WINDOWS, type SlotCandidate, type TimeWindow } from '@/lib/slotFinder';
+import { WEEKDAYS } from '@/lib/recurrence';
+
+interface SlotFinderProps {
+  durationMinutes: number;
+  providerId?: string;
+  roomId?: string;
+  earliestDate?: Date;
+  onSelect: (candidate: SlotCandidate) => void;
+}
+
+export default function SlotFinder({ durationMinutes, providerId, roomId, earliestDate, onSelect }: SlotFinderProps) {
+  const { toast } = useToast();
+  const { findSlots, isReady } = useSlotFinder();
+  const { data: providers = [] } = useProviders();
+  const { data: rooms = [] } = useRooms();
+  const [from, setFrom] = useState(format(earliestDate || new Date(), 'yyyy-MM-dd'));
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('any');
+  const [limit, setLimit] = useState(5);
+
+  const search = useMutation({
+    mutationFn: () => findSlots({
+      durationMinutes,
+      earliestDate: new Date(`${from}T00:00`),
+      providerId,
+      roomId,
+      weekdays: weekdays.map(Number),
+      timeWindow,
+      limit,
+    }),
+    onError: (error) => {
+      toast({
+        title: 'Error searching for slots',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const providerName = (id: string | null) => providers.find(p => p.id === id)?.display_name;
+  const roomName = (id: string | null) => rooms.find(r => r.id === id)?.name;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="slot-finder-from">From</Label>
+          <Input
+            id="slot-finder-from"
+            type="date"
+            value={from}
+            min={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Time</Label>
+          <Select value={timeWindow} onValueChange={(v) => setTimeWindow(v as TimeWindow)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_WINDOWS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Show</Label>
+          <Select value={String(limit)} onValueChange={(v) => setLimit(Number(v))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[3, 5, 10].map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} options
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between gap-3">
+        <div className="space-y-1">
+          <Label>Days</Label>
+          <ToggleGroup type="multiple" size="sm" value={weekdays} onValueChange={setWeekdays} className="justify-start">
+            {WEEKDAYS.map((weekday, index) => (
+              <ToggleGroupItem key={weekday} value={String(index)} className="h-7 px-2 text-xs">
+                {weekday.slice(0, 3)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => search.mutate()}
+          disabled={!isReady || !durationMinutes || durationMinutes <= 0 || search.isPending}
+        >
+          {search.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Search className="h-4 w-4 mr-1" />}
+          Find slots
+        </Button>
+      </div>
+
+      {search.data && (
+        search.data.length > 0 ? (
+          <div className="border rounded-lg divide-y max-h-56 overflow-y-auto">
+            {search.data.map(candidate => (
+              <button
+                key={`${candidate.start.getTime()}-${candidate.roomId}-${candidate.providerId}`}
+                type="button"
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                onClick={() => onSelect(candidate)}
+              >
+                <span className="font-medium">
+                  {format(candidate.start, 'EEE, MMM d')} · {format(candidate.start, 'HH:mm')}–{format(candidate.end, 'HH:mm')}
+                </span>
+                <span className="text-muted-foreground">
+                  {[providerName(candidate.providerId), roomName(candidate.roomId)].filter(Boolean).join(' · ')}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No free {durationMinutes}-minute slots in the next {DEFAULT_SEARCH_DAYS} days match these preferences.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
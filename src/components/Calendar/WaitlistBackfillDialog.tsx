@@ -0,0 +1,93 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import { useAppStore } from '@/store/appStore';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { formatDuration } from '@/lib/appointmentTypes';
+import { matchWaitlistEntries } from '@/lib/waitlist';
+
+/**
+ * Suggests waitlisted patients for the slot a cancellation or no-show just freed.
+ * Stays closed when nobody on the waitlist fits.
+ */
+export default function WaitlistBackfillDialog() {
+  const { freedSlot, setFreedSlot, currentClinic } = useAppStore();
+  const { entries, bookFromWaitlist } = useWaitlist();
+
+  const matches = useMemo(
+    () => (freedSlot && freedSlot.clinicId === currentClinic?.id ? matchWaitlistEntries(entries, freedSlot) : []),
+    [freedSlot, entries, currentClinic?.id]
+  );
+
+  const handleBook = async (index: number) => {
+    if (!freedSlot) return;
+
+    try {
+      await bookFromWaitlist.mutateAsync({ match: matches[index], slot: freedSlot });
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={matches.length > 0} onOpenChange={(open) => !open && setFreedSlot(null)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Fill the freed slot
+          </DialogTitle>
+          {freedSlot && (
+            <DialogDescription>
+              {freedSlot.reason === 'no_show' ? 'No-show' : 'Cancellation'} on{' '}
+              {format(freedSlot.start, 'EEE, MMM d')} · {format(freedSlot.start, 'HH:mm')}–{format(freedSlot.end, 'HH:mm')}.
+              {' '}{matches.length} waitlisted patient{matches.length === 1 ? '' : 's'} fit.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+          {matches.map((match, index) => (
+            <div key={match.entry.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="space-y-1 min-w-0">
+                <div className="font-medium truncate" dir="rtl">{match.entry.patients.arabic_full_name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {match.entry.patients.phone && <span className="mr-2">{match.entry.patients.phone}</span>}
+                  Waiting since {format(new Date(match.entry.created_at), 'MMM d')}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {match.sameProvider && match.entry.providers && (
+                    <Badge variant="outline" className="text-xs">Wants {match.entry.providers.display_name}</Badge>
+                  )}
+                  {match.entry.treatments && (
+                    <Badge variant="secondary" className="text-xs">{match.entry.treatments.name_en}</Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">{formatDuration(match.entry.duration_minutes)}</Badge>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => handleBook(index)}
+                disabled={bookFromWaitlist.isPending}
+              >
+                {bookFromWaitlist.isPending && bookFromWaitlist.variables?.match.entry.id === match.entry.id && (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                )}
+                Book {format(match.start, 'HH:mm')}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => setFreedSlot(null)}>
+            Leave Open
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
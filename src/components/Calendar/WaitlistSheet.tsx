@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListPlus, Loader2, Search, User, X } from 'lucide-react';
+import { useProviders } from '@/hooks/useCalendarData';
+import { useCatalogData } from '@/hooks/useCatalogData';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { useDebounce } from '@/hooks/useDebounce';
+import { usePatientsQuery } from '@/routes/Patients/usePatientsQuery';
+import { formatDuration } from '@/lib/appointmentTypes';
+
+interface WaitlistSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyForm = () => ({
+  providerId: '',
+  treatmentId: '',
+  earliestDate: format(new Date(), 'yyyy-MM-dd'),
+  latestDate: format(addDays(new Date(), 14), 'yyyy-MM-dd'),
+  durationMinutes: 30,
+  notes: '',
+});
+
+export default function WaitlistSheet({ isOpen, onClose }: WaitlistSheetProps) {
+  const { entries, isLoading, addEntry, removeEntry } = useWaitlist();
+  const { data: providers = [] } = useProviders();
+  const { treatments = [] } = useCatalogData();
+  const { getTreatmentBooking } = useAppointmentTypes();
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const [patient, setPatient] = useState<{ id: string; arabic_full_name: string; phone?: string | null } | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: patientsData } = usePatientsQuery({
+    filters: {
+      searchTerm: debouncedSearchTerm,
+      statuses: [],
+    },
+    page: 1,
+    pageSize: 10,
+  });
+  const patients = patientsData?.patients || [];
+
+  const updateForm = (updates: Partial<ReturnType<typeof emptyForm>>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+  };
+
+  // A treatment linked to an appointment type brings its chair time
+  const handleTreatmentChange = (treatmentId: string) => {
+    const booking = treatmentId ? getTreatmentBooking(treatmentId) : null;
+    updateForm({
+      treatmentId,
+      ...(booking ? { durationMinutes: booking.durationMinutes } : {}),
+    });
+  };
+
+  const handleAdd = async () => {
+    if (!patient) return;
+
+    try {
+      await addEntry.mutateAsync({
+        patientId: patient.id,
+        providerId: form.providerId || null,
+        treatmentId: form.treatmentId || null,
+        earliestDate: form.earliestDate,
+        latestDate: form.latestDate,
+        durationMinutes: form.durationMinutes,
+        notes: form.notes,
+      });
+      setPatient(null);
+      setSearchTerm('');
+      setForm(emptyForm());
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5" />
+            Waitlist
+          </SheetTitle>
+          <SheetDescription>
+            Patients offered a cancelled or no-show slot that fits their window.
+          </SheetDescription>
+        </SheetHeader>
+
+        {/* Add entry */}
+        <div className="space-y-3 py-4">
+          {patient ? (
+            <div className="flex items-center justify-between p-3 border rounded-lg bg-green-50">
+              <div className="flex items-center gap-3">
+                <User className="h-4 w-4 text-green-600" />
+                <div>
+                  <div className="font-medium" dir="rtl">{patient.arabic_full_name}</div>
+                  {patient.phone && <div className="text-sm text-muted-foreground">{patient.phone}</div>}
+                </div>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setPatient(null)}>
+                Change
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                <Input
+                  placeholder="ابحث بالاسم العربي أو رقم الهاتف"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10 text-right"
+                  dir="rtl"
+                />
+              </div>
+              {searchTerm && patients.length > 0 && (
+                <div className="border rounded-lg max-h-40 overflow-y-auto">
+                  {patients.map((p) => (
+                    <div
+                      key={p.id}
+                      className="p-2 hover:bg-muted cursor-pointer border-b last:border-b-0"
+                      onClick={() => setPatient(p)}
+                    >
+                      <div className="font-medium" dir="rtl">{p.arabic_full_name}</div>
+                      {p.phone && <div className="text-sm text-muted-foreground">{p.phone}</div>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Provider</Label>
+              <Select value={form.providerId || 'any'} onValueChange={(v) => updateForm({ providerId: v === 'any' ? '' : v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any provider</SelectItem>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Treatment</Label>
+              <Select value={form.treatmentId || 'any'} onValueChange={(v) => handleTreatmentChange(v === 'any' ? '' : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any treatment</SelectItem>
+                  {treatments.map((treatment) => (
+                    <SelectItem key={treatment.id} value={treatment.id}>
+                      {treatment.name_en}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={form.earliestDate}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => updateForm({ earliestDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Until</Label>
+              <Input
+                type="date"
+                value={form.latestDate}
+                min={form.earliestDate}
+                onChange={(e) => updateForm({ latestDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Minutes</Label>
+              <Input
+                type="number"
+                min="5"
+                step="5"
+                value={form.durationMinutes}
+                onChange={(e) => updateForm({ durationMinutes: Math.max(5, Number(e.target.value) || 5) })}
+              />
+            </div>
+          </div>
+
+          <Textarea
+            placeholder="Notes (e.g., mornings only, call before 10)"
+            value={form.notes}
+            onChange={(e) => updateForm({ notes: e.target.value })}
+            rows={2}
+          />
+
+          <Button
+            className="w-full"
+            onClick={handleAdd}
+            disabled={!patient || !form.earliestDate || !form.latestDate || addEntry.isPending}
+          >
+            {addEntry.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add to Waitlist
+          </Button>
+        </div>
+
+        <Separator />
+
+        {/* Waiting entries */}
+        <div className="space-y-2 py-4">
+          <h3 className="text-sm font-medium">Waiting ({entries.length})</h3>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody is on the waitlist</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="flex items-start justify-between gap-2 p-3 border rounded-lg">
+                <div className="space-y-1 min-w-0">
+                  <div className="font-medium truncate" dir="rtl">{entry.patients.arabic_full_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(entry.earliest_date + 'T00:00:00'), 'MMM d')} – {format(new Date(entry.latest_date + 'T00:00:00'), 'MMM d')}
+                    {' · '}{formatDuration(entry.duration_minutes)}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {entry.providers && <Badge variant="outline" className="text-xs">{entry.providers.display_name}</Badge>}
+                    {entry.treatments && <Badge variant="secondary" className="text-xs">{entry.treatments.name_en}</Badge>}
+                  </div>
+                  {entry.notes && <p className="text-xs text-muted-foreground">{entry.notes}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 shrink-0"
+                  title="Remove from waitlist"
+                  onClick={() => removeEntry.mutate(entry.id)}
+                  disabled={removeEntry.isPending}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
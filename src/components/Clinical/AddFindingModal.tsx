@@ -11,11 +11,17 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { Camera, Stethoscope, Target } from 'lucide-react';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
+import { useToothChart } from '@/hooks/useToothChart';
+import { useToothNumbering } from '@/hooks/useToothNumbering';
+import { Odontogram } from './Odontogram';
+import { SurfacePicker } from './SurfacePicker';
+import { formatSurfaces, formatTooth, toothFromFinding, type ToothRef, type ToothSurface } from '@/lib/odontogram';
 
 interface AddFindingModalProps {
   visitId: string;
   patient: ClinicalPatient | null | undefined;
   finding?: any;
+  initialTooth?: ToothRef | null;
   open: boolean;
   onClose: () => void;
 }
@@ -26,6 +32,7 @@ interface Diagnosis {
   name_ar?: string;
   diagnosis_rules?: {
     requires_tooth: boolean;
+    requires_surfaces: boolean;
     xray_required: boolean;
     default_treatment_id?: string;
   };
@@ -37,23 +44,17 @@ interface Treatment {
   name_ar?: string;
 }
 
-const QUADRANTS = [
-  { value: 'UR', label: 'Upper Right (UR)' },
-  { value: 'UL', label: 'Upper Left (UL)' },
-  { value: 'LL', label: 'Lower Left (LL)' },
-  { value: 'LR', label: 'Lower Right (LR)' },
-];
-
-export function AddFindingModal({ visitId, patient, finding, open, onClose }: AddFindingModalProps) {
+export function AddFindingModal({ visitId, patient, finding, initialTooth, open, onClose }: AddFindingModalProps) {
   const queryClient = useQueryClient();
+  const { data: toothChart } = useToothChart(patient?.id);
   
   // Form state
   const [step, setStep] = useState(1);
   const [selectedDiagnosis, setSelectedDiagnosis] = useState<Diagnosis | null>(null);
   const [selectedTreatment, setSelectedTreatment] = useState<string>('');
-  const [toothSet, setToothSet] = useState<'Primary' | 'Permanent'>('Permanent');
-  const [quadrant, setQuadrant] = useState<string>('');
-  const [toothNumber, setToothNumber] = useState<string>('');
+  const [selectedTooth, setSelectedTooth] = useState<ToothRef | null>(null);
+  const [numbering] = useToothNumbering();
+  const [surfaces, setSurfaces] = useState<ToothSurface[]>([]);
   const [xrayFlag, setXrayFlag] = useState(false);
   const [notes, setNotes] = useState('');
 
@@ -64,9 +65,8 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
         // Edit mode - populate form
         setStep(3); // Skip to final step for editing
         setSelectedDiagnosis(null); // Will be set when diagnoses load
-        setToothSet(finding.tooth_set === 'primary' ? 'Primary' : 'Permanent');
-        setQuadrant(finding.quadrant || '');
-        setToothNumber(finding.tooth_number?.toString() || '');
+        setSelectedTooth(toothFromFinding(finding));
+        setSurfaces(finding.surfaces || []);
         setXrayFlag(finding.xray_flag || false);
         setNotes(finding.notes || '');
       } else {
@@ -74,34 +74,13 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
         setStep(1);
         setSelectedDiagnosis(null);
         setSelectedTreatment('');
-        setToothSet(getDefaultToothSet());
-        setQuadrant('');
-        setToothNumber('');
+        setSelectedTooth(initialTooth || null);
+        setSurfaces([]);
         setXrayFlag(false);
         setNotes('');
       }
     }
-  }, [open, finding]);
-
-  // Get default tooth set based on patient age
-  const getDefaultToothSet = () => {
-    if (!patient?.dob) return 'Permanent';
-    
-    const age = new Date().getFullYear() - new Date(patient.dob).getFullYear();
-    if (age <= 5) return 'Primary';
-    if (age > 13) return 'Permanent';
-    return 'Permanent'; // For mixed dentition, let user choose
-  };
-
-  // Get age bracket for tooth selection logic
-  const getAgeBracket = () => {
-    if (!patient?.dob) return 'adult';
-    
-    const age = new Date().getFullYear() - new Date(patient.dob).getFullYear();
-    if (age <= 5) return 'primary';
-    if (age <= 13) return 'mixed';
-    return 'permanent';
-  };
+  }, [open, finding, initialTooth]);
 
   // Fetch diagnoses
   const { data: diagnoses } = useQuery({
@@ -115,6 +94,7 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
           name_ar,
           diagnosis_rules(
             requires_tooth,
+            requires_surfaces,
             xray_required,
             default_treatment_id
           )
@@ -161,12 +141,13 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
         visit_id: visitId,
         diagnosis_id: selectedDiagnosis?.id,
         tooth_set: selectedDiagnosis?.diagnosis_rules?.requires_tooth 
-          ? (toothSet.toLowerCase() as 'primary' | 'permanent')
+          ? selectedTooth.toothSet
           : 'none' as const,
         quadrant: selectedDiagnosis?.diagnosis_rules?.requires_tooth 
-          ? (quadrant as 'UL' | 'UR' | 'LL' | 'LR')
+          ? selectedTooth.quadrant
           : null,
-        tooth_number: selectedDiagnosis?.diagnosis_rules?.requires_tooth ? parseInt(toothNumber) : null,
+        tooth_number: selectedDiagnosis?.diagnosis_rules?.requires_tooth ? selectedTooth.toothNumber : null,
+        surfaces: selectedDiagnosis?.diagnosis_rules?.requires_tooth ? surfaces : [],
         xray_flag: xrayFlag,
         notes: notes.trim() || null,
       };
@@ -190,6 +171,8 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['visitFindings', visitId] });
+      queryClient.invalidateQueries({ queryKey: ['visit/findings', visitId] });
+      queryClient.invalidateQueries({ queryKey: ['patient/tooth-chart', patient?.id] });
       toast({ 
         title: finding ? 'Finding updated' : 'Finding added',
         description: 'The clinical finding has been saved successfully.'
@@ -217,8 +200,10 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
         setSelectedTreatment(diagnosis.diagnosis_rules.default_treatment_id);
       }
       
-      // Move to next step
-      if (diagnosis.diagnosis_rules?.requires_tooth) {
+      // Move to next step (a tooth picked from the chart skips tooth selection
+      // unless surfaces still have to be chosen)
+      const needsToothStep = !selectedTooth || diagnosis.diagnosis_rules?.requires_surfaces;
+      if (diagnosis.diagnosis_rules?.requires_tooth && needsToothStep) {
         setStep(2);
       } else {
         setStep(3);
@@ -227,27 +212,16 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
   };
 
   const handleToothSelection = () => {
-    if (!quadrant || !toothNumber) return;
+    if (!selectedTooth) return;
     setStep(3);
   };
 
-  const getToothNumbers = () => {
-    const ageBracket = getAgeBracket();
-    
-    if (ageBracket === 'primary') {
-      return Array.from({ length: 5 }, (_, i) => (i + 1).toString());
-    } else if (ageBracket === 'mixed') {
-      return toothSet === 'Primary' 
-        ? Array.from({ length: 5 }, (_, i) => (i + 1).toString())
-        : Array.from({ length: 8 }, (_, i) => (i + 1).toString());
-    } else {
-      return Array.from({ length: 8 }, (_, i) => (i + 1).toString());
-    }
-  };
-
   const canProceed = () => {
     if (step === 1) return !!selectedDiagnosis;
-    if (step === 2) return !!quadrant && !!toothNumber;
+    if (step === 2) {
+      const surfacesOk = !selectedDiagnosis?.diagnosis_rules?.requires_surfaces || surfaces.length > 0;
+      return !!selectedTooth && surfacesOk;
+    }
     if (step === 3) return !!selectedTreatment;
     return false;
   };
@@ -259,6 +233,11 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
           <DialogTitle className="flex items-center gap-2">
             <Stethoscope className="h-5 w-5" />
             {finding ? 'Edit Finding' : 'Add Finding'}
+            {selectedTooth && (
+              <Badge variant="outline" className="font-mono">
+                {formatTooth(selectedTooth, numbering)}
+              </Badge>
+            )}
           </DialogTitle>
         </DialogHeader>
 
@@ -315,6 +294,9 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
                     <Badge variant={selectedDiagnosis.diagnosis_rules?.requires_tooth ? 'default' : 'secondary'}>
                       {selectedDiagnosis.diagnosis_rules?.requires_tooth ? 'Tooth Required' : 'General'}
                     </Badge>
+                    {selectedDiagnosis.diagnosis_rules?.requires_surfaces && (
+                      <Badge variant="outline">Surfaces Required</Badge>
+                    )}
                     {selectedDiagnosis.diagnosis_rules?.xray_required && (
                       <Badge variant="outline" className="flex items-center gap-1">
                         <Camera className="h-3 w-3" />
@@ -336,60 +318,27 @@ export function AddFindingModal({ visitId, patient, finding, open, onClose }: Ad
                   Select Tooth Location
                 </Label>
                 
-                {getAgeBracket() === 'mixed' && (
-                  <div className="mb-4">
-                    <Label className="text-sm mb-2 block">Tooth Set</Label>
-                    <Select value={toothSet} onValueChange={(value: 'Primary' | 'Permanent') => setToothSet(value)}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Primary">Primary Teeth</SelectItem>
-                        <SelectItem value="Permanent">Permanent Teeth</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                )}
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label className="text-sm mb-2 block">Quadrant</Label>
-                    <Select value={quadrant} onValueChange={setQuadrant}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select quadrant" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {QUADRANTS.map((q) => (
-                          <SelectItem key={q.value} value={q.value}>
-                            {q.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                <Odontogram
+                  ageBracket={patient?.ageBracket || 'Permanent'}
+                  chart={toothChart}
+                  selected={selectedTooth}
+                  onToothClick={setSelectedTooth}
+                />
 
-                  <div>
-                    <Label className="text-sm mb-2 block">Tooth Number</Label>
-                    <Select value={toothNumber} onValueChange={setToothNumber}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select tooth" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {getToothNumbers().map((num) => (
-                          <SelectItem key={num} value={num}>
-                            #{num}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                {selectedTooth && (
+                  <div className="mt-4">
+                    <SurfacePicker
+                      value={surfaces}
+                      onChange={setSurfaces}
+                      required={selectedDiagnosis.diagnosis_rules?.requires_surfaces}
+                    />
                   </div>
-                </div>
+                )}
 
-                {quadrant && toothNumber && (
+                {selectedTooth && (
                   <div className="mt-4 p-3 bg-blue-50 rounded-lg">
                     <div className="text-sm font-medium text-blue-900">
-                      Selected: {quadrant} #{toothNumber}
-                      {getAgeBracket() === 'mixed' && ` (${toothSet})`}
+                      Selected: {formatTooth(selectedTooth, numbering)} {formatSurfaces(surfaces)} ({selectedTooth.quadrant} #{selectedTooth.toothNumber}, {selectedTooth.toothSet})
                     </div>
                   </div>
                 )}
@@ -1,9 +1,11 @@
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ListChecks, Forward, UserCheck, Clock3, LogOut, CreditCard } from 'lucide-react';
+import { ListChecks, Forward, UserCheck, Clock3, LogOut, CreditCard, Stethoscope } from 'lucide-react';
 import { useReadyQueue, useStartVisit, useFinishVisit, type ClinicalPatient, type ClinicalVisit } from '@/hooks/useClinicalWorkflow';
 import { useState } from 'react';
+import { QueuePriorityBadge } from './QueuePriority';
+import { useAppointmentTriage } from '@/hooks/useTriage';
 import { useAppStore } from '@/store/appStore';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -16,6 +18,7 @@ interface ClinicalTopBarProps {
 
 export function ClinicalTopBar({ activePatient, activeVisit, onVisitChange }: ClinicalTopBarProps) {
   const { data: readyQueue } = useReadyQueue();
+  const { data: triage } = useAppointmentTriage(activeVisit?.appointment_id);
   const startVisit = useStartVisit();
   const finishVisit = useFinishVisit();
   const { profile } = useAppStore();
@@ -133,6 +136,7 @@ export function ClinicalTopBar({ activePatient, activeVisit, onVisitChange }: Cl
                   <SelectItem key={appointment.patient_id} value={appointment.patient_id}>
                     <div className="flex items-center gap-2">
                       <span className="font-medium">{appointment.patients.arabic_full_name}</span>
+                      <QueuePriorityBadge priority={appointment.queue_priority} reason={appointment.queue_priority_reason} />
                       {appointment.patients.phone && (
                         <span className="text-sm text-muted-foreground">
                           {appointment.patients.phone}
@@ -232,6 +236,22 @@ export function ClinicalTopBar({ activePatient, activeVisit, onVisitChange }: Cl
           </div>
         )}
       </div>
+
+      {/* Triage taken at the desk */}
+      {activeVisit && triage && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+          <Stethoscope className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Triage:</span>
+          <span>{triage.chief_complaint}</span>
+          <Badge variant="outline">Pain {triage.pain_score}/10</Badge>
+          {triage.swelling && <Badge variant="outline">Swelling</Badge>}
+          {triage.bleeding && <Badge variant="outline">Bleeding</Badge>}
+          {triage.trauma && <Badge variant="outline">Trauma</Badge>}
+          {triage.priority && (
+            <QueuePriorityBadge priority={triage.priority} reason={null} />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -18,14 +18,21 @@ import {
   Calendar,
   DollarSign,
   ArrowRight,
-  RotateCcw
+  RotateCcw,
+  CalendarPlus
 } from 'lucide-react';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
 import { useCatalogData } from '@/hooks/useCatalogData';
+import { useFeeSchedules } from '@/hooks/useFeeSchedules';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import { formatToothLocation } from '@/lib/odontogram';
+import { formatDuration } from '@/lib/appointmentTypes';
+import AddAppointmentModal from '@/components/Calendar/AddAppointmentModal';
 
 interface DoctorPlanExecutionProps {
   visitId: string | null;
   patient: ClinicalPatient | null | undefined;
+  providerId?: string | null;
 }
 
 interface UnplannedFinding {
@@ -34,6 +41,7 @@ interface UnplannedFinding {
   tooth_set: string;
   quadrant: string | null;
   tooth_number: number | null;
+  surfaces: string[];
   diagnoses: {
     name_en: string;
   };
@@ -46,6 +54,7 @@ interface PlanRow {
   treatmentId: string;
   forWhen: 'today' | 'next';
   price: number;
+  priceEdited?: boolean; // typed in by the doctor, so refetched fee schedules leave it alone
   comment?: string;
   selected: boolean;
 }
@@ -68,10 +77,15 @@ interface ProcedureRow {
   };
 }
 
-export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionProps) {
+export function DoctorPlanExecution({ visitId, patient, providerId }: DoctorPlanExecutionProps) {
   const queryClient = useQueryClient();
   const [planRows, setPlanRows] = useState<PlanRow[]>([]);
   const { getAllowedTreatments } = useCatalogData();
+  const { getPrice } = useFeeSchedules();
+  const { getTreatmentBooking } = useAppointmentTypes();
+  // "Next visit" procedure being booked, with the day the booking starts from
+  const [booking, setBooking] = useState<{ row: ProcedureRow; date: Date } | null>(null);
+  const bookingType = booking ? getTreatmentBooking(booking.row.treatment_id) : null;
 
   // Fetch unplanned findings
   const { data: unplannedFindings } = useQuery({
@@ -87,6 +101,7 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
           tooth_set,
           quadrant,
           tooth_number,
+          surfaces,
           diagnoses!inner(name_en)
         `)
         .eq('visit_id', visitId)
@@ -129,39 +144,34 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
     enabled: !!visitId,
   });
 
-  // Initialize plan rows from unplanned findings
-  useState(() => {
+  // Initialize plan rows from unplanned findings, pre-filling prices from the fee schedule
+  useEffect(() => {
     if (unplannedFindings?.length) {
-      const newPlanRows: PlanRow[] = unplannedFindings.map((finding) => {
+      setPlanRows(prev => unplannedFindings.map((finding) => {
+        const existing = prev.find(row => row.findingId === finding.id);
+        if (existing) {
+          return existing.priceEdited
+            ? existing
+            : { ...existing, price: getPrice(existing.treatmentId, providerId) ?? existing.price };
+        }
+
         const toothLocation = formatToothLocation(finding);
         const allowedTreatments = getAllowedTreatments(finding.diagnosis_id);
-        
+        const treatmentId = allowedTreatments[0]?.id || '';
+
         return {
           findingId: finding.id,
           diagnosisName: finding.diagnoses.name_en,
           toothLocation,
-          treatmentId: allowedTreatments[0]?.id || '',
+          treatmentId,
           forWhen: 'today' as const,
-          price: 0,
+          price: getPrice(treatmentId, providerId) ?? 0,
           comment: '',
           selected: false,
         };
-      });
-      setPlanRows(newPlanRows);
-    }
-  });
-
-  const formatToothLocation = (finding: UnplannedFinding) => {
-    if (finding.tooth_set === 'none' || !finding.quadrant || !finding.tooth_number) {
-      return 'General';
+      }));
     }
-    
-    const displayNumber = finding.tooth_set === 'primary' 
-      ? String.fromCharCode(64 + finding.tooth_number)
-      : finding.tooth_number.toString();
-      
-    return `${finding.quadrant}${displayNumber}`;
-  };
+  }, [unplannedFindings, getAllowedTreatments, getPrice, providerId]);
 
   const updatePlanRow = (findingId: string, updates: Partial<PlanRow>) => {
     setPlanRows(prev => 
@@ -319,7 +329,11 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
                           <Select
                             value={row.treatmentId}
                             onValueChange={(value) =>
-                              updatePlanRow(row.findingId, { treatmentId: value })
+                              updatePlanRow(row.findingId, {
+                                treatmentId: value,
+                                price: getPrice(value, providerId) ?? row.price,
+                                priceEdited: false,
+                              })
                             }
                           >
                             <SelectTrigger className="h-8 text-xs">
@@ -358,7 +372,7 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
                           className="h-8 text-xs"
                           value={row.price}
                           onChange={(e) =>
-                            updatePlanRow(row.findingId, { price: Number(e.target.value) })
+                            updatePlanRow(row.findingId, { price: Number(e.target.value), priceEdited: true })
                           }
                         />
                         
@@ -411,10 +425,26 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
                       <div className="text-muted-foreground">
                         {row.visit_diagnoses?.diagnoses?.name_en}
                       </div>
+                      {row.for_when === 'next' && getTreatmentBooking(row.treatment_id) && (
+                        <div className="text-muted-foreground">
+                          {formatDuration(getTreatmentBooking(row.treatment_id)!.durationMinutes)} chair time
+                        </div>
+                      )}
                       <div className="flex items-center justify-between">
                         <Badge variant={row.for_when === 'today' ? 'default' : 'secondary'} className="text-xs">
                           {row.for_when}
                         </Badge>
+                        {row.for_when === 'next' && patient && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2"
+                            title="Book next visit"
+                            onClick={() => setBooking({ row, date: new Date() })}
+                          >
+                            <CalendarPlus className="h-3 w-3" />
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="ghost"
@@ -506,6 +536,19 @@ export function DoctorPlanExecution({ visitId, patient }: DoctorPlanExecutionPro
           </div>
         </div>
       </CardContent>
+
+      {booking && (
+        <AddAppointmentModal
+          isOpen
+          onClose={() => setBooking(null)}
+          selectedDate={booking.date}
+          selectedProvider={providerId || undefined}
+          defaultPatient={patient || undefined}
+          defaultAppointmentTypeId={bookingType?.type.id}
+          defaultDurationMinutes={bookingType?.durationMinutes}
+          defaultNotes={booking.row.treatments.name_en}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
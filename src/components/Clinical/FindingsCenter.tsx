@@ -7,7 +7,10 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { AddFindingModal } from './AddFindingModal';
+import { Odontogram } from './Odontogram';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
+import { useToothChart } from '@/hooks/useToothChart';
+import { formatSurfaces, type ToothRef } from '@/lib/odontogram';
 
 interface FindingsCenterProps {
   visitId: string | null;
@@ -20,6 +23,7 @@ interface VisitFinding {
   tooth_set?: string;
   quadrant?: string;
   tooth_number?: number;
+  surfaces?: string[];
   xray_flag: boolean;
   notes?: string;
   created_at: string;
@@ -36,6 +40,8 @@ interface VisitFinding {
 export function FindingsCenter({ visitId, patient }: FindingsCenterProps) {
   const [showAddFinding, setShowAddFinding] = useState(false);
   const [editingFinding, setEditingFinding] = useState<VisitFinding | null>(null);
+  const [chartTooth, setChartTooth] = useState<ToothRef | null>(null);
+  const { data: toothChart } = useToothChart(patient?.id);
 
   // Fetch findings for active visit
   const { data: findings, isLoading } = useQuery({
@@ -51,6 +57,7 @@ export function FindingsCenter({ visitId, patient }: FindingsCenterProps) {
           tooth_set,
           quadrant,
           tooth_number,
+          surfaces,
           xray_flag,
           notes,
           created_at,
@@ -84,8 +91,9 @@ export function FindingsCenter({ visitId, patient }: FindingsCenterProps) {
     
     const quadrantName = quadrantMap[finding.quadrant as keyof typeof quadrantMap] || finding.quadrant;
     const toothSet = finding.tooth_set ? ` (${finding.tooth_set})` : '';
+    const surfaces = formatSurfaces(finding.surfaces);
     
-    return `${quadrantName} #${finding.tooth_number}${toothSet}`;
+    return `${quadrantName} #${finding.tooth_number}${surfaces ? ` ${surfaces}` : ''}${toothSet}`;
   };
 
   if (!visitId) {
@@ -104,17 +112,17 @@ export function FindingsCenter({ visitId, patient }: FindingsCenterProps) {
 
   return (
     <div className="flex-1 flex flex-col bg-background">
-      {/* Odontogram Placeholder */}
+      {/* Odontogram */}
       <Card className="m-4 mb-2">
         <CardHeader className="pb-3">
           <CardTitle className="text-sm font-medium">Odontogram</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="h-32 bg-muted/20 rounded flex items-center justify-center">
-            <p className="text-muted-foreground text-sm">
-              Interactive tooth chart coming soon
-            </p>
-          </div>
+          <Odontogram
+            ageBracket={patient?.ageBracket || 'Permanent'}
+            chart={toothChart}
+            onToothClick={setChartTooth}
+          />
         </CardContent>
       </Card>
 
@@ -228,15 +236,17 @@ export function FindingsCenter({ visitId, patient }: FindingsCenterProps) {
       </Card>
 
       {/* Add Finding Modal */}
-      {(showAddFinding || editingFinding) && (
+      {(showAddFinding || editingFinding || chartTooth) && (
         <AddFindingModal
           visitId={visitId}
           patient={patient}
           finding={editingFinding}
-          open={showAddFinding || !!editingFinding}
+          initialTooth={chartTooth}
+          open={showAddFinding || !!editingFinding || !!chartTooth}
           onClose={() => {
             setShowAddFinding(false);
             setEditingFinding(null);
+            setChartTooth(null);
           }}
         />
       )}
@@ -9,7 +9,13 @@ import { toast } from '@/hooks/use-toast';
 import { Edit3, Trash2, Camera, Clock, Circle } from 'lucide-react';
 import { format } from 'date-fns';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
+import { useAppStore } from '@/store/appStore';
+import { useToothChart } from '@/hooks/useToothChart';
+import { useToothNumbering } from '@/hooks/useToothNumbering';
+import { formatToothLocation, type ToothRef } from '@/lib/odontogram';
 import { QuickFindingEditModal } from './QuickFindingEditModal';
+import { AddFindingModal } from './AddFindingModal';
+import { Odontogram } from './Odontogram';
 
 interface FindingsListProps {
   visitId: string | null;
@@ -22,6 +28,7 @@ interface VisitFinding {
   tooth_set: string;
   quadrant: string | null;
   tooth_number: number | null;
+  surfaces: string[];
   xray_flag: boolean;
   notes: string | null;
   created_at: string;
@@ -42,10 +49,13 @@ interface VisitFinding {
 export function FindingsList({ visitId, patient }: FindingsListProps) {
   const queryClient = useQueryClient();
   const [editingFinding, setEditingFinding] = useState<VisitFinding | null>(null);
+  const [chartTooth, setChartTooth] = useState<ToothRef | null>(null);
   const { profile } = useAppStore();
   const role = profile?.role || '';
   const canPlan = role === 'doctor' || role === 'admin';
   const canEditFindings = role === 'assistant' || canPlan;
+  const { data: toothChart } = useToothChart(patient?.id);
+  const [numbering] = useToothNumbering();
 
   const { data: findings, isLoading } = useQuery({
     queryKey: ['visit/findings', visitId],
@@ -79,6 +89,7 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['visit/findings', visitId] });
+      queryClient.invalidateQueries({ queryKey: ['patient/tooth-chart', patient?.id] });
       toast({ title: 'Finding deleted successfully' });
     },
     onError: (error) => {
@@ -91,18 +102,6 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
     },
   });
 
-  const formatToothLocation = (finding: VisitFinding) => {
-    if (finding.tooth_set === 'none' || !finding.quadrant || !finding.tooth_number) {
-      return 'General';
-    }
-    
-    const displayNumber = finding.tooth_set === 'primary' 
-      ? String.fromCharCode(64 + finding.tooth_number) // A, B, C, D, E
-      : finding.tooth_number.toString();
-      
-    return `${finding.quadrant}${displayNumber}`;
-  };
-
   const handleDelete = (findingId: string) => {
     if (window.confirm('Are you sure you want to delete this finding?')) {
       deleteFinding.mutate(findingId);
@@ -141,6 +140,15 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
         </CardHeader>
         
         <CardContent className="flex-1 p-0">
+          {patient && (
+            <div className="px-4 pb-4 border-b">
+              <Odontogram
+                ageBracket={patient.ageBracket}
+                chart={toothChart}
+                onToothClick={canEditFindings ? setChartTooth : undefined}
+              />
+            </div>
+          )}
           <ScrollArea className="h-full">
             {isLoading ? (
               <div className="p-6 text-center text-muted-foreground">
@@ -150,7 +158,7 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
               <div className="p-6 text-center text-muted-foreground">
                 <Circle className="h-8 w-8 mx-auto mb-2 opacity-50" />
                 <p>No findings recorded yet</p>
-                <p className="text-xs mt-1">Use Quick Finding to add diagnoses</p>
+                <p className="text-xs mt-1">Use Quick Finding or click a tooth to add diagnoses</p>
               </div>
             ) : (
               <div className="divide-y">
@@ -165,7 +173,7 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
                           {finding.tooth_set !== 'none' && (
                             <Badge variant="outline" className="text-xs gap-1">
                               <Circle className="h-3 w-3" />
-                              {formatToothLocation(finding)}
+                              {formatToothLocation(finding, numbering)}
                             </Badge>
                           )}
                           {finding.xray_flag && (
@@ -230,10 +238,21 @@ export function FindingsList({ visitId, patient }: FindingsListProps) {
           onClose={() => setEditingFinding(null)}
           onSaved={() => {
             queryClient.invalidateQueries({ queryKey: ['visit/findings', visitId] });
+            queryClient.invalidateQueries({ queryKey: ['patient/tooth-chart', patient?.id] });
             setEditingFinding(null);
           }}
         />
       )}
+
+      {chartTooth && canEditFindings && (
+        <AddFindingModal
+          visitId={visitId}
+          patient={patient}
+          initialTooth={chartTooth}
+          open={!!chartTooth}
+          onClose={() => setChartTooth(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,123 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import {
+  formatTooth,
+  getChartRows,
+  isSameTooth,
+  toothKey,
+  type AgeBracket,
+  type ToothNumbering,
+  type ToothRef,
+} from '@/lib/odontogram';
+import type { ToothChartEntry, ToothMarkerStatus } from '@/hooks/useToothChart';
+import { useToothNumbering } from '@/hooks/useToothNumbering';
+
+interface OdontogramProps {
+  ageBracket: AgeBracket;
+  chart?: Record<string, ToothChartEntry>;
+  selected?: ToothRef | null;
+  onToothClick?: (tooth: ToothRef) => void;
+  compact?: boolean;
+}
+
+const MARKER_COLORS: Record<ToothMarkerStatus, string> = {
+  finding: 'bg-red-500',
+  planned: 'bg-amber-500',
+  in_progress: 'bg-blue-500',
+  complete: 'bg-green-500',
+  cancelled: 'bg-gray-400',
+};
+
+const MARKER_LABELS: Record<ToothMarkerStatus, string> = {
+  finding: 'Finding',
+  planned: 'Planned',
+  in_progress: 'In progress',
+  complete: 'Complete',
+  cancelled: 'Cancelled',
+};
+
+export function Odontogram({ ageBracket, chart, selected, onToothClick, compact = false }: OdontogramProps) {
+  const [numbering, setNumbering] = useToothNumbering();
+
+  const handleNumberingChange = (value: string) => {
+    if (!value) return;
+    setNumbering(value as ToothNumbering);
+  };
+
+  const rows = getChartRows(ageBracket);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">{ageBracket} dentition</span>
+        <ToggleGroup type="single" size="sm" value={numbering} onValueChange={handleNumberingChange}>
+          <ToggleGroupItem value="fdi" className="h-7 px-2 text-xs">FDI</ToggleGroupItem>
+          <ToggleGroupItem value="universal" className="h-7 px-2 text-xs">Universal</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-1 overflow-x-auto">
+        {rows.map((row, rowIndex) => (
+          <div
+            key={rowIndex}
+            className={cn(
+              'flex justify-center gap-0.5',
+              rowIndex === rows.length / 2 - 1 && 'pb-1 border-b border-dashed',
+            )}
+          >
+            {row.map((tooth, index) => {
+              const entry = chart?.[toothKey(tooth)];
+              const isSelected = isSameTooth(tooth, selected);
+              const midline = index === row.length / 2;
+
+              return (
+                <button
+                  key={toothKey(tooth)}
+                  type="button"
+                  onClick={() => onToothClick?.(tooth)}
+                  disabled={!onToothClick}
+                  title={
+                    entry?.markers.length
+                      ? entry.markers.map((m) => `${MARKER_LABELS[m.status]}: ${m.label}`).join('\n')
+                      : formatTooth(tooth, numbering)
+                  }
+                  className={cn(
+                    'flex flex-col items-center justify-between rounded border font-mono transition-colors',
+                    compact ? 'w-5 h-8 text-[10px]' : 'w-8 h-11 text-xs',
+                    tooth.toothSet === 'primary' && 'bg-muted/40',
+                    midline && (compact ? 'ml-1' : 'ml-2'),
+                    isSelected
+                      ? 'border-primary bg-primary text-primary-foreground'
+                      : 'hover:bg-muted',
+                    !onToothClick && 'cursor-default',
+                  )}
+                >
+                  <span className="pt-0.5">{formatTooth(tooth, numbering)}</span>
+                  <span className="flex gap-px pb-0.5 min-h-1.5">
+                    {entry?.markers.slice(0, compact ? 2 : 3).map((marker) => (
+                      <span
+                        key={marker.id}
+                        className={cn('rounded-full', compact ? 'h-1 w-1' : 'h-1.5 w-1.5', MARKER_COLORS[marker.status])}
+                      />
+                    ))}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {!compact && (
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {(Object.keys(MARKER_COLORS) as ToothMarkerStatus[]).map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={cn('h-2 w-2 rounded-full', MARKER_COLORS[status])} />
+              {MARKER_LABELS[status]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
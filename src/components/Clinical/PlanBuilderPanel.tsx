@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -11,10 +11,12 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { ClipboardCheck, Wrench, DollarSign, Calendar, Plus } from 'lucide-react';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
+import { useFeeSchedules } from '@/hooks/useFeeSchedules';
 
 interface PlanBuilderPanelProps {
   visitId: string | null;
   patient: ClinicalPatient | null | undefined;
+  providerId?: string | null;
 }
 
 interface FindingRow {
@@ -40,9 +42,10 @@ interface PlanRow {
   selected: boolean;
 }
 
-export function PlanBuilderPanel({ visitId, patient }: PlanBuilderPanelProps) {
+export function PlanBuilderPanel({ visitId, patient, providerId }: PlanBuilderPanelProps) {
   const queryClient = useQueryClient();
   const [planRows, setPlanRows] = useState<PlanRow[]>([]);
+  const { getPrice } = useFeeSchedules();
 
   // Fetch visit findings
   const { data: findings, isLoading: findingsLoading } = useQuery({
@@ -107,8 +110,8 @@ export function PlanBuilderPanel({ visitId, patient }: PlanBuilderPanelProps) {
     enabled: !!findings?.length,
   });
 
-  // Initialize plan rows when findings load
-  useState(() => {
+  // Initialize plan rows when findings load, pre-filling prices from the fee schedule
+  useEffect(() => {
     if (findings && allowedTreatmentsMap) {
       const initialPlanRows = findings.map(finding => {
         const allowedTreatments = allowedTreatmentsMap[finding.diagnosis_id] || [];
@@ -117,7 +120,7 @@ export function PlanBuilderPanel({ visitId, patient }: PlanBuilderPanelProps) {
         return {
           findingId: finding.id,
           treatmentId: defaultTreatment?.id || '',
-          price: 0,
+          price: getPrice(defaultTreatment?.id, providerId) ?? 0,
           forWhen: 'today' as const,
           comment: '',
           selected: false,
@@ -126,7 +129,7 @@ export function PlanBuilderPanel({ visitId, patient }: PlanBuilderPanelProps) {
       
       setPlanRows(initialPlanRows);
     }
-  });
+  }, [findings, allowedTreatmentsMap, getPrice, providerId]);
 
   // Create plan rows mutation
   const createPlanRows = useMutation({
@@ -258,7 +261,10 @@ export function PlanBuilderPanel({ visitId, patient }: PlanBuilderPanelProps) {
                       <Select
                         value={planRow.treatmentId}
                         onValueChange={(value) => 
-                          updatePlanRow(finding.id, { treatmentId: value })
+                          updatePlanRow(finding.id, {
+                            treatmentId: value,
+                            price: getPrice(value, providerId) ?? planRow.price,
+                          })
                         }
                       >
                         <SelectTrigger className="h-8 text-xs">
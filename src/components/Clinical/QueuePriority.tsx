@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, X } from 'lucide-react';
+import { useQueueOrder } from '@/hooks/useQueueOrder';
+import { QUEUE_PRIORITY_LABELS, type QueuePriority } from '@/lib/readyQueue';
+import { cn } from '@/lib/utils';
+
+const PRIORITY_COLORS: Record<QueuePriority, string> = {
+  emergency: 'bg-red-100 text-red-800 border-red-200',
+  pain: 'bg-orange-100 text-orange-800 border-orange-200',
+};
+
+interface QueuePriorityBadgeProps {
+  priority: QueuePriority | null | undefined;
+  reason: string | null | undefined;
+  className?: string;
+}
+
+export function QueuePriorityBadge({ priority, reason, className }: QueuePriorityBadgeProps) {
+  if (!priority) return null;
+
+  return (
+    <Badge variant="outline" className={cn('text-xs gap-1 max-w-full', PRIORITY_COLORS[priority], className)} title={reason || undefined}>
+      <AlertTriangle className="h-3 w-3 shrink-0" />
+      <span className="truncate">
+        {QUEUE_PRIORITY_LABELS[priority]}
+        {reason && `: ${reason}`}
+      </span>
+    </Badge>
+  );
+}
+
+interface QueuePriorityControlProps {
+  appointmentId: string;
+  priority: QueuePriority | null | undefined;
+}
+
+/**
+ * Flag a waiting patient as urgent (with a reason everyone can see), or clear the flag
+ */
+export function QueuePriorityControl({ appointmentId, priority }: QueuePriorityControlProps) {
+  const { setPriority } = useQueueOrder();
+  const [open, setOpen] = useState(false);
+  const [level, setLevel] = useState<QueuePriority>('pain');
+  const [reason, setReason] = useState('');
+
+  const handleSave = async () => {
+    try {
+      await setPriority.mutateAsync({ appointmentId, priority: level, reason });
+      setOpen(false);
+      setReason('');
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  if (priority) {
+    return (
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-6 px-1 text-xs"
+        onClick={() => setPriority.mutate({ appointmentId, priority: null })}
+        disabled={setPriority.isPending}
+        title="Clear priority"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-6 px-1 text-xs" title="Mark as priority">
+          <AlertTriangle className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label>Priority</Label>
+          <Select value={level} onValueChange={(value) => setLevel(value as QueuePriority)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(QUEUE_PRIORITY_LABELS) as QueuePriority[]).map(value => (
+                <SelectItem key={value} value={value}>
+                  {QUEUE_PRIORITY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Reason</Label>
+          <Input
+            placeholder="e.g. swelling since last night"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={!reason.trim() || setPriority.isPending}>
+          Move up
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,17 +1,107 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { useEffect, useState, type ReactNode } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { supabase } from '@/integrations/supabase/client';
-import { Users, Clock } from 'lucide-react';
+import { Users, Clock, GripVertical } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useQueueOrder, useQueueOrderRealtime } from '@/hooks/useQueueOrder';
+import { buildQueueLanes, moveInQueue, type QueuePriority } from '@/lib/readyQueue';
+import { QueuePriorityBadge, QueuePriorityControl } from './QueuePriority';
 
 interface QueueSidebarProps {
   activeVisitId: string | null;
   onVisitSelect: (visitId: string) => void;
 }
 
+interface ReadyAppointment {
+  id: string;
+  patient_id: string;
+  provider_id: string | null;
+  starts_at: string;
+  queue_order: number | null;
+  queue_priority: QueuePriority | null;
+  queue_priority_reason: string | null;
+  patients: {
+    id: string;
+    arabic_full_name: string;
+    latin_name: string | null;
+    phone: string | null;
+  };
+  providers: { display_name: string } | null;
+}
+
+function SortableReadyRow({ appointment, index }: { appointment: ReadyAppointment; index: number }) {
+  const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: appointment.id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className="p-2 rounded bg-amber-50 border border-amber-200 space-y-1"
+    >
+      <div className="flex items-center justify-between gap-1">
+        <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing">
+          <GripVertical className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-sm truncate">
+            {appointment.patients.arabic_full_name}
+          </div>
+          {appointment.patients.phone && (
+            <div className="text-xs text-muted-foreground">
+              {appointment.patients.phone}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <QueuePriorityControl appointmentId={appointment.id} priority={appointment.queue_priority} />
+          <Badge variant="outline" className="text-xs">
+            #{index + 1}
+          </Badge>
+        </div>
+      </div>
+      <QueuePriorityBadge priority={appointment.queue_priority} reason={appointment.queue_priority_reason} />
+    </div>
+  );
+}
+
+function ReadyLane({ laneId, children }: { laneId: string; children: ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: laneId });
+
+  return (
+    <div ref={setNodeRef} className={cn('space-y-2 rounded min-h-8', isOver && 'bg-amber-100/50')}>
+      {children}
+    </div>
+  );
+}
+
 export function QueueSidebar({ activeVisitId, onVisitSelect }: QueueSidebarProps) {
+  const { reorderLane } = useQueueOrder();
+  useQueueOrderRealtime();
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
   // Fetch ready patients
   const { data: readyPatients } = useQuery({
     queryKey: ['queueReady'],
@@ -23,28 +113,57 @@ export function QueueSidebar({ activeVisitId, onVisitSelect }: QueueSidebarProps
         .select(`
           id,
           patient_id,
+          provider_id,
           starts_at,
           queue_order,
+          queue_priority,
+          queue_priority_reason,
           patients!inner(
             id,
             arabic_full_name,
             latin_name,
-            phone,
-            status
-          )
+            phone
+          ),
+          providers(display_name)
         `)
-        .eq('patients.status', 'ready')
+        .eq('status', 'ready')
         .gte('starts_at', today)
         .lt('starts_at', `${today}T23:59:59`)
-        .order('queue_order', { ascending: true })
-        .order('starts_at', { ascending: true });
+        .order('queue_order', { ascending: true, nullsFirst: false })
+        .order('ready_at', { ascending: true });
         
       if (error) throw error;
-      return data;
+      return data as ReadyAppointment[];
     },
     refetchInterval: 10000,
   });
 
+  // Local copy so a drop shows at once; replaced whenever the saved queue comes back
+  const [readyItems, setReadyItems] = useState<ReadyAppointment[]>([]);
+  useEffect(() => {
+    setReadyItems(readyPatients || []);
+  }, [readyPatients]);
+
+  // The sidebar is narrow: the shared queue plus the queues that have patients
+  const readyLanes = buildQueueLanes(readyItems, [], item => item.providers?.display_name);
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+
+    const moved = moveInQueue(readyLanes, String(active.id), String(over.id));
+    if (!moved) return;
+
+    setReadyItems(moved.lanes.flatMap(lane => lane.items));
+    reorderLane.mutate(
+      {
+        providerId: moved.target.providerId,
+        appointmentIds: moved.target.items.map(item => item.id),
+        reassignedTo: moved.reassigned ? moved.target.name : undefined,
+      },
+      { onError: () => setReadyItems(readyPatients || []) }
+    );
+  };
+
   // Fetch in-chair patients
   const { data: inChairVisits } = useQuery({
     queryKey: ['queueInChair'],
@@ -99,40 +218,34 @@ export function QueueSidebar({ activeVisitId, onVisitSelect }: QueueSidebarProps
         <CardHeader className="pb-3">
           <CardTitle className="flex items-center gap-2 text-sm font-medium">
             <Clock className="h-4 w-4 text-amber-500" />
-            Ready ({readyPatients?.length || 0})
+            Ready ({readyItems.length})
           </CardTitle>
         </CardHeader>
         <CardContent className="px-3 pb-3">
-          <ScrollArea className="h-32">
-            <div className="space-y-2">
-              {readyPatients?.map((appointment, index) => (
-                <div
-                  key={appointment.id}
-                  className="flex items-center justify-between p-2 rounded bg-amber-50 border border-amber-200"
-                >
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm truncate">
-                      {appointment.patients.arabic_full_name}
+          <ScrollArea className="h-64">
+            <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+              <div className="space-y-3">
+                {readyLanes.map(lane => (
+                  <div key={lane.id} className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">
+                      {lane.name} ({lane.items.length})
                     </div>
-                    {appointment.patients.phone && (
-                      <div className="text-xs text-muted-foreground">
-                        {appointment.patients.phone}
-                      </div>
-                    )}
+                    <ReadyLane laneId={lane.id}>
+                      <SortableContext items={lane.items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+                        {lane.items.map((appointment, index) => (
+                          <SortableReadyRow key={appointment.id} appointment={appointment} index={index} />
+                        ))}
+                      </SortableContext>
+                    </ReadyLane>
                   </div>
-                  <div className="flex items-center gap-1">
-                    <Badge variant="outline" className="text-xs">
-                      #{index + 1}
-                    </Badge>
-                  </div>
-                </div>
-              ))}
-              {!readyPatients?.length && (
-                <div className="text-center py-4 text-sm text-muted-foreground">
-                  No patients ready
-                </div>
-              )}
-            </div>
+                ))}
+              </div>
+            </DndContext>
+            {!readyItems.length && (
+              <div className="text-center py-4 text-sm text-muted-foreground">
+                No patients ready
+              </div>
+            )}
           </ScrollArea>
         </CardContent>
       </Card>
@@ -15,6 +15,12 @@ import { toast } from '@/hooks/use-toast';
 import { Stethoscope, Circle, Camera, RotateCcw, Plus, ChevronRight } from 'lucide-react';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
 import { useCatalogData } from '@/hooks/useCatalogData';
+import { useAppStore } from '@/store/appStore';
+import { useToothChart } from '@/hooks/useToothChart';
+import { useToothNumbering } from '@/hooks/useToothNumbering';
+import { formatSurfaces, formatTooth, isSameTooth, TEETH_PER_QUADRANT, type ToothRef } from '@/lib/odontogram';
+import { Odontogram } from './Odontogram';
+import { SurfacePicker } from './SurfacePicker';
 
 interface QuickFindingProps {
   visitId: string | null;
@@ -26,6 +32,7 @@ const findingSchema = z.object({
   tooth_set: z.enum(['primary', 'permanent', 'none']).default('none'),
   quadrant: z.enum(['UL', 'UR', 'LL', 'LR']).optional(),
   tooth_number: z.number().min(1).max(8).optional(),
+  surfaces: z.array(z.enum(['M', 'O', 'D', 'B', 'L'])).default([]),
   treatment_id: z.string().min(1, 'Treatment is required'),
   xray_flag: z.boolean().default(false),
   notes: z.string().optional(),
@@ -33,28 +40,23 @@ const findingSchema = z.object({
 
 type FindingFormData = z.infer<typeof findingSchema>;
 
-const QUADRANTS = [
-  { value: 'UL', label: 'UL' },
-  { value: 'UR', label: 'UR' },
-  { value: 'LL', label: 'LL' },
-  { value: 'LR', label: 'LR' },
-];
-
 export function QuickFinding({ visitId, patient }: QuickFindingProps) {
   const queryClient = useQueryClient();
-  const [selectedTooth, setSelectedTooth] = useState<{ quadrant: string; number: number } | null>(null);
-  const [currentToothSet, setCurrentToothSet] = useState<'primary' | 'permanent'>('permanent');
+  const [selectedTooth, setSelectedTooth] = useState<ToothRef | null>(null);
+  const [numbering] = useToothNumbering();
   const { profile } = useAppStore();
   const role = profile?.role || '';
   const canPlan = role === 'doctor' || role === 'admin';
   const canEditFindings = role === 'assistant' || canPlan;
 
   const { diagnoses, treatments, getDiagnosisRules, getAllowedTreatments } = useCatalogData();
+  const { data: toothChart } = useToothChart(patient?.id);
 
   const form = useForm<FindingFormData>({
     resolver: zodResolver(findingSchema),
     defaultValues: {
       tooth_set: 'none',
+      surfaces: [],
       xray_flag: false,
     },
   });
@@ -63,10 +65,6 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
   const diagnosisRules = selectedDiagnosis ? getDiagnosisRules(selectedDiagnosis) : null;
   const allowedTreatments = selectedDiagnosis ? getAllowedTreatments(selectedDiagnosis) : [];
 
-  // Age-aware tooth numbering
-  const maxToothNumber = currentToothSet === 'primary' ? 5 : 8;
-  const toothNumbers = Array.from({ length: maxToothNumber }, (_, i) => i + 1);
-
   // Auto-set X-ray flag based on diagnosis rules
   useEffect(() => {
     if (diagnosisRules?.xray_required) {
@@ -82,11 +80,12 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
   }, [diagnosisRules, allowedTreatments, form]);
 
   // Handle tooth selection
-  const handleToothSelect = (quadrant: string, number: number) => {
-    setSelectedTooth({ quadrant, number });
-    form.setValue('quadrant', quadrant as any);
-    form.setValue('tooth_number', number);
-    form.setValue('tooth_set', currentToothSet);
+  const handleToothSelect = (tooth: ToothRef) => {
+    setSelectedTooth(tooth);
+    form.setValue('quadrant', tooth.quadrant);
+    form.setValue('tooth_number', tooth.toothNumber);
+    form.setValue('tooth_set', tooth.toothSet);
+    form.setValue('surfaces', []);
   };
 
   // Clear tooth selection
@@ -95,11 +94,15 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
     form.setValue('quadrant', undefined);
     form.setValue('tooth_number', undefined);
     form.setValue('tooth_set', 'none');
+    form.setValue('surfaces', []);
   };
 
   const saveFinding = useMutation({
     mutationFn: async (data: FindingFormData) => {
       if (!visitId) throw new Error('No active visit');
+      if (diagnosisRules?.requires_surfaces && data.tooth_set !== 'none' && data.surfaces.length === 0) {
+        throw new Error('Select at least one surface for this diagnosis');
+      }
 
       const { data: finding, error } = await supabase
         .from('visit_diagnoses')
@@ -109,6 +112,7 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
           tooth_set: data.tooth_set,
           quadrant: data.quadrant,
           tooth_number: data.tooth_number,
+          surfaces: data.tooth_set === 'none' ? [] : data.surfaces,
           xray_flag: data.xray_flag,
           notes: data.notes,
           created_by: profile?.user_id || null,
@@ -121,13 +125,14 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['visit/findings', visitId] });
+      queryClient.invalidateQueries({ queryKey: ['patient/tooth-chart', patient?.id] });
       toast({ title: 'Finding saved successfully' });
     },
     onError: (error) => {
       console.error('Error saving finding:', error);
       toast({
         title: 'Error saving finding',
-        description: 'Please try again',
+        description: error.message || 'Please try again',
         variant: 'destructive',
       });
     },
@@ -143,9 +148,9 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
     
     // Advance to next tooth in same quadrant
     if (selectedTooth) {
-      const nextNumber = selectedTooth.number + 1;
-      if (nextNumber <= maxToothNumber) {
-        handleToothSelect(selectedTooth.quadrant, nextNumber);
+      const nextNumber = selectedTooth.toothNumber + 1;
+      if (nextNumber <= TEETH_PER_QUADRANT[selectedTooth.toothSet]) {
+        handleToothSelect({ ...selectedTooth, toothNumber: nextNumber });
       }
     }
   };
@@ -153,7 +158,6 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
   const onClear = () => {
     form.reset();
     setSelectedTooth(null);
-    setCurrentToothSet('permanent');
   };
 
   if (!visitId) {
@@ -176,7 +180,6 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
   }
 
   const requiresTooth = diagnosisRules?.requires_tooth ?? true;
-  const showAgeSwitch = patient?.ageBracket === 'Mixed' && requiresTooth;
 
   return (
     <Card className="h-full flex flex-col">
@@ -247,90 +250,36 @@ export function QuickFinding({ visitId, patient }: QuickFindingProps) {
                   Tooth Location
                 </FormLabel>
                 
-                {showAgeSwitch && (
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm">Primary</span>
-                    <Switch
-                      checked={currentToothSet === 'permanent'}
-                      onCheckedChange={(checked) => 
-                        setCurrentToothSet(checked ? 'permanent' : 'primary')
-                      }
-                    />
-                    <span className="text-sm">Permanent</span>
-                  </div>
-                )}
-
-                {/* Quadrant Grid */}
-                <div className="space-y-2">
-                  <div className="grid grid-cols-2 gap-2">
-                    {QUADRANTS.slice(0, 2).map((quadrant) => (
-                      <Button
-                        key={quadrant.value}
-                        type="button"
-                        variant="outline"
-                        className="h-12 text-lg font-mono"
-                        onClick={() => {
-                          if (selectedTooth?.quadrant === quadrant.value) {
-                            clearTooth();
-                          }
-                        }}
-                      >
-                        {quadrant.label}
-                      </Button>
-                    ))}
-                  </div>
-                  <div className="w-full h-px bg-border"></div>
-                  <div className="grid grid-cols-2 gap-2">
-                    {QUADRANTS.slice(2, 4).map((quadrant) => (
-                      <Button
-                        key={quadrant.value}
-                        type="button"
-                        variant="outline"
-                        className="h-12 text-lg font-mono"
-                        onClick={() => {
-                          if (selectedTooth?.quadrant === quadrant.value) {
-                            clearTooth();
-                          }
-                        }}
-                      >
-                        {quadrant.label}
-                      </Button>
-                    ))}
-                  </div>
-                </div>
+                <Odontogram
+                  compact
+                  ageBracket={patient?.ageBracket || 'Permanent'}
+                  chart={toothChart}
+                  selected={selectedTooth}
+                  onToothClick={(tooth) =>
+                    isSameTooth(tooth, selectedTooth) ? clearTooth() : handleToothSelect(tooth)
+                  }
+                />
 
-                {/* Tooth Numbers */}
-                <div className="grid grid-cols-8 gap-1">
-                  {toothNumbers.map((number) => (
-                    <Button
-                      key={number}
-                      type="button"
-                      size="sm"
-                      variant={
-                        selectedTooth?.number === number ? 'default' : 'outline'
-                      }
-                      className="h-10 text-sm font-mono"
-                      onClick={() => {
-                        if (selectedTooth?.quadrant) {
-                          handleToothSelect(selectedTooth.quadrant, number);
-                        }
-                      }}
-                      disabled={!selectedTooth?.quadrant}
-                    >
-                      {currentToothSet === 'primary'
-                        ? String.fromCharCode(64 + number) // A, B, C, D, E
-                        : number}
-                    </Button>
-                  ))}
-                </div>
+                {selectedTooth && (
+                  <FormField
+                    control={form.control}
+                    name="surfaces"
+                    render={({ field }) => (
+                      <SurfacePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                        required={diagnosisRules?.requires_surfaces}
+                      />
+                    )}
+                  />
+                )}
 
                 {selectedTooth && (
                   <div className="flex items-center gap-2">
                     <Badge variant="default" className="gap-1">
                       <Circle className="h-3 w-3" />
-                      {selectedTooth.quadrant}{selectedTooth.number}
-                      {currentToothSet === 'primary' && 
-                        ` (${String.fromCharCode(64 + selectedTooth.number)})`}
+                      {formatTooth(selectedTooth, numbering)} {formatSurfaces(form.watch('surfaces'))}
+                      {` (${selectedTooth.quadrant}${selectedTooth.toothNumber})`}
                     </Badge>
                     <Button type="button" size="sm" variant="ghost" onClick={clearTooth}>
                       <RotateCcw className="h-3 w-3" />
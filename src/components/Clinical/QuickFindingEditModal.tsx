@@ -21,6 +21,8 @@ import { toast } from '@/hooks/use-toast';
 import { Circle, Camera, RotateCcw } from 'lucide-react';
 import type { ClinicalPatient } from '@/hooks/useClinicalWorkflow';
 import { useCatalogData } from '@/hooks/useCatalogData';
+import { formatSurfaces } from '@/lib/odontogram';
+import { SurfacePicker } from './SurfacePicker';
 
 interface QuickFindingEditModalProps {
   finding: any; // The finding to edit
@@ -34,6 +36,7 @@ const findingSchema = z.object({
   tooth_set: z.enum(['primary', 'permanent', 'none']).default('none'),
   quadrant: z.enum(['UL', 'UR', 'LL', 'LR']).optional(),
   tooth_number: z.number().min(1).max(8).optional(),
+  surfaces: z.array(z.enum(['M', 'O', 'D', 'B', 'L'])).default([]),
   xray_flag: z.boolean().default(false),
   notes: z.string().optional(),
 });
@@ -65,6 +68,7 @@ export function QuickFindingEditModal({
       tooth_set: finding.tooth_set || 'none',
       quadrant: finding.quadrant,
       tooth_number: finding.tooth_number,
+      surfaces: finding.surfaces || [],
       xray_flag: finding.xray_flag || false,
       notes: finding.notes || '',
     },
@@ -103,10 +107,15 @@ export function QuickFindingEditModal({
     form.setValue('quadrant', undefined);
     form.setValue('tooth_number', undefined);
     form.setValue('tooth_set', 'none');
+    form.setValue('surfaces', []);
   };
 
   const updateFinding = useMutation({
     mutationFn: async (data: FindingFormData) => {
+      if (diagnosisRules?.requires_surfaces && data.tooth_set !== 'none' && data.surfaces.length === 0) {
+        throw new Error('Select at least one surface for this diagnosis');
+      }
+
       const { error } = await supabase
         .from('visit_diagnoses')
         .update({
@@ -114,6 +123,7 @@ export function QuickFindingEditModal({
           tooth_set: data.tooth_set,
           quadrant: data.quadrant,
           tooth_number: data.tooth_number,
+          surfaces: data.tooth_set === 'none' ? [] : data.surfaces,
           xray_flag: data.xray_flag,
           notes: data.notes,
         })
@@ -129,7 +139,7 @@ export function QuickFindingEditModal({
       console.error('Error updating finding:', error);
       toast({
         title: 'Error updating finding',
-        description: 'Please try again',
+        description: error.message || 'Please try again',
         variant: 'destructive',
       });
     },
@@ -269,6 +279,20 @@ export function QuickFindingEditModal({
                   </div>
                 )}
 
+                {selectedTooth && (
+                  <FormField
+                    control={form.control}
+                    name="surfaces"
+                    render={({ field }) => (
+                      <SurfacePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                        required={diagnosisRules?.requires_surfaces}
+                      />
+                    )}
+                  />
+                )}
+
                 {selectedTooth && (
                   <div className="flex items-center gap-2">
                     <Badge variant="default" className="gap-1">
@@ -276,6 +300,7 @@ export function QuickFindingEditModal({
                       {selectedTooth.quadrant}{selectedTooth.number}
                       {currentToothSet === 'primary' && 
                         ` (${String.fromCharCode(64 + selectedTooth.number)})`}
+                      {form.watch('surfaces').length > 0 && ` ${formatSurfaces(form.watch('surfaces'))}`}
                     </Badge>
                     <Button type="button" size="sm" variant="ghost" onClick={clearTooth}>
                       <RotateCcw className="h-3 w-3" />
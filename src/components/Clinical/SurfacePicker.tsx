@@ -0,0 +1,39 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TOOTH_SURFACES, type ToothSurface } from '@/lib/odontogram';
+
+interface SurfacePickerProps {
+  value: ToothSurface[];
+  onChange: (surfaces: ToothSurface[]) => void;
+  required?: boolean;
+}
+
+export function SurfacePicker({ value, onChange, required = false }: SurfacePickerProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Surfaces</span>
+        <span className="text-xs text-muted-foreground">
+          {required ? 'At least one required' : 'Optional'}
+        </span>
+      </div>
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        className="justify-start"
+        value={value}
+        onValueChange={(surfaces) => onChange(surfaces as ToothSurface[])}
+      >
+        {TOOTH_SURFACES.map((surface) => (
+          <ToggleGroupItem
+            key={surface.value}
+            value={surface.value}
+            title={surface.label}
+            className="h-9 w-10 font-mono"
+          >
+            {surface.value}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
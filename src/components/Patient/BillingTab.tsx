@@ -1,32 +1,242 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Receipt } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Banknote, Eye, PiggyBank, Printer, Receipt, Wallet } from 'lucide-react';
 import type { PatientDetailData } from '@/hooks/usePatientDetail';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
+import {
+  deriveInvoiceStatus,
+  formatInvoiceNumber,
+  formatMoney,
+  getInvoiceBalance,
+  getPaymentMethodLabel,
+  getTotalPaid,
+} from '@/lib/invoice';
+import { AccountLedger } from '@/components/Billing/AccountLedger';
+import { InvoiceDetailsDrawer } from '@/components/Billing/InvoiceDetailsDrawer';
+import { InstallmentPlanModal } from '@/components/Billing/InstallmentPlanModal';
+import { RecordPaymentModal } from '@/components/Billing/RecordPaymentModal';
+import { VoidInvoiceModal } from '@/components/Billing/VoidInvoiceModal';
+import { AdjustmentModal } from '@/components/Billing/AdjustmentModal';
+import type { AdjustmentKind } from '@/lib/adjustments';
 
 interface BillingTabProps {
   patient: PatientDetailData;
 }
 
+const STATUS_CLASSES: Record<string, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  partial: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-gray-100 text-gray-800',
+};
+
 export default function BillingTab({ patient }: BillingTabProps) {
+  const { usePatientInvoices, usePatientLedger, applyCredit, printInvoice } = useBilling();
+  const { data: invoices, isLoading } = usePatientInvoices(patient.id);
+  const { data: ledger } = usePatientLedger(patient.id);
+  const availableCredit = ledger?.summary.unappliedCredit || 0;
+
+  const [detailsInvoiceId, setDetailsInvoiceId] = useState<string | null>(null);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [voidingInvoice, setVoidingInvoice] = useState<Invoice | null>(null);
+  const [installmentInvoice, setInstallmentInvoice] = useState<Invoice | null>(null);
+  const [adjusting, setAdjusting] = useState<{ invoice: Invoice; kind: AdjustmentKind } | null>(null);
+
+  const detailsInvoice = invoices?.find(invoice => invoice.id === detailsInvoiceId) || null;
+
+  // Flatten payments into one receipt history, newest first
+  const payments = (invoices || [])
+    .flatMap(invoice => (invoice.payments || []).map(payment => ({ ...payment, invoice })))
+    .sort((a, b) => b.paid_at.localeCompare(a.paid_at));
+
   return (
     <div className="space-y-6">
+      <AccountLedger patientId={patient.id} patientName={patient.arabic_full_name} />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center">
             <Receipt className="h-5 w-5 mr-2" />
-            Billing & Payments
+            Invoices
+          </CardTitle>
+          <CardDescription>
+            Invoices issued to this patient
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading invoices...</div>
+          ) : invoices?.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => {
+                  const balance = getInvoiceBalance(invoice);
+                  const status = deriveInvoiceStatus(invoice);
+
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-mono">{formatInvoiceNumber(invoice)}</TableCell>
+                      <TableCell>{format(new Date(invoice.created_at), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{formatMoney(invoice.total_amount, invoice.currency)}</TableCell>
+                      <TableCell>{formatMoney(getTotalPaid(invoice.payments), invoice.currency)}</TableCell>
+                      <TableCell>{formatMoney(balance, invoice.currency)}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_CLASSES[status]}>{status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => setDetailsInvoiceId(invoice.id)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => printInvoice.mutate({ invoiceId: invoice.id })}
+                            disabled={printInvoice.isPending}
+                            title="Print invoice"
+                          >
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                          {balance > 0 && status !== 'void' && (
+                            <Button size="sm" onClick={() => setPaymentInvoice(invoice)}>
+                              <Banknote className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {balance > 0 && status !== 'void' && availableCredit > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => applyCredit.mutate({ invoiceId: invoice.id })}
+                              disabled={applyCredit.isPending}
+                              title={`Apply ${formatMoney(Math.min(availableCredit, balance), invoice.currency)} credit`}
+                            >
+                              <PiggyBank className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No invoices yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Wallet className="h-5 w-5 mr-2" />
+            Payments
           </CardTitle>
           <CardDescription>
-            Invoices, payments, balance and financial management
+            Receipts issued for this patient's payments
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12 text-muted-foreground">
-            <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p>Billing tab coming soon</p>
-            <p className="text-sm">Manage invoices, payments and installments</p>
-          </div>
+          {payments.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="font-mono">{payment.receipt_number || '—'}</TableCell>
+                    <TableCell>{format(new Date(payment.paid_at), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell className="font-mono">{formatInvoiceNumber(payment.invoice)}</TableCell>
+                    <TableCell>{getPaymentMethodLabel(payment.method)}</TableCell>
+                    <TableCell>{formatMoney(payment.amount, payment.invoice.currency)}</TableCell>
+                    <TableCell>
+                      {!payment.credit_id && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => printInvoice.mutate({
+                            invoiceId: payment.invoice.id,
+                            kind: 'receipt',
+                            paymentId: payment.id,
+                          })}
+                          disabled={printInvoice.isPending}
+                          title="Print receipt"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No payments recorded
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      <InvoiceDetailsDrawer
+        invoice={detailsInvoice}
+        onClose={() => setDetailsInvoiceId(null)}
+        onTakePayment={setPaymentInvoice}
+        onVoid={setVoidingInvoice}
+        onSetupInstallments={setInstallmentInvoice}
+        onAdjust={(invoice, kind) => setAdjusting({ invoice, kind })}
+      />
+
+      <RecordPaymentModal
+        open={!!paymentInvoice}
+        onOpenChange={(open) => !open && setPaymentInvoice(null)}
+        invoice={paymentInvoice}
+      />
+
+      <VoidInvoiceModal
+        open={!!voidingInvoice}
+        onOpenChange={(open) => !open && setVoidingInvoice(null)}
+        invoice={voidingInvoice}
+      />
+
+      <InstallmentPlanModal
+        open={!!installmentInvoice}
+        onOpenChange={(open) => !open && setInstallmentInvoice(null)}
+        invoice={installmentInvoice}
+      />
+
+      <AdjustmentModal
+        open={!!adjusting}
+        onOpenChange={(open) => !open && setAdjusting(null)}
+        invoice={adjusting?.invoice || null}
+        kind={adjusting?.kind || 'refund'}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
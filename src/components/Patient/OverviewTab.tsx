@@ -100,13 +100,13 @@ export default function OverviewTab({ patient }: OverviewTabProps) {
       const [invoicesRes, paymentsRes] = await Promise.all([
         supabase
           .from('invoices')
-          .select('id, total_amount, status, created_at')
+          .select('id, invoice_number, total_amount, status, created_at')
           .eq('patient_id', patient.id)
           .order('created_at', { ascending: false })
           .limit(1),
         supabase
           .from('payments')
-          .select('id, amount, method, paid_at')
+          .select('id, amount, method, paid_at, receipt_number')
           .in('invoice_id',
             (await supabase
               .from('invoices')
@@ -415,13 +415,27 @@ export default function OverviewTab({ patient }: OverviewTabProps) {
               {lastFinancial?.lastInvoice && (
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Last Invoice:</span>
-                  <span>{formatCurrency(lastFinancial.lastInvoice.total_amount)}</span>
+                  <span>
+                    {lastFinancial.lastInvoice.invoice_number && (
+                      <span className="font-mono text-xs text-muted-foreground mr-2">
+                        {lastFinancial.lastInvoice.invoice_number}
+                      </span>
+                    )}
+                    {formatCurrency(lastFinancial.lastInvoice.total_amount)}
+                  </span>
                 </div>
               )}
               {lastFinancial?.lastPayment && (
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Last Payment:</span>
-                  <span>{formatCurrency(lastFinancial.lastPayment.amount)}</span>
+                  <span>
+                    {lastFinancial.lastPayment.receipt_number && (
+                      <span className="font-mono text-xs text-muted-foreground mr-2">
+                        {lastFinancial.lastPayment.receipt_number}
+                      </span>
+                    )}
+                    {formatCurrency(lastFinancial.lastPayment.amount)}
+                  </span>
                 </div>
               )}
             </div>
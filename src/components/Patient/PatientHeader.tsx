@@ -222,12 +222,22 @@ export default function PatientHeader({ patient }: PatientHeaderProps) {
                 <span>X-rays: {patient.stats.xrayCount}</span>
               </div>
 
-              {/* Balance */}
+              {/* Balance (from the account ledger) */}
               <div className="flex items-center space-x-1 text-sm">
                 <CreditCard className="h-4 w-4 text-muted-foreground" />
-                <span className={patient.stats.currentBalance > 0 ? 'text-red-600 font-medium' : 'text-green-600'}>
-                  {formatCurrency(patient.stats.currentBalance)}
-                </span>
+                {patient.stats.currentBalance > 0 ? (
+                  <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 font-medium">
+                    Owes {formatCurrency(patient.stats.currentBalance)}
+                  </Badge>
+                ) : patient.stats.currentBalance < 0 ? (
+                  <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 font-medium">
+                    Credit {formatCurrency(-patient.stats.currentBalance)}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 font-medium">
+                    Settled
+                  </Badge>
+                )}
               </div>
 
               {/* Next Appointment */}
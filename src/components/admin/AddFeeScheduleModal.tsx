@@ -0,0 +1,139 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+import { useAdmin } from '@/hooks/useAdmin';
+import { useFeeSchedules } from '@/hooks/useFeeSchedules';
+
+const CLINIC_WIDE = 'clinic';
+
+const addFeeScheduleSchema = z.object({
+  name: z.string().min(2, 'Schedule name is required'),
+  providerId: z.string(),
+  effectiveFrom: z.string().min(1, 'Effective date is required'),
+});
+
+type AddFeeScheduleFormData = z.infer<typeof addFeeScheduleSchema>;
+
+interface AddFeeScheduleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (scheduleId: string) => void;
+}
+
+export function AddFeeScheduleModal({ open, onOpenChange, onCreated }: AddFeeScheduleModalProps) {
+  const { useProviders } = useAdmin();
+  const { data: providers } = useProviders();
+  const { createSchedule } = useFeeSchedules();
+
+  const form = useForm<AddFeeScheduleFormData>({
+    resolver: zodResolver(addFeeScheduleSchema),
+    defaultValues: {
+      name: 'Standard',
+      providerId: CLINIC_WIDE,
+      effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+    },
+  });
+
+  const onSubmit = async (data: AddFeeScheduleFormData) => {
+    try {
+      const schedule = await createSchedule.mutateAsync({
+        name: data.name,
+        providerId: data.providerId === CLINIC_WIDE ? null : data.providerId,
+        effectiveFrom: data.effectiveFrom,
+      });
+      form.reset();
+      onOpenChange(false);
+      onCreated?.(schedule.id);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Fee Schedule</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Standard, Specialist" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="providerId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies To</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={CLINIC_WIDE}>Whole clinic</SelectItem>
+                      {providers?.filter(p => p.active).map(provider => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.display_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Provider overrides only replace the treatments they price.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="effectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createSchedule.isPending}>
+                {createSchedule.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Schedule
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
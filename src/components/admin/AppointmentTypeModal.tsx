@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAdmin } from '@/hooks/useAdmin';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import {
+  APPOINTMENT_TYPE_COLORS,
+  type AppointmentType,
+  type AppointmentTypeTreatment,
+} from '@/lib/appointmentTypes';
+
+const appointmentTypeSchema = z.object({
+  name: z.string().min(2, 'Type name is required'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Pick a color'),
+  default_duration_minutes: z.coerce.number().int().min(5, 'At least 5 minutes').max(480, 'At most 8 hours'),
+});
+
+type AppointmentTypeFormData = z.infer<typeof appointmentTypeSchema>;
+
+interface AppointmentTypeModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  appointmentType?: AppointmentType | null; // edit when set, create otherwise
+}
+
+export function AppointmentTypeModal({ open, onOpenChange, appointmentType }: AppointmentTypeModalProps) {
+  const { createType, updateType } = useAppointmentTypes();
+  const { useTreatments } = useAdmin();
+  const { data: treatments = [] } = useTreatments();
+  const [links, setLinks] = useState<AppointmentTypeTreatment[]>([]);
+  const [treatmentSearch, setTreatmentSearch] = useState('');
+
+  const form = useForm<AppointmentTypeFormData>({
+    resolver: zodResolver(appointmentTypeSchema),
+    defaultValues: {
+      name: '',
+      color: APPOINTMENT_TYPE_COLORS[0],
+      default_duration_minutes: 30,
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset({
+      name: appointmentType?.name || '',
+      color: appointmentType?.color || APPOINTMENT_TYPE_COLORS[0],
+      default_duration_minutes: appointmentType?.default_duration_minutes || 30,
+    });
+    setLinks(appointmentType?.appointment_type_treatments || []);
+    setTreatmentSearch('');
+  }, [open, appointmentType, form]);
+
+  const isPending = createType.isPending || updateType.isPending;
+
+  const filteredTreatments = treatments.filter(treatment =>
+    treatment.active &&
+    (treatment.name_en.toLowerCase().includes(treatmentSearch.toLowerCase()) ||
+      treatment.code?.toLowerCase().includes(treatmentSearch.toLowerCase()))
+  );
+
+  const toggleTreatment = (treatmentId: string, linked: boolean) => {
+    setLinks(prev => linked
+      ? [...prev, { treatment_id: treatmentId, chair_minutes: null }]
+      : prev.filter(link => link.treatment_id !== treatmentId));
+  };
+
+  const setChairMinutes = (treatmentId: string, value: string) => {
+    const minutes = Number(value);
+    setLinks(prev => prev.map(link =>
+      link.treatment_id === treatmentId
+        ? { ...link, chair_minutes: value && minutes > 0 ? minutes : null }
+        : link
+    ));
+  };
+
+  const onSubmit = async (data: AppointmentTypeFormData) => {
+    const type = {
+      name: data.name,
+      color: data.color,
+      default_duration_minutes: data.default_duration_minutes,
+      treatments: links,
+    };
+
+    try {
+      if (appointmentType) {
+        await updateType.mutateAsync({ id: appointmentType.id, ...type });
+      } else {
+        await createType.mutateAsync(type);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{appointmentType ? 'Edit Appointment Type' : 'Add Appointment Type'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Consultation, Root Canal" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="default_duration_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="5" step="5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Calendar Color</FormLabel>
+                  <div className="flex items-center gap-2">
+                    {APPOINTMENT_TYPE_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        aria-label={color}
+                        className={cn(
+                          'h-7 w-7 rounded-full border-2',
+                          field.value === color ? 'border-foreground' : 'border-transparent'
+                        )}
+                        style={{ backgroundColor: color }}
+                        onClick={() => field.onChange(color)}
+                      />
+                    ))}
+                    <FormControl>
+                      <Input type="color" className="h-8 w-12 p-1" {...field} />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Linked treatments */}
+            <div className="space-y-2">
+              <Label>Linked Treatments ({links.length})</Label>
+              <p className="text-xs text-muted-foreground">
+                Booking a planned treatment uses this type. Set a chair time where it differs from the type's duration.
+              </p>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search treatments..."
+                  value={treatmentSearch}
+                  onChange={(e) => setTreatmentSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <ScrollArea className="h-56 border rounded-lg">
+                {filteredTreatments.map(treatment => {
+                  const link = links.find(l => l.treatment_id === treatment.id);
+
+                  return (
+                    <div key={treatment.id} className="flex items-center gap-3 px-3 py-2 border-b last:border-b-0">
+                      <Checkbox
+                        id={`type-treatment-${treatment.id}`}
+                        checked={!!link}
+                        onCheckedChange={(checked) => toggleTreatment(treatment.id, !!checked)}
+                      />
+                      <Label htmlFor={`type-treatment-${treatment.id}`} className="flex-1 font-normal">
+                        {treatment.name_en}
+                        {treatment.code && <span className="text-muted-foreground ml-1">({treatment.code})</span>}
+                      </Label>
+                      {link && (
+                        <Input
+                          type="number"
+                          min="5"
+                          step="5"
+                          placeholder={String(form.watch('default_duration_minutes') || '')}
+                          value={link.chair_minutes ?? ''}
+                          onChange={(e) => setChairMinutes(treatment.id, e.target.value)}
+                          className="h-8 w-20 text-xs"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+                {filteredTreatments.length === 0 && (
+                  <p className="p-3 text-sm text-muted-foreground">No treatments found</p>
+                )}
+              </ScrollArea>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {appointmentType ? 'Save Changes' : 'Create Type'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
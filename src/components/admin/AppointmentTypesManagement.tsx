@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { CalendarClock, Plus, Edit3 } from 'lucide-react';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import { formatDuration, type AppointmentType } from '@/lib/appointmentTypes';
+import { AppointmentTypeModal } from './AppointmentTypeModal';
+
+export function AppointmentTypesManagement() {
+  const { appointmentTypes, isLoading, updateType } = useAppointmentTypes();
+  const [showModal, setShowModal] = useState(false);
+  const [selectedType, setSelectedType] = useState<AppointmentType | null>(null);
+
+  const handleToggleActive = async (type: AppointmentType, active: boolean) => {
+    try {
+      await updateType.mutateAsync({ id: type.id, active });
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const openModal = (type: AppointmentType | null) => {
+    setSelectedType(type);
+    setShowModal(true);
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center p-8">Loading appointment types...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            Appointment Types ({appointmentTypes.length})
+          </div>
+          <Button onClick={() => openModal(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Type
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Default Duration</TableHead>
+              <TableHead>Linked Treatments</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {appointmentTypes.map((type) => (
+              <TableRow key={type.id}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: type.color }} />
+                    {type.name}
+                  </div>
+                </TableCell>
+                <TableCell>{formatDuration(type.default_duration_minutes)}</TableCell>
+                <TableCell>
+                  {type.appointment_type_treatments.length > 0 ? (
+                    <Badge variant="outline">{type.appointment_type_treatments.length}</Badge>
+                  ) : (
+                    <span className="text-muted-foreground">None</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={type.active}
+                      onCheckedChange={(checked) => handleToggleActive(type, checked)}
+                      disabled={updateType.isPending}
+                    />
+                    <Badge variant={type.active ? 'default' : 'secondary'}>
+                      {type.active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={() => openModal(type)}>
+                    <Edit3 className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {appointmentTypes.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarClock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No appointment types configured yet.</p>
+            <p className="text-sm">Add types such as Consultation or Cleaning to set default lengths and colors.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <AppointmentTypeModal
+        open={showModal}
+        onOpenChange={setShowModal}
+        appointmentType={selectedType}
+      />
+    </Card>
+  );
+}
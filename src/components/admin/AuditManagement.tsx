@@ -142,6 +142,10 @@ export function AuditManagement() {
                   <SelectItem value="profiles">profiles</SelectItem>
                   <SelectItem value="invoices">invoices</SelectItem>
                   <SelectItem value="payments">payments</SelectItem>
+                  <SelectItem value="invoice_adjustments">invoice_adjustments</SelectItem>
+                  <SelectItem value="patient_credits">patient_credits</SelectItem>
+                  <SelectItem value="cash_drawer_closings">cash_drawer_closings</SelectItem>
+                  <SelectItem value="waitlist_entries">waitlist_entries</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -6,12 +6,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Clock, Building2, Calendar, Plus, Copy, Trash2, Globe } from 'lucide-react';
+import { Clock, Building2, Calendar, Plus, Copy, Trash2, Globe, Stethoscope, CalendarX, RotateCcw, CalendarRange } from 'lucide-react';
 import { useClinicSettings } from '@/hooks/useClinicSettings';
 import { useAdmin } from '@/hooks/useAdmin';
 import { WeeklyScheduleEditor } from './WeeklyScheduleEditor';
 import { ExceptionsDrawer } from './ExceptionsDrawer';
-import { AvailabilityConfig, TimeRange, DaySchedule } from '@/lib/availability';
+import { SeasonalSchedulesEditor } from './SeasonalSchedulesEditor';
+import { AvailabilityConfig, TimeRange, DaySchedule, createAllDaySchedule } from '@/lib/availability';
 
 const TIMEZONES = [
   { value: 'Africa/Cairo', label: 'Cairo (UTC+2)' },
@@ -26,12 +27,16 @@ const SLOT_DURATIONS = [5, 10, 15, 20, 30];
 
 export function AvailabilityEditor() {
   const { settings, debouncedSave, isLoading } = useClinicSettings();
-  const { useRooms } = useAdmin();
+  const { useRooms, useProviders } = useAdmin();
   const { data: rooms } = useRooms();
+  const { data: providers } = useProviders();
+  const activeProviders = providers?.filter(p => p.active);
   
   const [localAvailability, setLocalAvailability] = useState<AvailabilityConfig | null>(null);
   const [selectedRoom, setSelectedRoom] = useState<string | null>(null);
+  const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [showExceptions, setShowExceptions] = useState(false);
+  const [showProviderTimeOff, setShowProviderTimeOff] = useState(false);
 
   // Initialize local state when settings are loaded
   useEffect(() => {
@@ -110,6 +115,35 @@ export function AvailabilityEditor() {
     } : null);
   };
 
+  const updateProviderSchedule = (providerId: string, schedule: Partial<DaySchedule>) => {
+    setLocalAvailability(prev => prev ? {
+      ...prev,
+      providers: {
+        ...prev.providers,
+        [providerId]: { ...(prev.providers?.[providerId] || createAllDaySchedule()), ...schedule }
+      }
+    } : null);
+  };
+
+  const copyClinicToProvider = (providerId: string) => {
+    setLocalAvailability(prev => prev ? {
+      ...prev,
+      providers: {
+        ...prev.providers,
+        [providerId]: { ...prev.clinic, exceptions: prev.providers?.[providerId]?.exceptions || [] }
+      }
+    } : null);
+  };
+
+  // Without a schedule of their own a provider can be booked whenever the clinic is open
+  const resetProviderSchedule = (providerId: string) => {
+    setLocalAvailability(prev => {
+      if (!prev) return null;
+      const { [providerId]: _removed, ...rest } = prev.providers || {};
+      return { ...prev, providers: rest };
+    });
+  };
+
   if (isLoading || !localAvailability) {
     return <div className="flex items-center justify-center p-8">Loading availability settings...</div>;
   }
@@ -191,7 +225,7 @@ export function AvailabilityEditor() {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="clinic" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="clinic" className="flex items-center">
                 <Building2 className="h-4 w-4 mr-2" />
                 Clinic Hours
@@ -200,6 +234,14 @@ export function AvailabilityEditor() {
                 <Clock className="h-4 w-4 mr-2" />
                 Room Hours ({rooms?.length || 0})
               </TabsTrigger>
+              <TabsTrigger value="providers" className="flex items-center">
+                <Stethoscope className="h-4 w-4 mr-2" />
+                Provider Hours ({activeProviders?.length || 0})
+              </TabsTrigger>
+              <TabsTrigger value="seasons" className="flex items-center">
+                <CalendarRange className="h-4 w-4 mr-2" />
+                Seasonal Hours ({localAvailability.seasons?.length || 0})
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="clinic" className="mt-6">
@@ -296,6 +338,116 @@ export function AvailabilityEditor() {
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="providers" className="mt-6">
+              <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                {/* Provider List */}
+                <div className="lg:col-span-1">
+                  <h3 className="font-medium mb-3">Providers</h3>
+                  <div className="space-y-2">
+                    {activeProviders?.map(provider => {
+                      const schedule = localAvailability.providers?.[provider.id];
+                      const timeOff = schedule?.exceptions.filter(e => e.closed).length || 0;
+
+                      return (
+                        <div
+                          key={provider.id}
+                          className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                            selectedProvider === provider.id
+                              ? 'bg-primary/10 border-primary'
+                              : 'hover:bg-muted/50'
+                          }`}
+                          onClick={() => setSelectedProvider(provider.id)}
+                        >
+                          <div className="font-medium">{provider.display_name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {schedule ? 'Custom hours' : 'Clinic hours'}
+                            {timeOff > 0 && ` · ${timeOff} day${timeOff === 1 ? '' : 's'} off`}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {activeProviders?.length === 0 && (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <Stethoscope className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                        <p className="text-sm">No providers configured</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Provider Schedule Editor */}
+                <div className="lg:col-span-3">
+                  {selectedProvider ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-medium">
+                          {activeProviders?.find(p => p.id === selectedProvider)?.display_name} Hours
+                        </h3>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowProviderTimeOff(true)}
+                            className="flex items-center"
+                          >
+                            <CalendarX className="h-4 w-4 mr-2" />
+                            Time Off
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => copyClinicToProvider(selectedProvider)}
+                            className="flex items-center"
+                          >
+                            <Copy className="h-4 w-4 mr-2" />
+                            Copy Clinic Hours
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resetProviderSchedule(selectedProvider)}
+                            disabled={!localAvailability.providers?.[selectedProvider]}
+                            className="flex items-center"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Use Clinic Hours
+                          </Button>
+                        </div>
+                      </div>
+
+                      {localAvailability.providers?.[selectedProvider] ? (
+                        <WeeklyScheduleEditor
+                          schedule={localAvailability.providers[selectedProvider]}
+                          onChange={(schedule) => updateProviderSchedule(selectedProvider, schedule)}
+                        />
+                      ) : (
+                        <div className="p-4 border rounded-lg text-sm text-muted-foreground">
+                          This provider can be booked whenever the clinic is open. Copy the clinic hours
+                          to set their own working days and times.
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-center h-64 text-muted-foreground">
+                      <div className="text-center">
+                        <Stethoscope className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Select a provider to configure their working hours and time off</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="seasons" className="mt-6">
+              <SeasonalSchedulesEditor
+                seasons={localAvailability.seasons || []}
+                clinicSchedule={localAvailability.clinic}
+                onChange={(seasons) => updateAvailability({ seasons })}
+              />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -306,6 +458,17 @@ export function AvailabilityEditor() {
         exceptions={localAvailability.clinic.exceptions}
         onUpdateExceptions={(exceptions) => updateClinicSchedule({ exceptions })}
       />
+
+      {selectedProvider && (
+        <ExceptionsDrawer
+          open={showProviderTimeOff}
+          onOpenChange={setShowProviderTimeOff}
+          title={`Time Off · ${activeProviders?.find(p => p.id === selectedProvider)?.display_name || 'Provider'}`}
+          closedLabel="Off all day"
+          exceptions={localAvailability.providers?.[selectedProvider]?.exceptions || []}
+          onUpdateExceptions={(exceptions) => updateProviderSchedule(selectedProvider, { exceptions })}
+        />
+      )}
     </div>
   );
 }
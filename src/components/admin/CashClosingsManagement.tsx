@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LockOpen, Printer, Vault } from 'lucide-react';
+import { useCashDrawer, type CashDrawerClosing } from '@/hooks/useCashDrawer';
+import { formatMoney, getPaymentMethodLabel } from '@/lib/invoice';
+
+export function CashClosingsManagement() {
+  const { useCashClosings, reopenDay, printZReport } = useCashDrawer();
+  const { data: closings, isLoading } = useCashClosings();
+  const [reopening, setReopening] = useState<CashDrawerClosing | null>(null);
+
+  const handleReopen = async () => {
+    if (!reopening) return;
+
+    try {
+      await reopenDay.mutateAsync(reopening.id);
+      setReopening(null);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Vault className="h-5 w-5 mr-2" />
+          Cash Drawer Closings
+        </CardTitle>
+        <CardDescription>
+          End-of-day counts from the front desk. Reopen a day to let its payments be corrected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Loading closings...</div>
+        ) : closings?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>By method</TableHead>
+                <TableHead className="text-right">Collected</TableHead>
+                <TableHead className="text-right">Expected cash</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead>Closed by</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {closings.map(closing => {
+                const difference = Number(closing.difference || 0);
+
+                return (
+                  <TableRow key={closing.id}>
+                    <TableCell>{format(parseISO(closing.business_date), 'EEE, MMM dd, yyyy')}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {(closing.summary?.byMethod || [])
+                        .map(total => `${getPaymentMethodLabel(total.method)} ${formatMoney(total.net, '')}`)
+                        .join(' · ')}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(closing.total_collected)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(closing.expected_cash)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(closing.counted_cash)}</TableCell>
+                    <TableCell className="text-right">
+                      {difference === 0 ? (
+                        <Badge className="bg-green-100 text-green-800">Balanced</Badge>
+                      ) : (
+                        <Badge className={difference < 0 ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}>
+                          {difference < 0 ? 'Short' : 'Over'} {formatMoney(Math.abs(difference))}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{closing.closer?.full_name}</div>
+                      <div className="text-muted-foreground" title={closing.notes || undefined}>
+                        {format(new Date(closing.closed_at), 'MMM dd, HH:mm')}
+                        {closing.notes && ' · note'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => printZReport.mutate(closing.business_date)}
+                          disabled={printZReport.isPending}
+                          title="Print Z-report"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setReopening(closing)} title="Reopen day">
+                          <LockOpen className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No days have been closed yet.
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!reopening} onOpenChange={(open) => !open && setReopening(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reopen this day?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The closing count for {reopening && format(parseISO(reopening.business_date), 'MMM dd, yyyy')} will
+              be removed and its payments unlocked. The day must be closed again afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReopen}>Reopen</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
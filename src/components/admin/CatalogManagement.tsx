@@ -6,13 +6,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
-import { BookOpen, Plus, Search, Edit3, Stethoscope, Syringe, Settings } from 'lucide-react';
+import { BookOpen, Plus, Search, Edit3, Stethoscope, Syringe, Settings, Receipt } from 'lucide-react';
 import { useAdmin } from '@/hooks/useAdmin';
 import { AddDiagnosisModal } from './AddDiagnosisModal';
 import { AddTreatmentModal } from './AddTreatmentModal';
 import { EditDiagnosisModal } from './EditDiagnosisModal';
 import { EditTreatmentModal } from './EditTreatmentModal';
 import { DiagnosisRulesModal } from './DiagnosisRulesModal';
+import { FeeScheduleManagement } from './FeeScheduleManagement';
 
 export function CatalogManagement() {
   const { useDiagnoses, useTreatments, updateDiagnosis, updateTreatment } = useAdmin();
@@ -103,6 +104,10 @@ export function CatalogManagement() {
             <Syringe className="h-4 w-4 mr-2" />
             Treatments ({filteredTreatments?.length || 0})
           </TabsTrigger>
+          <TabsTrigger value="fees" className="flex items-center">
+            <Receipt className="h-4 w-4 mr-2" />
+            Fee Schedules
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="diagnoses" className="space-y-4">
@@ -259,6 +264,10 @@ export function CatalogManagement() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="fees" className="space-y-4">
+          <FeeScheduleManagement searchTerm={searchTerm} />
+        </TabsContent>
       </Tabs>
 
       {/* Modals */}
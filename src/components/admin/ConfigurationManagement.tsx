@@ -7,12 +7,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Settings, Building2, DoorOpen, Plus, Edit3, Clock, MapPin, Calendar } from 'lucide-react';
+import { Settings, Building2, DoorOpen, Plus, Edit3, Clock, MapPin, Calendar, CalendarClock } from 'lucide-react';
 import { useAdmin } from '@/hooks/useAdmin';
 import { useMe } from '@/hooks/useMe';
 import { AddRoomModal } from './AddRoomModal';
 import { EditRoomModal } from './EditRoomModal';
 import { AvailabilityEditor } from './AvailabilityEditor';
+import { AppointmentTypesManagement } from './AppointmentTypesManagement';
+import { OverbookingPolicyCard } from './OverbookingPolicyCard';
+import { LobbyDisplaysCard } from './LobbyDisplaysCard';
 
 export function ConfigurationManagement() {
   const { useRooms, updateRoom } = useAdmin();
@@ -28,7 +31,6 @@ export function ConfigurationManagement() {
     start: '09:00',
     end: '18:00'
   });
-  const [allowOverbooking, setAllowOverbooking] = useState(false);
 
   const handleToggleRoomActive = async (room: any, active: boolean) => {
     try {
@@ -52,7 +54,7 @@ export function ConfigurationManagement() {
 
   return (
     <Tabs defaultValue="general" className="w-full">
-      <TabsList className="grid w-full grid-cols-2">
+      <TabsList className="grid w-full grid-cols-3">
         <TabsTrigger value="general" className="flex items-center">
           <Settings className="h-4 w-4 mr-2" />
           General
@@ -61,6 +63,10 @@ export function ConfigurationManagement() {
           <Calendar className="h-4 w-4 mr-2" />
           Availability
         </TabsTrigger>
+        <TabsTrigger value="appointment-types" className="flex items-center">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Appointment Types
+        </TabsTrigger>
       </TabsList>
 
       <TabsContent value="general" className="mt-6">
@@ -180,19 +186,6 @@ export function ConfigurationManagement() {
                     </SelectContent>
                   </Select>
                 </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Allow Overbooking</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Allow scheduling multiple patients in the same time slot
-                    </p>
-                  </div>
-                  <Switch
-                    checked={allowOverbooking}
-                    onCheckedChange={setAllowOverbooking}
-                  />
-                </div>
               </div>
 
               <div>
@@ -225,6 +218,10 @@ export function ConfigurationManagement() {
               </div>
             </CardContent>
           </Card>
+
+          <OverbookingPolicyCard />
+
+          <LobbyDisplaysCard />
         </div>
       </TabsContent>
 
@@ -232,6 +229,10 @@ export function ConfigurationManagement() {
         <AvailabilityEditor />
       </TabsContent>
 
+      <TabsContent value="appointment-types" className="mt-6">
+        <AppointmentTypesManagement />
+      </TabsContent>
+
       <AddRoomModal
         open={showAddRoomModal}
         onOpenChange={setShowAddRoomModal}
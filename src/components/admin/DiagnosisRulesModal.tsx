@@ -25,6 +25,7 @@ export function DiagnosisRulesModal({ open, onOpenChange, diagnosis }: Diagnosis
   const { data: allTreatments } = useTreatments();
 
   const [requiresTooth, setRequiresTooth] = useState(false);
+  const [requiresSurfaces, setRequiresSurfaces] = useState(false);
   const [xrayRequired, setXrayRequired] = useState(false);
   const [defaultTreatmentId, setDefaultTreatmentId] = useState<string>('');
   const [allowedTreatmentIds, setAllowedTreatmentIds] = useState<string[]>([]);
@@ -61,12 +62,14 @@ export function DiagnosisRulesModal({ open, onOpenChange, diagnosis }: Diagnosis
   useEffect(() => {
     if (currentRules && open) {
       setRequiresTooth(currentRules.rules?.requires_tooth || false);
+      setRequiresSurfaces(currentRules.rules?.requires_surfaces || false);
       setXrayRequired(currentRules.rules?.xray_required || false);
       setDefaultTreatmentId(currentRules.rules?.default_treatment_id || 'NONE');
       setAllowedTreatmentIds(currentRules.allowedTreatments || []);
     } else if (open) {
       // Reset to defaults when opening modal
       setRequiresTooth(false);
+      setRequiresSurfaces(false);
       setXrayRequired(false);
       setDefaultTreatmentId('NONE');
       setAllowedTreatmentIds([]);
@@ -89,6 +92,7 @@ export function DiagnosisRulesModal({ open, onOpenChange, diagnosis }: Diagnosis
         .upsert({
           diagnosis_id: diagnosis.id,
           requires_tooth: requiresTooth,
+          requires_surfaces: requiresTooth && requiresSurfaces,
           xray_required: xrayRequired,
           default_treatment_id: defaultTreatmentId === 'NONE' ? null : defaultTreatmentId,
         });
@@ -185,6 +189,22 @@ export function DiagnosisRulesModal({ open, onOpenChange, diagnosis }: Diagnosis
 
               <Separator />
 
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="font-medium">Requires Surfaces</Label>
+                  <p className="text-sm text-muted-foreground">
+                    At least one tooth surface (M/O/D/B/L) must be selected, e.g. for caries and restorations
+                  </p>
+                </div>
+                <Checkbox
+                  checked={requiresTooth && requiresSurfaces}
+                  disabled={!requiresTooth}
+                  onCheckedChange={(checked) => setRequiresSurfaces(!!checked)}
+                />
+              </div>
+
+              <Separator />
+
               <div className="flex items-center justify-between">
                 <div className="space-y-1">
                   <Label className="font-medium">X-ray Required</Label>
@@ -8,32 +8,40 @@ import { Calendar } from '@/components/ui/calendar';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerTrigger } from '@/components/ui/drawer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { CalendarX, Plus, X, Calendar as CalendarIcon } from 'lucide-react';
-import { format } from 'date-fns';
+import { CalendarX, Plus, X, Calendar as CalendarIcon, FileUp } from 'lucide-react';
+import { eachDayOfInterval, format } from 'date-fns';
 import { DateException, TimeRange } from '@/lib/availability';
+import { HolidayImportDialog } from './HolidayImportDialog';
 
 interface ExceptionsDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   exceptions: DateException[];
   onUpdateExceptions: (exceptions: DateException[]) => void;
+  title?: string;
+  closedLabel?: string;
 }
 
 export function ExceptionsDrawer({ 
   open, 
   onOpenChange, 
   exceptions, 
-  onUpdateExceptions 
+  onUpdateExceptions,
+  title = 'Schedule Exceptions',
+  closedLabel = 'Closed all day'
 }: ExceptionsDrawerProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
   const [isClosed, setIsClosed] = useState(false);
+  const [throughDate, setThroughDate] = useState('');
   const [overrideRanges, setOverrideRanges] = useState<TimeRange[]>([]);
   const [newRange, setNewRange] = useState<TimeRange>({ start: '09:00', end: '17:00' });
+  const [showImport, setShowImport] = useState(false);
 
   const handleDateSelect = (date: Date | undefined) => {
     if (!date) return;
     
     setSelectedDate(date);
+    setThroughDate('');
     
     // Check if exception already exists for this date
     const dateString = format(date, 'yyyy-MM-dd');
@@ -66,19 +74,23 @@ export function ExceptionsDrawer({
   const saveException = () => {
     if (!selectedDate) return;
     
-    const dateString = format(selectedDate, 'yyyy-MM-dd');
+    // A closed exception can cover several days, e.g. a week of leave
+    const dates = isClosed && throughDate
+      ? eachDayOfInterval({ start: selectedDate, end: new Date(throughDate + 'T00:00:00') })
+      : [selectedDate];
+    const dateStrings = dates.map(date => format(date, 'yyyy-MM-dd'));
     
-    // Remove existing exception for this date
-    const filteredExceptions = exceptions.filter(e => e.date !== dateString);
+    // Remove existing exceptions for these dates
+    const filteredExceptions = exceptions.filter(e => !dateStrings.includes(e.date));
     
-    // Add new exception
-    const newException: DateException = {
+    // Add new exceptions
+    const newExceptions: DateException[] = dateStrings.map(dateString => ({
       date: dateString,
       closed: isClosed,
       overrides: isClosed ? undefined : overrideRanges.length > 0 ? overrideRanges : undefined
-    };
+    }));
     
-    onUpdateExceptions([...filteredExceptions, newException]);
+    onUpdateExceptions([...filteredExceptions, ...newExceptions]);
     clearForm();
   };
 
@@ -86,9 +98,15 @@ export function ExceptionsDrawer({
     onUpdateExceptions(exceptions.filter(e => e.date !== dateString));
   };
 
+  const importClosures = (closures: DateException[]) => {
+    const importedDates = closures.map(c => c.date);
+    onUpdateExceptions([...exceptions.filter(e => !importedDates.includes(e.date)), ...closures]);
+  };
+
   const clearForm = () => {
     setSelectedDate(undefined);
     setIsClosed(false);
+    setThroughDate('');
     setOverrideRanges([]);
     setNewRange({ start: '09:00', end: '17:00' });
   };
@@ -103,7 +121,7 @@ export function ExceptionsDrawer({
         <DrawerHeader>
           <DrawerTitle className="flex items-center">
             <CalendarX className="h-5 w-5 mr-2" />
-            Schedule Exceptions
+            {title}
           </DrawerTitle>
         </DrawerHeader>
         
@@ -135,7 +153,7 @@ export function ExceptionsDrawer({
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="flex items-center justify-between">
-                      <Label>Closed all day</Label>
+                      <Label>{closedLabel}</Label>
                       <Switch
                         checked={isClosed}
                         onCheckedChange={(checked) => {
@@ -145,6 +163,19 @@ export function ExceptionsDrawer({
                       />
                     </div>
 
+                    {isClosed && (
+                      <div>
+                        <Label className="text-xs">Through (optional)</Label>
+                        <Input
+                          type="date"
+                          value={throughDate}
+                          min={format(selectedDate, 'yyyy-MM-dd')}
+                          onChange={(e) => setThroughDate(e.target.value)}
+                          className="text-sm"
+                        />
+                      </div>
+                    )}
+
                     {!isClosed && (
                       <>
                         <Separator />
@@ -222,8 +253,12 @@ export function ExceptionsDrawer({
             {/* Existing Exceptions */}
             <div>
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle className="text-base">Current Exceptions</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => setShowImport(true)}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import .ics
+                  </Button>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
@@ -235,6 +270,9 @@ export function ExceptionsDrawer({
                             <div>
                               <div className="font-medium">
                                 {format(new Date(exception.date + 'T00:00:00'), 'MMM dd, yyyy')}
+                                {exception.label && (
+                                  <span className="ml-2 text-sm font-normal text-muted-foreground">{exception.label}</span>
+                                )}
                               </div>
                               <div className="text-sm text-muted-foreground">
                                 {exception.closed ? (
@@ -275,6 +313,13 @@ export function ExceptionsDrawer({
           </div>
         </div>
       </DrawerContent>
+
+      <HolidayImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        exceptions={exceptions}
+        onImport={importClosures}
+      />
     </Drawer>
   );
 }
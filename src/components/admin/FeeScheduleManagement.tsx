@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, TrendingUp } from 'lucide-react';
+import { useAdmin } from '@/hooks/useAdmin';
+import { useFeeSchedules } from '@/hooks/useFeeSchedules';
+import { getEffectiveSchedules, resolveTreatmentPrice, type FeeSchedule } from '@/lib/feeSchedule';
+import { AddFeeScheduleModal } from './AddFeeScheduleModal';
+import { FeeScheduleVersionModal } from './FeeScheduleVersionModal';
+
+interface FeeScheduleManagementProps {
+  searchTerm?: string;
+}
+
+export function FeeScheduleManagement({ searchTerm = '' }: FeeScheduleManagementProps) {
+  const { useTreatments, useProviders } = useAdmin();
+  const { data: treatments, isLoading: treatmentsLoading } = useTreatments();
+  const { data: providers } = useProviders();
+  const { schedules, isLoading: schedulesLoading, setItemPrice } = useFeeSchedules();
+
+  const [selectedScheduleId, setSelectedScheduleId] = useState<string>('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showVersionModal, setShowVersionModal] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const currentIds = new Set(
+    (schedules || []).flatMap(s => getEffectiveSchedules(schedules || [], today, s.provider_id).map(e => e.id))
+  );
+
+  // Default to the clinic-wide schedule in effect today
+  useEffect(() => {
+    if (!schedules?.length || selectedScheduleId) return;
+    const [current] = getEffectiveSchedules(schedules, today);
+    setSelectedScheduleId((current || schedules[0]).id);
+  }, [schedules, selectedScheduleId, today]);
+
+  const selectedSchedule = schedules?.find(s => s.id === selectedScheduleId) || null;
+
+  const providerName = (providerId: string | null) =>
+    providerId ? providers?.find(p => p.id === providerId)?.display_name || 'Provider' : 'Whole clinic';
+
+  const scheduleLabel = (schedule: FeeSchedule) =>
+    `${schedule.name} v${schedule.version} · ${providerName(schedule.provider_id)} · from ${schedule.effective_from}`;
+
+  const filteredTreatments = treatments?.filter(treatment =>
+    treatment.active && (
+      treatment.name_en.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      treatment.code?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+  );
+
+  const handlePriceBlur = async (treatmentId: string, value: string, current?: number) => {
+    if (!selectedSchedule) return;
+    const price = value.trim() === '' ? null : Number(value);
+    if (price !== null && isNaN(price)) return;
+    if (price === (current ?? null)) return;
+
+    try {
+      await setItemPrice.mutateAsync({
+        scheduleId: selectedSchedule.id,
+        treatmentId,
+        price,
+      });
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span>Fee Schedules</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setShowVersionModal(true)}
+              disabled={!selectedSchedule}
+            >
+              <TrendingUp className="h-4 w-4 mr-2" />
+              New Version / Raise %
+            </Button>
+            <Button onClick={() => setShowAddModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schedulesLoading || treatmentsLoading ? (
+          <div className="text-center py-8">Loading fee schedules...</div>
+        ) : !schedules?.length ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No fee schedules yet. Create a clinic-wide schedule to pre-fill procedure prices.
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Select value={selectedScheduleId} onValueChange={setSelectedScheduleId}>
+                <SelectTrigger className="w-[28rem]">
+                  <SelectValue placeholder="Select a schedule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {schedules.map(schedule => (
+                    <SelectItem key={schedule.id} value={schedule.id}>
+                      {scheduleLabel(schedule)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedSchedule && (
+                currentIds.has(selectedSchedule.id) ? (
+                  <Badge>In effect</Badge>
+                ) : selectedSchedule.effective_from > today ? (
+                  <Badge variant="outline">Upcoming</Badge>
+                ) : (
+                  <Badge variant="secondary">Superseded</Badge>
+                )
+              )}
+            </div>
+
+            {selectedSchedule?.provider_id && (
+              <p className="text-sm text-muted-foreground">
+                Leave a price empty to fall back to the clinic-wide schedule.
+              </p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Treatment</TableHead>
+                  <TableHead className="w-40">Price ({selectedSchedule?.currency || 'EGP'})</TableHead>
+                  {selectedSchedule?.provider_id && <TableHead>Clinic Price</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTreatments?.map((treatment) => {
+                  const item = selectedSchedule?.fee_schedule_items.find(i => i.treatment_id === treatment.id);
+                  const clinicPrice = selectedSchedule?.provider_id
+                    ? resolveTreatmentPrice(schedules, treatment.id, { date: selectedSchedule.effective_from })
+                    : null;
+
+                  return (
+                    <TableRow key={treatment.id}>
+                      <TableCell className="font-mono text-sm">
+                        {treatment.code || 'N/A'}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {treatment.name_en}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          key={`${selectedSchedule?.id}-${item?.price ?? ''}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          defaultValue={item?.price ?? ''}
+                          placeholder="Not priced"
+                          onBlur={(e) => handlePriceBlur(treatment.id, e.target.value, item ? Number(item.price) : undefined)}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      {selectedSchedule?.provider_id && (
+                        <TableCell className="text-muted-foreground">
+                          {clinicPrice !== null ? clinicPrice.toFixed(2) : '—'}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {filteredTreatments?.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No treatments found matching your search.
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AddFeeScheduleModal
+        open={showAddModal}
+        onOpenChange={setShowAddModal}
+        onCreated={setSelectedScheduleId}
+      />
+
+      <FeeScheduleVersionModal
+        open={showVersionModal}
+        onOpenChange={setShowVersionModal}
+        schedule={selectedSchedule}
+        onCreated={setSelectedScheduleId}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addDays, format, max, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+import { useFeeSchedules } from '@/hooks/useFeeSchedules';
+import type { FeeSchedule } from '@/lib/feeSchedule';
+
+const feeScheduleVersionSchema = z.object({
+  effectiveFrom: z.string().min(1, 'Effective date is required'),
+  percent: z.coerce.number().min(-100, 'Cannot lower prices by more than 100%'),
+  roundTo: z.coerce.number().min(0.01, 'Rounding step must be positive'),
+});
+
+type FeeScheduleVersionFormData = z.infer<typeof feeScheduleVersionSchema>;
+
+interface FeeScheduleVersionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: FeeSchedule | null;
+  onCreated?: (scheduleId: string) => void;
+}
+
+export function FeeScheduleVersionModal({ open, onOpenChange, schedule, onCreated }: FeeScheduleVersionModalProps) {
+  const { createVersion } = useFeeSchedules();
+
+  // Earliest allowed start is the day after the source version starts
+  const earliestStart = schedule ? addDays(parseISO(schedule.effective_from), 1) : new Date();
+
+  const form = useForm<FeeScheduleVersionFormData>({
+    resolver: zodResolver(feeScheduleVersionSchema),
+    values: {
+      effectiveFrom: format(max([earliestStart, new Date()]), 'yyyy-MM-dd'),
+      percent: 0,
+      roundTo: 1,
+    },
+  });
+
+  const onSubmit = async (data: FeeScheduleVersionFormData) => {
+    if (!schedule) return;
+
+    try {
+      const newSchedule = await createVersion.mutateAsync({
+        schedule,
+        effectiveFrom: data.effectiveFrom,
+        percent: data.percent,
+        roundTo: data.roundTo,
+      });
+      onOpenChange(false);
+      onCreated?.(newSchedule.id);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Price List Version</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Copies {schedule?.name} v{schedule?.version} ({schedule?.fee_schedule_items.length || 0} prices).
+          The current version keeps applying until the new one takes effect.
+        </p>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="effectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="percent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Change (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.5" {...field} />
+                    </FormControl>
+                    <FormDescription>e.g. 10 raises all prices by 10%</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="roundTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Round To</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0.01" step="any" {...field} />
+                    </FormControl>
+                    <FormDescription>Nearest {schedule?.currency || 'EGP'} step</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createVersion.isPending || !schedule}>
+                {createVersion.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Version
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
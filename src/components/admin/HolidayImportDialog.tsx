@@ -0,0 +1,137 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DateException } from '@/lib/availability';
+import { icsEventsToClosures, parseIcsEvents } from '@/lib/ical';
+
+interface HolidayImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exceptions: DateException[];
+  onImport: (closures: DateException[]) => void;
+}
+
+/**
+ * Turns the events of a local .ics file into closed days. Past days are dropped and
+ * days that already have an exception are left unticked, so imports never overwrite
+ * hand-entered hours without the admin choosing to.
+ */
+export function HolidayImportDialog({ open, onOpenChange, exceptions, onImport }: HolidayImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [closures, setClosures] = useState<DateException[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const existingDates = new Set(exceptions.map(e => e.date));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const upcoming = icsEventsToClosures(parseIcsEvents(await file.text()))
+      .filter(closure => closure.date >= today);
+
+    if (upcoming.length === 0) {
+      toast({
+        title: 'No upcoming holidays found',
+        description: `${file.name} has no events from today onwards`,
+        variant: 'destructive',
+      });
+    }
+
+    setFileName(file.name);
+    setClosures(upcoming);
+    setSelected(new Set(upcoming.filter(c => !existingDates.has(c.date)).map(c => c.date)));
+  };
+
+  const toggleDate = (date: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(date); else next.delete(date);
+      return next;
+    });
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFileName('');
+      setClosures([]);
+      setSelected(new Set());
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleImport = () => {
+    onImport(closures.filter(c => selected.has(c.date)));
+    toast({ title: `Imported ${selected.size} closure${selected.size === 1 ? '' : 's'}` });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>
+            Each day of each event in an iCalendar (.ics) file becomes a closure.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="h-4 w-4 mr-2" />
+          {fileName || 'Choose .ics file'}
+        </Button>
+
+        {closures.length > 0 && (
+          <ScrollArea className="h-72 border rounded-lg">
+            <div className="divide-y">
+              {closures.map(closure => (
+                <label key={closure.date} className="flex items-center gap-3 p-3 cursor-pointer">
+                  <Checkbox
+                    checked={selected.has(closure.date)}
+                    onCheckedChange={(checked) => toggleDate(closure.date, checked === true)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm">
+                      {format(new Date(closure.date + 'T00:00:00'), 'EEE, MMM dd, yyyy')}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">{closure.label}</div>
+                  </div>
+                  {existingDates.has(closure.date) && (
+                    <Badge variant="outline" className="text-xs">Replaces exception</Badge>
+                  )}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={selected.size === 0}>
+            Import {selected.size > 0 ? selected.size : ''} Closure{selected.size === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Loader2, Monitor, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getLobbyDisplayUrl, useLobbyDisplays } from '@/hooks/useLobbyDisplays';
+import type { LobbyLabelMode } from '@/lib/lobbyDisplay';
+
+const LABEL_MODE_OPTIONS: { value: LobbyLabelMode; label: string }[] = [
+  { value: 'initials', label: 'Initials (A.M.)' },
+  { value: 'ticket', label: 'Ticket numbers (007)' },
+];
+
+export function LobbyDisplaysCard() {
+  const { toast } = useToast();
+  const { displays, isLoading, createDisplay, revokeDisplay } = useLobbyDisplays();
+  const [name, setName] = useState('');
+  const [labelMode, setLabelMode] = useState<LobbyLabelMode>('initials');
+
+  const handleCreate = async () => {
+    try {
+      await createDisplay.mutateAsync({ name, labelMode });
+      setName('');
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  const copyUrl = (token: string) => {
+    navigator.clipboard.writeText(getLobbyDisplayUrl(token));
+    toast({
+      title: 'Display link copied',
+      description: 'Open it once on the lobby screen; the screen remembers it.',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Monitor className="h-5 w-5 mr-2" />
+          Lobby Displays
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Screens in the waiting area show the queue, estimated waits and room call-ups without
+          a staff login. Patients appear as initials or ticket numbers only. Removing a screen
+          disconnects it straight away.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_220px_auto] gap-3 items-end">
+          <div>
+            <Label>Screen name</Label>
+            <Input
+              placeholder="e.g. Main lobby TV"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Show patients as</Label>
+            <Select value={labelMode} onValueChange={(value) => setLabelMode(value as LobbyLabelMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_MODE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={!name.trim() || createDisplay.isPending}>
+            {createDisplay.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Screen
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : displays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lobby screens yet</p>
+        ) : (
+          <div className="space-y-2">
+            {displays.map(display => (
+              <div key={display.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="font-medium">{display.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {LABEL_MODE_OPTIONS.find(o => o.value === display.label_mode)?.label}
+                    {' · '}
+                    {display.last_seen_at
+                      ? `last seen ${format(new Date(display.last_seen_at), 'MMM d, HH:mm')}`
+                      : 'never connected'}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => copyUrl(display.token)} title="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeDisplay.mutate(display.id)}
+                    disabled={revokeDisplay.isPending}
+                    title="Remove screen"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
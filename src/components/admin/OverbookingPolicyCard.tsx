@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { useClinicSettings } from '@/hooks/useClinicSettings';
+import { ROLE_CONFIG, type UserRole } from '@/lib/roles';
+import { DEFAULT_OVERBOOKING_POLICY, OverbookingPolicy } from '@/lib/overbooking';
+
+// Intake staff never book appointments
+const OVERRIDE_ROLE_OPTIONS: UserRole[] = ['admin', 'doctor', 'receptionist', 'assistant'];
+
+export function OverbookingPolicyCard() {
+  const { settings, updateSettings } = useClinicSettings();
+  const [policy, setPolicy] = useState<OverbookingPolicy>(DEFAULT_OVERBOOKING_POLICY);
+
+  useEffect(() => {
+    if (settings?.overbooking_policy) {
+      setPolicy(settings.overbooking_policy);
+    }
+  }, [settings]);
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    setPolicy(prev => ({
+      ...prev,
+      override_roles: checked
+        ? [...prev.override_roles, role]
+        : prev.override_roles.filter(r => r !== role),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!settings) return;
+
+    updateSettings.mutate({
+      availability: settings.availability,
+      timezone: settings.timezone,
+      slot_minutes: settings.slot_minutes,
+      overbooking_policy: policy,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2" />
+          Overbooking Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          How many appointments may overlap at the same time. Booking past a limit is an overbook:
+          it needs a written reason and a role allowed to approve it. Calendar bookings, walk-ins
+          and moves all follow these rules.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <Label>Per provider</Label>
+            <Input
+              type="number"
+              min="1"
+              max="10"
+              value={policy.max_per_provider}
+              onChange={(e) => setPolicy(prev => ({ ...prev, max_per_provider: Math.max(1, Number(e.target.value) || 1) }))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">1 means a provider is never double-booked</p>
+          </div>
+          <div>
+            <Label>Per room</Label>
+            <Input
+              type="number"
+              min="1"
+              max="10"
+              value={policy.max_per_room}
+              onChange={(e) => setPolicy(prev => ({ ...prev, max_per_room: Math.max(1, Number(e.target.value) || 1) }))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">1 means one patient per chair at a time</p>
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-base font-semibold">Who can overbook</Label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-2">
+            {OVERRIDE_ROLE_OPTIONS.map(role => (
+              <label key={role} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={policy.override_roles.includes(role)}
+                  onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                />
+                {ROLE_CONFIG[role].label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!settings || updateSettings.isPending}>
+            {updateSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CalendarRange, Plus, Trash2 } from 'lucide-react';
+import { WeeklyScheduleEditor } from './WeeklyScheduleEditor';
+import { DaySchedule, SeasonalSchedule, WeeklyHours } from '@/lib/availability';
+
+interface SeasonalSchedulesEditorProps {
+  seasons: SeasonalSchedule[];
+  clinicSchedule: DaySchedule;
+  onChange: (seasons: SeasonalSchedule[]) => void;
+}
+
+const formatDate = (date: string) => format(new Date(date + 'T00:00:00'), 'MMM dd, yyyy');
+
+export function SeasonalSchedulesEditor({ seasons, clinicSchedule, onChange }: SeasonalSchedulesEditorProps) {
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null);
+  const [newSeason, setNewSeason] = useState({ name: '', start_date: '', end_date: '' });
+
+  const selectedSeason = seasons.find(s => s.id === selectedSeasonId);
+  const canAdd = newSeason.name.trim() && newSeason.start_date && newSeason.end_date >= newSeason.start_date;
+
+  // A new season starts from the regular hours so only the days that change need editing
+  const addSeason = () => {
+    if (!canAdd) return;
+
+    const { exceptions: _exceptions, ...hours } = clinicSchedule;
+    const season: SeasonalSchedule = {
+      id: crypto.randomUUID(),
+      name: newSeason.name.trim(),
+      start_date: newSeason.start_date,
+      end_date: newSeason.end_date,
+      hours,
+    };
+
+    onChange([...seasons, season].sort((a, b) => a.start_date.localeCompare(b.start_date)));
+    setSelectedSeasonId(season.id);
+    setNewSeason({ name: '', start_date: '', end_date: '' });
+  };
+
+  const updateSeasonHours = (seasonId: string, hours: Partial<WeeklyHours>) => {
+    onChange(seasons.map(s => s.id === seasonId ? { ...s, hours: { ...s.hours, ...hours } } : s));
+  };
+
+  const removeSeason = (seasonId: string) => {
+    onChange(seasons.filter(s => s.id !== seasonId));
+    if (selectedSeasonId === seasonId) setSelectedSeasonId(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Season List */}
+      <div className="lg:col-span-1 space-y-4">
+        <h3 className="font-medium">Seasons</h3>
+        <div className="space-y-2">
+          {seasons.map(season => (
+            <div
+              key={season.id}
+              className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                selectedSeasonId === season.id
+                  ? 'bg-primary/10 border-primary'
+                  : 'hover:bg-muted/50'
+              }`}
+              onClick={() => setSelectedSeasonId(season.id)}
+            >
+              <div className="font-medium">{season.name}</div>
+              <div className="text-sm text-muted-foreground">
+                {formatDate(season.start_date)} – {formatDate(season.end_date)}
+              </div>
+              {season.end_date < format(new Date(), 'yyyy-MM-dd') && (
+                <Badge variant="outline" className="text-xs mt-1">Ended</Badge>
+              )}
+            </div>
+          ))}
+
+          {seasons.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <CalendarRange className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No seasonal hours</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 p-3 border rounded-lg">
+          <Label className="text-xs">Name</Label>
+          <Input
+            placeholder="e.g. Ramadan"
+            value={newSeason.name}
+            onChange={(e) => setNewSeason(prev => ({ ...prev, name: e.target.value }))}
+            className="text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                value={newSeason.start_date}
+                onChange={(e) => setNewSeason(prev => ({ ...prev, start_date: e.target.value }))}
+                className="text-sm"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Through</Label>
+              <Input
+                type="date"
+                value={newSeason.end_date}
+                min={newSeason.start_date}
+                onChange={(e) => setNewSeason(prev => ({ ...prev, end_date: e.target.value }))}
+                className="text-sm"
+              />
+            </div>
+          </div>
+          <Button size="sm" onClick={addSeason} disabled={!canAdd} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Season
+          </Button>
+        </div>
+      </div>
+
+      {/* Season Schedule Editor */}
+      <div className="lg:col-span-3">
+        {selectedSeason ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-medium">{selectedSeason.name} Hours</h3>
+                <p className="text-sm text-muted-foreground">
+                  Replace the clinic hours from {formatDate(selectedSeason.start_date)} through{' '}
+                  {formatDate(selectedSeason.end_date)}. Exceptions, room and provider hours still apply.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeSeason(selectedSeason.id)}
+                className="flex items-center"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            </div>
+
+            <WeeklyScheduleEditor
+              schedule={{ ...selectedSeason.hours, exceptions: [] }}
+              onChange={({ exceptions: _exceptions, ...hours }) => updateSeasonHours(selectedSeason.id, hours)}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            <div className="text-center">
+              <CalendarRange className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>Select a season to set its weekly hours</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -53,6 +53,7 @@ export interface Treatment {
 export interface DiagnosisRule {
   diagnosis_id: string;
   requires_tooth: boolean;
+  requires_surfaces: boolean;
   xray_required: boolean;
   default_treatment_id?: string;
 }
@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useMe } from '@/hooks/useMe';
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, subMonths, format } from 'date-fns';
+import { getOutstandingBalance, type LedgerInvoice } from '@/lib/ledger';
 
 export interface KPIData {
   newPatients: number;
@@ -9,7 +10,10 @@ export interface KPIData {
   visitsThisWeek: number;
   noShowRate: number;
   production: number;
-  collections: number;
+  collections: number; // net of refunds
+  refunds: number;
+  creditNotes: number;
+  writeOffs: number;
   outstandingBalance: number;
 }
 
@@ -105,28 +109,55 @@ export function useAnalytics(
         const { data: productionData } = await productionQuery;
         const production = productionData?.reduce((sum, row) => sum + (row.price || 0), 0) || 0;
 
-        // Collections (payments in date range)
+        // Collections (payments and prepayments in date range). Applying credit to an
+        // invoice is not new money, so those payments are left out. Refunds are
+        // negative payments, so the figure is already net of them.
         let collectionsQuery = supabase
           .from('payments')
-          .select('amount');
+          .select('amount, method');
 
         if (dateFrom) collectionsQuery = collectionsQuery.gte('paid_at', dateFrom);
         if (dateTo) collectionsQuery = collectionsQuery.lte('paid_at', dateTo + 'T23:59:59');
 
+        let prepaymentsQuery = supabase
+          .from('patient_credits')
+          .select('amount')
+          .eq('clinic_id', activeClinicId);
+
+        if (dateFrom) prepaymentsQuery = prepaymentsQuery.gte('received_at', dateFrom);
+        if (dateTo) prepaymentsQuery = prepaymentsQuery.lte('received_at', dateTo + 'T23:59:59');
+
         const { data: paymentsData } = await collectionsQuery;
-        const collections = paymentsData?.reduce((sum, payment) => sum + (payment.amount || 0), 0) || 0;
+        const { data: prepaymentsData } = await prepaymentsQuery;
+        const collections = (paymentsData || [])
+          .filter(payment => payment.method !== 'credit')
+          .reduce((sum, payment) => sum + (payment.amount || 0), 0)
+          + (prepaymentsData || []).reduce((sum, credit) => sum + (credit.amount || 0), 0);
+
+        // Approved refunds, credit notes and write-offs in date range
+        let adjustmentsQuery = supabase
+          .from('invoice_adjustments')
+          .select('kind, amount')
+          .eq('clinic_id', activeClinicId)
+          .eq('status', 'approved');
+
+        if (dateFrom) adjustmentsQuery = adjustmentsQuery.gte('decided_at', dateFrom);
+        if (dateTo) adjustmentsQuery = adjustmentsQuery.lte('decided_at', dateTo + 'T23:59:59');
+
+        const { data: adjustmentsData } = await adjustmentsQuery;
+        const sumAdjustments = (kind: string) => (adjustmentsData || [])
+          .filter(adjustment => adjustment.kind === kind)
+          .reduce((sum, adjustment) => sum + (adjustment.amount || 0), 0);
 
         // Outstanding balance (open invoices - payments)
         const { data: invoicesData } = await supabase
           .from('invoices')
-          .select('total_amount, payments(amount)')
+          .select('status, total_amount, adjustment_total, payments(amount)')
           .eq('clinic_id', activeClinicId)
           .in('status', ['open', 'partial']);
 
-        const outstandingBalance = invoicesData?.reduce((sum, invoice) => {
-          const totalPaid = invoice.payments?.reduce((pSum: number, p: any) => pSum + p.amount, 0) || 0;
-          return sum + (invoice.total_amount - totalPaid);
-        }, 0) || 0;
+        // Same calculation as the patient account ledger, so the two reconcile
+        const outstandingBalance = getOutstandingBalance((invoicesData || []) as LedgerInvoice[]);
 
         return {
           newPatients: newPatients || 0,
@@ -135,6 +166,9 @@ export function useAnalytics(
           noShowRate,
           production,
           collections,
+          refunds: sumAdjustments('refund'),
+          creditNotes: sumAdjustments('credit_note'),
+          writeOffs: sumAdjustments('write_off'),
           outstandingBalance,
         };
       },
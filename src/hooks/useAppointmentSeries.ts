@@ -0,0 +1,357 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
+import type { CalendarAppointment } from '@/hooks/useCalendarData';
+import { fetchOverbookingPolicy } from '@/hooks/useOverbookingPolicy';
+import { DEFAULT_OVERBOOKING_POLICY } from '@/lib/overbooking';
+import {
+  shiftOccurrence,
+  type Occurrence,
+  type RecurrenceRule,
+  type SeriesScope,
+} from '@/lib/recurrence';
+
+export interface AppointmentSeries {
+  id: string;
+  clinic_id: string;
+  patient_id: string;
+  provider_id: string | null;
+  room_id: string | null;
+  frequency: RecurrenceRule['frequency'];
+  interval_count: number;
+  weekday: number | null;
+  occurrence_count: number | null;
+  until_date: string | null;
+  first_starts_at: string;
+  duration_minutes: number;
+  notes: string | null;
+  appointments: {
+    id: string;
+    starts_at: string;
+    status: CalendarAppointment['status'];
+    series_index: number | null;
+  }[];
+}
+
+export interface OccurrenceCheck extends Occurrence {
+  issue: string | null; // why this date cannot be booked
+}
+
+export interface CreateSeriesData {
+  patientId: string;
+  providerId?: string;
+  roomId?: string;
+  appointmentTypeId?: string;
+  firstStart: Date;
+  durationMinutes: number;
+  rule: RecurrenceRule;
+  status: 'planned' | 'confirmed';
+  notes?: string;
+  occurrences: Occurrence[]; // the dates to book, usually those that passed the check
+}
+
+export interface SeriesUpdate {
+  starts_at?: string;
+  ends_at?: string;
+  provider_id?: string | null;
+  room_id?: string | null;
+  appointment_type_id?: string | null;
+  status?: CalendarAppointment['status'];
+  notes?: string | null;
+}
+
+// Occurrences that haven't started yet can still be changed together
+const OPEN_STATUSES: CalendarAppointment['status'][] = ['planned', 'confirmed'];
+
+export const getSeriesRule = (series: AppointmentSeries): RecurrenceRule => ({
+  frequency: series.frequency,
+  interval: series.interval_count,
+  weekday: series.weekday,
+  count: series.occurrence_count,
+  until: series.until_date,
+});
+
+export function useAppointmentSeries() {
+  const { toast } = useToast();
+  const { currentClinic } = useAppStore();
+  const { isTimeSlotAvailable } = useAvailabilityValidation();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+    queryClient.invalidateQueries({ queryKey: ['appointment-series'] });
+  };
+
+  /**
+   * Check each date against clinic, room and provider hours (including closures, time off
+   * and exceptions) and the provider's and room's other bookings, up to the clinic's overbooking
+   * limits. Appointments in `excludeIds` are the ones being moved, so they don't conflict with themselves.
+   */
+  const checkOccurrences = async <T extends Occurrence>(
+    occurrences: T[],
+    { providerId, roomId, excludeIds = [] }: { providerId?: string | null; roomId?: string | null; excludeIds?: string[] }
+  ): Promise<(T & OccurrenceCheck)[]> => {
+    if (occurrences.length === 0) return [];
+
+    const fetchBookings = async (column: 'provider_id' | 'room_id', id: string) => {
+      let query = supabase
+        .from('appointments')
+        .select('id, starts_at, ends_at')
+        .eq(column, id)
+        .neq('status', 'cancelled')
+        .neq('status', 'no_show')
+        .lt('starts_at', occurrences[occurrences.length - 1].end.toISOString())
+        .gt('ends_at', occurrences[0].start.toISOString());
+
+      if (excludeIds.length > 0) {
+        query = query.not('id', 'in', `(${excludeIds.join(',')})`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    };
+
+    // A series cannot carry an overbook reason, so every occurrence must be within policy
+    const [policy, providerBookings, roomBookings] = await Promise.all([
+      currentClinic?.id ? fetchOverbookingPolicy(currentClinic.id) : DEFAULT_OVERBOOKING_POLICY,
+      providerId ? fetchBookings('provider_id', providerId) : [],
+      roomId ? fetchBookings('room_id', roomId) : [],
+    ]);
+    const countOverlaps = (bookings: { starts_at: string; ends_at: string }[], occurrence: Occurrence) =>
+      bookings.filter(b => new Date(b.starts_at) < occurrence.end && new Date(b.ends_at) > occurrence.start).length;
+
+    const now = new Date();
+    return occurrences.map(occurrence => {
+      let issue: string | null = null;
+
+      if (occurrence.start < now) {
+        issue = 'In the past';
+      } else if (!isTimeSlotAvailable(occurrence.start, occurrence.end, roomId || undefined, providerId || undefined)) {
+        issue = providerId ? 'Outside clinic or provider hours' : 'Outside operating hours or closed';
+      } else if (countOverlaps(providerBookings, occurrence) >= policy.max_per_provider) {
+        issue = 'Provider already booked';
+      } else if (countOverlaps(roomBookings, occurrence) >= policy.max_per_room) {
+        issue = 'Room already booked';
+      }
+
+      return { ...occurrence, issue };
+    });
+  };
+
+  // The appointments of a series an edit or cancellation applies to
+  const getScopeTargets = async (appointment: CalendarAppointment, scope: SeriesScope) => {
+    if (scope === 'this' || !appointment.series_id) {
+      return [{ id: appointment.id, starts_at: appointment.starts_at, ends_at: appointment.ends_at }];
+    }
+
+    let query = supabase
+      .from('appointments')
+      .select('id, starts_at, ends_at, status, series_index')
+      .eq('series_id', appointment.series_id)
+      .order('starts_at', { ascending: true });
+
+    if (scope === 'following') {
+      query = query.gte('starts_at', appointment.starts_at);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Past and checked-in occurrences stay as they are; the selected one is always included
+    const now = new Date();
+    return (data || []).filter(a =>
+      a.id === appointment.id || (OPEN_STATUSES.includes(a.status) && new Date(a.starts_at) >= now)
+    );
+  };
+
+  const useSeries = (seriesId: string | null | undefined) => useQuery({
+    queryKey: ['appointment-series', seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('appointment_series')
+        .select('*, appointments(id, starts_at, status, series_index)')
+        .eq('id', seriesId!)
+        .single();
+
+      if (error) throw error;
+      return data as unknown as AppointmentSeries;
+    },
+    enabled: !!seriesId,
+  });
+
+  const createSeries = useMutation({
+    mutationFn: async (data: CreateSeriesData) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      if (data.occurrences.length === 0) throw new Error('There are no dates to book');
+
+      // The series and its appointments are saved together, so a rejected date books nothing
+      const { data: seriesId, error } = await supabase.rpc('create_appointment_series', {
+        p_series: {
+          clinic_id: currentClinic.id,
+          patient_id: data.patientId,
+          provider_id: data.providerId || null,
+          room_id: data.roomId || null,
+          frequency: data.rule.frequency,
+          interval_count: data.rule.interval,
+          weekday: data.rule.weekday ?? null,
+          occurrence_count: data.rule.count || null,
+          until_date: data.rule.until || null,
+          first_starts_at: data.firstStart.toISOString(),
+          duration_minutes: data.durationMinutes,
+          notes: data.notes || null,
+        },
+        p_appointments: data.occurrences.map(occurrence => ({
+          clinic_id: currentClinic.id,
+          patient_id: data.patientId,
+          provider_id: data.providerId || null,
+          room_id: data.roomId || null,
+          appointment_type_id: data.appointmentTypeId || null,
+          starts_at: occurrence.start.toISOString(),
+          ends_at: occurrence.end.toISOString(),
+          status: data.status,
+          notes: data.notes || null,
+          series_index: occurrence.index,
+        })),
+      });
+
+      if (error) throw error;
+      return { id: seriesId };
+    },
+    onSuccess: (_series, data) => {
+      toast({
+        title: 'Appointment series booked',
+        description: `${data.occurrences.length} appointments created`,
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error booking series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  /**
+   * Apply an edit to one occurrence, this and the following ones, or the whole series.
+   * A new date or time moves every target by the same number of days to the same time
+   * of day; the moved dates are checked again before anything is saved.
+   */
+  const updateOccurrences = useMutation({
+    mutationFn: async ({
+      appointment,
+      scope,
+      updates,
+    }: {
+      appointment: CalendarAppointment;
+      scope: SeriesScope;
+      updates: SeriesUpdate;
+    }) => {
+      const targets = await getScopeTargets(appointment, scope);
+      const from = new Date(appointment.starts_at);
+      const to = updates.starts_at ? new Date(updates.starts_at) : from;
+      const duration = updates.starts_at && updates.ends_at
+        ? new Date(updates.ends_at).getTime() - to.getTime()
+        : new Date(appointment.ends_at).getTime() - from.getTime();
+
+      const moved = targets.map((target, index) => {
+        const start = shiftOccurrence(new Date(target.starts_at), from, to);
+        return { id: target.id, index, start, end: new Date(start.getTime() + duration) };
+      });
+
+      const timesChanged = moved.some(m => {
+        const target = targets.find(t => t.id === m.id)!;
+        return m.start.getTime() !== new Date(target.starts_at).getTime() ||
+          m.end.getTime() !== new Date(target.ends_at).getTime();
+      });
+      const providerChanged = updates.provider_id !== undefined && updates.provider_id !== appointment.provider_id;
+      const roomChanged = updates.room_id !== undefined && updates.room_id !== appointment.room_id;
+
+      if (scope !== 'this' && (timesChanged || providerChanged || roomChanged)) {
+        const checks = await checkOccurrences(moved, {
+          providerId: updates.provider_id !== undefined ? updates.provider_id : appointment.provider_id,
+          roomId: updates.room_id !== undefined ? updates.room_id : appointment.room_id,
+          excludeIds: targets.map(t => t.id),
+        });
+        const failed = checks.filter(check => check.issue && !(check.issue === 'In the past' && check.id === appointment.id));
+        if (failed.length > 0) {
+          throw new Error(
+            `${failed.length} occurrence(s) can't be moved: ` +
+            failed.map(check => `${format(check.start, 'MMM d')} (${check.issue})`).join(', ')
+          );
+        }
+      }
+
+      // All targets are saved in one transaction: either every occurrence changes or none do
+      const { error } = await supabase.rpc('update_appointment_occurrences', {
+        p_updates: { ...updates },
+        p_moves: moved.map(target => ({
+          id: target.id,
+          starts_at: target.start.toISOString(),
+          ends_at: target.end.toISOString(),
+        })),
+      });
+
+      if (error) {
+        throw new Error(moved.length > 1 ? `${error.message}. No occurrences were changed.` : error.message);
+      }
+
+      return moved.length;
+    },
+    onSuccess: (count) => {
+      toast({
+        title: 'Appointment updated',
+        description: count > 1 ? `${count} occurrences updated` : undefined,
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating appointment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelOccurrences = useMutation({
+    mutationFn: async ({ appointment, scope }: { appointment: CalendarAppointment; scope: SeriesScope }) => {
+      const targets = await getScopeTargets(appointment, scope);
+
+      const { error } = await supabase
+        .from('appointments')
+        .update({ status: 'cancelled' })
+        .in('id', targets.map(t => t.id));
+
+      if (error) throw error;
+      return targets.length;
+    },
+    onSuccess: (count) => {
+      toast({
+        title: count > 1 ? 'Appointments cancelled' : 'Appointment cancelled',
+        description: count > 1 ? `${count} occurrences cancelled` : undefined,
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error cancelling appointment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    checkOccurrences,
+    useSeries,
+    createSeries,
+    updateOccurrences,
+    cancelOccurrences,
+  };
+}
@@ -0,0 +1,293 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { addMinutes, endOfDay, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import {
+  ACTIVE_VISIT_STATUSES,
+  APPOINTMENT_STATUS_LABELS,
+  describeIllegalTransition,
+  planTransition,
+  toPatientStatus,
+  type AppointmentStatus,
+  type PatientStatus,
+} from '@/lib/appointmentStatus';
+
+export interface StatusTransition {
+  id: string;
+  appointment_id: string | null;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+  profiles: { full_name: string | null } | null;
+}
+
+export interface TodayAppointment {
+  id: string;
+  status: AppointmentStatus;
+  starts_at: string;
+}
+
+// Every list that shows where patients are in their visit
+const STATUS_QUERY_KEYS = [
+  'today-appointments',
+  'arrived-queue',
+  'ready-queue',
+  'in-chair-queue',
+  'completed-queue',
+  'intake-patients',
+  'calendar-appointments',
+  'waiting-room-board',
+  'readyQueue',
+  'queueReady',
+  'queueInChair',
+  'patients',
+  'patient',
+  'patient-detail',
+  'status-history',
+];
+
+export function invalidateStatusQueries(queryClient: QueryClient) {
+  STATUS_QUERY_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
+/**
+ * Move an appointment to a new status, checking in on the way when needed (see planTransition).
+ * `changes` are saved with the last step. Each step only applies if the appointment is still
+ * where it was read, so two desks moving the same patient can't skip a step.
+ */
+export async function transitionAppointment(
+  appointmentId: string,
+  to: AppointmentStatus,
+  changes: TablesUpdate<'appointments'> = {}
+) {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('status')
+    .eq('id', appointmentId)
+    .single();
+
+  if (error) throw error;
+
+  let from = data.status as AppointmentStatus;
+  const steps = planTransition(from, to);
+  if (!steps) throw new Error(describeIllegalTransition(from, to));
+
+  if (steps.length === 0) {
+    if (Object.keys(changes).length === 0) return;
+    const { error: updateError } = await supabase
+      .from('appointments')
+      .update(changes)
+      .eq('id', appointmentId);
+    if (updateError) throw updateError;
+    return;
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const isLast = index === steps.length - 1;
+    const { data: moved, error: moveError } = await supabase
+      .from('appointments')
+      .update(isLast ? { ...changes, status: step } : { status: step })
+      .eq('id', appointmentId)
+      .eq('status', from)
+      .select('id');
+
+    if (moveError) throw moveError;
+    if (!moved || moved.length === 0) {
+      throw new Error('Someone else changed this appointment. Refresh and try again.');
+    }
+    from = step;
+  }
+}
+
+/**
+ * The patient's appointment of the day: the visit in progress, else the next booking
+ * still to come, else the last one that ended
+ */
+export async function fetchTodayAppointment(patientId: string): Promise<TodayAppointment | null> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('id, status, starts_at')
+    .eq('patient_id', patientId)
+    .neq('status', 'cancelled')
+    .gte('starts_at', startOfDay(now).toISOString())
+    .lte('starts_at', endOfDay(now).toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) throw error;
+  const appointments = (data || []) as TodayAppointment[];
+
+  return appointments.find(a => ACTIVE_VISIT_STATUSES.includes(a.status))
+    || appointments.find(a => a.status === 'planned' || a.status === 'confirmed')
+    || appointments[appointments.length - 1]
+    || null;
+}
+
+/**
+ * Move the patient's appointment of the day; the patient's own status follows it
+ */
+export async function transitionPatientToday(patientId: string, to: AppointmentStatus) {
+  const today = await fetchTodayAppointment(patientId);
+  if (!today) throw new Error('The patient has no appointment today');
+
+  await transitionAppointment(today.id, to);
+  return today.id;
+}
+
+/**
+ * Check a patient in: today's appointment (or the one given) moves to arrived, or on to
+ * ready when intake is already signed. A patient without a booking today gets a walk-in
+ * appointment.
+ */
+export async function checkInPatient(
+  patientId: string,
+  {
+    clinicId,
+    userId,
+    appointmentId,
+    slotMinutes = 30,
+  }: { clinicId: string | null; userId: string | null; appointmentId?: string; slotMinutes?: number }
+): Promise<AppointmentStatus> {
+  const { data: intakeForm, error: intakeError } = await supabase
+    .from('intake_forms')
+    .select('id')
+    .eq('patient_id', patientId)
+    .eq('is_active', true)
+    .eq('active_signed', true)
+    .maybeSingle();
+
+  if (intakeError) throw intakeError;
+  const target: AppointmentStatus = intakeForm ? 'ready' : 'arrived';
+
+  let today: TodayAppointment | null;
+  if (appointmentId) {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, status, starts_at')
+      .eq('id', appointmentId)
+      .single();
+    if (error) throw error;
+    today = data as TodayAppointment;
+  } else {
+    today = await fetchTodayAppointment(patientId);
+  }
+
+  if (today && ACTIVE_VISIT_STATUSES.includes(today.status)) {
+    // Already here; signed intake still moves them on to ready
+    if (today.status === 'arrived' && target === 'ready') {
+      await transitionAppointment(today.id, 'ready');
+      return 'ready';
+    }
+    return today.status;
+  }
+  if (today && planTransition(today.status, target)) {
+    await transitionAppointment(today.id, target);
+    return target;
+  }
+
+  // No booking today, or only one that is already over
+  const now = new Date();
+  const { data: walkIn, error: insertError } = await supabase
+    .from('appointments')
+    .insert({
+      patient_id: patientId,
+      clinic_id: clinicId,
+      starts_at: now.toISOString(),
+      ends_at: addMinutes(now, slotMinutes).toISOString(),
+      status: 'arrived',
+      created_by: userId,
+    })
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+  if (target === 'ready') {
+    await transitionAppointment(walkIn.id, 'ready');
+  }
+  return target;
+}
+
+/**
+ * Checkout: the one status a patient moves to on their own, after a completed visit
+ */
+export async function dischargePatient(patientId: string) {
+  const { data, error } = await supabase
+    .from('patients')
+    .update({ status: 'discharged' })
+    .eq('id', patientId)
+    .eq('status', 'completed')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Only a patient whose visit is completed can be checked out');
+  }
+}
+
+/**
+ * A patient status button: check-in and checkout have their own rules, anything else
+ * moves the patient's appointment of the day
+ */
+export async function movePatient(
+  patientId: string,
+  to: PatientStatus,
+  context: { clinicId: string | null; userId: string | null }
+): Promise<PatientStatus> {
+  if (to === 'discharged') {
+    await dischargePatient(patientId);
+    return to;
+  }
+  if (to === 'arrived') {
+    return toPatientStatus(await checkInPatient(patientId, context));
+  }
+
+  await transitionPatientToday(patientId, to);
+  return to;
+}
+
+/**
+ * Status changes from a button: one appointment, one move
+ */
+export function useAppointmentTransition() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointmentId, to }: { appointmentId: string; to: AppointmentStatus }) => {
+      await transitionAppointment(appointmentId, to);
+      return to;
+    },
+    onSuccess: (to) => {
+      toast({ title: `Appointment marked ${APPOINTMENT_STATUS_LABELS[to].toLowerCase()}` });
+      invalidateStatusQueries(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error changing status',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Who moved an appointment through each status, and when
+ */
+export function useStatusHistory(appointmentId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['status-history', appointmentId],
+    queryFn: async (): Promise<StatusTransition[]> => {
+      const { data, error } = await supabase
+        .from('appointment_status_transitions')
+        .select('id, appointment_id, from_status, to_status, changed_at, profiles(full_name)')
+        .eq('appointment_id', appointmentId!)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+      return data as StatusTransition[];
+    },
+    enabled: !!appointmentId,
+  });
+}
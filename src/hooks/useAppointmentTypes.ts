@@ -0,0 +1,135 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAppStore } from '@/store/appStore';
+import { resolveTreatmentBooking, type AppointmentType, type AppointmentTypeTreatment } from '@/lib/appointmentTypes';
+
+export interface AppointmentTypeData {
+  name: string;
+  color: string;
+  default_duration_minutes: number;
+  active?: boolean;
+  treatments: AppointmentTypeTreatment[];
+}
+
+export function useAppointmentTypes() {
+  const { toast } = useToast();
+  const { currentClinic } = useAppStore();
+  const queryClient = useQueryClient();
+
+  // Every type for the clinic, inactive ones included, with their linked treatments
+  const { data: appointmentTypes = [], isLoading } = useQuery({
+    queryKey: ['appointment-types', currentClinic?.id],
+    queryFn: async (): Promise<AppointmentType[]> => {
+      const { data, error } = await supabase
+        .from('appointment_types')
+        .select(`
+          *,
+          appointment_type_treatments(treatment_id, chair_minutes)
+        `)
+        .eq('clinic_id', currentClinic!.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as AppointmentType[];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  const activeTypes = appointmentTypes.filter(type => type.active);
+
+  const getType = useCallback(
+    (typeId: string | null | undefined) => appointmentTypes.find(type => type.id === typeId),
+    [appointmentTypes]
+  );
+
+  /**
+   * Type and chair time to book a treatment with, or null if no type is linked to it
+   */
+  const getTreatmentBooking = useCallback(
+    (treatmentId: string) => resolveTreatmentBooking(appointmentTypes, treatmentId),
+    [appointmentTypes]
+  );
+
+  // Replace a type's treatment links with the given list
+  const saveTreatmentLinks = async (typeId: string, treatments: AppointmentTypeTreatment[]) => {
+    const { error: deleteError } = await supabase
+      .from('appointment_type_treatments')
+      .delete()
+      .eq('appointment_type_id', typeId);
+
+    if (deleteError) throw deleteError;
+    if (treatments.length === 0) return;
+
+    const { error } = await supabase
+      .from('appointment_type_treatments')
+      .insert(treatments.map(t => ({
+        appointment_type_id: typeId,
+        treatment_id: t.treatment_id,
+        chair_minutes: t.chair_minutes,
+      })));
+
+    if (error) throw error;
+  };
+
+  const createType = useMutation({
+    mutationFn: async ({ treatments, ...type }: AppointmentTypeData) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+
+      const { data, error } = await supabase
+        .from('appointment_types')
+        .insert({ ...type, clinic_id: currentClinic.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      await saveTreatmentLinks(data.id, treatments);
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: 'Appointment type created successfully' });
+      queryClient.invalidateQueries({ queryKey: ['appointment-types'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error creating appointment type',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateType = useMutation({
+    mutationFn: async ({ id, treatments, ...updates }: Partial<AppointmentTypeData> & { id: string }) => {
+      const { error } = await supabase
+        .from('appointment_types')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      if (treatments) await saveTreatmentLinks(id, treatments);
+    },
+    onSuccess: () => {
+      toast({ title: 'Appointment type updated successfully' });
+      queryClient.invalidateQueries({ queryKey: ['appointment-types'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating appointment type',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    appointmentTypes,
+    activeTypes,
+    isLoading,
+    getType,
+    getTreatmentBooking,
+    createType,
+    updateType,
+  };
+}
@@ -19,6 +19,7 @@ export interface AvailableSlot {
   start: Date;
   end: Date;
   roomId?: string;
+  providerId?: string;
 }
 
 /**
@@ -30,11 +31,13 @@ export function useAvailabilityValidation() {
 
   /**
    * Check if a time slot is available for booking
+   * (within clinic hours, the room's hours and the provider's working hours)
    */
   const isTimeSlotAvailable = (
     startTime: Date,
     endTime: Date,
-    roomId?: string
+    roomId?: string,
+    providerId?: string
   ): boolean => {
     if (!settings?.availability) return true; // Fallback to allowing if no config
 
@@ -42,7 +45,8 @@ export function useAvailabilityValidation() {
       const availableRanges = parseAvailability(
         settings.availability,
         startTime,
-        roomId
+        roomId,
+        providerId
       );
 
       // Check if the entire appointment duration falls within available ranges
@@ -63,11 +67,12 @@ export function useAvailabilityValidation() {
   };
 
   /**
-   * Get available slots for a specific date and room
+   * Get available slots for a specific date, room and provider
    */
   const getAvailableSlots = (
     date: Date,
-    roomId?: string
+    roomId?: string,
+    providerId?: string
   ): AvailableSlot[] => {
     if (!settings?.availability) return [];
 
@@ -75,7 +80,8 @@ export function useAvailabilityValidation() {
       const availableRanges = parseAvailability(
         settings.availability,
         date,
-        roomId
+        roomId,
+        providerId
       );
 
       const slots = generateSlots(availableRanges, settings.availability.slot_minutes);
@@ -83,7 +89,8 @@ export function useAvailabilityValidation() {
       return slots.map(slot => ({
         start: slot.start,
         end: slot.end,
-        roomId
+        roomId,
+        providerId
       }));
     } catch (error) {
       console.error('Error generating available slots:', error);
@@ -97,15 +104,18 @@ export function useAvailabilityValidation() {
   const validateAndNotify = (
     startTime: Date,
     endTime: Date,
-    roomId?: string
+    roomId?: string,
+    providerId?: string
   ): boolean => {
-    const isValid = isTimeSlotAvailable(startTime, endTime, roomId);
+    const isValid = isTimeSlotAvailable(startTime, endTime, roomId, providerId);
     
     if (!isValid) {
       const timeStr = `${format(startTime, 'MMM dd, HH:mm')} - ${format(endTime, 'HH:mm')}`;
       toast({
         title: 'Time slot not available',
-        description: `${timeStr} is outside clinic operating hours`,
+        description: providerId
+          ? `${timeStr} is outside clinic operating hours or the provider's working hours`
+          : `${timeStr} is outside clinic operating hours`,
         variant: 'destructive'
       });
     }
@@ -118,7 +128,8 @@ export function useAvailabilityValidation() {
    */
   const getNonBookablePeriods = (
     date: Date,
-    roomId?: string
+    roomId?: string,
+    providerId?: string
   ): { start: Date; end: Date }[] => {
     if (!settings?.availability) return [];
 
@@ -128,7 +139,8 @@ export function useAvailabilityValidation() {
     const availableRanges = parseAvailability(
       settings.availability,
       date,
-      roomId
+      roomId,
+      providerId
     );
 
     const nonBookable: { start: Date; end: Date }[] = [];
@@ -1,7 +1,38 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useMe } from '@/hooks/useMe';
+import { formatToothLocation } from '@/lib/odontogram';
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  deriveInvoiceStatus,
+  getInvoiceBalance,
+  roundMoney,
+  type InvoiceStatus,
+  type PaymentMethod,
+} from '@/lib/invoice';
+import { validateInstallmentSchedule, type InstallmentFrequency } from '@/lib/installments';
+import {
+  getAdjustmentKindLabel,
+  getAdjustmentLimit,
+  type AdjustmentKind,
+  type AdjustmentStatus,
+} from '@/lib/adjustments';
+import {
+  buildPatientLedger,
+  getAccountSummary,
+  getUnappliedCredit,
+  type LedgerCredit,
+  type LedgerInvoice,
+} from '@/lib/ledger';
+import {
+  buildInvoicePDF,
+  printPDF,
+  type InvoiceDocument,
+  type InvoicePdfKind,
+} from '@/utils/invoicePdf';
 
 export interface InvoiceItem {
   id?: string;
@@ -10,6 +41,7 @@ export interface InvoiceItem {
   description: string;
   qty: number;
   unit_price: number;
+  discount?: number;
   line_total: number;
 }
 
@@ -18,10 +50,16 @@ export interface Invoice {
   clinic_id: string;
   patient_id: string;
   visit_id?: string;
-  status: 'open' | 'partial' | 'paid' | 'void';
+  invoice_number: string | null;
+  status: InvoiceStatus;
+  subtotal: number;
+  discount_amount: number;
   total_amount: number;
+  adjustment_total?: number;
   currency: string;
   notes?: string;
+  void_reason?: string | null;
+  voided_at?: string | null;
   created_at: string;
   created_by: string;
   patients?: {
@@ -35,7 +73,31 @@ export interface Invoice {
     method?: string;
     reference?: string;
     paid_at: string;
+    receipt_number?: string | null;
+    credit_id?: string | null;
   }[];
+  installment_plans?: InstallmentPlan[];
+  invoice_adjustments?: InvoiceAdjustment[];
+}
+
+export interface InvoiceAdjustment {
+  id: string;
+  clinic_id: string;
+  invoice_id: string;
+  patient_id: string;
+  kind: AdjustmentKind;
+  amount: number;
+  reason_code: string;
+  reason_note?: string | null;
+  method?: string | null;
+  status: AdjustmentStatus;
+  document_number?: string | null;
+  payment_id?: string | null;
+  requested_by?: string | null;
+  requested_at: string;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_note?: string | null;
 }
 
 export interface Payment {
@@ -46,19 +108,101 @@ export interface Payment {
   reference?: string;
   paid_at?: string;
   created_by?: string;
+  receipt_number?: string | null;
+}
+
+export interface PatientCredit extends LedgerCredit {
+  patient_id: string;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface SplitPaymentPart {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface CheckoutVisit {
+  id: string;
+  patient_id: string;
+  provider_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  patients: {
+    arabic_full_name: string;
+    phone?: string | null;
+  };
+  providers?: {
+    display_name: string;
+  } | null;
+}
+
+export interface InstallmentItem {
+  id: string;
+  plan_id: string;
+  due_date: string;
+  amount: number;
+  paid: boolean;
+  paid_at?: string | null;
+  payment_id?: string | null;
+  last_reminded_at?: string | null;
+  reminder_count: number;
+  reminder_note?: string | null;
 }
 
 export interface InstallmentPlan {
   id?: string;
   invoice_id: string;
   total_amount: number;
-  installment_items?: {
-    id: string;
-    due_date: string;
-    amount: number;
-    paid: boolean;
-    payment_id?: string;
-  }[];
+  down_payment?: number;
+  installment_count?: number | null;
+  frequency?: InstallmentFrequency | null;
+  created_at?: string;
+  installment_items?: InstallmentItem[];
+}
+
+export interface OverdueInstallment extends InstallmentItem {
+  installment_plans: {
+    invoice_id: string;
+    invoices: Invoice;
+  };
+}
+
+export interface CheckoutProcedureRow {
+  id: string;
+  price: number;
+  status: string;
+  treatments: {
+    name_en: string;
+    name_ar?: string | null;
+  };
+  visit_diagnoses?: {
+    tooth_set: string;
+    quadrant: string | null;
+    tooth_number: number | null;
+    surfaces: string[];
+    diagnoses: {
+      name_en: string;
+    };
+  } | null;
+}
+
+/**
+ * Build an invoice line from a completed procedure row, e.g. "Composite Filling - UR6 MO"
+ */
+export function procedureRowToInvoiceItem(row: CheckoutProcedureRow): InvoiceItem {
+  const location = row.visit_diagnoses ? formatToothLocation(row.visit_diagnoses) : 'General';
+  const price = Number(row.price) || 0;
+
+  return {
+    procedure_row_id: row.id,
+    description: location === 'General' ? row.treatments.name_en : `${row.treatments.name_en} - ${location}`,
+    qty: 1,
+    unit_price: price,
+    discount: 0,
+    line_total: price,
+  };
 }
 
 export function useBilling() {
@@ -67,7 +211,7 @@ export function useBilling() {
   const queryClient = useQueryClient();
 
   // Get invoices by status
-  const useInvoices = (status?: 'open' | 'partial' | 'paid' | 'void' | 'all' | 'open_partial') => {
+  const useInvoices = (status?: InvoiceStatus | 'all' | 'open_partial') => {
     return useQuery({
       queryKey: ['invoices', currentClinic?.id, status],
       queryFn: async () => {
@@ -77,7 +221,9 @@ export function useBilling() {
             *,
             patients!inner(arabic_full_name, phone),
             invoice_items(*),
-            payments(id, amount, method, reference, paid_at)
+            payments(id, amount, method, reference, paid_at, receipt_number, credit_id),
+            installment_plans(*, installment_items(*)),
+            invoice_adjustments(*)
           `)
           .eq('clinic_id', currentClinic?.id)
           .order('created_at', { ascending: false });
@@ -98,6 +244,167 @@ export function useBilling() {
     });
   };
 
+  // A patient's invoices across the clinic, newest first
+  const usePatientInvoices = (patientId?: string) => {
+    return useQuery({
+      queryKey: ['invoices', 'patient', patientId],
+      queryFn: async () => {
+        if (!patientId) return [];
+
+        const { data, error } = await supabase
+          .from('invoices')
+          .select(`
+            *,
+            patients!inner(arabic_full_name, phone),
+            invoice_items(*),
+            payments(id, amount, method, reference, paid_at, receipt_number, credit_id),
+            installment_plans(*, installment_items(*)),
+            invoice_adjustments(*)
+          `)
+          .eq('patient_id', patientId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data as Invoice[];
+      },
+      enabled: !!patientId,
+    });
+  };
+
+  // A patient's account: every invoice, payment and prepayment with a running balance.
+  // Keyed under 'invoices' so anything that refreshes invoices refreshes the ledger too.
+  const usePatientLedger = (patientId?: string) => {
+    return useQuery({
+      queryKey: ['invoices', 'ledger', patientId],
+      queryFn: async () => {
+        if (!patientId) return null;
+
+        const [{ data: invoices, error: invoicesError }, { data: credits, error: creditsError }] = await Promise.all([
+          supabase
+            .from('invoices')
+            .select(`
+              id, invoice_number, status, created_at, voided_at, total_amount, adjustment_total,
+              payments(id, amount, method, paid_at, receipt_number, credit_id),
+              invoice_adjustments(id, kind, amount, status, reason_code, document_number, decided_at)
+            `)
+            .eq('patient_id', patientId),
+          supabase
+            .from('patient_credits')
+            .select('*, payments(amount)')
+            .eq('patient_id', patientId)
+            .order('received_at', { ascending: true }),
+        ]);
+
+        if (invoicesError) throw invoicesError;
+        if (creditsError) throw creditsError;
+
+        const ledgerInvoices = (invoices || []) as LedgerInvoice[];
+        const patientCredits = (credits || []) as PatientCredit[];
+
+        return {
+          entries: buildPatientLedger(ledgerInvoices, patientCredits),
+          summary: getAccountSummary(ledgerInvoices, patientCredits),
+          credits: patientCredits,
+        };
+      },
+      enabled: !!patientId,
+    });
+  };
+
+  // Refunds, credit notes and write-offs across the clinic, newest first
+  const useInvoiceAdjustments = (status?: AdjustmentStatus | 'all') => {
+    return useQuery({
+      queryKey: ['invoices', 'adjustments', currentClinic?.id, status],
+      queryFn: async () => {
+        let query = supabase
+          .from('invoice_adjustments')
+          .select(`
+            *,
+            invoices!inner(id, invoice_number, currency),
+            patients!inner(arabic_full_name),
+            requester:profiles!invoice_adjustments_requested_by_fkey(full_name),
+            decider:profiles!invoice_adjustments_decided_by_fkey(full_name)
+          `)
+          .eq('clinic_id', currentClinic?.id)
+          .order('requested_at', { ascending: false });
+
+        if (status && status !== 'all') query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data as unknown as (InvoiceAdjustment & {
+          invoices: { id: string; invoice_number: string | null; currency: string };
+          patients: { arabic_full_name: string };
+          requester: { full_name: string | null } | null;
+          decider: { full_name: string | null } | null;
+        })[];
+      },
+      enabled: !!currentClinic?.id,
+    });
+  };
+
+  // Unpaid installments past their due date, oldest first, for collections calls
+  const useOverdueInstallments = () => {
+    return useQuery({
+      queryKey: ['overdueInstallments', currentClinic?.id],
+      queryFn: async () => {
+        const { data, error } = await supabase
+          .from('installment_items')
+          .select(`
+            *,
+            installment_plans!inner(
+              invoice_id,
+              invoices!inner(
+                *,
+                patients!inner(arabic_full_name, phone),
+                payments(id, amount, method, reference, paid_at, receipt_number)
+              )
+            )
+          `)
+          .eq('paid', false)
+          .lt('due_date', format(new Date(), 'yyyy-MM-dd'))
+          .eq('installment_plans.invoices.clinic_id', currentClinic?.id)
+          .neq('installment_plans.invoices.status', 'void')
+          .order('due_date', { ascending: true });
+
+        if (error) throw error;
+        return data as unknown as OverdueInstallment[];
+      },
+      enabled: !!currentClinic?.id,
+    });
+  };
+
+  // Completed visits that have no (non-void) invoice yet
+  const useCheckoutVisits = () => {
+    return useQuery({
+      queryKey: ['checkoutVisits', currentClinic?.id],
+      queryFn: async () => {
+        const { data, error } = await supabase
+          .from('visits')
+          .select(`
+            id,
+            patient_id,
+            provider_id,
+            started_at,
+            ended_at,
+            patients!inner(arabic_full_name, phone),
+            providers(display_name),
+            invoices(id, status)
+          `)
+          .eq('clinic_id', currentClinic?.id)
+          .eq('status', 'completed')
+          .order('ended_at', { ascending: false })
+          .limit(50);
+
+        if (error) throw error;
+        return (data || [])
+          .filter(visit => (visit.invoices || []).every(inv => inv.status === 'void'))
+          .map(({ invoices: _invoices, ...visit }) => visit) as CheckoutVisit[];
+      },
+      enabled: !!currentClinic?.id,
+    });
+  };
+
   // Get procedure rows for checkout
   const useProcedureRowsForCheckout = (visitId?: string) => {
     return useQuery({
@@ -111,15 +418,20 @@ export function useBilling() {
             *,
             treatments!inner(name_en, name_ar),
             visit_diagnoses(
-              tooth_set, quadrant, tooth_number,
+              tooth_set, quadrant, tooth_number, surfaces,
               diagnoses!inner(name_en)
-            )
+            ),
+            invoice_items(invoices(status))
           `)
           .eq('visit_id', visitId)
           .in('status', ['complete', 'planned']);
 
         if (error) throw error;
-        return data;
+
+        // Skip rows already billed on a live invoice
+        return (data || []).filter(row =>
+          (row.invoice_items || []).every(item => item.invoices?.status === 'void')
+        ) as CheckoutProcedureRow[];
       },
       enabled: !!visitId,
     });
@@ -131,56 +443,63 @@ export function useBilling() {
       visitId, 
       patientId, 
       items, 
+      discountAmount = 0,
       notes, 
       currency = 'EGP' 
     }: {
       visitId?: string;
       patientId: string;
       items: InvoiceItem[];
+      discountAmount?: number;
       notes?: string;
       currency?: string;
     }) => {
-      const totalAmount = items.reduce((sum, item) => sum + item.line_total, 0);
-
-      // Create invoice
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          clinic_id: currentClinic?.id,
-          patient_id: patientId,
-          visit_id: visitId,
-          status: 'open',
-          total_amount: totalAmount,
-          currency,
-          notes,
-          created_by: profile?.user_id,
-        })
-        .select('id')
-        .single();
+      if (items.length === 0) throw new Error('An invoice needs at least one line');
+      if (items.some(item => !item.description.trim() || item.qty <= 0 || item.unit_price < 0)) {
+        throw new Error('Every line needs a description, a positive quantity and a price');
+      }
 
-      if (invoiceError) throw invoiceError;
+      const totals = calculateInvoiceTotals(items, discountAmount);
 
-      // Create invoice items
-      const { error: itemsError } = await supabase
-        .from('invoice_items')
-        .insert(
-          items.map(item => ({
-            invoice_id: invoice.id,
+      // The invoice and its lines are saved in one transaction, so a failed line never
+      // leaves a numbered invoice without lines behind
+      const { data: invoice, error } = await supabase
+        .rpc('create_invoice', {
+          p_invoice: {
+            clinic_id: currentClinic?.id,
+            patient_id: patientId,
+            visit_id: visitId,
+            status: deriveInvoiceStatus({ total_amount: totals.total, payments: [] }),
+            subtotal: totals.subtotal,
+            discount_amount: totals.invoiceDiscount,
+            total_amount: totals.total,
+            currency,
+            notes,
+          },
+          p_items: items.map(item => ({
             procedure_row_id: item.procedure_row_id,
             description: item.description,
             qty: item.qty,
             unit_price: item.unit_price,
-            line_total: item.line_total,
-          }))
-        );
+            discount: roundMoney(item.discount || 0),
+            line_total: calculateLineTotal(item),
+          })),
+        })
+        .single();
 
-      if (itemsError) throw itemsError;
+      if (error) throw error;
 
       return invoice;
     },
-    onSuccess: () => {
-      toast({ title: 'Invoice created successfully' });
+    onSuccess: (invoice) => {
+      toast({
+        title: 'Invoice created successfully',
+        description: invoice.invoice_number ? `Invoice ${invoice.invoice_number} issued` : undefined,
+      });
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['checkoutVisits'] });
+      queryClient.invalidateQueries({ queryKey: ['checkoutProcedures'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
     },
     onError: (error) => {
       toast({
@@ -191,95 +510,469 @@ export function useBilling() {
     },
   });
 
-  // Take payment
-  const takePayment = useMutation({
-    mutationFn: async (payment: Payment) => {
+  // Record one or more payments (split across methods) against an invoice.
+  // invoices.status is derived from the payment total by a database trigger.
+  const recordPayments = useMutation({
+    mutationFn: async ({ invoiceId, parts }: { invoiceId: string; parts: SplitPaymentPart[] }) => {
+      const validParts = parts.filter(part => roundMoney(part.amount) > 0);
+      if (validParts.length === 0) throw new Error('Enter at least one payment amount');
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('status, total_amount, adjustment_total, payments(amount)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      if (invoice.status === 'void') throw new Error('Cannot take payment on a void invoice');
+
+      const balance = getInvoiceBalance(invoice);
+      const amount = roundMoney(validParts.reduce((sum, part) => sum + Number(part.amount), 0));
+      if (amount > balance) {
+        throw new Error(`Payment of ${amount} exceeds the balance of ${balance}`);
+      }
+
+      const paidAt = new Date().toISOString();
       const { data, error } = await supabase
         .from('payments')
-        .insert({
-          ...payment,
-          created_by: profile?.user_id,
-          paid_at: payment.paid_at || new Date().toISOString(),
-        })
-        .select()
-        .single();
+        .insert(
+          validParts.map(part => ({
+            invoice_id: invoiceId,
+            amount: roundMoney(part.amount),
+            method: part.method,
+            reference: part.reference || null,
+            paid_at: paidAt,
+            created_by: profile?.user_id,
+          }))
+        )
+        .select('id, amount, method, receipt_number');
 
       if (error) throw error;
+      return data;
+    },
+    onSuccess: (payments) => {
+      const receipts = payments.map(p => p.receipt_number).filter(Boolean);
+      toast({
+        title: 'Payment recorded successfully',
+        description: receipts.length ? `Receipt ${receipts.join(', ')}` : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording payment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Take a single payment
+  const takePayment = useMutation({
+    mutationFn: async (payment: Payment) => {
+      return recordPayments.mutateAsync({
+        invoiceId: payment.invoice_id,
+        parts: [{
+          method: (payment.method || 'cash') as PaymentMethod,
+          amount: payment.amount,
+          reference: payment.reference,
+        }],
+      });
+    },
+  });
+
+  // Void an invoice. Invoices with payments must be refunded first.
+  const voidInvoice = useMutation({
+    mutationFn: async ({ invoiceId, reason }: { invoiceId: string; reason: string }) => {
+      if (!reason.trim()) throw new Error('A reason is required to void an invoice');
 
-      // Update invoice status based on total payments
-      const { data: invoice } = await supabase
+      const { data: invoice, error: invoiceError } = await supabase
         .from('invoices')
-        .select('total_amount, payments(amount)')
-        .eq('id', payment.invoice_id)
+        .select('status, adjustment_total, payments(amount)')
+        .eq('id', invoiceId)
         .single();
 
-      if (invoice) {
-        const totalPaid = (invoice.payments || []).reduce((sum: number, p: any) => sum + p.amount, 0) + payment.amount;
-        const status = totalPaid >= invoice.total_amount ? 'paid' : 'partial';
-        
-        await supabase
-          .from('invoices')
-          .update({ status })
-          .eq('id', payment.invoice_id);
+      if (invoiceError) throw invoiceError;
+      if (invoice.status === 'void') throw new Error('Invoice is already void');
+      if (Number(invoice.adjustment_total) > 0) {
+        throw new Error('This invoice has credit notes or write-offs and cannot be voided');
+      }
+      if ((invoice.payments || []).some(p => Number(p.amount) !== 0)) {
+        throw new Error('Refund the payments on this invoice before voiding it');
       }
 
-      return data;
+      const { error } = await supabase
+        .from('invoices')
+        .update({
+          status: 'void',
+          void_reason: reason.trim(),
+          voided_at: new Date().toISOString(),
+          voided_by: profile?.user_id,
+        })
+        .eq('id', invoiceId);
+
+      if (error) throw error;
     },
     onSuccess: () => {
-      toast({ title: 'Payment recorded successfully' });
+      toast({ title: 'Invoice voided' });
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['checkoutVisits'] });
+      queryClient.invalidateQueries({ queryKey: ['checkoutProcedures'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
     },
     onError: (error) => {
       toast({
-        title: 'Error recording payment',
+        title: 'Error voiding invoice',
         description: error.message,
         variant: 'destructive',
       });
     },
   });
 
-  // Create installment plan
-  const createInstallmentPlan = useMutation({
-    mutationFn: async ({ 
-      invoiceId, 
-      installments 
-    }: { 
-      invoiceId: string; 
-      installments: { due_date: string; amount: number }[] 
+  // Request a refund, credit note or write-off. The database approves admins'
+  // requests straight away and holds everyone else's for an admin.
+  const requestAdjustment = useMutation({
+    mutationFn: async ({
+      invoiceId,
+      kind,
+      amount,
+      reasonCode,
+      reasonNote,
+      method,
+    }: {
+      invoiceId: string;
+      kind: AdjustmentKind;
+      amount: number;
+      reasonCode: string;
+      reasonNote?: string;
+      method?: PaymentMethod;
     }) => {
-      const totalAmount = installments.reduce((sum, inst) => sum + inst.amount, 0);
+      if (roundMoney(amount) <= 0) throw new Error('Enter an amount');
+      if (!reasonCode) throw new Error('Choose a reason');
+      if (reasonCode === 'other' && !reasonNote?.trim()) throw new Error('Describe the reason');
+      if (kind === 'refund' && !method) throw new Error('Choose how the refund is paid out');
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('clinic_id, patient_id, status, total_amount, adjustment_total, payments(amount)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      if (invoice.status === 'void') throw new Error('Cannot adjust a void invoice');
+
+      const limit = getAdjustmentLimit(kind, invoice);
+      if (roundMoney(amount) > limit) {
+        throw new Error(`The most that can be applied as a ${getAdjustmentKindLabel(kind).toLowerCase()} is ${limit}`);
+      }
 
-      // Create plan
-      const { data: plan, error: planError } = await supabase
-        .from('installment_plans')
+      const { data, error } = await supabase
+        .from('invoice_adjustments')
         .insert({
+          clinic_id: invoice.clinic_id,
           invoice_id: invoiceId,
-          total_amount: totalAmount,
+          patient_id: invoice.patient_id,
+          kind,
+          amount: roundMoney(amount),
+          reason_code: reasonCode,
+          reason_note: reasonNote?.trim() || null,
+          method: kind === 'refund' ? method : null,
+        })
+        .select('id, kind, status, document_number')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (adjustment) => {
+      const label = getAdjustmentKindLabel(adjustment.kind);
+      toast({
+        title: adjustment.status === 'approved' ? `${label} issued` : `${label} sent for approval`,
+        description: adjustment.document_number ? `Credit note ${adjustment.document_number}` : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error requesting adjustment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Approve or reject a pending adjustment (admins only; enforced by the database)
+  const decideAdjustment = useMutation({
+    mutationFn: async ({
+      adjustmentId,
+      approve,
+      note,
+    }: {
+      adjustmentId: string;
+      approve: boolean;
+      note?: string;
+    }) => {
+      if (!approve && !note?.trim()) throw new Error('Give a reason for rejecting');
+
+      const { data, error } = await supabase
+        .from('invoice_adjustments')
+        .update({
+          status: approve ? 'approved' : 'rejected',
+          decision_note: note?.trim() || null,
         })
-        .select('id')
+        .eq('id', adjustmentId)
+        .select('kind, status, document_number')
         .single();
 
-      if (planError) throw planError;
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (adjustment) => {
+      toast({
+        title: `${getAdjustmentKindLabel(adjustment.kind)} ${adjustment.status}`,
+        description: adjustment.document_number ? `Credit note ${adjustment.document_number}` : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating adjustment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Take money on account before anything is invoiced
+  const recordPrepayment = useMutation({
+    mutationFn: async ({
+      patientId,
+      amount,
+      method,
+      reference,
+      notes,
+    }: {
+      patientId: string;
+      amount: number;
+      method: PaymentMethod;
+      reference?: string;
+      notes?: string;
+    }) => {
+      if (roundMoney(amount) <= 0) throw new Error('Enter a prepayment amount');
 
-      // Create installment items
-      const { error: itemsError } = await supabase
-        .from('installment_items')
+      const { data, error } = await supabase
+        .from('patient_credits')
+        .insert({
+          clinic_id: currentClinic?.id,
+          patient_id: patientId,
+          amount: roundMoney(amount),
+          method,
+          reference: reference || null,
+          notes: notes || null,
+          created_by: profile?.user_id,
+        })
+        .select('id, receipt_number')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (credit) => {
+      toast({
+        title: 'Prepayment recorded',
+        description: credit.receipt_number ? `Receipt ${credit.receipt_number}` : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording prepayment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Apply the patient's unapplied credit to an invoice, oldest credit first
+  const applyCredit = useMutation({
+    mutationFn: async ({ invoiceId, amount }: { invoiceId: string; amount?: number }) => {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('patient_id, status, total_amount, adjustment_total, payments(amount)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      if (invoice.status === 'void') throw new Error('Cannot apply credit to a void invoice');
+
+      const { data: credits, error: creditsError } = await supabase
+        .from('patient_credits')
+        .select('id, amount, received_at, payments(amount)')
+        .eq('patient_id', invoice.patient_id)
+        .order('received_at', { ascending: true });
+
+      if (creditsError) throw creditsError;
+
+      const balance = getInvoiceBalance(invoice);
+      const available = roundMoney((credits || []).reduce((sum, credit) => sum + getUnappliedCredit(credit), 0));
+      let remaining = roundMoney(Math.min(amount ?? balance, balance, available));
+      if (remaining <= 0) throw new Error('No credit available to apply');
+
+      const paidAt = new Date().toISOString();
+      const parts: { credit_id: string; amount: number }[] = [];
+      for (const credit of credits || []) {
+        if (remaining <= 0) break;
+        const part = roundMoney(Math.min(getUnappliedCredit(credit), remaining));
+        if (part <= 0) continue;
+        parts.push({ credit_id: credit.id, amount: part });
+        remaining = roundMoney(remaining - part);
+      }
+
+      const { error } = await supabase
+        .from('payments')
         .insert(
-          installments.map(inst => ({
-            plan_id: plan.id,
-            due_date: inst.due_date,
-            amount: inst.amount,
-            paid: false,
+          parts.map(part => ({
+            invoice_id: invoiceId,
+            credit_id: part.credit_id,
+            amount: part.amount,
+            method: 'credit',
+            paid_at: paidAt,
+            created_by: profile?.user_id,
           }))
         );
 
-      if (itemsError) throw itemsError;
+      if (error) throw error;
+      return roundMoney(parts.reduce((sum, part) => sum + part.amount, 0));
+    },
+    onSuccess: (applied) => {
+      toast({ title: 'Credit applied', description: `${applied.toFixed(2)} applied to the invoice` });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-detail'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error applying credit',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
 
-      return plan;
+  // Print an invoice, or the receipt for one of its payments, as a bilingual PDF
+  const printInvoice = useMutation({
+    mutationFn: async ({
+      invoiceId,
+      kind = 'invoice',
+      paymentId,
+    }: {
+      invoiceId: string;
+      kind?: InvoicePdfKind;
+      paymentId?: string;
+    }) => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          id, invoice_number, status, created_at, currency, subtotal, discount_amount,
+          total_amount, adjustment_total, notes, void_reason,
+          clinics(name, address, phone),
+          patients(arabic_full_name, latin_name, phone),
+          invoice_items(
+            id, description, qty, unit_price, discount, line_total,
+            procedure_plan_rows(
+              treatments(name_en, name_ar),
+              visit_diagnoses(tooth_set, quadrant, tooth_number, surfaces)
+            )
+          ),
+          payments(id, amount, method, reference, paid_at, receipt_number),
+          installment_plans(id, installment_items(id, due_date, amount, paid))
+        `)
+        .eq('id', invoiceId)
+        .single();
+
+      if (error) throw error;
+
+      const document = data as unknown as InvoiceDocument;
+      if (kind === 'receipt' && !document.payments.some(p => p.id === paymentId)) {
+        throw new Error('Payment not found on this invoice');
+      }
+
+      const doc = await buildInvoicePDF(document, kind, paymentId);
+      printPDF(doc);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error printing document',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Create an installment plan covering the invoice's outstanding balance.
+  // Items are marked paid by a database trigger as payments come in.
+  const createInstallmentPlan = useMutation({
+    mutationFn: async ({
+      invoiceId,
+      installments,
+      downPayment = 0,
+      frequency,
+      count,
+    }: {
+      invoiceId: string;
+      installments: { due_date: string; amount: number }[];
+      downPayment?: number;
+      frequency?: InstallmentFrequency;
+      count?: number;
+    }) => {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('status, total_amount, adjustment_total, payments(amount), installment_plans(id)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      if (invoice.status === 'void') throw new Error('Cannot set up installments on a void invoice');
+      if ((invoice.installment_plans || []).length > 0) {
+        throw new Error('This invoice already has an installment plan');
+      }
+
+      const balance = getInvoiceBalance(invoice);
+      const scheduleError = validateInstallmentSchedule(installments, balance);
+      if (scheduleError) throw new Error(scheduleError);
+
+      // The plan and its items are saved in one transaction, so a failed item never leaves
+      // an empty plan that blocks trying again
+      const { data: planId, error } = await supabase.rpc('create_installment_plan', {
+        p_invoice_id: invoiceId,
+        p_plan: {
+          total_amount: balance,
+          down_payment: roundMoney(downPayment),
+          installment_count: count,
+          frequency,
+        },
+        p_items: installments.map(inst => ({
+          due_date: inst.due_date,
+          amount: roundMoney(inst.amount),
+        })),
+      });
+
+      if (error) throw error;
+
+      return { id: planId };
     },
     onSuccess: () => {
       toast({ title: 'Installment plan created successfully' });
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
     },
     onError: (error) => {
       toast({
@@ -290,11 +983,52 @@ export function useBilling() {
     },
   });
 
+  // Log a collections call or reminder against an installment
+  const logInstallmentReminder = useMutation({
+    mutationFn: async ({ item, note }: { item: InstallmentItem; note?: string }) => {
+      const { error } = await supabase
+        .from('installment_items')
+        .update({
+          last_reminded_at: new Date().toISOString(),
+          reminder_count: (item.reminder_count || 0) + 1,
+          reminder_note: note?.trim() || null,
+        })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Reminder logged' });
+      queryClient.invalidateQueries({ queryKey: ['overdueInstallments'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error logging reminder',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   return {
     useInvoices,
+    usePatientInvoices,
+    usePatientLedger,
+    useInvoiceAdjustments,
+    useOverdueInstallments,
+    useCheckoutVisits,
     useProcedureRowsForCheckout,
     createInvoice,
+    recordPayments,
     takePayment,
+    voidInvoice,
+    requestAdjustment,
+    decideAdjustment,
+    recordPrepayment,
+    applyCredit,
+    printInvoice,
     createInstallmentPlan,
+    logInstallmentReminder,
   };
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAppStore } from '@/store/appStore';
+import { invalidateStatusQueries, transitionAppointment } from '@/hooks/useAppointmentStatus';
 
 export interface CalendarAppointment {
   id: string;
@@ -12,6 +13,11 @@ export interface CalendarAppointment {
   ends_at: string;
   status: 'planned' | 'confirmed' | 'arrived' | 'ready' | 'in_chair' | 'completed' | 'no_show' | 'cancelled';
   notes: string | null;
+  overbook: boolean;
+  overbook_reason: string | null;
+  series_id: string | null;
+  series_index: number | null;
+  appointment_type_id: string | null;
   patients: {
     id: string;
     arabic_full_name: string;
@@ -26,11 +32,26 @@ export interface CalendarAppointment {
     id: string;
     name: string;
   } | null;
+  appointment_types: {
+    id: string;
+    name: string;
+    color: string;
+  } | null;
+}
+
+export interface CalendarProvider {
+  id: string;
+  display_name: string;
+  specialty: string | null;
+  active: boolean;
+  default_room_id: string | null;
+  user_id: string | null;
 }
 
 export interface CalendarFilters {
   providerId?: string;
   roomId?: string;
+  appointmentTypeId?: string;
   clinicId?: string;
   status?: 'planned' | 'confirmed' | 'arrived' | 'ready' | 'in_chair' | 'completed' | 'no_show' | 'cancelled';
 }
@@ -57,6 +78,11 @@ export function useCalendarAppointments(
           ends_at,
           status,
           notes,
+          overbook,
+          overbook_reason,
+          series_id,
+          series_index,
+          appointment_type_id,
           patients!inner(
             id,
             arabic_full_name,
@@ -70,6 +96,11 @@ export function useCalendarAppointments(
           rooms(
             id,
             name
+          ),
+          appointment_types(
+            id,
+            name,
+            color
           )
         `)
         .gte('starts_at', startDate.toISOString())
@@ -88,6 +119,9 @@ export function useCalendarAppointments(
       if (filters.roomId) {
         query = query.eq('room_id', filters.roomId);
       }
+      if (filters.appointmentTypeId) {
+        query = query.eq('appointment_type_id', filters.appointmentTypeId);
+      }
       if (filters.status) {
         query = query.eq('status', filters.status);
       }
@@ -109,12 +143,13 @@ export function useProviders() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('providers')
-        .select('id, display_name, specialty, active, default_room_id')
+        .select('id, display_name, specialty, active, default_room_id, user_id')
         .eq('active', true)
         .order('display_name', { ascending: true });
       
       if (error) throw error;
-      return data || [];
+      // default_room_id is not in the generated types yet
+      return (data || []) as unknown as CalendarProvider[];
     },
   });
 }
@@ -150,10 +185,13 @@ export function useCreateAppointment() {
       clinic_id: string;
       provider_id?: string;
       room_id?: string;
+      appointment_type_id?: string;
       starts_at: string;
       ends_at: string;
       status: 'planned' | 'confirmed' | 'arrived' | 'ready' | 'in_chair' | 'completed' | 'no_show' | 'cancelled';
       notes?: string;
+      overbook?: boolean;
+      overbook_reason?: string | null;
     }) => {
       const { data, error } = await supabase
         .from('appointments')
@@ -170,8 +208,12 @@ export function useCreateAppointment() {
   });
 }
 
+// Statuses that give the appointment's slot back
+const FREEING_STATUSES: CalendarAppointment['status'][] = ['cancelled', 'no_show'];
+
 export function useUpdateAppointment() {
   const queryClient = useQueryClient();
+  const { setFreedSlot } = useAppStore();
   
   return useMutation({
     mutationFn: async ({ 
@@ -181,6 +223,21 @@ export function useUpdateAppointment() {
       id: string; 
       updates: Partial<CalendarAppointment> 
     }) => {
+      // Status moves go through the status machine, with the other changes saved alongside
+      if (updates.status) {
+        const { status, ...changes } = updates;
+        await transitionAppointment(id, status, changes);
+
+        const { data, error } = await supabase
+          .from('appointments')
+          .select()
+          .eq('id', id)
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
+
       const { data, error } = await supabase
         .from('appointments')
         .update(updates)
@@ -191,8 +248,25 @@ export function useUpdateAppointment() {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+    onSuccess: (appointment, { updates }) => {
+      if (updates.status) {
+        invalidateStatusQueries(queryClient);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+      }
+
+      // Offer a slot that is still ahead to the waitlist
+      if (updates.status && FREEING_STATUSES.includes(updates.status) && new Date(appointment.ends_at) > new Date()) {
+        setFreedSlot({
+          appointmentId: appointment.id,
+          clinicId: appointment.clinic_id,
+          start: new Date(appointment.starts_at),
+          end: new Date(appointment.ends_at),
+          providerId: appointment.provider_id,
+          roomId: appointment.room_id,
+          reason: updates.status === 'no_show' ? 'no_show' : 'cancelled',
+        });
+      }
     },
   });
 }
@@ -214,36 +288,3 @@ export function useDeleteAppointment() {
     },
   });
 }
-
-export function useCheckProviderConflict() {
-  return useMutation({
-    mutationFn: async ({
-      providerId,
-      startTime,
-      endTime,
-      excludeAppointmentId
-    }: {
-      providerId: string;
-      startTime: string;
-      endTime: string;
-      excludeAppointmentId?: string;
-    }) => {
-      let query = supabase
-        .from('appointments')
-        .select('id, starts_at, ends_at')
-        .eq('provider_id', providerId)
-        .neq('status', 'cancelled')
-        .neq('status', 'no_show')
-        .or(`and(starts_at.lt.${endTime},ends_at.gt.${startTime})`);
-
-      if (excludeAppointmentId) {
-        query = query.neq('id', excludeAppointmentId);
-      }
-
-      const { data, error } = await query;
-      if (error) throw error;
-      
-      return data && data.length > 0;
-    },
-  });
-}
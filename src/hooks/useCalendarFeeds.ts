@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+
+export interface ProviderCalendarFeed {
+  id: string;
+  clinic_id: string;
+  provider_id: string;
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+/**
+ * The subscription URL a phone calendar polls for a feed
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/provider-calendar-feed?token=${token}`;
+}
+
+/**
+ * Live iCalendar feeds in the current clinic. Providers only see their own; admins see all.
+ */
+export function useCalendarFeeds() {
+  const { toast } = useToast();
+  const { currentClinic } = useAppStore();
+  const queryClient = useQueryClient();
+
+  const { data: feeds = [], isLoading } = useQuery({
+    queryKey: ['calendar-feeds', currentClinic?.id],
+    queryFn: async (): Promise<ProviderCalendarFeed[]> => {
+      const { data, error } = await supabase
+        .from('provider_calendar_feeds')
+        .select('id, clinic_id, provider_id, token, created_at, last_accessed_at')
+        .eq('clinic_id', currentClinic!.id)
+        .is('revoked_at', null);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  const revoke = async (providerId: string) => {
+    const { error } = await supabase
+      .from('provider_calendar_feeds')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('clinic_id', currentClinic!.id)
+      .eq('provider_id', providerId)
+      .is('revoked_at', null);
+
+    if (error) throw error;
+  };
+
+  // A new token always replaces the old one, so a leaked URL stops working
+  const createFeed = useMutation({
+    mutationFn: async (providerId: string) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+
+      await revoke(providerId);
+
+      const { data, error } = await supabase
+        .from('provider_calendar_feeds')
+        .insert({ clinic_id: currentClinic.id, provider_id: providerId })
+        .select('id, clinic_id, provider_id, token, created_at, last_accessed_at')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: 'Calendar feed link created' });
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error creating calendar feed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: async (providerId: string) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      await revoke(providerId);
+    },
+    onSuccess: () => {
+      toast({ title: 'Calendar feed link revoked' });
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error revoking calendar feed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    feeds,
+    isLoading,
+    getFeed: (providerId: string) => feeds.find(f => f.provider_id === providerId),
+    createFeed,
+    revokeFeed,
+  };
+}
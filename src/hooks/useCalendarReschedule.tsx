@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
+import { useUpdateAppointment, type CalendarAppointment } from '@/hooks/useCalendarData';
+import { fetchBookingLoad, fetchOverbookingPolicy } from '@/hooks/useOverbookingPolicy';
+import { useAppStore } from '@/store/appStore';
+import { evaluateOverbooking } from '@/lib/overbooking';
+
+export interface AppointmentMove {
+  appointment: CalendarAppointment;
+  start: Date;
+  end: Date;
+  providerId?: string | null; // omitted to keep the current provider
+  roomId?: string | null; // omitted to keep the current room
+}
+
+interface AppointmentPlacement {
+  starts_at: string;
+  ends_at: string;
+  provider_id: string | null;
+  room_id: string | null;
+}
+
+interface UndoableMove {
+  appointment: CalendarAppointment;
+  previous: AppointmentPlacement;
+}
+
+// Appointments that have started or finished stay where they are
+const MOVABLE_STATUSES: CalendarAppointment['status'][] = ['planned', 'confirmed'];
+
+export const isAppointmentMovable = (appointment: CalendarAppointment) =>
+  MOVABLE_STATUSES.includes(appointment.status);
+
+/**
+ * Drag-and-drop rescheduling for the calendar. Every move is checked against clinic
+ * hours and the overbooking policy before it is saved, and the last move can be undone.
+ */
+export function useCalendarReschedule() {
+  const { toast } = useToast();
+  const { isTimeSlotAvailable } = useAvailabilityValidation();
+  const { currentClinic, profile } = useAppStore();
+  const updateAppointment = useUpdateAppointment();
+  const [lastMove, setLastMove] = useState<UndoableMove | null>(null);
+  // Where dropped appointments are shown while the save is in flight
+  const [pendingMoves, setPendingMoves] = useState<Record<string, { start: Date; end: Date }>>({});
+
+  const getPlacement = (move: AppointmentMove): AppointmentPlacement => ({
+    starts_at: move.start.toISOString(),
+    ends_at: move.end.toISOString(),
+    provider_id: move.providerId !== undefined ? move.providerId : move.appointment.provider_id,
+    room_id: move.roomId !== undefined ? move.roomId : move.appointment.room_id,
+  });
+
+  /**
+   * Why a move is not allowed, or null when it is
+   */
+  const validateMove = async (move: AppointmentMove, { allowPast = false } = {}): Promise<string | null> => {
+    const placement = getPlacement(move);
+
+    if (!isAppointmentMovable(move.appointment)) {
+      return `A ${move.appointment.status.replace('_', ' ')} appointment cannot be moved`;
+    }
+    if (move.end <= move.start) {
+      return 'An appointment must end after it starts';
+    }
+    if (!allowPast && move.start < new Date()) {
+      return 'Appointments cannot be moved into the past';
+    }
+    if (!isTimeSlotAvailable(move.start, move.end, placement.room_id || undefined, placement.provider_id || undefined)) {
+      return `${format(move.start, 'MMM dd, HH:mm')} - ${format(move.end, 'HH:mm')} is outside clinic, room or provider hours`;
+    }
+    if (currentClinic?.id && (placement.provider_id || placement.room_id)) {
+      const [policy, load] = await Promise.all([
+        fetchOverbookingPolicy(currentClinic.id),
+        fetchBookingLoad({
+          providerId: placement.provider_id,
+          roomId: placement.room_id,
+          startTime: placement.starts_at,
+          endTime: placement.ends_at,
+          excludeAppointmentId: move.appointment.id,
+        }),
+      ]);
+      const check = evaluateOverbooking(policy, load, profile?.role);
+      // A drop has nowhere to ask for a reason, so only an already approved overbook can move into one
+      const approvedOverbook = move.appointment.overbook && !!move.appointment.overbook_reason && check.canOverride;
+      if (!check.withinPolicy && !approvedOverbook) {
+        return `${check.message}`;
+      }
+    }
+
+    return null;
+  };
+
+  const savePlacement = async (appointment: CalendarAppointment, placement: AppointmentPlacement) => {
+    setPendingMoves(prev => ({
+      ...prev,
+      [appointment.id]: { start: new Date(placement.starts_at), end: new Date(placement.ends_at) },
+    }));
+
+    try {
+      await updateAppointment.mutateAsync({ id: appointment.id, updates: placement });
+    } finally {
+      setPendingMoves(prev => {
+        const { [appointment.id]: _done, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const undoMove = async (move: UndoableMove) => {
+    const { appointment, previous } = move;
+    const reason = await validateMove(
+      {
+        appointment,
+        start: new Date(previous.starts_at),
+        end: new Date(previous.ends_at),
+        providerId: previous.provider_id,
+        roomId: previous.room_id,
+      },
+      { allowPast: true }
+    );
+
+    if (reason) {
+      toast({ title: 'Cannot undo move', description: reason, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await savePlacement(appointment, previous);
+      setLastMove(current => (current === move ? null : current));
+      toast({ title: 'Move undone' });
+    } catch (error) {
+      toast({
+        title: 'Error undoing move',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const undoLastMove = async () => {
+    if (lastMove) await undoMove(lastMove);
+  };
+
+  /**
+   * Validate and save a dropped or resized appointment. Returns whether it was saved.
+   */
+  const moveAppointment = async (move: AppointmentMove): Promise<boolean> => {
+    const reason = await validateMove(move);
+    if (reason) {
+      toast({ title: 'Cannot move appointment', description: reason, variant: 'destructive' });
+      return false;
+    }
+
+    const { appointment } = move;
+    const previous: AppointmentPlacement = {
+      starts_at: appointment.starts_at,
+      ends_at: appointment.ends_at,
+      provider_id: appointment.provider_id,
+      room_id: appointment.room_id,
+    };
+    const placement = getPlacement(move);
+
+    try {
+      await savePlacement(appointment, placement);
+    } catch (error) {
+      toast({
+        title: 'Error moving appointment',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    // The moved appointment as it is now, so undo validates against the right slot
+    const undoable = { appointment: { ...appointment, ...placement }, previous };
+    setLastMove(undoable);
+    toast({
+      title: 'Appointment moved',
+      description: `${appointment.patients?.arabic_full_name} · ${format(move.start, 'EEE MMM dd, HH:mm')} - ${format(move.end, 'HH:mm')}`,
+      action: (
+        <ToastAction altText="Undo move" onClick={() => undoMove(undoable)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+    return true;
+  };
+
+  return {
+    moveAppointment,
+    undoLastMove,
+    canUndo: !!lastMove,
+    pendingMoves,
+    isSaving: updateAppointment.isPending,
+  };
+}
@@ -0,0 +1,272 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useMe } from '@/hooks/useMe';
+import { useClinicSettings } from '@/hooks/useClinicSettings';
+import { formatInvoiceNumber, formatMoney, roundMoney } from '@/lib/invoice';
+import {
+  getClinicDate,
+  getClinicDayRange,
+  summarizeCashDay,
+  type CashDaySummary,
+  type DrawerTransaction,
+} from '@/lib/cashDrawer';
+import { printPDF } from '@/utils/invoicePdf';
+import { buildZReportPDF } from '@/utils/zReportPdf';
+
+export interface CashDrawerClosing {
+  id: string;
+  clinic_id: string;
+  business_date: string;
+  timezone: string;
+  expected_cash: number;
+  counted_cash: number;
+  difference: number | null;
+  total_collected: number;
+  payment_count: number;
+  summary: CashDaySummary;
+  notes: string | null;
+  closed_by: string | null;
+  closed_at: string;
+  closer?: { full_name: string | null } | null;
+}
+
+export interface CashDay {
+  day: string;
+  timezone: string;
+  transactions: DrawerTransaction[];
+  summary: CashDaySummary;
+  closing: CashDrawerClosing | null;
+}
+
+const DEFAULT_TIMEZONE = 'Africa/Cairo';
+
+export function useCashDrawer() {
+  const { toast } = useToast();
+  const { currentClinic } = useMe();
+  const { settings } = useClinicSettings();
+  const queryClient = useQueryClient();
+
+  const timezone = settings?.timezone || DEFAULT_TIMEZONE;
+  const today = getClinicDate(new Date(), timezone);
+
+  // Money taken at the desk on one clinic day: invoice payments and refunds plus
+  // prepayments. Applying account credit moves no money, so it is left out.
+  const fetchCashDay = async (day: string): Promise<CashDay> => {
+    const { start, end } = getClinicDayRange(day, timezone);
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select(`
+        id, amount, method, paid_at, receipt_number, created_by,
+        invoices!inner(id, invoice_number, clinic_id, patients(arabic_full_name)),
+        profiles!payments_created_by_fkey(full_name)
+      `)
+      .eq('invoices.clinic_id', currentClinic?.id)
+      // neq alone would also drop payments recorded without a method
+      .or('method.is.null,method.neq.credit')
+      .gte('paid_at', start)
+      .lt('paid_at', end)
+      .order('paid_at');
+
+    if (paymentsError) throw paymentsError;
+
+    const { data: prepayments, error: prepaymentsError } = await supabase
+      .from('patient_credits')
+      .select(`
+        id, amount, method, received_at, receipt_number, created_by,
+        patients(arabic_full_name),
+        profiles!patient_credits_created_by_fkey(full_name)
+      `)
+      .eq('clinic_id', currentClinic?.id)
+      .gte('received_at', start)
+      .lt('received_at', end)
+      .order('received_at');
+
+    if (prepaymentsError) throw prepaymentsError;
+
+    const { data: closing, error: closingError } = await supabase
+      .from('cash_drawer_closings')
+      .select('*, closer:profiles!cash_drawer_closings_closed_by_fkey(full_name)')
+      .eq('clinic_id', currentClinic?.id)
+      .eq('business_date', day)
+      .maybeSingle();
+
+    if (closingError) throw closingError;
+
+    const transactions: DrawerTransaction[] = [
+      ...(payments || []).map(payment => ({
+        id: payment.id,
+        kind: 'payment' as const,
+        amount: Number(payment.amount),
+        method: payment.method || 'cash',
+        at: payment.paid_at,
+        staffId: payment.created_by,
+        staffName: payment.profiles?.full_name || null,
+        reference: payment.receipt_number,
+        description: `${Number(payment.amount) < 0 ? 'Refund' : 'Payment'} · ${formatInvoiceNumber(payment.invoices)} · ${payment.invoices.patients?.arabic_full_name || ''}`,
+      })),
+      ...(prepayments || []).map(credit => ({
+        id: credit.id,
+        kind: 'prepayment' as const,
+        amount: Number(credit.amount),
+        method: credit.method,
+        at: credit.received_at,
+        staffId: credit.created_by,
+        staffName: credit.profiles?.full_name || null,
+        reference: credit.receipt_number,
+        description: `Prepayment · ${credit.patients?.arabic_full_name || ''}`,
+      })),
+    ].sort((a, b) => a.at.localeCompare(b.at));
+
+    return {
+      day,
+      timezone,
+      transactions,
+      summary: summarizeCashDay(transactions),
+      closing: closing as unknown as CashDrawerClosing | null,
+    };
+  };
+
+  const useCashDay = (day: string) => {
+    return useQuery({
+      queryKey: ['cashDrawer', currentClinic?.id, day, timezone],
+      queryFn: () => fetchCashDay(day),
+      enabled: !!currentClinic?.id && !!day,
+      staleTime: 0, // payments arrive all day; always count from fresh data
+    });
+  };
+
+  // Past closings, newest first, for admin review
+  const useCashClosings = () => {
+    return useQuery({
+      queryKey: ['cashClosings', currentClinic?.id],
+      queryFn: async () => {
+        const { data, error } = await supabase
+          .from('cash_drawer_closings')
+          .select('*, closer:profiles!cash_drawer_closings_closed_by_fkey(full_name)')
+          .eq('clinic_id', currentClinic?.id)
+          .order('business_date', { ascending: false })
+          .limit(90);
+
+        if (error) throw error;
+        return data as unknown as CashDrawerClosing[];
+      },
+      enabled: !!currentClinic?.id,
+    });
+  };
+
+  // Close a clinic day: the totals are recounted from the database at the moment of
+  // closing, and the day's payments are locked by a database trigger.
+  const closeDay = useMutation({
+    mutationFn: async ({ day, countedCash, notes }: { day: string; countedCash: number; notes?: string }) => {
+      if (day > today) throw new Error('Cannot close a day that has not started');
+      if (roundMoney(countedCash) < 0) throw new Error('Counted cash cannot be negative');
+
+      const cashDay = await fetchCashDay(day);
+      if (cashDay.closing) throw new Error('This day has already been closed');
+
+      const { data, error } = await supabase
+        .from('cash_drawer_closings')
+        .insert({
+          clinic_id: currentClinic?.id,
+          business_date: day,
+          timezone,
+          expected_cash: cashDay.summary.expectedCash,
+          counted_cash: roundMoney(countedCash),
+          total_collected: cashDay.summary.totalCollected,
+          payment_count: cashDay.summary.transactionCount,
+          summary: JSON.parse(JSON.stringify(cashDay.summary)),
+          notes: notes?.trim() || null,
+        })
+        .select('difference')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (closing) => {
+      const difference = Number(closing.difference || 0);
+      toast({
+        title: 'Day closed',
+        description: difference === 0
+          ? 'Cash drawer balanced'
+          : `Cash drawer ${difference < 0 ? 'short' : 'over'} by ${formatMoney(Math.abs(difference))}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['cashDrawer'] });
+      queryClient.invalidateQueries({ queryKey: ['cashClosings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error closing day',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Reopen a closed day so its payments can be corrected (admins only; enforced by RLS)
+  const reopenDay = useMutation({
+    mutationFn: async (closingId: string) => {
+      const { data, error } = await supabase
+        .from('cash_drawer_closings')
+        .delete()
+        .eq('id', closingId)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error('Only an admin can reopen a closed day');
+    },
+    onSuccess: () => {
+      toast({ title: 'Day reopened' });
+      queryClient.invalidateQueries({ queryKey: ['cashDrawer'] });
+      queryClient.invalidateQueries({ queryKey: ['cashClosings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error reopening day',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Z-report for a closed day (an X-report while it is still open)
+  const printZReport = useMutation({
+    mutationFn: async (day: string) => {
+      const cashDay = await fetchCashDay(day);
+      const closing = cashDay.closing;
+
+      const doc = buildZReportPDF({
+        clinicName: currentClinic?.name || 'Clinic',
+        businessDate: day,
+        timezone: closing?.timezone || timezone,
+        // A closed day prints the totals as they were counted
+        summary: closing?.summary || cashDay.summary,
+        transactions: cashDay.transactions,
+        countedCash: closing ? Number(closing.counted_cash) : null,
+        notes: closing?.notes,
+        closedBy: closing?.closer?.full_name,
+        closedAt: closing?.closed_at,
+      });
+      printPDF(doc);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error printing report',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    timezone,
+    today,
+    useCashDay,
+    useCashClosings,
+    closeDay,
+    reopenDay,
+    printZReport,
+  };
+}
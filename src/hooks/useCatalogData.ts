@@ -1,3 +1,4 @@
+import { useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -20,6 +21,7 @@ export interface CatalogTreatment {
 export interface DiagnosisRule {
   diagnosis_id: string;
   requires_tooth: boolean;
+  requires_surfaces: boolean;
   xray_required: boolean;
   default_treatment_id: string | null;
 }
@@ -87,7 +89,7 @@ export function useCatalogData() {
   };
 
   // Helper function to get allowed treatments for a diagnosis
-  const getAllowedTreatments = (diagnosisId: string): CatalogTreatment[] => {
+  const getAllowedTreatments = useCallback((diagnosisId: string): CatalogTreatment[] => {
     if (!allowedTreatmentMappings || !treatments) return [];
     
     const allowedTreatmentIds = allowedTreatmentMappings
@@ -97,7 +99,7 @@ export function useCatalogData() {
     return treatments.filter(treatment => 
       allowedTreatmentIds.includes(treatment.id)
     );
-  };
+  }, [allowedTreatmentMappings, treatments]);
 
   return {
     diagnoses,
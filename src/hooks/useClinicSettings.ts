@@ -3,7 +3,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useMe } from '@/hooks/useMe';
 import { AvailabilityConfig, createDefaultAvailability } from '@/lib/availability';
+import { DEFAULT_OVERBOOKING_POLICY, OverbookingPolicy } from '@/lib/overbooking';
+import { DEFAULT_WAIT_ALERT_MINUTES } from '@/lib/waitingRoom';
 import { useCallback } from 'react';
+import type { Json } from '@/integrations/supabase/types';
 
 export interface ClinicSettings {
   id: string;
@@ -11,6 +14,8 @@ export interface ClinicSettings {
   availability: AvailabilityConfig;
   timezone: string;
   slot_minutes: number;
+  overbooking_policy: OverbookingPolicy;
+  wait_alert_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -21,6 +26,8 @@ interface DbClinicSettings {
   availability: any; // JSON type from database
   timezone: string;
   slot_minutes: number;
+  overbooking_policy: Partial<OverbookingPolicy> | null;
+  wait_alert_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -57,6 +64,8 @@ export function useClinicSettings() {
           availability: defaultAvailability,
           timezone: defaultAvailability.timezone,
           slot_minutes: defaultAvailability.slot_minutes,
+          overbooking_policy: DEFAULT_OVERBOOKING_POLICY,
+          wait_alert_minutes: DEFAULT_WAIT_ALERT_MINUTES,
           created_at: '',
           updated_at: ''
         } as ClinicSettings;
@@ -66,7 +75,8 @@ export function useClinicSettings() {
       const dbData = data as DbClinicSettings;
       return {
         ...dbData,
-        availability: dbData.availability as AvailabilityConfig
+        availability: dbData.availability as AvailabilityConfig,
+        overbooking_policy: { ...DEFAULT_OVERBOOKING_POLICY, ...dbData.overbooking_policy }
       } as ClinicSettings;
     },
     enabled: !!currentClinic?.id,
@@ -82,6 +92,8 @@ export function useClinicSettings() {
         availability: newSettings.availability as any, // Cast to JSON type
         timezone: newSettings.timezone,
         slot_minutes: newSettings.slot_minutes,
+        overbooking_policy: newSettings.overbooking_policy as unknown as Json,
+        wait_alert_minutes: newSettings.wait_alert_minutes,
       };
 
       const { data, error } = await supabase
@@ -96,7 +108,8 @@ export function useClinicSettings() {
       const dbData = data as DbClinicSettings;
       return {
         ...dbData,
-        availability: dbData.availability as AvailabilityConfig
+        availability: dbData.availability as AvailabilityConfig,
+        overbooking_policy: { ...DEFAULT_OVERBOOKING_POLICY, ...dbData.overbooking_policy }
       } as ClinicSettings;
     },
     onSuccess: () => {
@@ -2,6 +2,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useAppStore } from '@/store/appStore';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { invalidateStatusQueries, transitionAppointment, transitionPatientToday } from '@/hooks/useAppointmentStatus';
+import { useQueueOrderRealtime } from '@/hooks/useQueueOrder';
+import { mergeDoctorQueue, type QueuePriority } from '@/lib/readyQueue';
 
 export interface ClinicalPatient {
   id: string;
@@ -17,6 +20,7 @@ export interface ClinicalPatient {
 export interface ClinicalVisit {
   id: string;
   patient_id: string;
+  appointment_id?: string | null;
   started_at: string;
   ended_at?: string;
   provider_id?: string;
@@ -24,6 +28,26 @@ export interface ClinicalVisit {
   status: string;
 }
 
+export interface ReadyQueueAppointment {
+  id: string;
+  patient_id: string;
+  provider_id: string | null;
+  starts_at: string;
+  status: string;
+  queue_order: number | null;
+  queue_priority: QueuePriority | null;
+  queue_priority_reason: string | null;
+  patients: {
+    id: string;
+    arabic_full_name: string;
+    latin_name: string | null;
+    phone: string | null;
+    dob: string | null;
+    status: string;
+  };
+  providers: { display_name: string } | null;
+}
+
 export function useClinicalWorkflow(activeVisitId: string | null) {
   // Fetch active visit details
   const { data: activeVisit } = useQuery({
@@ -93,6 +117,8 @@ export function useClinicalWorkflow(activeVisitId: string | null) {
 // Hook for ready queue
 export function useReadyQueue() {
   const { profile } = useAppStore();
+  useQueueOrderRealtime();
+
   return useQuery({
     queryKey: ['readyQueue', profile?.user_id],
     queryFn: async () => {
@@ -115,6 +141,8 @@ export function useReadyQueue() {
           starts_at,
           status,
           queue_order,
+          queue_priority,
+          queue_priority_reason,
           patients!inner(
             id,
             arabic_full_name,
@@ -125,19 +153,22 @@ export function useReadyQueue() {
           ),
           providers(display_name)
         `)
-        .eq('patients.status', 'ready')
+        .eq('status', 'ready')
         .gte('starts_at', today)
         .lt('starts_at', `${today}T23:59:59`)
-        .order('queue_order', { ascending: true })
-        .order('starts_at', { ascending: true });
+        .order('queue_order', { ascending: true, nullsFirst: false })
+        .order('ready_at', { ascending: true });
 
+      // A doctor takes from their own queue and the shared "any doctor" one
       if (myProviderId) {
-        query = query.eq('provider_id', myProviderId);
+        query = query.or(`provider_id.eq.${myProviderId},provider_id.is.null`);
       }
 
       const { data, error } = await query;
       if (error) throw error;
-      return data;
+
+      const queue = data as ReadyQueueAppointment[];
+      return myProviderId ? mergeDoctorQueue(queue, myProviderId) : queue;
     },
     refetchInterval: 10000, // Refresh every 10 seconds
   });
@@ -184,12 +215,20 @@ export function useStartVisit() {
         if (!roomToUse && appt?.room_id) roomToUse = appt.room_id as any;
       }
 
+      // The appointment moves first, so a patient who isn't ready is refused
+      let visitAppointmentId = appointmentId;
+      if (appointmentId) {
+        await transitionAppointment(appointmentId, 'in_chair');
+      } else {
+        visitAppointmentId = await transitionPatientToday(patientId, 'in_chair');
+      }
+
       // Create new visit
       const { data: visit, error: visitError } = await supabase
         .from('visits')
         .insert({
           patient_id: patientId,
-          appointment_id: appointmentId || null,
+          appointment_id: visitAppointmentId || null,
           provider_id: providerToUse,
           room_id: roomToUse,
           started_at: new Date().toISOString(),
@@ -200,28 +239,10 @@ export function useStartVisit() {
 
       if (visitError) throw visitError;
 
-      // Update patient status
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: 'in_chair' })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
-
-      // Update appointment status if provided
-      if (appointmentId) {
-        const { error: appointmentError } = await supabase
-          .from('appointments')
-          .update({ status: 'in_chair' })
-          .eq('id', appointmentId);
-
-        if (appointmentError) throw appointmentError;
-      }
-
       return visit;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['readyQueue'] });
+      invalidateStatusQueries(queryClient);
       queryClient.invalidateQueries({ queryKey: ['clinicalVisit'] });
       toast({ title: 'Visit started successfully' });
     },
@@ -229,7 +250,7 @@ export function useStartVisit() {
       console.error('Error starting visit:', error);
       toast({
         title: 'Error starting visit',
-        description: 'Please try again or contact support.',
+        description: error.message || 'Please try again or contact support.',
         variant: 'destructive'
       });
     },
@@ -242,6 +263,21 @@ export function useFinishVisit() {
 
   return useMutation({
     mutationFn: async ({ visitId }: { visitId: string }) => {
+      const { data: visit, error: visitError } = await supabase
+        .from('visits')
+        .select('patient_id, appointment_id')
+        .eq('id', visitId)
+        .single();
+
+      if (visitError) throw visitError;
+
+      // The appointment (and with it the patient) is completed along with the visit
+      if (visit.appointment_id) {
+        await transitionAppointment(visit.appointment_id, 'completed');
+      } else {
+        await transitionPatientToday(visit.patient_id, 'completed');
+      }
+
       const { error } = await supabase
         .from('visits')
         .update({ ended_at: new Date().toISOString(), status: 'completed' })
@@ -250,7 +286,7 @@ export function useFinishVisit() {
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['readyQueue'] });
+      invalidateStatusQueries(queryClient);
       queryClient.invalidateQueries({ queryKey: ['clinicalVisit'] });
       queryClient.invalidateQueries({ queryKey: ['visit/findings'] });
       queryClient.invalidateQueries({ queryKey: ['visit/plan'] });
@@ -258,7 +294,7 @@ export function useFinishVisit() {
     },
     onError: (error) => {
       console.error('Error finishing visit:', error);
-      toast({ title: 'Error finishing visit', variant: 'destructive' });
+      toast({ title: 'Error finishing visit', description: error.message, variant: 'destructive' });
     },
   });
 }
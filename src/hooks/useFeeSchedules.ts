@@ -0,0 +1,181 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useMe } from '@/hooks/useMe';
+import { format } from 'date-fns';
+import { adjustPrices, resolveTreatmentPrice, type FeeSchedule } from '@/lib/feeSchedule';
+
+export function useFeeSchedules() {
+  const { toast } = useToast();
+  const { profile, currentClinic } = useMe();
+  const queryClient = useQueryClient();
+
+  // Fetch every schedule version for the clinic, with prices
+  const { data: schedules, isLoading } = useQuery({
+    queryKey: ['fee-schedules', currentClinic?.id],
+    queryFn: async (): Promise<FeeSchedule[]> => {
+      const { data, error } = await supabase
+        .from('fee_schedules')
+        .select(`
+          *,
+          fee_schedule_items(id, treatment_id, price)
+        `)
+        .eq('clinic_id', currentClinic?.id)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      return data as FeeSchedule[];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  /**
+   * List price for a treatment, or null if no schedule prices it
+   */
+  const getPrice = useCallback((treatmentId: string, providerId?: string | null, date: Date = new Date()) => {
+    if (!schedules || !treatmentId) return null;
+    return resolveTreatmentPrice(schedules, treatmentId, {
+      providerId,
+      date: format(date, 'yyyy-MM-dd'),
+    });
+  }, [schedules]);
+
+  // Create a new, empty schedule (clinic-wide or provider override)
+  const createSchedule = useMutation({
+    mutationFn: async ({
+      name,
+      providerId,
+      effectiveFrom,
+      effectiveTo,
+    }: {
+      name: string;
+      providerId?: string | null;
+      effectiveFrom: string;
+      effectiveTo?: string | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('fee_schedules')
+        .insert({
+          clinic_id: currentClinic?.id,
+          provider_id: providerId || null,
+          name,
+          effective_from: effectiveFrom,
+          effective_to: effectiveTo || null,
+          created_by: profile?.user_id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: 'Fee schedule created successfully' });
+      queryClient.invalidateQueries({ queryKey: ['fee-schedules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error creating fee schedule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Set (or clear, with a null price) a treatment price on one schedule version
+  const setItemPrice = useMutation({
+    mutationFn: async ({
+      scheduleId,
+      treatmentId,
+      price,
+    }: {
+      scheduleId: string;
+      treatmentId: string;
+      price: number | null;
+    }) => {
+      if (price === null) {
+        const { error } = await supabase
+          .from('fee_schedule_items')
+          .delete()
+          .eq('fee_schedule_id', scheduleId)
+          .eq('treatment_id', treatmentId);
+
+        if (error) throw error;
+        return;
+      }
+
+      if (price < 0) throw new Error('Price cannot be negative');
+
+      const { error } = await supabase
+        .from('fee_schedule_items')
+        .upsert(
+          { fee_schedule_id: scheduleId, treatment_id: treatmentId, price },
+          { onConflict: 'fee_schedule_id,treatment_id' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fee-schedules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving price',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Copy a schedule into a new version effective from a date, optionally raising all prices.
+  // The previous version stays untouched so historical prices remain traceable.
+  const createVersion = useMutation({
+    mutationFn: async ({
+      schedule,
+      effectiveFrom,
+      percent = 0,
+      roundTo = 1,
+    }: {
+      schedule: FeeSchedule;
+      effectiveFrom: string;
+      percent?: number;
+      roundTo?: number;
+    }) => {
+      if (effectiveFrom <= schedule.effective_from) {
+        throw new Error('A new version must start after the current one');
+      }
+
+      // The version and its prices are written together, so a failure leaves nothing behind
+      const items = adjustPrices(schedule.fee_schedule_items, percent, roundTo);
+      const { data: newScheduleId, error } = await supabase.rpc('create_fee_schedule_version', {
+        p_schedule_id: schedule.id,
+        p_effective_from: effectiveFrom,
+        p_items: items.map(({ treatment_id, price }) => ({ treatment_id, price })),
+      });
+
+      if (error) throw error;
+      return { id: newScheduleId };
+    },
+    onSuccess: () => {
+      toast({ title: 'New price list version created' });
+      queryClient.invalidateQueries({ queryKey: ['fee-schedules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error creating price list version',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    schedules,
+    isLoading,
+    getPrice,
+    createSchedule,
+    setItemPrice,
+    createVersion,
+  };
+}
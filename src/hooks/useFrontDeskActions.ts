@@ -2,6 +2,13 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAppStore } from '@/store/appStore';
 import { addMinutes, startOfDay, endOfDay } from 'date-fns';
+import { fetchBookingLoad, fetchOverbookingPolicy } from '@/hooks/useOverbookingPolicy';
+import { evaluateOverbooking } from '@/lib/overbooking';
+import { checkInPatient, fetchTodayAppointment, transitionAppointment } from '@/hooks/useAppointmentStatus';
+import { planTransition } from '@/lib/appointmentStatus';
+import { recordTriage } from '@/hooks/useTriage';
+import type { TriageAnswers } from '@/lib/triage';
+import type { QueuePriority } from '@/lib/readyQueue';
 
 // Search patients hook
 export function useSearchPatients(term: string) {
@@ -104,46 +111,11 @@ export function useWalkIn() {
 
   return useMutation({
     mutationFn: async (patientId: string) => {
-      // 1) Update patient status to arrived
-      const { error: updateError } = await supabase
-        .from('patients')
-        .update({ status: 'arrived' })
-        .eq('id', patientId);
-
-      if (updateError) throw updateError;
-
-      // 2) Check if patient has appointment today
-      const today = new Date();
-      const startOfDayIso = startOfDay(today).toISOString();
-      const endOfDayIso = endOfDay(today).toISOString();
-
-      const { data: todayAppt } = await supabase
-        .from('appointments')
-        .select('id')
-        .eq('patient_id', patientId)
-        .gte('starts_at', startOfDayIso)
-        .lte('starts_at', endOfDayIso)
-        .maybeSingle();
-
-      // 3) If no appointment exists, create one
-      if (!todayAppt) {
-        const now = new Date();
-        const endTime = addMinutes(now, 30); // Default 30 minutes slot
-
-        const { error: appointmentError } = await supabase
-          .from('appointments')
-          .insert({
-            patient_id: patientId,
-            clinic_id: currentClinic?.id || null,
-            starts_at: now.toISOString(),
-            ends_at: endTime.toISOString(),
-            status: 'arrived',
-            overbook: true,
-            created_by: profile?.user_id || null,
-          });
-
-        if (appointmentError) throw appointmentError;
-      }
+      // Today's booking is checked in, or a walk-in appointment is created
+      await checkInPatient(patientId, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+      });
 
       return { patientId };
     },
@@ -169,40 +141,63 @@ export function useWalkInWithProvider() {
       roomId,
       notes,
       slotMinutes = 30,
+      overbookReason,
+      triage,
     }: {
       patientId: string;
       providerId: string;
       roomId?: string;
       notes?: string;
       slotMinutes?: number;
+      overbookReason?: string;
+      triage?: TriageAnswers;
     }) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      if (triage && !triage.chief_complaint.trim()) throw new Error('Enter the chief complaint');
+
       const now = new Date();
       const ends = addMinutes(now, slotMinutes);
 
-      // Upsert same-day appointment
-      const { data: today } = await supabase
-        .from('appointments')
-        .select('id')
-        .eq('patient_id', patientId)
-        .gte('starts_at', startOfDay(now).toISOString())
-        .lte('starts_at', endOfDay(now).toISOString())
-        .maybeSingle();
+      // Reuse today's booking unless that visit is already over
+      const todayAppointment = await fetchTodayAppointment(patientId);
+      const today = todayAppointment && planTransition(todayAppointment.status, 'arrived') ? todayAppointment : null;
+
+      // Walk-ins follow the same overbooking policy as booked appointments
+      const [policy, load] = await Promise.all([
+        fetchOverbookingPolicy(currentClinic.id),
+        fetchBookingLoad({
+          providerId,
+          roomId,
+          startTime: now.toISOString(),
+          endTime: ends.toISOString(),
+          excludeAppointmentId: today?.id,
+        }),
+      ]);
+      const check = evaluateOverbooking(policy, load, profile?.role);
+      if (!check.withinPolicy && !check.canOverride) {
+        throw new Error(`${check.message}. Your role cannot approve overbooking.`);
+      }
+      if (!check.withinPolicy && !overbookReason?.trim()) {
+        throw new Error(`${check.message}. An overbook reason is required.`);
+      }
+      const overbook = {
+        overbook: !check.withinPolicy,
+        overbook_reason: check.withinPolicy ? null : overbookReason!.trim(),
+      };
 
+      let appointmentId: string;
       if (today) {
-        const { error: apptErr } = await supabase
-          .from('appointments')
-          .update({
-            provider_id: providerId,
-            room_id: roomId || null,
-            status: 'arrived',
-            starts_at: now.toISOString(),
-            ends_at: ends.toISOString(),
-            notes: notes || null,
-          })
-          .eq('id', today.id);
-        if (apptErr) throw apptErr;
+        appointmentId = today.id;
+        await transitionAppointment(today.id, 'arrived', {
+          provider_id: providerId,
+          room_id: roomId || null,
+          starts_at: now.toISOString(),
+          ends_at: ends.toISOString(),
+          notes: notes || null,
+          ...overbook,
+        });
       } else {
-        const { error: apptInsErr } = await supabase
+        const { data: inserted, error: apptInsErr } = await supabase
           .from('appointments')
           .insert({
             clinic_id: currentClinic?.id || null,
@@ -214,24 +209,38 @@ export function useWalkInWithProvider() {
             status: 'arrived',
             notes: notes || null,
             created_by: profile?.user_id || null,
-          });
+            ...overbook,
+          })
+          .select('id')
+          .single();
         if (apptInsErr) throw apptInsErr;
+        appointmentId = inserted.id;
       }
 
-      // Update patient status
-      const { error: patientErr } = await supabase
-        .from('patients')
-        .update({ status: 'arrived' })
-        .eq('id', patientId);
-      if (patientErr) throw patientErr;
+      // The patient is checked in by now, so a failed triage is reported on its own
+      let priority: QueuePriority | null = null;
+      let triageError: Error | null = null;
+      if (triage) {
+        try {
+          priority = await recordTriage(triage, {
+            appointmentId,
+            patientId,
+            clinicId: currentClinic.id,
+            userId: profile?.user_id || null,
+          });
+        } catch (error) {
+          triageError = error as Error;
+        }
+      }
 
-      return { providerId };
+      return { providerId, priority, triageError };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
       queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
       queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
       queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['appointment-triage'] });
     },
   });
 }
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
+import { startOfDay } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 
 export function useFrontDeskRealtime() {
@@ -43,8 +44,12 @@ export function useFrontDeskRealtime() {
         (payload) => {
           console.log('Appointment change detected:', payload);
           
-          // Invalidate appointment-related queries
+          // The queues follow appointment status
           queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
+          queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
+          queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
+          queryClient.invalidateQueries({ queryKey: ['in-chair-queue'] });
+          queryClient.invalidateQueries({ queryKey: ['completed-queue'] });
         }
       )
       .subscribe();
@@ -91,29 +96,25 @@ export function useFrontDeskRealtime() {
       )
       .subscribe();
 
-    // Auto no-show after 1 hour
+    // Auto no-show 1 hour after a booking's start if the patient never checked in.
+    // Only today's bookings are touched; the patient's status follows the appointment.
     const checkNoShows = async () => {
       const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-      
+
       try {
-        const { data: latePatients } = await supabase
-          .from('patients')
-          .select('id, updated_at')
-          .eq('status', 'planned')
-          .lte('updated_at', oneHourAgo.toISOString());
-        
-        if (latePatients && latePatients.length > 0) {
-          const patientIds = latePatients.map(p => p.id);
-          
-          await supabase
-            .from('patients')
-            .update({ status: 'no_show' })
-            .in('id', patientIds);
-          
+        const { data: lateAppointments } = await supabase
+          .from('appointments')
+          .select('id')
+          .in('status', ['planned', 'confirmed'])
+          .gte('starts_at', startOfDay(new Date()).toISOString())
+          .lte('starts_at', oneHourAgo.toISOString());
+
+        if (lateAppointments && lateAppointments.length > 0) {
           await supabase
             .from('appointments')
             .update({ status: 'no_show' })
-            .in('patient_id', patientIds);
+            .in('id', lateAppointments.map(a => a.id))
+            .in('status', ['planned', 'confirmed']);
         }
       } catch (error) {
         console.error('Error checking for no-shows:', error);
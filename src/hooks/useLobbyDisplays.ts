@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+import type { LobbyBoard, LobbyLabelMode } from '@/lib/lobbyDisplay';
+
+export interface LobbyDisplay {
+  id: string;
+  clinic_id: string;
+  name: string;
+  label_mode: LobbyLabelMode;
+  token: string;
+  created_at: string;
+  last_seen_at: string | null;
+}
+
+// The screen has no realtime access without a session, so it polls instead
+const BOARD_REFRESH_MS = 10 * 1000;
+
+/**
+ * The address a lobby TV opens; the token is remembered on the device after the first visit
+ */
+export function getLobbyDisplayUrl(token: string): string {
+  return `${window.location.origin}/lobby?token=${token}`;
+}
+
+/**
+ * The anonymized queue for one lobby display, fetched without a staff session
+ */
+export function useLobbyBoard(token: string | null) {
+  return useQuery({
+    queryKey: ['lobby-board', token],
+    queryFn: async (): Promise<LobbyBoard> => {
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/lobby-display?token=${encodeURIComponent(token!)}`
+      );
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Could not load the lobby display');
+      return body as LobbyBoard;
+    },
+    enabled: !!token,
+    refetchInterval: BOARD_REFRESH_MS,
+    retry: false,
+  });
+}
+
+/**
+ * Lobby screens registered for the current clinic. Admins only.
+ */
+export function useLobbyDisplays() {
+  const { toast } = useToast();
+  const { currentClinic } = useAppStore();
+  const queryClient = useQueryClient();
+
+  const { data: displays = [], isLoading } = useQuery({
+    queryKey: ['lobby-displays', currentClinic?.id],
+    queryFn: async (): Promise<LobbyDisplay[]> => {
+      const { data, error } = await supabase
+        .from('lobby_displays')
+        .select('id, clinic_id, name, label_mode, token, created_at, last_seen_at')
+        .eq('clinic_id', currentClinic!.id)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as LobbyDisplay[];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  const createDisplay = useMutation({
+    mutationFn: async ({ name, labelMode }: { name: string; labelMode: LobbyLabelMode }) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      if (!name.trim()) throw new Error('Give the screen a name');
+
+      const { data, error } = await supabase
+        .from('lobby_displays')
+        .insert({ clinic_id: currentClinic.id, name: name.trim(), label_mode: labelMode })
+        .select('id, clinic_id, name, label_mode, token, created_at, last_seen_at')
+        .single();
+
+      if (error) throw error;
+      return data as LobbyDisplay;
+    },
+    onSuccess: () => {
+      toast({ title: 'Lobby display registered' });
+      queryClient.invalidateQueries({ queryKey: ['lobby-displays'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error registering lobby display',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeDisplay = useMutation({
+    mutationFn: async (displayId: string) => {
+      const { error } = await supabase
+        .from('lobby_displays')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', displayId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Lobby display removed' });
+      queryClient.invalidateQueries({ queryKey: ['lobby-displays'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error removing lobby display',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    displays,
+    isLoading,
+    createDisplay,
+    revokeDisplay,
+  };
+}
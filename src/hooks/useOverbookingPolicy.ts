@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import {
+  DEFAULT_OVERBOOKING_POLICY,
+  evaluateOverbooking,
+  type BookingLoad,
+  type OverbookingCheck,
+  type OverbookingPolicy,
+} from '@/lib/overbooking';
+
+export interface BookingPlacement {
+  providerId?: string | null;
+  roomId?: string | null;
+  startTime: string;
+  endTime: string;
+  excludeAppointmentId?: string;
+}
+
+/**
+ * The clinic's overbooking policy, with the defaults filled in
+ */
+export async function fetchOverbookingPolicy(clinicId: string): Promise<OverbookingPolicy> {
+  const { data, error } = await supabase
+    .from('clinic_settings')
+    .select('overbooking_policy')
+    .eq('clinic_id', clinicId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_OVERBOOKING_POLICY, ...(data?.overbooking_policy as Partial<OverbookingPolicy> | null) };
+}
+
+async function countOverlaps(column: 'provider_id' | 'room_id', id: string, placement: BookingPlacement) {
+  let query = supabase
+    .from('appointments')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, id)
+    .neq('status', 'cancelled')
+    .neq('status', 'no_show')
+    .lt('starts_at', placement.endTime)
+    .gt('ends_at', placement.startTime);
+
+  if (placement.excludeAppointmentId) {
+    query = query.neq('id', placement.excludeAppointmentId);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * How many appointments already overlap a placement for its provider and its room
+ */
+export async function fetchBookingLoad(placement: BookingPlacement): Promise<BookingLoad> {
+  const [providerOverlaps, roomOverlaps] = await Promise.all([
+    placement.providerId ? countOverlaps('provider_id', placement.providerId, placement) : 0,
+    placement.roomId ? countOverlaps('room_id', placement.roomId, placement) : 0,
+  ]);
+
+  return { providerOverlaps, roomOverlaps };
+}
+
+/**
+ * Check a booking against the clinic's overbooking policy for the signed-in user's role.
+ * The database applies the same rules when the appointment is saved.
+ */
+export function useOverbookingCheck(placement: BookingPlacement | null) {
+  const { currentClinic, profile } = useAppStore();
+
+  return useQuery({
+    queryKey: [
+      'overbooking-check',
+      currentClinic?.id,
+      placement?.providerId,
+      placement?.roomId,
+      placement?.startTime,
+      placement?.endTime,
+      placement?.excludeAppointmentId,
+    ],
+    queryFn: async (): Promise<OverbookingCheck> => {
+      const [policy, load] = await Promise.all([
+        fetchOverbookingPolicy(currentClinic!.id),
+        fetchBookingLoad(placement!),
+      ]);
+      return evaluateOverbooking(policy, load, profile?.role);
+    },
+    enabled: !!currentClinic?.id && !!placement && (!!placement.providerId || !!placement.roomId),
+    staleTime: 0,
+  });
+}
@@ -2,6 +2,14 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import type { Patient, PatientStatus } from '@/routes/Patients/types';
+import { getAccountSummary, type LedgerCredit, type LedgerInvoice } from '@/lib/ledger';
+import { useAppStore } from '@/store/appStore';
+import {
+  invalidateStatusQueries,
+  movePatient,
+  transitionAppointment,
+  transitionPatientToday,
+} from '@/hooks/useAppointmentStatus';
 
 // Extended patient interface with related data
 export interface PatientDetailData extends Patient {
@@ -33,7 +41,8 @@ export interface PatientDetailData extends Patient {
     xrayCount: number;
     totalBilled: number;
     totalPaid: number;
-    currentBalance: number;
+    currentBalance: number; // outstanding minus unapplied credit, as on the account ledger
+    availableCredit: number;
   };
 }
 
@@ -102,19 +111,13 @@ export function usePatientDetail(patientId: string) {
       // Fetch financial stats
       const { data: invoices } = await supabase
         .from('invoices')
-        .select('total_amount')
+        .select('id, invoice_number, status, created_at, total_amount, adjustment_total, payments(id, amount, method, paid_at, credit_id)')
         .eq('patient_id', patientId);
 
-      const { data: payments } = await supabase
-        .from('payments')
-        .select('amount')
-        .in('invoice_id', 
-          (await supabase
-            .from('invoices')
-            .select('id')
-            .eq('patient_id', patientId)
-          ).data?.map(inv => inv.id) || []
-        );
+      const { data: credits } = await supabase
+        .from('patient_credits')
+        .select('id, amount, method, received_at, payments(amount)')
+        .eq('patient_id', patientId);
 
       // Count X-rays
       const { count: xrayCount } = await supabase
@@ -134,8 +137,10 @@ export function usePatientDetail(patientId: string) {
           ).data?.map(vd => vd.id) || []
         );
 
-      const totalBilled = invoices?.reduce((sum, inv) => sum + Number(inv.total_amount), 0) || 0;
-      const totalPaid = payments?.reduce((sum, pay) => sum + Number(pay.amount), 0) || 0;
+      const account = getAccountSummary(
+        (invoices || []) as LedgerInvoice[],
+        (credits || []) as LedgerCredit[]
+      );
 
       return {
         ...patient,
@@ -146,9 +151,10 @@ export function usePatientDetail(patientId: string) {
         nextAppointment: nextAppointment || undefined,
         stats: {
           xrayCount: xrayCount || 0,
-          totalBilled,
-          totalPaid,
-          currentBalance: totalBilled - totalPaid,
+          totalBilled: account.totalBilled,
+          totalPaid: account.totalPaid,
+          currentBalance: account.balance,
+          availableCredit: account.unappliedCredit,
         },
       };
     },
@@ -160,25 +166,24 @@ export function usePatientDetail(patientId: string) {
 // Patient status update mutation
 export function useUpdatePatientStatus() {
   const queryClient = useQueryClient();
+  const { profile, currentClinic } = useAppStore();
 
   return useMutation({
     mutationFn: async ({ patientId, status }: { patientId: string; status: PatientStatus }) => {
-      const { error } = await supabase
-        .from('patients')
-        .update({ status, updated_at: new Date().toISOString() })
-        .eq('id', patientId);
-
-      if (error) throw error;
+      return movePatient(patientId, status, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+      });
     },
-    onSuccess: (_, { patientId }) => {
-      queryClient.invalidateQueries({ queryKey: ['patient-detail', patientId] });
+    onSuccess: () => {
+      invalidateStatusQueries(queryClient);
       toast({ title: 'Patient status updated successfully' });
     },
     onError: (error) => {
       console.error('Error updating patient status:', error);
       toast({ 
         title: 'Error updating patient status',
-        description: 'Please try again or contact support.',
+        description: error.message,
         variant: 'destructive'
       });
     },
@@ -195,11 +200,14 @@ export function useStartVisit() {
       providerId?: string; 
       roomId?: string; 
     }) => {
-      // Insert new visit
+      // Seat the patient first so a move that isn't allowed leaves no visit behind
+      const appointmentId = await transitionPatientToday(patientId, 'in_chair');
+
       const { data: visit, error: visitError } = await supabase
         .from('visits')
         .insert({
           patient_id: patientId,
+          appointment_id: appointmentId,
           provider_id: providerId,
           room_id: roomId,
           started_at: new Date().toISOString(),
@@ -210,25 +218,17 @@ export function useStartVisit() {
 
       if (visitError) throw visitError;
 
-      // Update patient status
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: 'in_chair' })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
-
       return visit;
     },
-    onSuccess: (_, { patientId }) => {
-      queryClient.invalidateQueries({ queryKey: ['patient-detail', patientId] });
+    onSuccess: () => {
+      invalidateStatusQueries(queryClient);
       toast({ title: 'Visit started successfully' });
     },
     onError: (error) => {
       console.error('Error starting visit:', error);
       toast({
         title: 'Error starting visit',
-        description: 'Please try again or contact support.',
+        description: error.message,
         variant: 'destructive'
       });
     },
@@ -241,31 +241,37 @@ export function useEndVisit() {
 
   return useMutation({
     mutationFn: async ({ patientId, visitId }: { patientId: string; visitId: string }) => {
-      // End visit
+      const { data: visit, error: fetchError } = await supabase
+        .from('visits')
+        .select('appointment_id')
+        .eq('id', visitId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      // Complete the appointment first; the patient's status follows it
+      if (visit.appointment_id) {
+        await transitionAppointment(visit.appointment_id, 'completed');
+      } else {
+        await transitionPatientToday(patientId, 'completed');
+      }
+
       const { error: visitError } = await supabase
         .from('visits')
-        .update({ ended_at: new Date().toISOString() })
+        .update({ ended_at: new Date().toISOString(), status: 'completed' })
         .eq('id', visitId);
 
       if (visitError) throw visitError;
-
-      // Update patient status to completed
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: 'completed' })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
     },
-    onSuccess: (_, { patientId }) => {
-      queryClient.invalidateQueries({ queryKey: ['patient-detail', patientId] });
+    onSuccess: () => {
+      invalidateStatusQueries(queryClient);
       toast({ title: 'Visit ended successfully' });
     },
     onError: (error) => {
       console.error('Error ending visit:', error);
       toast({
         title: 'Error ending visit',
-        description: 'Please try again or contact support.',
+        description: error.message,
         variant: 'destructive'
       });
     },
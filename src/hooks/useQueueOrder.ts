@@ -0,0 +1,136 @@
+import { useEffect, useId } from 'react';
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+import { QUEUE_PRIORITY_LABELS, type QueuePriority } from '@/lib/readyQueue';
+
+// Every list that shows the ready queue in order
+const READY_QUEUE_KEYS = ['ready-queue', 'readyQueue', 'queueReady'];
+
+function invalidateReadyQueues(queryClient: QueryClient) {
+  READY_QUEUE_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
+/**
+ * Refreshes the ready queue on this screen whenever anyone reorders, flags or moves a
+ * patient in the current clinic
+ */
+export function useQueueOrderRealtime() {
+  const { currentClinic } = useAppStore();
+  const queryClient = useQueryClient();
+  // Several queue views can be open at once; each needs its own channel
+  const instanceId = useId();
+
+  useEffect(() => {
+    if (!currentClinic?.id) return;
+
+    const channel = supabase
+      .channel(`queue-order-${currentClinic.id}-${instanceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointments',
+          filter: `clinic_id=eq.${currentClinic.id}`,
+        },
+        () => invalidateReadyQueues(queryClient)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentClinic?.id, instanceId, queryClient]);
+}
+
+/**
+ * Drag-and-drop order and priority flags for the ready queue. Queue views pair this with
+ * useQueueOrderRealtime so other screens follow.
+ */
+export function useQueueOrder() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reorderLane = useMutation({
+    mutationFn: async ({
+      providerId,
+      appointmentIds,
+    }: {
+      providerId: string | null;
+      appointmentIds: string[];
+      reassignedTo?: string; // lane name, when the drop moved a patient to another provider
+    }) => {
+      const { error } = await supabase.rpc('reorder_ready_queue', {
+        p_provider_id: providerId,
+        p_appointment_ids: appointmentIds,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { providerId, reassignedTo }) => {
+      if (reassignedTo) {
+        toast({
+          title: `Moved to ${reassignedTo}`,
+          description: providerId
+            ? 'The appointment is now with this provider.'
+            : 'The appointment no longer has a provider.',
+        });
+      }
+    },
+    onSettled: () => {
+      invalidateReadyQueues(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error reordering queue',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const setPriority = useMutation({
+    mutationFn: async ({
+      appointmentId,
+      priority,
+      reason,
+    }: {
+      appointmentId: string;
+      priority: QueuePriority | null;
+      reason?: string;
+    }) => {
+      if (priority && !reason?.trim()) throw new Error('Give a reason for the priority');
+
+      const { error } = await supabase.rpc('set_queue_priority', {
+        p_appointment_id: appointmentId,
+        p_priority: priority,
+        p_reason: reason?.trim() || null,
+      });
+
+      if (error) throw error;
+      return priority;
+    },
+    onSuccess: (priority) => {
+      toast({
+        title: priority
+          ? `Marked ${QUEUE_PRIORITY_LABELS[priority].toLowerCase()} and moved up`
+          : 'Priority cleared',
+      });
+      invalidateReadyQueues(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error setting priority',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    reorderLane,
+    setPriority,
+  };
+}
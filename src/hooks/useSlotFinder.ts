@@ -0,0 +1,62 @@
+import { addDays, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
+import {
+  DEFAULT_SEARCH_DAYS,
+  findAvailableSlots,
+  type SlotCandidate,
+  type SlotSearchCriteria,
+} from '@/lib/slotFinder';
+
+/**
+ * Next-available-slot search over the clinic's hours, rooms, providers and
+ * existing bookings.
+ */
+export function useSlotFinder() {
+  const { currentClinic } = useAppStore();
+  const { availability } = useAvailabilityValidation();
+
+  const findSlots = async (criteria: SlotSearchCriteria): Promise<SlotCandidate[]> => {
+    if (!availability || !currentClinic?.id) return [];
+
+    const from = startOfDay(criteria.earliestDate);
+    const to = addDays(from, criteria.searchDays ?? DEFAULT_SEARCH_DAYS);
+
+    const [bookingsResult, providersResult, roomsResult] = await Promise.all([
+      supabase
+        .from('appointments')
+        .select('starts_at, ends_at, provider_id, room_id')
+        .eq('clinic_id', currentClinic.id)
+        .neq('status', 'cancelled')
+        .neq('status', 'no_show')
+        .lt('starts_at', to.toISOString())
+        .gt('ends_at', from.toISOString()),
+      supabase
+        .from('providers')
+        .select('id')
+        .eq('active', true)
+        .order('display_name', { ascending: true }),
+      supabase
+        .from('rooms')
+        .select('id')
+        .eq('clinic_id', currentClinic.id)
+        .eq('is_active', true)
+        .order('name', { ascending: true }),
+    ]);
+
+    if (bookingsResult.error) throw bookingsResult.error;
+    if (providersResult.error) throw providersResult.error;
+    if (roomsResult.error) throw roomsResult.error;
+
+    return findAvailableSlots(availability, bookingsResult.data || [], criteria, {
+      providerIds: (providersResult.data || []).map(p => p.id),
+      roomIds: (roomsResult.data || []).map(r => r.id),
+    });
+  };
+
+  return {
+    findSlots,
+    isReady: !!availability,
+  };
+}
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toothFromFinding, toothKey, type ToothRef } from '@/lib/odontogram';
+
+export type ToothMarkerStatus = 'finding' | 'planned' | 'in_progress' | 'complete' | 'cancelled';
+
+export interface ToothMarker {
+  id: string;
+  status: ToothMarkerStatus;
+  label: string;
+  visitId: string;
+}
+
+export interface ToothChartEntry {
+  tooth: ToothRef;
+  markers: ToothMarker[];
+}
+
+/**
+ * Fetch all tooth-level findings and their plan rows for a patient,
+ * grouped by tooth for the odontogram
+ */
+export function useToothChart(patientId?: string | null) {
+  return useQuery({
+    queryKey: ['patient/tooth-chart', patientId],
+    queryFn: async (): Promise<Record<string, ToothChartEntry>> => {
+      if (!patientId) return {};
+
+      const { data, error } = await supabase
+        .from('visit_diagnoses')
+        .select(`
+          id,
+          visit_id,
+          tooth_set,
+          quadrant,
+          tooth_number,
+          diagnoses(name_en),
+          procedure_plan_rows(
+            id,
+            status,
+            treatments(name_en)
+          ),
+          visits!inner(patient_id)
+        `)
+        .eq('visits.patient_id', patientId)
+        .neq('tooth_set', 'none');
+
+      if (error) throw error;
+
+      const chart: Record<string, ToothChartEntry> = {};
+
+      for (const finding of data || []) {
+        const tooth = toothFromFinding(finding);
+        if (!tooth) continue;
+
+        const key = toothKey(tooth);
+        if (!chart[key]) {
+          chart[key] = { tooth, markers: [] };
+        }
+
+        const planRows = finding.procedure_plan_rows || [];
+        if (planRows.length === 0) {
+          chart[key].markers.push({
+            id: finding.id,
+            status: 'finding',
+            label: finding.diagnoses?.name_en || 'Finding',
+            visitId: finding.visit_id,
+          });
+          continue;
+        }
+
+        for (const row of planRows) {
+          chart[key].markers.push({
+            id: row.id,
+            status: row.status,
+            label: `${row.treatments?.name_en || 'Procedure'} (${finding.diagnoses?.name_en || 'Finding'})`,
+            visitId: finding.visit_id,
+          });
+        }
+      }
+
+      return chart;
+    },
+    enabled: !!patientId,
+  });
+}
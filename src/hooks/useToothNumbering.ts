@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ToothNumbering } from '@/lib/odontogram';
+
+const NUMBERING_STORAGE_KEY = 'odontogramNumbering';
+// Lets every chart and tooth label on the page follow a change made on any one of them
+const NUMBERING_CHANGE_EVENT = 'odontogram-numbering-change';
+
+function readNumbering(): ToothNumbering {
+  return (localStorage.getItem(NUMBERING_STORAGE_KEY) as ToothNumbering) || 'fdi';
+}
+
+/**
+ * The tooth numbering the user picked on the odontogram, remembered on this device
+ */
+export function useToothNumbering() {
+  const [numbering, setNumberingState] = useState<ToothNumbering>(readNumbering);
+
+  useEffect(() => {
+    const handleChange = () => setNumberingState(readNumbering());
+    window.addEventListener(NUMBERING_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(NUMBERING_CHANGE_EVENT, handleChange);
+  }, []);
+
+  const setNumbering = useCallback((value: ToothNumbering) => {
+    localStorage.setItem(NUMBERING_STORAGE_KEY, value);
+    setNumberingState(value);
+    window.dispatchEvent(new Event(NUMBERING_CHANGE_EVENT));
+  }, []);
+
+  return [numbering, setNumbering] as const;
+}
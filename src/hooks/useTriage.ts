@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { describeTriage, getTriagePriority, type TriageAnswers } from '@/lib/triage';
+import type { QueuePriority } from '@/lib/readyQueue';
+
+export interface AppointmentTriage extends TriageAnswers {
+  id: string;
+  appointment_id: string;
+  priority: QueuePriority | null;
+  recorded_at: string;
+}
+
+/**
+ * Save the desk's triage for an appointment. An urgent result also flags the appointment in
+ * the ready queue, with the answers as the visible reason; a routine one leaves any flag alone.
+ */
+export async function recordTriage(
+  answers: TriageAnswers,
+  {
+    appointmentId,
+    patientId,
+    clinicId,
+    userId,
+  }: { appointmentId: string; patientId: string; clinicId: string; userId: string | null }
+) {
+  if (!answers.chief_complaint.trim()) throw new Error('Enter the chief complaint');
+
+  const priority = getTriagePriority(answers);
+  const { error } = await supabase
+    .from('appointment_triage')
+    .upsert(
+      {
+        appointment_id: appointmentId,
+        patient_id: patientId,
+        clinic_id: clinicId,
+        chief_complaint: answers.chief_complaint.trim(),
+        pain_score: answers.pain_score,
+        swelling: answers.swelling,
+        bleeding: answers.bleeding,
+        trauma: answers.trauma,
+        priority,
+        recorded_by: userId,
+        recorded_at: new Date().toISOString(),
+      },
+      { onConflict: 'appointment_id' }
+    );
+
+  if (error) throw error;
+
+  if (priority) {
+    const { error: priorityError } = await supabase.rpc('set_queue_priority', {
+      p_appointment_id: appointmentId,
+      p_priority: priority,
+      p_reason: `Triage: ${describeTriage(answers)}`,
+    });
+    if (priorityError) throw priorityError;
+  }
+
+  return priority;
+}
+
+/**
+ * The triage recorded when the patient arrived, if any
+ */
+export function useAppointmentTriage(appointmentId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['appointment-triage', appointmentId],
+    queryFn: async (): Promise<AppointmentTriage | null> => {
+      const { data, error } = await supabase
+        .from('appointment_triage')
+        .select('id, appointment_id, chief_complaint, pain_score, swelling, bleeding, trauma, priority, recorded_at')
+        .eq('appointment_id', appointmentId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AppointmentTriage | null;
+    },
+    enabled: !!appointmentId,
+  });
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { startOfDay, endOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { WAITING_STAGES, type WaitingRoomEntry } from '@/lib/waitingRoom';
+
+// How often the minutes-waited counters refresh between database changes
+const TICK_MS = 30 * 1000;
+
+/**
+ * Today's patients who have arrived and not yet finished, kept live through a realtime
+ * subscription on the clinic's appointments. `now` ticks so the wait times keep counting.
+ */
+export function useWaitingRoomBoard() {
+  const { currentClinic } = useAppStore();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => new Date());
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['waiting-room-board', currentClinic?.id],
+    queryFn: async (): Promise<WaitingRoomEntry[]> => {
+      const today = new Date();
+      const { data, error } = await supabase
+        .from('appointments')
+        .select(`
+          id,
+          patient_id,
+          status,
+          starts_at,
+          arrived_at,
+          ready_at,
+          in_chair_at,
+          patients!inner(id, arabic_full_name),
+          providers(display_name),
+          rooms(name)
+        `)
+        .eq('clinic_id', currentClinic!.id)
+        .in('status', WAITING_STAGES)
+        .gte('starts_at', startOfDay(today).toISOString())
+        .lte('starts_at', endOfDay(today).toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      return data as WaitingRoomEntry[];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  useEffect(() => {
+    if (!currentClinic?.id) return;
+
+    const channel = supabase
+      .channel(`waiting-room-${currentClinic.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointments',
+          filter: `clinic_id=eq.${currentClinic.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['waiting-room-board', currentClinic.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentClinic?.id, queryClient]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return { entries, isLoading, now };
+}
@@ -0,0 +1,155 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppStore } from '@/store/appStore';
+import { useToast } from '@/hooks/use-toast';
+import { useAppointmentTypes } from '@/hooks/useAppointmentTypes';
+import type { FreedSlot, WaitlistEntry, WaitlistMatch } from '@/lib/waitlist';
+
+export interface CreateWaitlistEntryData {
+  patientId: string;
+  providerId?: string | null;
+  treatmentId?: string | null;
+  earliestDate: string;
+  latestDate: string;
+  durationMinutes: number;
+  notes?: string;
+}
+
+/**
+ * The clinic's waitlist: patients who want an earlier visit if a slot frees up.
+ */
+export function useWaitlist() {
+  const { toast } = useToast();
+  const { currentClinic, setFreedSlot } = useAppStore();
+  const { getTreatmentBooking } = useAppointmentTypes();
+  const queryClient = useQueryClient();
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['waitlist', currentClinic?.id],
+    queryFn: async (): Promise<WaitlistEntry[]> => {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select(`
+          *,
+          patients!inner(id, arabic_full_name, phone),
+          providers(id, display_name),
+          treatments(id, name_en)
+        `)
+        .eq('clinic_id', currentClinic!.id)
+        .eq('status', 'waiting')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as WaitlistEntry[];
+    },
+    enabled: !!currentClinic?.id,
+  });
+
+  const addEntry = useMutation({
+    mutationFn: async (data: CreateWaitlistEntryData) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      if (data.latestDate < data.earliestDate) throw new Error('The window must end on or after its start');
+
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .insert({
+          clinic_id: currentClinic.id,
+          patient_id: data.patientId,
+          provider_id: data.providerId || null,
+          treatment_id: data.treatmentId || null,
+          earliest_date: data.earliestDate,
+          latest_date: data.latestDate,
+          duration_minutes: data.durationMinutes,
+          notes: data.notes || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Added to waitlist' });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error adding to waitlist',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Take an entry off the waitlist without booking it
+  const removeEntry = useMutation({
+    mutationFn: async (entryId: string) => {
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'removed' })
+        .eq('id', entryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Removed from waitlist' });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error removing from waitlist',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  /**
+   * Book a waitlisted patient into a freed slot and resolve their entry with the new
+   * appointment, so the audit log shows which slot the waitlist filled.
+   */
+  const bookFromWaitlist = useMutation({
+    mutationFn: async ({ match, slot }: { match: WaitlistMatch; slot: FreedSlot }) => {
+      if (!currentClinic?.id) throw new Error('No clinic selected');
+      const { entry } = match;
+
+      // The appointment and the booked entry are saved together in one transaction
+      const { data: appointmentId, error } = await supabase.rpc('book_from_waitlist', {
+        p_entry_id: entry.id,
+        p_appointment: {
+          provider_id: entry.provider_id || slot.providerId,
+          room_id: slot.roomId,
+          appointment_type_id: entry.treatment_id ? getTreatmentBooking(entry.treatment_id)?.type.id ?? null : null,
+          starts_at: match.start.toISOString(),
+          ends_at: match.end.toISOString(),
+          status: 'confirmed',
+          notes: [entry.treatments?.name_en, entry.notes, 'Booked from waitlist'].filter(Boolean).join(' · '),
+        },
+      });
+
+      if (error) throw error;
+      return appointmentId;
+    },
+    onSuccess: (_appointment, { match }) => {
+      toast({
+        title: 'Booked from waitlist',
+        description: `${match.entry.patients.arabic_full_name} has taken the freed slot`,
+      });
+      setFreedSlot(null);
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error booking from waitlist',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    entries,
+    isLoading,
+    addEntry,
+    removeEntry,
+    bookFromWaitlist,
+  };
+}
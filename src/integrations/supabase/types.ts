@@ -14,51 +14,384 @@ export type Database = {
   }
   public: {
     Tables: {
+      appointment_series: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          duration_minutes: number
+          first_starts_at: string
+          frequency: string
+          id: string
+          interval_count: number
+          notes: string | null
+          occurrence_count: number | null
+          patient_id: string
+          provider_id: string | null
+          room_id: string | null
+          until_date: string | null
+          weekday: number | null
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          duration_minutes: number
+          first_starts_at: string
+          frequency: string
+          id?: string
+          interval_count?: number
+          notes?: string | null
+          occurrence_count?: number | null
+          patient_id: string
+          provider_id?: string | null
+          room_id?: string | null
+          until_date?: string | null
+          weekday?: number | null
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          first_starts_at?: string
+          frequency?: string
+          id?: string
+          interval_count?: number
+          notes?: string | null
+          occurrence_count?: number | null
+          patient_id?: string
+          provider_id?: string | null
+          room_id?: string | null
+          until_date?: string | null
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_series_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "appointment_series_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_status_transitions: {
+        Row: {
+          appointment_id: string | null
+          changed_at: string
+          changed_by: string | null
+          clinic_id: string | null
+          from_status: string | null
+          id: string
+          patient_id: string
+          to_status: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          changed_at?: string
+          changed_by?: string | null
+          clinic_id?: string | null
+          from_status?: string | null
+          id?: string
+          patient_id: string
+          to_status: string
+        }
+        Update: {
+          appointment_id?: string | null
+          changed_at?: string
+          changed_by?: string | null
+          clinic_id?: string | null
+          from_status?: string | null
+          id?: string
+          patient_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_status_transitions_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_status_transitions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "appointment_status_transitions_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_status_transitions_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_triage: {
+        Row: {
+          appointment_id: string
+          bleeding: boolean
+          chief_complaint: string
+          clinic_id: string
+          id: string
+          pain_score: number
+          patient_id: string
+          priority: string | null
+          recorded_at: string
+          recorded_by: string | null
+          swelling: boolean
+          trauma: boolean
+        }
+        Insert: {
+          appointment_id: string
+          bleeding?: boolean
+          chief_complaint: string
+          clinic_id: string
+          id?: string
+          pain_score: number
+          patient_id: string
+          priority?: string | null
+          recorded_at?: string
+          recorded_by?: string | null
+          swelling?: boolean
+          trauma?: boolean
+        }
+        Update: {
+          appointment_id?: string
+          bleeding?: boolean
+          chief_complaint?: string
+          clinic_id?: string
+          id?: string
+          pain_score?: number
+          patient_id?: string
+          priority?: string | null
+          recorded_at?: string
+          recorded_by?: string | null
+          swelling?: boolean
+          trauma?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_triage_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_triage_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_triage_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_triage_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      appointment_type_treatments: {
+        Row: {
+          appointment_type_id: string
+          chair_minutes: number | null
+          treatment_id: string
+        }
+        Insert: {
+          appointment_type_id: string
+          chair_minutes?: number | null
+          treatment_id: string
+        }
+        Update: {
+          appointment_type_id?: string
+          chair_minutes?: number | null
+          treatment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_type_treatments_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_type_treatments_treatment_id_fkey"
+            columns: ["treatment_id"]
+            isOneToOne: false
+            referencedRelation: "treatments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_types: {
+        Row: {
+          active: boolean
+          clinic_id: string
+          color: string
+          created_at: string
+          default_duration_minutes: number
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          clinic_id: string
+          color?: string
+          created_at?: string
+          default_duration_minutes?: number
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          clinic_id?: string
+          color?: string
+          created_at?: string
+          default_duration_minutes?: number
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_types_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
+          appointment_type_id: string | null
+          arrived_at: string | null
           clinic_id: string | null
+          completed_at: string | null
           created_at: string
           created_by: string | null
           ends_at: string
           id: string
+          in_chair_at: string | null
           notes: string | null
           overbook: boolean
+          overbook_approved_by: string | null
+          overbook_reason: string | null
           patient_id: string
           provider_id: string | null
           queue_order: number | null
+          queue_priority: string | null
+          queue_priority_reason: string | null
+          ready_at: string | null
           room_id: string | null
+          series_id: string | null
+          series_index: number | null
           starts_at: string
           status: Database["public"]["Enums"]["appointment_status_enum"]
           updated_at: string
         }
         Insert: {
+          appointment_type_id?: string | null
+          arrived_at?: string | null
           clinic_id?: string | null
+          completed_at?: string | null
           created_at?: string
           created_by?: string | null
           ends_at: string
           id?: string
+          in_chair_at?: string | null
           notes?: string | null
           overbook?: boolean
+          overbook_approved_by?: string | null
+          overbook_reason?: string | null
           patient_id: string
           provider_id?: string | null
           queue_order?: number | null
+          queue_priority?: string | null
+          queue_priority_reason?: string | null
+          ready_at?: string | null
           room_id?: string | null
+          series_id?: string | null
+          series_index?: number | null
           starts_at: string
           status?: Database["public"]["Enums"]["appointment_status_enum"]
           updated_at?: string
         }
         Update: {
+          appointment_type_id?: string | null
+          arrived_at?: string | null
           clinic_id?: string | null
+          completed_at?: string | null
           created_at?: string
           created_by?: string | null
           ends_at?: string
           id?: string
+          in_chair_at?: string | null
           notes?: string | null
           overbook?: boolean
+          overbook_approved_by?: string | null
+          overbook_reason?: string | null
           patient_id?: string
           provider_id?: string | null
           queue_order?: number | null
+          queue_priority?: string | null
+          queue_priority_reason?: string | null
+          ready_at?: string | null
           room_id?: string | null
+          series_id?: string | null
+          series_index?: number | null
           starts_at?: string
           status?: Database["public"]["Enums"]["appointment_status_enum"]
           updated_at?: string
@@ -99,6 +432,27 @@ export type Database = {
             referencedRelation: "rooms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_overbook_approved_by_fkey"
+            columns: ["overbook_approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       audit_log: {
@@ -134,33 +488,102 @@ export type Database = {
         }
         Relationships: []
       }
+      cash_drawer_closings: {
+        Row: {
+          business_date: string
+          clinic_id: string
+          closed_at: string
+          closed_by: string | null
+          counted_cash: number
+          difference: number | null
+          expected_cash: number
+          id: string
+          notes: string | null
+          payment_count: number
+          summary: Json
+          timezone: string
+          total_collected: number
+        }
+        Insert: {
+          business_date: string
+          clinic_id: string
+          closed_at?: string
+          closed_by?: string | null
+          counted_cash: number
+          difference?: number | null
+          expected_cash?: number
+          id?: string
+          notes?: string | null
+          payment_count?: number
+          summary?: Json
+          timezone?: string
+          total_collected?: number
+        }
+        Update: {
+          business_date?: string
+          clinic_id?: string
+          closed_at?: string
+          closed_by?: string | null
+          counted_cash?: number
+          difference?: number | null
+          expected_cash?: number
+          id?: string
+          notes?: string | null
+          payment_count?: number
+          summary?: Json
+          timezone?: string
+          total_collected?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_drawer_closings_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_closings_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       clinic_settings: {
         Row: {
           availability: Json | null
           clinic_id: string
           created_at: string
           id: string
+          overbooking_policy: Json
           slot_minutes: number | null
           timezone: string | null
           updated_at: string
+          wait_alert_minutes: number
         }
         Insert: {
           availability?: Json | null
           clinic_id: string
           created_at?: string
           id?: string
+          overbooking_policy?: Json
           slot_minutes?: number | null
           timezone?: string | null
           updated_at?: string
+          wait_alert_minutes?: number
         }
         Update: {
           availability?: Json | null
           clinic_id?: string
           created_at?: string
           id?: string
+          overbooking_policy?: Json
           slot_minutes?: number | null
           timezone?: string | null
           updated_at?: string
+          wait_alert_minutes?: number
         }
         Relationships: [
           {
@@ -257,18 +680,21 @@ export type Database = {
         Row: {
           default_treatment_id: string | null
           diagnosis_id: string
+          requires_surfaces: boolean
           requires_tooth: boolean
           xray_required: boolean
         }
         Insert: {
           default_treatment_id?: string | null
           diagnosis_id: string
+          requires_surfaces?: boolean
           requires_tooth?: boolean
           xray_required?: boolean
         }
         Update: {
           default_treatment_id?: string | null
           diagnosis_id?: string
+          requires_surfaces?: boolean
           requires_tooth?: boolean
           xray_required?: boolean
         }
@@ -289,6 +715,35 @@ export type Database = {
           },
         ]
       }
+      document_sequences: {
+        Row: {
+          clinic_id: string
+          doc_type: string
+          last_number: number
+          year: number
+        }
+        Insert: {
+          clinic_id: string
+          doc_type: string
+          last_number?: number
+          year: number
+        }
+        Update: {
+          clinic_id?: string
+          doc_type?: string
+          last_number?: number
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_sequences_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expense_categories: {
         Row: {
           id: string
@@ -368,30 +823,142 @@ export type Database = {
           },
         ]
       }
+      fee_schedule_items: {
+        Row: {
+          fee_schedule_id: string
+          id: string
+          price: number
+          treatment_id: string
+        }
+        Insert: {
+          fee_schedule_id: string
+          id?: string
+          price: number
+          treatment_id: string
+        }
+        Update: {
+          fee_schedule_id?: string
+          id?: string
+          price?: number
+          treatment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedule_items_fee_schedule_id_fkey"
+            columns: ["fee_schedule_id"]
+            isOneToOne: false
+            referencedRelation: "fee_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_schedule_items_treatment_id_fkey"
+            columns: ["treatment_id"]
+            isOneToOne: false
+            referencedRelation: "treatments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_schedules: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_from: string
+          effective_to: string | null
+          id: string
+          name: string
+          provider_id: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          name: string
+          provider_id?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          name?: string
+          provider_id?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedules_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fee_schedules_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       installment_items: {
         Row: {
           amount: number
           due_date: string
           id: string
+          last_reminded_at: string | null
           paid: boolean
+          paid_at: string | null
           payment_id: string | null
           plan_id: string
+          reminder_count: number
+          reminder_note: string | null
         }
         Insert: {
           amount: number
           due_date: string
           id?: string
+          last_reminded_at?: string | null
           paid?: boolean
+          paid_at?: string | null
           payment_id?: string | null
           plan_id: string
+          reminder_count?: number
+          reminder_note?: string | null
         }
         Update: {
           amount?: number
           due_date?: string
           id?: string
+          last_reminded_at?: string | null
           paid?: boolean
+          paid_at?: string | null
           payment_id?: string | null
           plan_id?: string
+          reminder_count?: number
+          reminder_note?: string | null
         }
         Relationships: [
           {
@@ -413,19 +980,31 @@ export type Database = {
       installment_plans: {
         Row: {
           created_at: string
+          created_by: string | null
+          down_payment: number
+          frequency: string | null
           id: string
+          installment_count: number | null
           invoice_id: string
           total_amount: number
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
+          down_payment?: number
+          frequency?: string | null
           id?: string
+          installment_count?: number | null
           invoice_id: string
           total_amount?: number
         }
         Update: {
           created_at?: string
+          created_by?: string | null
+          down_payment?: number
+          frequency?: string | null
           id?: string
+          installment_count?: number | null
           invoice_id?: string
           total_amount?: number
         }
@@ -437,6 +1016,13 @@ export type Database = {
             referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "installment_plans_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       intake_forms: {
@@ -481,25 +1067,129 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "intake_forms_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "intake_forms_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "intake_forms_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_adjustments: {
+        Row: {
+          amount: number
+          clinic_id: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          document_number: string | null
+          id: string
+          invoice_id: string
+          kind: string
+          method: string | null
+          patient_id: string
+          payment_id: string | null
+          reason_code: string
+          reason_note: string | null
+          requested_at: string
+          requested_by: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          clinic_id: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          document_number?: string | null
+          id?: string
+          invoice_id: string
+          kind: string
+          method?: string | null
+          patient_id: string
+          payment_id?: string | null
+          reason_code: string
+          reason_note?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          clinic_id?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          document_number?: string | null
+          id?: string
+          invoice_id?: string
+          kind?: string
+          method?: string | null
+          patient_id?: string
+          payment_id?: string | null
+          reason_code?: string
+          reason_note?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_adjustments_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_adjustments_decided_by_fkey"
+            columns: ["decided_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "intake_forms_patient_id_fkey"
+            foreignKeyName: "invoice_adjustments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_adjustments_patient_id_fkey"
             columns: ["patient_id"]
             isOneToOne: false
             referencedRelation: "patients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoice_adjustments_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_adjustments_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       invoice_items: {
         Row: {
           created_at: string
           description: string
+          discount: number
           id: string
           invoice_id: string
           line_total: number
@@ -510,6 +1200,7 @@ export type Database = {
         Insert: {
           created_at?: string
           description: string
+          discount?: number
           id?: string
           invoice_id: string
           line_total?: number
@@ -520,6 +1211,7 @@ export type Database = {
         Update: {
           created_at?: string
           description?: string
+          discount?: number
           id?: string
           invoice_id?: string
           line_total?: number
@@ -546,43 +1238,64 @@ export type Database = {
       }
       invoices: {
         Row: {
+          adjustment_total: number
           clinic_id: string | null
           created_at: string
           created_by: string | null
           currency: string
+          discount_amount: number
           id: string
+          invoice_number: string | null
           notes: string | null
           patient_id: string
           status: Database["public"]["Enums"]["invoice_status_enum"]
+          subtotal: number
           total_amount: number
           updated_at: string
           visit_id: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
+          adjustment_total?: number
           clinic_id?: string | null
           created_at?: string
           created_by?: string | null
           currency?: string
+          discount_amount?: number
           id?: string
+          invoice_number?: string | null
           notes?: string | null
           patient_id: string
           status?: Database["public"]["Enums"]["invoice_status_enum"]
+          subtotal?: number
           total_amount?: number
           updated_at?: string
           visit_id?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
+          adjustment_total?: number
           clinic_id?: string | null
           created_at?: string
           created_by?: string | null
           currency?: string
+          discount_amount?: number
           id?: string
+          invoice_number?: string | null
           notes?: string | null
           patient_id?: string
           status?: Database["public"]["Enums"]["invoice_status_enum"]
+          subtotal?: number
           total_amount?: number
           updated_at?: string
           visit_id?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -613,6 +1326,128 @@ export type Database = {
             referencedRelation: "visits"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      lobby_displays: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          label_mode: string
+          last_seen_at: string | null
+          name: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label_mode?: string
+          last_seen_at?: string | null
+          name: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label_mode?: string
+          last_seen_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lobby_displays_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lobby_displays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      patient_credits: {
+        Row: {
+          amount: number
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          method: string
+          notes: string | null
+          patient_id: string
+          receipt_number: string | null
+          received_at: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method: string
+          notes?: string | null
+          patient_id: string
+          receipt_number?: string | null
+          received_at?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: string
+          notes?: string | null
+          patient_id?: string
+          receipt_number?: string | null
+          received_at?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_credits_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_credits_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "patient_credits_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
         ]
       }
       patients: {
@@ -696,32 +1531,41 @@ export type Database = {
       payments: {
         Row: {
           amount: number
+          clinic_id: string | null
           created_at: string
           created_by: string | null
+          credit_id: string | null
           id: string
           invoice_id: string
           method: string | null
           paid_at: string
+          receipt_number: string | null
           reference: string | null
         }
         Insert: {
           amount: number
+          clinic_id?: string | null
           created_at?: string
           created_by?: string | null
+          credit_id?: string | null
           id?: string
           invoice_id: string
           method?: string | null
           paid_at?: string
+          receipt_number?: string | null
           reference?: string | null
         }
         Update: {
           amount?: number
+          clinic_id?: string | null
           created_at?: string
           created_by?: string | null
+          credit_id?: string | null
           id?: string
           invoice_id?: string
           method?: string | null
           paid_at?: string
+          receipt_number?: string | null
           reference?: string | null
         }
         Relationships: [
@@ -739,6 +1583,20 @@ export type Database = {
             referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_credit_id_fkey"
+            columns: ["credit_id"]
+            isOneToOne: false
+            referencedRelation: "patient_credits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
         ]
       }
       procedure_plan_rows: {
@@ -841,6 +1699,61 @@ export type Database = {
         }
         Relationships: []
       }
+      provider_calendar_feeds: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          last_accessed_at: string | null
+          provider_id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_accessed_at?: string | null
+          provider_id: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_accessed_at?: string | null
+          provider_id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_calendar_feeds_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "provider_calendar_feeds_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "provider_calendar_feeds_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       providers: {
         Row: {
           active: boolean
@@ -1024,6 +1937,7 @@ export type Database = {
           id: string
           notes: string | null
           quadrant: Database["public"]["Enums"]["quadrant_enum"] | null
+          surfaces: string[]
           tooth_number: number | null
           tooth_set: Database["public"]["Enums"]["tooth_set_enum"]
           visit_id: string
@@ -1036,6 +1950,7 @@ export type Database = {
           id?: string
           notes?: string | null
           quadrant?: Database["public"]["Enums"]["quadrant_enum"] | null
+          surfaces?: string[]
           tooth_number?: number | null
           tooth_set?: Database["public"]["Enums"]["tooth_set_enum"]
           visit_id: string
@@ -1048,6 +1963,7 @@ export type Database = {
           id?: string
           notes?: string | null
           quadrant?: Database["public"]["Enums"]["quadrant_enum"] | null
+          surfaces?: string[]
           tooth_number?: number | null
           tooth_set?: Database["public"]["Enums"]["tooth_set_enum"]
           visit_id?: string
@@ -1194,11 +2110,135 @@ export type Database = {
           },
         ]
       }
+      waitlist_entries: {
+        Row: {
+          booked_appointment_id: string | null
+          clinic_id: string
+          created_at: string
+          created_by: string | null
+          duration_minutes: number
+          earliest_date: string
+          id: string
+          latest_date: string
+          notes: string | null
+          patient_id: string
+          provider_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          treatment_id: string | null
+        }
+        Insert: {
+          booked_appointment_id?: string | null
+          clinic_id: string
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          earliest_date?: string
+          id?: string
+          latest_date: string
+          notes?: string | null
+          patient_id: string
+          provider_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          treatment_id?: string | null
+        }
+        Update: {
+          booked_appointment_id?: string | null
+          clinic_id?: string
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          earliest_date?: string
+          id?: string
+          latest_date?: string
+          notes?: string | null
+          patient_id?: string
+          provider_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          treatment_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_booked_appointment_id_fkey"
+            columns: ["booked_appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_treatment_id_fkey"
+            columns: ["treatment_id"]
+            isOneToOne: false
+            referencedRelation: "treatments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      book_from_waitlist: {
+        Args: { p_entry_id: string; p_appointment: Json }
+        Returns: string
+      }
+      create_appointment_series: {
+        Args: { p_series: Json; p_appointments: Json }
+        Returns: string
+      }
+      create_fee_schedule_version: {
+        Args: { p_schedule_id: string; p_effective_from: string; p_items: Json }
+        Returns: string
+      }
+      create_installment_plan: {
+        Args: { p_invoice_id: string; p_plan: Json; p_items: Json }
+        Returns: string
+      }
+      create_invoice: {
+        Args: { p_invoice: Json; p_items: Json }
+        Returns: { id: string; invoice_number: string }[]
+      }
       gtrgm_compress: {
         Args: { "": unknown }
         Returns: unknown
@@ -1219,10 +2259,45 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_appointment_transition_allowed: {
+        Args: {
+          p_from: Database["public"]["Enums"]["appointment_status_enum"]
+          p_to: Database["public"]["Enums"]["appointment_status_enum"]
+        }
+        Returns: boolean
+      }
+      is_cash_day_closed: {
+        Args: { p_clinic_id: string; p_at: string }
+        Returns: boolean
+      }
+      next_document_number: {
+        Args: { p_clinic_id: string; p_doc_type: string }
+        Returns: string
+      }
+      rank_ready_queue: {
+        Args: { p_clinic_id: string; p_provider_id: string | null }
+        Returns: undefined
+      }
+      refresh_installment_status: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      refresh_invoice_status: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      reorder_ready_queue: {
+        Args: { p_provider_id: string | null; p_appointment_ids: string[] }
+        Returns: undefined
+      }
       set_limit: {
         Args: { "": number }
         Returns: number
       }
+      set_queue_priority: {
+        Args: { p_appointment_id: string; p_priority: string | null; p_reason: string | null }
+        Returns: undefined
+      }
       show_limit: {
         Args: Record<PropertyKey, never>
         Returns: number
@@ -1231,6 +2306,10 @@ export type Database = {
         Args: { "": string }
         Returns: string[]
       }
+      update_appointment_occurrences: {
+        Args: { p_updates: Json; p_moves: Json }
+        Returns: number
+      }
     }
     Enums: {
       appointment_status_enum:
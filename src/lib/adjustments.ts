@@ -0,0 +1,71 @@
+import { getInvoiceNetTotal, getTotalPaid, roundMoney } from '@/lib/invoice';
+
+export type AdjustmentKind = 'refund' | 'credit_note' | 'write_off';
+export type AdjustmentStatus = 'pending' | 'approved' | 'rejected';
+
+export const ADJUSTMENT_KINDS: { value: AdjustmentKind; label: string; description: string }[] = [
+  { value: 'refund', label: 'Refund', description: 'Hand money back to the patient' },
+  { value: 'credit_note', label: 'Credit Note', description: 'Reduce what is owed on the invoice' },
+  { value: 'write_off', label: 'Write-off', description: 'Clear a balance that will not be collected' },
+];
+
+// Must match invoice_adjustments_reason_code_check
+export const ADJUSTMENT_REASONS: Record<AdjustmentKind, { value: string; label: string }[]> = {
+  refund: [
+    { value: 'overpayment', label: 'Overpayment' },
+    { value: 'duplicate_payment', label: 'Duplicate payment' },
+    { value: 'treatment_cancelled', label: 'Treatment cancelled' },
+    { value: 'service_complaint', label: 'Service complaint' },
+    { value: 'other', label: 'Other' },
+  ],
+  credit_note: [
+    { value: 'treatment_cancelled', label: 'Treatment cancelled' },
+    { value: 'pricing_error', label: 'Pricing error' },
+    { value: 'goodwill', label: 'Goodwill' },
+    { value: 'insurance_adjustment', label: 'Insurance adjustment' },
+    { value: 'other', label: 'Other' },
+  ],
+  write_off: [
+    { value: 'uncollectable', label: 'Uncollectable' },
+    { value: 'small_balance', label: 'Small balance' },
+    { value: 'hardship', label: 'Financial hardship' },
+    { value: 'patient_deceased', label: 'Patient deceased' },
+    { value: 'other', label: 'Other' },
+  ],
+};
+
+export function getAdjustmentKindLabel(kind: string): string {
+  return ADJUSTMENT_KINDS.find(k => k.value === kind)?.label || kind;
+}
+
+export function getReasonLabel(kind: string, reasonCode: string): string {
+  return ADJUSTMENT_REASONS[kind as AdjustmentKind]?.find(r => r.value === reasonCode)?.label || reasonCode;
+}
+
+/**
+ * Most that can be adjusted on an invoice right now. Mirrors the checks in
+ * public.invoice_adjustments_before_write().
+ */
+export function getAdjustmentLimit(
+  kind: AdjustmentKind,
+  invoice: { total_amount: number; adjustment_total?: number | null; payments?: { amount: number }[] | null }
+): number {
+  const paid = getTotalPaid(invoice.payments);
+  const netTotal = getInvoiceNetTotal(invoice);
+
+  switch (kind) {
+    case 'refund':
+      return Math.max(0, paid);
+    case 'credit_note':
+      return Math.max(0, netTotal);
+    case 'write_off':
+      return Math.max(0, roundMoney(netTotal - paid));
+  }
+}
+
+/**
+ * Only admins' adjustments take effect immediately; everyone else's wait for approval
+ */
+export function requiresApproval(role?: string | null): boolean {
+  return role !== 'admin';
+}
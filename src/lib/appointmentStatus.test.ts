@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { canMovePatient, planTransition } from '@/lib/appointmentStatus';
+
+describe('planTransition', () => {
+  it('takes a legal move in one step', () => {
+    expect(planTransition('arrived', 'ready')).toEqual(['ready']);
+    expect(planTransition('in_chair', 'ready')).toEqual(['ready']);
+  });
+
+  it('checks the patient in on the way when they skip arrival', () => {
+    expect(planTransition('confirmed', 'ready')).toEqual(['arrived', 'ready']);
+    expect(planTransition('no_show', 'ready')).toEqual(['arrived', 'ready']);
+  });
+
+  it('has nothing to do for the current status', () => {
+    expect(planTransition('ready', 'ready')).toEqual([]);
+  });
+
+  it('refuses moves with no legal path', () => {
+    expect(planTransition('completed', 'in_chair')).toBeNull();
+    expect(planTransition('planned', 'in_chair')).toBeNull();
+    expect(planTransition('cancelled', 'completed')).toBeNull();
+  });
+});
+
+describe('canMovePatient', () => {
+  it('only checks out a completed visit', () => {
+    expect(canMovePatient('completed', 'discharged')).toBe(true);
+    expect(canMovePatient('in_chair', 'discharged')).toBe(false);
+  });
+
+  it('offers check-in to anyone not already in the clinic', () => {
+    expect(canMovePatient('discharged', 'arrived')).toBe(true);
+    expect(canMovePatient('ready', 'arrived')).toBe(false);
+  });
+});
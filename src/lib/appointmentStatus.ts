@@ -0,0 +1,89 @@
+export type AppointmentStatus =
+  | 'planned'
+  | 'confirmed'
+  | 'arrived'
+  | 'ready'
+  | 'in_chair'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled';
+
+// A patient's status is their appointment's, plus discharged once checked out
+export type PatientStatus = Exclude<AppointmentStatus, 'confirmed'> | 'discharged';
+
+/**
+ * Every legal status move. The database checks the same table (see
+ * is_appointment_transition_allowed), so a move missing here fails there too.
+ */
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  planned: ['confirmed', 'arrived', 'no_show', 'cancelled'],
+  confirmed: ['planned', 'arrived', 'no_show', 'cancelled'],
+  arrived: ['ready', 'cancelled'],
+  ready: ['in_chair', 'arrived', 'cancelled'],
+  in_chair: ['completed', 'ready'],
+  completed: [],
+  no_show: ['planned', 'arrived'], // a late arrival, or rebooked
+  cancelled: ['planned', 'confirmed'], // reinstated
+};
+
+// The usual next step, offered as the one-click action
+export const NEXT_STATUS: Partial<Record<AppointmentStatus, AppointmentStatus>> = {
+  planned: 'confirmed',
+  confirmed: 'arrived',
+  arrived: 'ready',
+  ready: 'in_chair',
+  in_chair: 'completed',
+};
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  planned: 'Planned',
+  confirmed: 'Confirmed',
+  arrived: 'Arrived',
+  ready: 'Ready',
+  in_chair: 'In Chair',
+  completed: 'Completed',
+  no_show: 'No Show',
+  cancelled: 'Cancelled',
+};
+
+// Statuses of a patient who is in the clinic right now
+export const ACTIVE_VISIT_STATUSES: AppointmentStatus[] = ['arrived', 'ready', 'in_chair'];
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return APPOINTMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The steps from one status to another: the move itself when it is legal, or through
+ * check-in (arrived) when the patient is checked in and moved on in one go.
+ * `null` when there is no legal way.
+ */
+export function planTransition(from: AppointmentStatus, to: AppointmentStatus): AppointmentStatus[] | null {
+  if (from === to) return [];
+  if (canTransition(from, to)) return [to];
+  if (canTransition(from, 'arrived') && canTransition('arrived', to)) return ['arrived', to];
+  return null;
+}
+
+export function describeIllegalTransition(from: AppointmentStatus, to: AppointmentStatus): string {
+  return `An appointment can't move from ${APPOINTMENT_STATUS_LABELS[from]} to ${APPOINTMENT_STATUS_LABELS[to]}`;
+}
+
+/**
+ * The patient's status while this is their appointment of the day. Confirmation is
+ * an appointment detail; for the patient it is still planned.
+ */
+export function toPatientStatus(status: AppointmentStatus): PatientStatus {
+  return status === 'confirmed' ? 'planned' : status;
+}
+
+/**
+ * Whether a patient-level status button can apply. Check-in is always offered to a patient
+ * who isn't in the clinic (it may book a walk-in); checkout only after a completed visit.
+ */
+export function canMovePatient(from: PatientStatus, to: PatientStatus): boolean {
+  if (to === 'discharged') return from === 'completed';
+  if (to === 'arrived') return !ACTIVE_VISIT_STATUSES.includes(from as AppointmentStatus);
+  if (from === 'discharged') return false;
+  return planTransition(from, to) !== null && from !== to;
+}
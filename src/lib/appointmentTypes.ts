@@ -0,0 +1,55 @@
+export interface AppointmentTypeTreatment {
+  treatment_id: string;
+  chair_minutes: number | null; // null = the type's default duration
+}
+
+export interface AppointmentType {
+  id: string;
+  clinic_id: string;
+  name: string;
+  color: string; // hex, e.g. "#4f46e5"
+  default_duration_minutes: number;
+  active: boolean;
+  created_at: string;
+  appointment_type_treatments: AppointmentTypeTreatment[];
+}
+
+export const APPOINTMENT_TYPE_COLORS = [
+  '#4f46e5', '#16a34a', '#06b6d4', '#f59e0b', '#ef4444', '#8b5cf6', '#10b981', '#e11d48',
+];
+
+export const DURATION_OPTIONS = [10, 15, 20, 30, 45, 60, 90, 120];
+
+/**
+ * Appointment type and expected chair time for a treatment, or null if no active type
+ * is linked to it. When several types list the treatment, the longest chair time wins.
+ */
+export function resolveTreatmentBooking(
+  types: AppointmentType[],
+  treatmentId: string
+): { type: AppointmentType; durationMinutes: number } | null {
+  let match: { type: AppointmentType; durationMinutes: number } | null = null;
+
+  for (const type of types) {
+    if (!type.active) continue;
+    const link = type.appointment_type_treatments.find(t => t.treatment_id === treatmentId);
+    if (!link) continue;
+
+    const durationMinutes = link.chair_minutes ?? type.default_duration_minutes;
+    if (!match || durationMinutes > match.durationMinutes) {
+      match = { type, durationMinutes };
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Format a duration in minutes, e.g. 90 -> "1h 30m"
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
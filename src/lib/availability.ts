@@ -9,6 +9,7 @@ export interface DateException {
   date: string; // "YYYY-MM-DD" format
   closed?: boolean;
   overrides?: TimeRange[];
+  label?: string; // e.g. the holiday name from an imported calendar
 }
 
 export interface DaySchedule {
@@ -22,11 +23,26 @@ export interface DaySchedule {
   exceptions: DateException[];
 }
 
+export type WeeklyHours = Omit<DaySchedule, 'exceptions'>;
+
+/**
+ * Weekly clinic hours used instead of the regular ones between two dates, e.g. Ramadan
+ */
+export interface SeasonalSchedule {
+  id: string;
+  name: string;
+  start_date: string; // "YYYY-MM-DD" format
+  end_date: string; // "YYYY-MM-DD" format, inclusive
+  hours: WeeklyHours;
+}
+
 export interface AvailabilityConfig {
   timezone: string;
   slot_minutes: number;
   clinic: DaySchedule;
   rooms: Record<string, DaySchedule>;
+  providers?: Record<string, DaySchedule>; // working hours and time off; providers without one follow clinic hours
+  seasons?: SeasonalSchedule[];
 }
 
 export interface SlotTime {
@@ -37,18 +53,20 @@ export interface SlotTime {
 const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
 
 /**
- * Parse availability configuration for a specific date and room
+ * Parse availability configuration for a specific date, room and provider
  * Returns array of available time ranges in local timezone
  */
 export function parseAvailability(
   availabilityJson: AvailabilityConfig,
   date: Date,
-  roomId?: string
+  roomId?: string,
+  providerId?: string
 ): SlotTime[] {
   const dayOfWeek = DAYS[date.getDay()];
   
-  // Get clinic hours for the day
-  const clinicRanges = availabilityJson.clinic[dayOfWeek] || [];
+  // Get clinic hours for the day, from the season covering it if there is one
+  const season = findSeason(availabilityJson.seasons || [], date);
+  const clinicRanges = (season ? season.hours : availabilityJson.clinic)[dayOfWeek] || [];
   
   // Get room hours for the day (if room specified)
   const roomRanges = roomId && availabilityJson.rooms[roomId] 
@@ -66,10 +84,33 @@ export function parseAvailability(
     effectiveRanges = applyExceptions(effectiveRanges, availabilityJson.rooms[roomId].exceptions, date);
   }
   effectiveRanges = applyExceptions(effectiveRanges, availabilityJson.clinic.exceptions, date);
+
+  // Provider hours for the day, after their own time off and overrides, within the above
+  const providerSchedule = providerId ? availabilityJson.providers?.[providerId] : undefined;
+  if (providerSchedule) {
+    const providerRanges = applyExceptions(
+      timeRangesToSlots(providerSchedule[dayOfWeek] || [], date),
+      providerSchedule.exceptions || [],
+      date
+    );
+    effectiveRanges = intersectRanges(effectiveRanges, providerRanges);
+  }
   
   return effectiveRanges;
 }
 
+/**
+ * The seasonal schedule covering a date. Where seasons overlap the one starting
+ * latest wins, so a short override inside a longer season takes effect.
+ */
+export function findSeason(seasons: SeasonalSchedule[], date: Date): SeasonalSchedule | undefined {
+  const dateString = format(date, 'yyyy-MM-dd');
+
+  return seasons
+    .filter(season => season.start_date <= dateString && season.end_date >= dateString)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))[0];
+}
+
 /**
  * Convert time ranges to slot times for a specific date
  */
@@ -250,6 +291,25 @@ export function validateRoomHours(
   };
 }
 
+/**
+ * A schedule open around the clock, so only clinic and room hours apply. Used for
+ * providers who keep clinic hours but need time off recorded.
+ */
+export function createAllDaySchedule(): DaySchedule {
+  const allDay: TimeRange[] = [{ start: '00:00', end: '24:00' }];
+
+  return {
+    mon: allDay,
+    tue: allDay,
+    wed: allDay,
+    thu: allDay,
+    fri: allDay,
+    sat: allDay,
+    sun: allDay,
+    exceptions: []
+  };
+}
+
 /**
  * Create default availability configuration
  */
@@ -269,6 +329,7 @@ export function createDefaultAvailability(): AvailabilityConfig {
       sun: [],
       exceptions: []
     },
-    rooms: {}
+    rooms: {},
+    providers: {}
   };
 }
\ No newline at end of file
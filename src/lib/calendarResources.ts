@@ -0,0 +1,49 @@
+import { parseAvailability, type AvailabilityConfig, type SlotTime } from '@/lib/availability';
+
+export type CalendarResourceMode = 'room' | 'provider';
+
+export interface CalendarResource {
+  id: string;
+  title: string;
+}
+
+// Column for appointments that have no room or provider yet
+export const UNASSIGNED_RESOURCE_ID = 'unassigned';
+
+export function getAppointmentResourceId(
+  appointment: { room_id: string | null; provider_id: string | null },
+  mode: CalendarResourceMode
+): string {
+  return (mode === 'room' ? appointment.room_id : appointment.provider_id) || UNASSIGNED_RESOURCE_ID;
+}
+
+/**
+ * Room or provider id for a resource column; null for the unassigned column
+ */
+export function getResourceValue(resourceId: string): string | null {
+  return resourceId === UNASSIGNED_RESOURCE_ID ? null : resourceId;
+}
+
+/**
+ * Memoised open hours per day, room and provider, for shading closed calendar slots.
+ * Without a room or provider the clinic's own hours apply.
+ */
+export function createOpenHoursLookup(availability?: AvailabilityConfig) {
+  const cache = new Map<string, SlotTime[]>();
+
+  return (date: Date, roomId?: string, providerId?: string): SlotTime[] | null => {
+    if (!availability) return null;
+
+    const key = `${date.toDateString()}|${roomId || ''}|${providerId || ''}`;
+    let ranges = cache.get(key);
+    if (!ranges) {
+      ranges = parseAvailability(availability, date, roomId, providerId);
+      cache.set(key, ranges);
+    }
+    return ranges;
+  };
+}
+
+export function isWithinOpenHours(ranges: SlotTime[], slotStart: Date): boolean {
+  return ranges.some(range => slotStart >= range.start && slotStart < range.end);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getClinicDate, getClinicDayRange, summarizeCashDay, type DrawerTransaction } from '@/lib/cashDrawer';
+
+describe('getClinicDayRange', () => {
+  it('starts and ends the day at the clinic midnight', () => {
+    expect(getClinicDayRange('2026-10-19', 'Asia/Dubai')).toEqual({
+      start: '2026-10-18T20:00:00.000Z',
+      end: '2026-10-19T20:00:00.000Z',
+    });
+  });
+
+  it('gives a short day when the clocks go forward', () => {
+    expect(getClinicDayRange('2026-03-29', 'Europe/London')).toEqual({
+      start: '2026-03-29T00:00:00.000Z',
+      end: '2026-03-29T23:00:00.000Z',
+    });
+  });
+
+  it('reads late evening payments as the clinic date', () => {
+    expect(getClinicDate(new Date('2026-10-18T21:30:00Z'), 'Asia/Dubai')).toBe('2026-10-19');
+  });
+});
+
+describe('summarizeCashDay', () => {
+  const transaction = (overrides: Partial<DrawerTransaction>): DrawerTransaction => ({
+    id: 'tx',
+    kind: 'payment',
+    amount: 0,
+    method: 'cash',
+    at: '2026-10-19T09:00:00Z',
+    staffId: 'staff-1',
+    staffName: 'Mona',
+    ...overrides,
+  });
+
+  it('nets refunds and only expects cash in the drawer', () => {
+    const summary = summarizeCashDay([
+      transaction({ id: 'tx-1', amount: 500 }),
+      transaction({ id: 'tx-2', amount: -100 }),
+      transaction({ id: 'tx-3', amount: 250, method: 'card', staffId: 'staff-2', staffName: 'Karim' }),
+      transaction({ id: 'tx-4', kind: 'prepayment', amount: 0.1 + 0.2 }),
+    ]);
+
+    expect(summary.byMethod).toEqual([
+      { method: 'card', count: 1, received: 250, refunded: 0, net: 250 },
+      { method: 'cash', count: 3, received: 500.3, refunded: 100, net: 400.3 },
+    ]);
+    expect(summary.byStaff.map(total => [total.staffName, total.net])).toEqual([
+      ['Karim', 250],
+      ['Mona', 400.3],
+    ]);
+    expect(summary.expectedCash).toBe(400.3);
+    expect(summary.totalCollected).toBe(650.3);
+    expect(summary.transactionCount).toBe(4);
+  });
+});
@@ -0,0 +1,137 @@
+import { roundMoney } from '@/lib/invoice';
+
+export interface DrawerTransaction {
+  id: string;
+  kind: 'payment' | 'prepayment';
+  amount: number; // negative for refunds
+  method: string;
+  at: string;
+  staffId: string | null;
+  staffName: string | null;
+  reference?: string | null; // receipt number
+  description?: string;
+}
+
+export interface MethodTotal {
+  method: string;
+  count: number;
+  received: number;
+  refunded: number;
+  net: number;
+}
+
+export interface StaffTotal {
+  staffId: string | null;
+  staffName: string;
+  count: number;
+  byMethod: Record<string, number>;
+  net: number;
+}
+
+export interface CashDaySummary {
+  byMethod: MethodTotal[];
+  byStaff: StaffTotal[];
+  totalCollected: number;
+  expectedCash: number;
+  transactionCount: number;
+}
+
+/**
+ * Calendar date (yyyy-MM-dd) of an instant as seen on the clinic's wall clock
+ */
+export function getClinicDate(at: Date, timeZone: string): string {
+  // en-CA formats as yyyy-MM-dd
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function getZoneOffsetMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wallClock - at.getTime()) / 60000);
+}
+
+// The instant when the clinic's wall clock reads midnight at the start of `day`
+function getClinicMidnight(day: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, date);
+  // Correct twice so days where the offset changes (DST) still land on midnight
+  let guess = utcMidnight - getZoneOffsetMinutes(new Date(utcMidnight), timeZone) * 60000;
+  guess = utcMidnight - getZoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  return new Date(guess);
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a clinic day as ISO instants for querying
+ */
+export function getClinicDayRange(day: string, timeZone: string): { start: string; end: string } {
+  const [year, month, date] = day.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, date + 1)).toISOString().slice(0, 10);
+  return {
+    start: getClinicMidnight(day, timeZone).toISOString(),
+    end: getClinicMidnight(next, timeZone).toISOString(),
+  };
+}
+
+/**
+ * Totals by method and by staff member. Only cash is expected in the drawer.
+ */
+export function summarizeCashDay(transactions: DrawerTransaction[]): CashDaySummary {
+  const methods = new Map<string, MethodTotal>();
+  const staff = new Map<string, StaffTotal>();
+
+  transactions.forEach(transaction => {
+    const amount = Number(transaction.amount);
+
+    const methodTotal = methods.get(transaction.method) || {
+      method: transaction.method,
+      count: 0,
+      received: 0,
+      refunded: 0,
+      net: 0,
+    };
+    methodTotal.count += 1;
+    if (amount < 0) methodTotal.refunded = roundMoney(methodTotal.refunded - amount);
+    else methodTotal.received = roundMoney(methodTotal.received + amount);
+    methodTotal.net = roundMoney(methodTotal.net + amount);
+    methods.set(transaction.method, methodTotal);
+
+    const staffKey = transaction.staffId || 'unknown';
+    const staffTotal = staff.get(staffKey) || {
+      staffId: transaction.staffId,
+      staffName: transaction.staffName || 'Unknown',
+      count: 0,
+      byMethod: {},
+      net: 0,
+    };
+    staffTotal.count += 1;
+    staffTotal.byMethod[transaction.method] = roundMoney((staffTotal.byMethod[transaction.method] || 0) + amount);
+    staffTotal.net = roundMoney(staffTotal.net + amount);
+    staff.set(staffKey, staffTotal);
+  });
+
+  const byMethod = [...methods.values()].sort((a, b) => a.method.localeCompare(b.method));
+
+  return {
+    byMethod,
+    byStaff: [...staff.values()].sort((a, b) => a.staffName.localeCompare(b.staffName)),
+    totalCollected: roundMoney(byMethod.reduce((sum, total) => sum + total.net, 0)),
+    expectedCash: methods.get('cash')?.net || 0,
+    transactionCount: transactions.length,
+  };
+}
@@ -0,0 +1,85 @@
+export interface FeeScheduleItem {
+  id?: string;
+  treatment_id: string;
+  price: number;
+}
+
+export interface FeeSchedule {
+  id: string;
+  clinic_id: string;
+  provider_id: string | null;
+  name: string;
+  version: number;
+  effective_from: string; // "YYYY-MM-DD" format
+  effective_to: string | null; // "YYYY-MM-DD" format, inclusive
+  currency: string;
+  created_at: string;
+  fee_schedule_items: FeeScheduleItem[];
+}
+
+/**
+ * Check if a schedule version is in effect on a date ("YYYY-MM-DD")
+ */
+export function isScheduleEffective(schedule: FeeSchedule, date: string): boolean {
+  if (schedule.effective_from > date) return false;
+  if (schedule.effective_to && schedule.effective_to < date) return false;
+  return true;
+}
+
+/**
+ * Pick the effective schedule versions for a provider on a date, most specific first:
+ * the provider's override, then the clinic-wide schedule (latest effective_from wins in each)
+ */
+export function getEffectiveSchedules(
+  schedules: FeeSchedule[],
+  date: string,
+  providerId?: string | null
+): FeeSchedule[] {
+  const latest = (candidates: FeeSchedule[]) =>
+    candidates
+      .filter(s => isScheduleEffective(s, date))
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from) || b.version - a.version)[0];
+
+  const providerSchedule = providerId
+    ? latest(schedules.filter(s => s.provider_id === providerId))
+    : undefined;
+  const clinicSchedule = latest(schedules.filter(s => !s.provider_id));
+
+  return [providerSchedule, clinicSchedule].filter(Boolean) as FeeSchedule[];
+}
+
+/**
+ * Resolve the list price of a treatment. A provider override only replaces the
+ * treatments it lists; anything else falls back to the clinic schedule.
+ * Returns null when no schedule prices the treatment.
+ */
+export function resolveTreatmentPrice(
+  schedules: FeeSchedule[],
+  treatmentId: string,
+  options: { providerId?: string | null; date: string }
+): number | null {
+  for (const schedule of getEffectiveSchedules(schedules, options.date, options.providerId)) {
+    const item = schedule.fee_schedule_items.find(i => i.treatment_id === treatmentId);
+    if (item) return Number(item.price);
+  }
+  return null;
+}
+
+/**
+ * Raise (or lower, with a negative percentage) every price by a percentage,
+ * rounded to the given step (e.g. 5 rounds to the nearest 5 EGP)
+ */
+export function adjustPrices(
+  items: FeeScheduleItem[],
+  percent: number,
+  roundTo = 1
+): FeeScheduleItem[] {
+  return items.map(item => {
+    const raised = Number(item.price) * (1 + percent / 100);
+    const rounded = Math.round(raised / roundTo) * roundTo;
+    return {
+      treatment_id: item.treatment_id,
+      price: Math.max(0, Math.round(rounded * 100) / 100),
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { icsEventsToClosures, parseIcsEvents } from '@/lib/ical';
+
+const calendar = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'UID:eid@example.com',
+  'DTSTART;VALUE=DATE:20260330',
+  'DTEND;VALUE=DATE:20260402',
+  'SUMMARY:Eid al-Fitr',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:new-year',
+  'DTSTART;VALUE=DATE:20260107',
+  'SUMMARY:Coptic Christmas\\, observed',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20260425T000000Z',
+  'DTEND:20260425T235959Z',
+  'SUMMARY:Sinai Liberation',
+  '  Day',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseIcsEvents', () => {
+  it('reads events as whole days in date order', () => {
+    expect(parseIcsEvents(calendar)).toEqual([
+      { uid: 'new-year', summary: 'Coptic Christmas, observed', start_date: '2026-01-07', end_date: '2026-01-07' },
+      { uid: 'eid@example.com', summary: 'Eid al-Fitr', start_date: '2026-03-30', end_date: '2026-04-01' },
+      { uid: null, summary: 'Sinai Liberation Day', start_date: '2026-04-25', end_date: '2026-04-25' },
+    ]);
+  });
+
+  it('skips events without a start and names untitled ones', () => {
+    const text = 'BEGIN:VEVENT\nSUMMARY:No date\nEND:VEVENT\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20260101\nEND:VEVENT';
+
+    expect(parseIcsEvents(text)).toEqual([
+      { uid: null, summary: 'Holiday', start_date: '2026-01-01', end_date: '2026-01-01' },
+    ]);
+  });
+});
+
+describe('icsEventsToClosures', () => {
+  it('closes every day of each event once, keeping the first label', () => {
+    expect(
+      icsEventsToClosures([
+        { uid: 'a', summary: 'Eid al-Fitr', start_date: '2026-03-30', end_date: '2026-04-01' },
+        { uid: 'b', summary: 'Bank holiday', start_date: '2026-04-01', end_date: '2026-04-02' },
+      ])
+    ).toEqual([
+      { date: '2026-03-30', closed: true, label: 'Eid al-Fitr' },
+      { date: '2026-03-31', closed: true, label: 'Eid al-Fitr' },
+      { date: '2026-04-01', closed: true, label: 'Eid al-Fitr' },
+      { date: '2026-04-02', closed: true, label: 'Bank holiday' },
+    ]);
+  });
+});
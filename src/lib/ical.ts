@@ -0,0 +1,203 @@
+import { eachDayOfInterval, format, subDays } from 'date-fns';
+import type { DateException } from '@/lib/availability';
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string;
+  start_date: string; // "YYYY-MM-DD" format
+  end_date: string; // "YYYY-MM-DD" format, inclusive
+}
+
+/**
+ * Join folded lines: a line starting with a space or tab continues the previous one
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * "20260101" or "20260101T000000Z" to "2026-01-01"
+ */
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Read the VEVENTs of an iCalendar (.ics) file as whole days. All-day events end the
+ * day before their DTEND, as the standard makes it exclusive; events without DTEND last
+ * one day. Recurrence rules are not expanded, so each yearly holiday needs its own event,
+ * which is how published holiday calendars are usually built.
+ */
+export function parseIcsEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: { uid: string | null; summary: string; start: string | null; end: string | null; allDay: boolean } | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { uid: null, summary: '', start: null, end: null, allDay: false };
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current?.start) {
+        let end = current.end || current.start;
+        if (current.end && current.allDay && current.end > current.start) {
+          end = format(subDays(new Date(current.end + 'T00:00:00'), 1), 'yyyy-MM-dd');
+        }
+        events.push({
+          uid: current.uid,
+          summary: current.summary || 'Holiday',
+          start_date: current.start,
+          end_date: end < current.start ? current.start : end,
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+
+    switch (name.toUpperCase()) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DTSTART':
+        current.start = parseIcsDate(value);
+        current.allDay = params.includes('VALUE=DATE') || !value.includes('T');
+        break;
+      case 'DTEND':
+        current.end = parseIcsDate(value);
+        break;
+    }
+  }
+
+  return events.sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+/**
+ * One closed exception per day of each event, labelled with the event's summary
+ */
+export function icsEventsToClosures(events: IcsEvent[]): DateException[] {
+  const closures = new Map<string, DateException>();
+
+  for (const event of events) {
+    const days = eachDayOfInterval({
+      start: new Date(event.start_date + 'T00:00:00'),
+      end: new Date(event.end_date + 'T00:00:00'),
+    });
+    for (const day of days) {
+      const date = format(day, 'yyyy-MM-dd');
+      if (!closures.has(date)) {
+        closures.set(date, { date, closed: true, label: event.summary });
+      }
+    }
+  }
+
+  return Array.from(closures.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface IcsOutputEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string | null;
+  cancelled?: boolean;
+}
+
+/**
+ * Initials only, e.g. "محمد أحمد علي" to "م.ع.", so calendars leaving the clinic
+ * never carry a patient's full name
+ */
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+
+  const picked = words.length > 1 ? [words[0], words[words.length - 1]] : [words[0]];
+  return picked.map(word => `${Array.from(word)[0]}.`).join('');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, as the standard requires
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * An iCalendar document with times in UTC, which every calendar app shows in its own zone
+ */
+export function buildIcsCalendar(name: string, events: IcsOutputEvent[]): string {
+  const stamp = formatIcsDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IconiDent OS//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { buildInstallmentSchedule, validateInstallmentSchedule } from '@/lib/installments';
+
+const base = {
+  frequency: 'monthly' as const,
+  firstDueDate: '2026-11-01',
+  downPaymentDate: '2026-10-19',
+};
+
+describe('buildInstallmentSchedule', () => {
+  it('rounds regular installments and puts the difference on the last one', () => {
+    const schedule = buildInstallmentSchedule({ ...base, total: 1000, downPayment: 0, count: 3, roundTo: 10 });
+
+    expect(schedule.map(item => item.amount)).toEqual([330, 330, 340]);
+    expect(schedule.map(item => item.due_date)).toEqual(['2026-11-01', '2026-12-01', '2027-01-01']);
+    expect(validateInstallmentSchedule(schedule, 1000)).toBeNull();
+  });
+
+  it('starts with the down payment', () => {
+    const schedule = buildInstallmentSchedule({ ...base, total: 1000, downPayment: 400, count: 2 });
+
+    expect(schedule).toEqual([
+      { due_date: '2026-10-19', amount: 400, isDownPayment: true },
+      { due_date: '2026-11-01', amount: 300 },
+      { due_date: '2026-12-01', amount: 300 },
+    ]);
+  });
+
+  it('keeps every installment when the rounding is larger than an installment, so the schedule is rejected', () => {
+    const schedule = buildInstallmentSchedule({ ...base, total: 100, downPayment: 0, count: 3, roundTo: 50 });
+
+    expect(schedule.map(item => item.amount)).toEqual([0, 0, 100]);
+    expect(validateInstallmentSchedule(schedule, 100)).toBe('Every installment must be more than zero');
+  });
+});
@@ -0,0 +1,108 @@
+import { addMonths, addWeeks, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { roundMoney } from '@/lib/invoice';
+
+export type InstallmentFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export const INSTALLMENT_FREQUENCIES: { value: InstallmentFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export interface ScheduleOptions {
+  total: number;
+  downPayment: number;
+  count: number;
+  frequency: InstallmentFrequency;
+  firstDueDate: string; // yyyy-MM-dd
+  roundTo?: number; // round regular installments to this unit, e.g. 1, 5, 10
+  downPaymentDate?: string; // defaults to today
+}
+
+export interface ScheduledInstallment {
+  due_date: string;
+  amount: number;
+  isDownPayment?: boolean;
+}
+
+export function getInstallmentDueDate(firstDueDate: string, frequency: InstallmentFrequency, index: number): string {
+  const first = parseISO(firstDueDate);
+  const date = frequency === 'monthly'
+    ? addMonths(first, index)
+    : addWeeks(first, frequency === 'biweekly' ? index * 2 : index);
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Split a balance into an optional down payment plus equal installments.
+ * Regular installments are rounded to `roundTo`; the last one absorbs the difference
+ * so the schedule always adds up to the total exactly. A `roundTo` larger than an
+ * installment leaves zero amounts in place, which validateInstallmentSchedule rejects,
+ * rather than quietly scheduling fewer installments than asked for.
+ */
+export function buildInstallmentSchedule(options: ScheduleOptions): ScheduledInstallment[] {
+  const total = roundMoney(options.total);
+  const downPayment = roundMoney(Math.min(Math.max(0, options.downPayment || 0), total));
+  const count = Math.max(0, Math.floor(options.count || 0));
+  const remaining = roundMoney(total - downPayment);
+  const schedule: ScheduledInstallment[] = [];
+
+  if (downPayment > 0) {
+    schedule.push({
+      due_date: options.downPaymentDate || format(new Date(), 'yyyy-MM-dd'),
+      amount: downPayment,
+      isDownPayment: true,
+    });
+  }
+
+  if (count === 0 || remaining <= 0) return schedule;
+
+  const unit = options.roundTo && options.roundTo > 0 ? options.roundTo : 0.01;
+  const regular = roundMoney(Math.floor(remaining / count / unit) * unit);
+
+  for (let i = 0; i < count; i++) {
+    const isLast = i === count - 1;
+    schedule.push({
+      due_date: getInstallmentDueDate(options.firstDueDate, options.frequency, i),
+      amount: isLast ? roundMoney(remaining - regular * (count - 1)) : regular,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Check a hand-edited schedule before saving: every item positive and dated,
+ * and the items together covering the balance exactly.
+ */
+export function validateInstallmentSchedule(items: ScheduledInstallment[], balance: number): string | null {
+  if (items.length === 0) return 'The schedule needs at least one installment';
+  if (items.some(item => !item.due_date)) return 'Every installment needs a due date';
+  if (items.some(item => roundMoney(item.amount) <= 0)) return 'Every installment must be more than zero';
+
+  const scheduled = roundMoney(items.reduce((sum, item) => sum + Number(item.amount), 0));
+  if (scheduled !== roundMoney(balance)) {
+    return `Installments add up to ${scheduled} but the balance is ${roundMoney(balance)}`;
+  }
+  return null;
+}
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: { value: AgingBucket; label: string }[] = [
+  { value: '0-30', label: '0–30 days' },
+  { value: '31-60', label: '31–60 days' },
+  { value: '61-90', label: '61–90 days' },
+  { value: '90+', label: '90+ days' },
+];
+
+export function getDaysOverdue(dueDate: string, today: Date = new Date()): number {
+  return Math.max(0, differenceInCalendarDays(today, parseISO(dueDate)));
+}
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
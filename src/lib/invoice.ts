@@ -0,0 +1,118 @@
+export type InvoiceStatus = 'draft' | 'open' | 'partial' | 'paid' | 'void';
+export type PaymentMethod = 'cash' | 'card' | 'wallet' | 'bank_transfer';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'wallet', label: 'Mobile Wallet' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+];
+
+export interface InvoiceLineInput {
+  qty: number;
+  unit_price: number;
+  discount?: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number; // before any discount
+  lineDiscounts: number;
+  invoiceDiscount: number;
+  total: number;
+}
+
+/**
+ * Round to piasters/cents, avoiding floating point drift in sums
+ */
+export function roundMoney(amount: number): number {
+  return Math.round((Number(amount) || 0) * 100) / 100;
+}
+
+/**
+ * Line total after its own discount, never below zero
+ */
+export function calculateLineTotal(line: InvoiceLineInput): number {
+  const gross = (Number(line.qty) || 0) * (Number(line.unit_price) || 0);
+  return roundMoney(Math.max(0, gross - (Number(line.discount) || 0)));
+}
+
+/**
+ * Totals for a set of lines plus a whole-invoice discount.
+ * The invoice discount is capped so the total never goes negative.
+ */
+export function calculateInvoiceTotals(lines: InvoiceLineInput[], invoiceDiscount = 0): InvoiceTotals {
+  const subtotal = roundMoney(
+    lines.reduce((sum, line) => sum + (Number(line.qty) || 0) * (Number(line.unit_price) || 0), 0)
+  );
+  const afterLineDiscounts = roundMoney(lines.reduce((sum, line) => sum + calculateLineTotal(line), 0));
+  const cappedDiscount = roundMoney(Math.min(Math.max(0, Number(invoiceDiscount) || 0), afterLineDiscounts));
+
+  return {
+    subtotal,
+    lineDiscounts: roundMoney(subtotal - afterLineDiscounts),
+    invoiceDiscount: cappedDiscount,
+    total: roundMoney(afterLineDiscounts - cappedDiscount),
+  };
+}
+
+export function getTotalPaid(payments?: { amount: number }[] | null): number {
+  return roundMoney((payments || []).reduce((sum, p) => sum + Number(p.amount), 0));
+}
+
+/**
+ * What the patient owes on an invoice before payments: the total less approved
+ * credit notes and write-offs
+ */
+export function getInvoiceNetTotal(invoice: { total_amount: number; adjustment_total?: number | null }): number {
+  return roundMoney(Number(invoice.total_amount) - (Number(invoice.adjustment_total) || 0));
+}
+
+/**
+ * Invoice status from its net total and what has been paid against it.
+ * Mirrors public.refresh_invoice_status() so the UI and the database agree.
+ */
+export function deriveInvoiceStatus(invoice: {
+  status?: InvoiceStatus;
+  total_amount: number;
+  adjustment_total?: number | null;
+  payments?: { amount: number }[] | null;
+}): InvoiceStatus {
+  if (invoice.status === 'void' || invoice.status === 'draft') return invoice.status;
+
+  const paid = getTotalPaid(invoice.payments);
+  const netTotal = getInvoiceNetTotal(invoice);
+  if (netTotal <= 0) return 'paid';
+  if (paid <= 0) return 'open';
+  if (paid >= netTotal) return 'paid';
+  return 'partial';
+}
+
+/**
+ * Amount still owed. Negative when more has been paid than is owed, e.g. after a
+ * credit note on a paid invoice, until the difference is refunded.
+ */
+export function getInvoiceBalance(invoice: {
+  status?: InvoiceStatus;
+  total_amount: number;
+  adjustment_total?: number | null;
+  payments?: { amount: number }[] | null;
+}): number {
+  if (invoice.status === 'void') return 0;
+  return roundMoney(getInvoiceNetTotal(invoice) - getTotalPaid(invoice.payments));
+}
+
+export function formatMoney(amount: number, currency = 'EGP'): string {
+  return `${roundMoney(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/**
+ * Issued document number (e.g. INV-2026-000123), falling back to a short id for unnumbered drafts
+ */
+export function formatInvoiceNumber(invoice: { id: string; invoice_number?: string | null }): string {
+  return invoice.invoice_number || `#${invoice.id.slice(-8)}`;
+}
+
+export function getPaymentMethodLabel(method?: string | null): string {
+  if (method === 'credit') return 'Account Credit';
+  return PAYMENT_METHODS.find(m => m.value === method)?.label || method || 'Other';
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildPatientLedger, getAccountSummary, type LedgerCredit, type LedgerInvoice } from '@/lib/ledger';
+
+const invoice: LedgerInvoice = {
+  id: 'inv-1',
+  invoice_number: 'INV-0001',
+  status: 'paid',
+  created_at: '2026-01-01T09:00:00Z',
+  total_amount: 1000,
+  adjustment_total: 100,
+  payments: [
+    { id: 'pay-1', amount: 400, method: 'cash', paid_at: '2026-01-02T09:00:00Z', receipt_number: 'R-1' },
+    { id: 'pay-2', amount: 300, method: 'credit', paid_at: '2026-01-05T09:00:00Z', credit_id: 'cr-1' },
+  ],
+  invoice_adjustments: [
+    { id: 'adj-1', kind: 'credit_note', amount: 100, status: 'approved', reason_code: 'goodwill', decided_at: '2026-01-03T09:00:00Z' },
+    { id: 'adj-2', kind: 'write_off', amount: 50, status: 'pending', reason_code: 'bad_debt' },
+  ],
+};
+
+const credits: LedgerCredit[] = [
+  { id: 'cr-1', amount: 300, method: 'cash', received_at: '2026-01-04T09:00:00Z', payments: [{ amount: 300 }] },
+];
+
+describe('buildPatientLedger', () => {
+  it('keeps a running balance that ends at the account balance', () => {
+    const ledger = buildPatientLedger([invoice], credits);
+
+    expect(ledger.map(entry => [entry.type, entry.balance])).toEqual([
+      ['charge', 1000],
+      ['payment', 600],
+      ['credit_note', 500],
+      ['prepayment', 200],
+      ['credit_applied', 200],
+    ]);
+    expect(ledger[4].memo).toBe(300);
+    expect(ledger[ledger.length - 1].balance).toBe(getAccountSummary([invoice], credits).balance);
+  });
+
+  it('cancels a void invoice and leaves drafts out', () => {
+    const ledger = buildPatientLedger(
+      [
+        { ...invoice, id: 'inv-2', status: 'void', voided_at: '2026-01-02T09:00:00Z', payments: [], invoice_adjustments: [] },
+        { ...invoice, id: 'inv-3', status: 'draft' },
+      ],
+      []
+    );
+
+    expect(ledger.map(entry => [entry.type, entry.balance])).toEqual([
+      ['charge', 1000],
+      ['void', 0],
+    ]);
+  });
+
+  it('puts a charge before a payment taken at the same moment', () => {
+    const ledger = buildPatientLedger(
+      [{
+        ...invoice,
+        adjustment_total: 0,
+        invoice_adjustments: [],
+        payments: [{ id: 'pay-3', amount: 1000, method: 'card', paid_at: invoice.created_at }],
+      }],
+      []
+    );
+
+    expect(ledger.map(entry => [entry.type, entry.balance])).toEqual([
+      ['charge', 1000],
+      ['payment', 0],
+    ]);
+  });
+
+  it('adds refunds back onto the balance', () => {
+    const ledger = buildPatientLedger(
+      [{
+        ...invoice,
+        adjustment_total: 0,
+        invoice_adjustments: [],
+        payments: [
+          { id: 'pay-4', amount: 1000, method: 'cash', paid_at: '2026-01-02T09:00:00Z' },
+          { id: 'pay-5', amount: -200, method: 'cash', paid_at: '2026-01-03T09:00:00Z' },
+        ],
+      }],
+      []
+    );
+
+    expect(ledger.map(entry => [entry.type, entry.balance])).toEqual([
+      ['charge', 1000],
+      ['payment', 0],
+      ['refund', 200],
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { formatInvoiceNumber, getInvoiceBalance, roundMoney, type InvoiceStatus } from '@/lib/invoice';
+
+export type LedgerEntryType =
+  | 'charge'
+  | 'void'
+  | 'payment'
+  | 'refund'
+  | 'credit_note'
+  | 'write_off'
+  | 'prepayment'
+  | 'credit_applied';
+
+export interface LedgerInvoice {
+  id: string;
+  invoice_number: string | null;
+  status: InvoiceStatus;
+  created_at: string;
+  voided_at?: string | null;
+  total_amount: number;
+  adjustment_total?: number | null;
+  payments?: {
+    id: string;
+    amount: number;
+    method?: string | null;
+    paid_at: string;
+    receipt_number?: string | null;
+    credit_id?: string | null;
+  }[] | null;
+  invoice_adjustments?: {
+    id: string;
+    kind: string;
+    amount: number;
+    status: string;
+    reason_code: string;
+    document_number?: string | null;
+    decided_at?: string | null;
+  }[] | null;
+}
+
+export interface LedgerCredit {
+  id: string;
+  amount: number;
+  method: string;
+  reference?: string | null;
+  received_at: string;
+  receipt_number?: string | null;
+  payments?: { amount: number }[] | null; // applications of this credit
+}
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  type: LedgerEntryType;
+  description: string;
+  reference: string | null;
+  invoiceId?: string;
+  debit: number; // increases what the patient owes
+  credit: number; // decreases what the patient owes
+  memo?: number; // moves money between credit and an invoice without changing the balance
+  balance: number;
+}
+
+export interface AccountSummary {
+  totalBilled: number;
+  totalPaid: number; // money received: invoice payments plus prepayments, net of refunds
+  outstanding: number; // unpaid on invoices
+  unappliedCredit: number; // prepayments not yet applied, plus anything overpaid on invoices
+  balance: number; // outstanding minus unapplied credit; negative when the patient is in credit
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  charge: 'Invoice',
+  void: 'Void',
+  payment: 'Payment',
+  refund: 'Refund',
+  credit_note: 'Credit note',
+  write_off: 'Write-off',
+  prepayment: 'Prepayment',
+  credit_applied: 'Credit applied',
+};
+
+// Within the same instant, charges come before what settles them
+const TYPE_ORDER: Record<LedgerEntryType, number> = {
+  charge: 0,
+  prepayment: 1,
+  payment: 2,
+  credit_applied: 3,
+  credit_note: 4,
+  write_off: 5,
+  refund: 6,
+  void: 7,
+};
+
+const isCreditApplication = (payment: { method?: string | null; credit_id?: string | null }) =>
+  !!payment.credit_id || payment.method === 'credit';
+
+/**
+ * Unpaid amount across issued invoices. Void invoices owe nothing and drafts are not yet issued.
+ * Analytics uses the same sum for the clinic-wide outstanding balance.
+ */
+export function getOutstandingBalance(
+  invoices: Pick<LedgerInvoice, 'status' | 'total_amount' | 'adjustment_total' | 'payments'>[]
+): number {
+  return roundMoney(
+    invoices
+      .filter(invoice => invoice.status !== 'draft')
+      .reduce((sum, invoice) => sum + Math.max(0, getInvoiceBalance(invoice)), 0)
+  );
+}
+
+export function getUnappliedCredit(credit: Pick<LedgerCredit, 'amount' | 'payments'>): number {
+  const applied = (credit.payments || []).reduce((sum, p) => sum + Number(p.amount), 0);
+  return roundMoney(Number(credit.amount) - applied);
+}
+
+export function getAccountSummary(invoices: LedgerInvoice[], credits: LedgerCredit[]): AccountSummary {
+  const issued = invoices.filter(invoice => invoice.status !== 'draft' && invoice.status !== 'void');
+  const totalBilled = roundMoney(issued.reduce((sum, invoice) => sum + Number(invoice.total_amount), 0));
+  const paidOnInvoices = issued
+    .flatMap(invoice => invoice.payments || [])
+    .filter(payment => !isCreditApplication(payment))
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const prepaid = credits.reduce((sum, credit) => sum + Number(credit.amount), 0);
+  const outstanding = getOutstandingBalance(invoices);
+  const overpaid = issued.reduce((sum, invoice) => sum + Math.max(0, -getInvoiceBalance(invoice)), 0);
+  const unappliedCredit = roundMoney(
+    credits.reduce((sum, credit) => sum + getUnappliedCredit(credit), 0) + overpaid
+  );
+
+  return {
+    totalBilled,
+    totalPaid: roundMoney(paidOnInvoices + prepaid),
+    outstanding,
+    unappliedCredit,
+    balance: roundMoney(outstanding - unappliedCredit),
+  };
+}
+
+/**
+ * Every charge, payment and credit on the patient's account in date order, with a running balance.
+ * The final balance equals getAccountSummary().balance.
+ */
+export function buildPatientLedger(invoices: LedgerInvoice[], credits: LedgerCredit[]): LedgerEntry[] {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+  invoices
+    .filter(invoice => invoice.status !== 'draft')
+    .forEach(invoice => {
+      const number = formatInvoiceNumber(invoice);
+      const total = roundMoney(invoice.total_amount);
+
+      entries.push({
+        id: `charge-${invoice.id}`,
+        date: invoice.created_at,
+        type: 'charge',
+        description: `Invoice ${number}`,
+        reference: number,
+        invoiceId: invoice.id,
+        debit: total,
+        credit: 0,
+      });
+
+      if (invoice.status === 'void') {
+        entries.push({
+          id: `void-${invoice.id}`,
+          date: invoice.voided_at || invoice.created_at,
+          type: 'void',
+          description: `Invoice ${number} voided`,
+          reference: number,
+          invoiceId: invoice.id,
+          debit: 0,
+          credit: total,
+        });
+      }
+
+      (invoice.invoice_adjustments || [])
+        .filter(adjustment => adjustment.status === 'approved' && adjustment.kind !== 'refund')
+        .forEach(adjustment => {
+          const isCreditNote = adjustment.kind === 'credit_note';
+          entries.push({
+            id: `adjustment-${adjustment.id}`,
+            date: adjustment.decided_at || invoice.created_at,
+            type: isCreditNote ? 'credit_note' : 'write_off',
+            description: `${isCreditNote ? 'Credit note' : 'Write-off'} on ${number}`,
+            reference: adjustment.document_number || null,
+            invoiceId: invoice.id,
+            debit: 0,
+            credit: roundMoney(adjustment.amount),
+          });
+        });
+
+      (invoice.payments || []).forEach(payment => {
+        const amount = roundMoney(payment.amount);
+
+        if (isCreditApplication(payment)) {
+          entries.push({
+            id: `payment-${payment.id}`,
+            date: payment.paid_at,
+            type: 'credit_applied',
+            description: `Credit applied to ${number}`,
+            reference: number,
+            invoiceId: invoice.id,
+            debit: 0,
+            credit: 0,
+            memo: amount,
+          });
+        } else if (amount < 0) {
+          entries.push({
+            id: `payment-${payment.id}`,
+            date: payment.paid_at,
+            type: 'refund',
+            description: `Refund on ${number}`,
+            reference: payment.receipt_number || null,
+            invoiceId: invoice.id,
+            debit: -amount,
+            credit: 0,
+          });
+        } else {
+          entries.push({
+            id: `payment-${payment.id}`,
+            date: payment.paid_at,
+            type: 'payment',
+            description: `Payment on ${number}`,
+            reference: payment.receipt_number || null,
+            invoiceId: invoice.id,
+            debit: 0,
+            credit: amount,
+          });
+        }
+      });
+    });
+
+  credits.forEach(credit => {
+    entries.push({
+      id: `credit-${credit.id}`,
+      date: credit.received_at,
+      type: 'prepayment',
+      description: credit.reference ? `Prepayment · ${credit.reference}` : 'Prepayment',
+      reference: credit.receipt_number || null,
+      debit: 0,
+      credit: roundMoney(credit.amount),
+    });
+  });
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance = roundMoney(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+}
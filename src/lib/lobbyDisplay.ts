@@ -0,0 +1,42 @@
+export type LobbyLabelMode = 'initials' | 'ticket';
+
+export interface LobbyQueueEntry {
+  id: string; // appointment id
+  label: string; // initials or ticket number, never the name
+  stage: 'arrived' | 'ready';
+}
+
+export interface LobbyCallUp {
+  id: string; // appointment id
+  label: string;
+  room: string | null;
+  called_at: string;
+}
+
+/**
+ * What the lobby-display edge function returns for a device token
+ */
+export interface LobbyBoard {
+  clinic_name: string;
+  label_mode: LobbyLabelMode;
+  ready: LobbyQueueEntry[]; // in ready-queue order
+  arrived: LobbyQueueEntry[]; // still checking in
+  called: LobbyCallUp[]; // in the chair, latest first
+  average_visit_minutes: number;
+  chairs_in_use: number;
+}
+
+/**
+ * Minutes until the patient at `position` (0 is next) in the ready queue is likely called.
+ * Chairs in use free up one visit length apart, so each full round of chairs ahead adds one
+ * visit. Rounded up to 5 minutes; a screen should never promise more precision than that.
+ */
+export function estimateWaitMinutes(position: number, averageVisitMinutes: number, chairs: number): number {
+  const rounds = Math.floor(position / Math.max(1, chairs)) + 1;
+  return Math.ceil((rounds * averageVisitMinutes) / 5) * 5;
+}
+
+export function formatCallUp(callUp: LobbyCallUp, labelMode: LobbyLabelMode): string {
+  const who = labelMode === 'ticket' ? `Ticket ${callUp.label}` : `Patient ${callUp.label}`;
+  return callUp.room ? `${who} — ${callUp.room}, please proceed` : `${who}, please proceed`;
+}
@@ -0,0 +1,178 @@
+export type ToothSet = 'primary' | 'permanent';
+export type Quadrant = 'UR' | 'UL' | 'LL' | 'LR';
+export type ToothNumbering = 'fdi' | 'universal';
+export type AgeBracket = 'Primary' | 'Mixed' | 'Permanent';
+export type ToothSurface = 'M' | 'O' | 'D' | 'B' | 'L';
+
+export interface ToothRef {
+  toothSet: ToothSet;
+  quadrant: Quadrant;
+  toothNumber: number; // 1 = central incisor, counting distally
+}
+
+// FDI quadrant digits: 1-4 for permanent teeth, 5-8 for primary teeth
+const FDI_QUADRANT: Record<ToothSet, Record<Quadrant, number>> = {
+  permanent: { UR: 1, UL: 2, LL: 3, LR: 4 },
+  primary: { UR: 5, UL: 6, LL: 7, LR: 8 },
+};
+
+export const TOOTH_SURFACES: { value: ToothSurface; label: string }[] = [
+  { value: 'M', label: 'Mesial' },
+  { value: 'O', label: 'Occlusal / Incisal' },
+  { value: 'D', label: 'Distal' },
+  { value: 'B', label: 'Buccal / Labial' },
+  { value: 'L', label: 'Lingual / Palatal' },
+];
+
+export const TEETH_PER_QUADRANT: Record<ToothSet, number> = {
+  permanent: 8,
+  primary: 5,
+};
+
+/**
+ * Stable key for a tooth, used to group findings on the chart
+ */
+export function toothKey(tooth: ToothRef): string {
+  return `${tooth.toothSet}-${tooth.quadrant}${tooth.toothNumber}`;
+}
+
+export function isSameTooth(a?: ToothRef | null, b?: ToothRef | null): boolean {
+  if (!a || !b) return false;
+  return toothKey(a) === toothKey(b);
+}
+
+/**
+ * FDI two-digit notation (e.g. UR first molar = 16, primary UL canine = 63)
+ */
+export function toFdi(tooth: ToothRef): string {
+  return `${FDI_QUADRANT[tooth.toothSet][tooth.quadrant]}${tooth.toothNumber}`;
+}
+
+/**
+ * Universal notation: 1-32 for permanent teeth, A-T for primary teeth,
+ * starting at the upper right and going clockwise from the dentist's view
+ */
+export function toUniversal(tooth: ToothRef): string {
+  const n = tooth.toothNumber;
+
+  if (tooth.toothSet === 'primary') {
+    const index = {
+      UR: 5 - n,
+      UL: 4 + n,
+      LL: 15 - n,
+      LR: 14 + n,
+    }[tooth.quadrant];
+    return String.fromCharCode(65 + index);
+  }
+
+  return {
+    UR: 9 - n,
+    UL: 8 + n,
+    LL: 25 - n,
+    LR: 24 + n,
+  }[tooth.quadrant].toString();
+}
+
+export function formatTooth(tooth: ToothRef, numbering: ToothNumbering): string {
+  return numbering === 'universal' ? toUniversal(tooth) : toFdi(tooth);
+}
+
+/**
+ * Surfaces in conventional M-O-D-B-L order, e.g. ['O', 'M'] -> "MO"
+ */
+export function formatSurfaces(surfaces?: string[] | null): string {
+  if (!surfaces?.length) return '';
+  return TOOTH_SURFACES
+    .map(s => s.value)
+    .filter(value => surfaces.includes(value))
+    .join('');
+}
+
+/**
+ * Build a ToothRef from the visit_diagnoses columns, or null for general findings
+ */
+export function toothFromFinding(finding: {
+  tooth_set?: string | null;
+  quadrant?: string | null;
+  tooth_number?: number | null;
+}): ToothRef | null {
+  if (!finding.tooth_set || finding.tooth_set === 'none' || !finding.quadrant || !finding.tooth_number) {
+    return null;
+  }
+
+  return {
+    toothSet: finding.tooth_set as ToothSet,
+    quadrant: finding.quadrant as Quadrant,
+    toothNumber: finding.tooth_number,
+  };
+}
+
+/**
+ * Short quadrant notation used in clinical lists and invoices,
+ * e.g. "UR6 MO", or "ULC" for a primary canine. With a numbering the tooth is written in
+ * it instead ("16 MO" in FDI). General findings return 'General'.
+ */
+export function formatToothLocation(
+  finding: {
+    tooth_set?: string | null;
+    quadrant?: string | null;
+    tooth_number?: number | null;
+    surfaces?: string[] | null;
+  },
+  numbering?: ToothNumbering
+): string {
+  const tooth = toothFromFinding(finding);
+  if (!tooth) return 'General';
+
+  if (numbering) {
+    return [formatTooth(tooth, numbering), formatSurfaces(finding.surfaces)].filter(Boolean).join(' ');
+  }
+
+  const displayNumber = tooth.toothSet === 'primary'
+    ? String.fromCharCode(64 + tooth.toothNumber) // A, B, C, D, E
+    : tooth.toothNumber.toString();
+  const surfaces = formatSurfaces(finding.surfaces);
+
+  return surfaces ? `${tooth.quadrant}${displayNumber} ${surfaces}` : `${tooth.quadrant}${displayNumber}`;
+}
+
+/**
+ * One arch row as seen facing the patient: patient's right side on the left of the screen
+ */
+function archRow(toothSet: ToothSet, upper: boolean): ToothRef[] {
+  const count = TEETH_PER_QUADRANT[toothSet];
+  const right: Quadrant = upper ? 'UR' : 'LR';
+  const left: Quadrant = upper ? 'UL' : 'LL';
+
+  const rightSide = Array.from({ length: count }, (_, i) => ({
+    toothSet,
+    quadrant: right,
+    toothNumber: count - i,
+  }));
+  const leftSide = Array.from({ length: count }, (_, i) => ({
+    toothSet,
+    quadrant: left,
+    toothNumber: i + 1,
+  }));
+
+  return [...rightSide, ...leftSide];
+}
+
+/**
+ * Chart rows for an age bracket, top to bottom.
+ * Mixed dentition shows the primary arches inside the permanent ones.
+ */
+export function getChartRows(ageBracket: AgeBracket): ToothRef[][] {
+  if (ageBracket === 'Primary') {
+    return [archRow('primary', true), archRow('primary', false)];
+  }
+  if (ageBracket === 'Mixed') {
+    return [
+      archRow('permanent', true),
+      archRow('primary', true),
+      archRow('primary', false),
+      archRow('permanent', false),
+    ];
+  }
+  return [archRow('permanent', true), archRow('permanent', false)];
+}
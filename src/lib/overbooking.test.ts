@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OVERBOOKING_POLICY, evaluateOverbooking } from '@/lib/overbooking';
+
+describe('evaluateOverbooking', () => {
+  it('allows a booking within the limits', () => {
+    expect(evaluateOverbooking(DEFAULT_OVERBOOKING_POLICY, { providerOverlaps: 0, roomOverlaps: 0 }, 'receptionist')).toEqual({
+      withinPolicy: true,
+      canOverride: true,
+      message: null,
+    });
+  });
+
+  it('names every limit that is reached', () => {
+    const check = evaluateOverbooking(DEFAULT_OVERBOOKING_POLICY, { providerOverlaps: 1, roomOverlaps: 2 }, 'doctor');
+
+    expect(check.withinPolicy).toBe(false);
+    expect(check.canOverride).toBe(true);
+    expect(check.message).toBe(
+      'The provider already has 1 appointment at this time (limit 1) and the room already has 2 appointments at this time (limit 1)'
+    );
+  });
+
+  it('only lets the policy roles override', () => {
+    const policy = { ...DEFAULT_OVERBOOKING_POLICY, max_per_provider: 2 };
+
+    expect(evaluateOverbooking(policy, { providerOverlaps: 1, roomOverlaps: 0 }, 'receptionist').withinPolicy).toBe(true);
+    expect(evaluateOverbooking(policy, { providerOverlaps: 2, roomOverlaps: 0 }, 'receptionist').canOverride).toBe(false);
+    expect(evaluateOverbooking(policy, { providerOverlaps: 2, roomOverlaps: 0 }, null).canOverride).toBe(false);
+  });
+});
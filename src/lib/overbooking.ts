@@ -0,0 +1,60 @@
+import type { UserRole } from '@/lib/roles';
+
+/**
+ * How far a clinic lets bookings overlap. The limits count every appointment at the
+ * same moment, so 1 means no double-booking.
+ */
+export interface OverbookingPolicy {
+  max_per_provider: number;
+  max_per_room: number;
+  override_roles: UserRole[]; // who may book past the limits, with a reason
+}
+
+export const DEFAULT_OVERBOOKING_POLICY: OverbookingPolicy = {
+  max_per_provider: 1,
+  max_per_room: 1,
+  override_roles: ['admin', 'doctor'],
+};
+
+/**
+ * Appointments already overlapping the time being booked
+ */
+export interface BookingLoad {
+  providerOverlaps: number;
+  roomOverlaps: number;
+}
+
+export interface OverbookingCheck {
+  withinPolicy: boolean;
+  canOverride: boolean; // whether the current role may overbook with a reason
+  message: string | null;
+}
+
+/**
+ * Whether one more appointment fits the policy, and if not, what is over and who can approve it
+ */
+export function evaluateOverbooking(
+  policy: OverbookingPolicy,
+  load: BookingLoad,
+  role: UserRole | null | undefined
+): OverbookingCheck {
+  const problems: string[] = [];
+
+  if (load.providerOverlaps >= policy.max_per_provider) {
+    problems.push(`the provider already has ${load.providerOverlaps} appointment${load.providerOverlaps === 1 ? '' : 's'} at this time (limit ${policy.max_per_provider})`);
+  }
+  if (load.roomOverlaps >= policy.max_per_room) {
+    problems.push(`the room already has ${load.roomOverlaps} appointment${load.roomOverlaps === 1 ? '' : 's'} at this time (limit ${policy.max_per_room})`);
+  }
+
+  if (problems.length === 0) {
+    return { withinPolicy: true, canOverride: true, message: null };
+  }
+
+  const message = problems.join(' and ');
+  return {
+    withinPolicy: false,
+    canOverride: !!role && policy.override_roles.includes(role),
+    message: message.charAt(0).toUpperCase() + message.slice(1),
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ANY_DOCTOR_LANE, buildQueueLanes, moveInQueue, type QueueItem } from '@/lib/readyQueue';
+
+const providers = [
+  { id: 'dr-a', display_name: 'Dr. A' },
+  { id: 'dr-b', display_name: 'Dr. B' },
+];
+
+const items: QueueItem[] = [
+  { id: 'p1', provider_id: 'dr-a' },
+  { id: 'p2', provider_id: 'dr-a' },
+  { id: 'p3', provider_id: 'dr-b' },
+  { id: 'p4', provider_id: null },
+];
+
+const ids = (lane: { items: QueueItem[] }) => lane.items.map(item => item.id);
+
+describe('moveInQueue', () => {
+  it('reorders within a lane without reassigning', () => {
+    const moved = moveInQueue(buildQueueLanes(items, providers), 'p1', 'p2');
+
+    expect(moved?.reassigned).toBe(false);
+    expect(moved?.target.id).toBe('dr-a');
+    expect(ids(moved!.target)).toEqual(['p2', 'p1']);
+  });
+
+  it('moves a patient to another lane in front of the patient dropped on', () => {
+    const moved = moveInQueue(buildQueueLanes(items, providers), 'p1', 'p3');
+
+    expect(moved?.reassigned).toBe(true);
+    expect(moved?.target.providerId).toBe('dr-b');
+    expect(ids(moved!.target)).toEqual(['p1', 'p3']);
+    expect(moved!.target.items[0].provider_id).toBe('dr-b');
+    expect(ids(moved!.lanes.find(lane => lane.id === 'dr-a')!)).toEqual(['p2']);
+  });
+
+  it('moves a patient to the end of a lane dropped on directly', () => {
+    const lanes = buildQueueLanes(items, providers);
+
+    const toShared = moveInQueue(lanes, 'p3', ANY_DOCTOR_LANE);
+    expect(toShared?.reassigned).toBe(true);
+    expect(toShared?.target.providerId).toBeNull();
+    expect(ids(toShared!.target)).toEqual(['p4', 'p3']);
+    expect(ids(toShared!.lanes.find(lane => lane.id === 'dr-b')!)).toEqual([]);
+  });
+
+  it('ignores a drop on the patient itself', () => {
+    expect(moveInQueue(buildQueueLanes(items, providers), 'p1', 'p1')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+export type QueuePriority = 'emergency' | 'pain';
+
+export const QUEUE_PRIORITY_LABELS: Record<QueuePriority, string> = {
+  emergency: 'Emergency',
+  pain: 'Pain',
+};
+
+// Lane id of the shared queue for appointments without a provider
+export const ANY_DOCTOR_LANE = 'any-doctor';
+
+export interface QueueItem {
+  id: string; // appointment id
+  provider_id: string | null;
+  queue_priority?: QueuePriority | null;
+}
+
+export interface QueueLane<T extends QueueItem> {
+  id: string;
+  providerId: string | null;
+  name: string;
+  items: T[];
+}
+
+export function getLaneId(providerId: string | null) {
+  return providerId || ANY_DOCTOR_LANE;
+}
+
+/**
+ * One lane for the shared queue, then one per provider, each holding its patients in the
+ * order given. Providers without patients still get a lane so patients can be dropped on it.
+ */
+export function buildQueueLanes<T extends QueueItem>(
+  items: T[],
+  providers: { id: string; display_name: string }[],
+  getProviderName: (item: T) => string | undefined = () => undefined
+): QueueLane<T>[] {
+  const lanes: QueueLane<T>[] = [
+    { id: ANY_DOCTOR_LANE, providerId: null, name: 'Any doctor', items: [] },
+    ...providers.map(p => ({ id: p.id, providerId: p.id, name: p.display_name, items: [] as T[] })),
+  ];
+
+  items.forEach(item => {
+    let lane = lanes.find(l => l.id === getLaneId(item.provider_id));
+    if (!lane) {
+      // A provider who is no longer active still has their waiting patients shown
+      lane = { id: item.provider_id!, providerId: item.provider_id, name: getProviderName(item) || 'Other doctor', items: [] };
+      lanes.push(lane);
+    }
+    lane.items.push(item);
+  });
+
+  return lanes;
+}
+
+/**
+ * Where a dragged patient lands. `overId` is the patient dropped on or an (empty) lane.
+ * Returns the lanes as they look after the drop, the lane whose order needs saving and
+ * whether the patient changed lanes (and so provider), or null when nothing moved.
+ */
+export function moveInQueue<T extends QueueItem>(
+  lanes: QueueLane<T>[],
+  activeId: string,
+  overId: string
+): { lanes: QueueLane<T>[]; target: QueueLane<T>; reassigned: boolean } | null {
+  const from = lanes.find(l => l.items.some(i => i.id === activeId));
+  const to = lanes.find(l => l.id === overId) || lanes.find(l => l.items.some(i => i.id === overId));
+  if (!from || !to || activeId === overId) return null;
+
+  const item = from.items.find(i => i.id === activeId)!;
+  const remaining = to.items.filter(i => i.id !== activeId);
+  const overIndex = remaining.findIndex(i => i.id === overId);
+
+  let index = overIndex === -1 ? remaining.length : overIndex;
+  // Moving down within a lane lands after the patient dropped on
+  if (from === to && overIndex !== -1 && from.items.indexOf(item) <= overIndex) index += 1;
+
+  const targetItems = [...remaining.slice(0, index), { ...item, provider_id: to.providerId }, ...remaining.slice(index)];
+  const target = { ...to, items: targetItems };
+
+  return {
+    lanes: lanes.map(l => {
+      if (l.id === to.id) return target;
+      if (l.id === from.id) return { ...l, items: l.items.filter(i => i.id !== activeId) };
+      return l;
+    }),
+    target,
+    reassigned: from !== to,
+  };
+}
+
+/**
+ * A doctor's queue: flagged patients from their own and the shared queue first, then their
+ * own patients, then the shared ones. Each queue is expected in its saved order.
+ */
+export function mergeDoctorQueue<T extends QueueItem>(items: T[], providerId: string): T[] {
+  const rank = (item: T) => {
+    if (item.queue_priority === 'emergency') return 0;
+    if (item.queue_priority === 'pain') return 1;
+    return item.provider_id === providerId ? 2 : 3;
+  };
+
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
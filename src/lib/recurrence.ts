@@ -0,0 +1,130 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  parseISO,
+  startOfMonth,
+} from 'date-fns';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every n weeks or months
+  weekday?: number | null; // 0 = Sunday. Weekly series move to this day; monthly series keep its nth occurrence in the month
+  count?: number | null;
+  until?: string | null; // yyyy-MM-dd, inclusive
+}
+
+export interface Occurrence {
+  index: number;
+  start: Date;
+  end: Date;
+}
+
+// Which appointments of a series an edit or cancellation applies to
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export const SERIES_SCOPES: { value: SeriesScope; label: string }[] = [
+  { value: 'this', label: 'This occurrence' },
+  { value: 'following', label: 'This and following' },
+  { value: 'all', label: 'All occurrences' },
+];
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weeks' },
+  { value: 'monthly', label: 'Months' },
+];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', 'last'];
+
+// 1-based week of the month a date falls in; the 5th becomes "last"
+const getWeekOfMonth = (date: Date) => Math.min(Math.ceil(date.getDate() / 7), 5);
+
+/**
+ * The nth given weekday of a month, keeping the time of `time`. The 5th falls back
+ * to the last one when the month doesn't have five.
+ */
+function getNthWeekdayOfMonth(month: Date, weekday: number, nth: number, time: Date): Date {
+  const first = startOfMonth(month);
+  let date = addDays(first, (weekday - first.getDay() + 7) % 7 + (nth - 1) * 7);
+  if (date.getMonth() !== first.getMonth()) date = addWeeks(date, -1);
+  date.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return date;
+}
+
+/**
+ * Dates of a series, starting with the first one on or after `firstStart` that matches
+ * the rule. Stops at the count, the end date or MAX_SERIES_OCCURRENCES, whichever comes first.
+ */
+export function generateOccurrences(firstStart: Date, durationMinutes: number, rule: RecurrenceRule): Occurrence[] {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+  const hasWeekday = rule.weekday !== null && rule.weekday !== undefined;
+
+  if (!rule.count && !until) return [];
+
+  const first = hasWeekday
+    ? addDays(firstStart, (rule.weekday! - firstStart.getDay() + 7) % 7)
+    : firstStart;
+  const nth = getWeekOfMonth(first);
+  const occurrences: Occurrence[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    let start: Date;
+    if (rule.frequency === 'weekly') {
+      start = addWeeks(first, index * interval);
+    } else if (hasWeekday) {
+      start = getNthWeekdayOfMonth(addMonths(startOfMonth(first), index * interval), rule.weekday!, nth, first);
+    } else {
+      start = addMonths(first, index * interval);
+    }
+
+    if (until && start > until) break;
+    occurrences.push({ index, start, end: addMinutes(start, durationMinutes) });
+  }
+
+  return occurrences;
+}
+
+/**
+ * e.g. "Every 4 weeks on Tuesday, 6 times" or "Every 3 months on the 2nd Monday until Mar 1, 2027"
+ */
+export function describeRecurrence(rule: RecurrenceRule, firstStart?: Date): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = rule.frequency === 'weekly' ? 'week' : 'month';
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.weekday !== null && rule.weekday !== undefined) {
+    if (rule.frequency === 'weekly') {
+      text += ` on ${WEEKDAYS[rule.weekday]}`;
+    } else if (firstStart) {
+      const first = addDays(firstStart, (rule.weekday - firstStart.getDay() + 7) % 7);
+      text += ` on the ${ORDINALS[getWeekOfMonth(first) - 1]} ${WEEKDAYS[rule.weekday]}`;
+    }
+  }
+
+  if (rule.count) text += `, ${rule.count} times`;
+  else if (rule.until) text += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+
+  return text;
+}
+
+/**
+ * Move an occurrence by the same calendar-day offset and to the same time of day as an
+ * edited one, so shifting a series stays on the clinic clock across DST changes.
+ */
+export function shiftOccurrence(start: Date, from: Date, to: Date): Date {
+  const shifted = addDays(start, differenceInCalendarDays(to, from));
+  shifted.setHours(to.getHours(), to.getMinutes(), 0, 0);
+  return shifted;
+}
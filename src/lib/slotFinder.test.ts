@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import type { AvailabilityConfig, DaySchedule } from '@/lib/availability';
+import { findAvailableSlots, type SlotBooking } from '@/lib/slotFinder';
+
+const closedWeek: DaySchedule = { mon: [], tue: [], wed: [], thu: [], fri: [], sat: [], sun: [], exceptions: [] };
+
+// Mornings on Mondays only
+const availability: AvailabilityConfig = {
+  timezone: 'Africa/Cairo',
+  slot_minutes: 30,
+  clinic: { ...closedWeek, mon: [{ start: '09:00', end: '12:00' }] },
+  rooms: {},
+};
+
+// A Monday far enough ahead to never be in the past
+const monday = new Date(2036, 0, 7);
+const resources = { providerIds: ['dr-a', 'dr-b'], roomIds: ['room-1'] };
+
+const at = (hour: number, minute = 0) => new Date(2036, 0, 7, hour, minute).toISOString();
+const times = (slots: { start: Date }[]) => slots.map(slot => format(slot.start, 'EEE HH:mm'));
+
+describe('findAvailableSlots', () => {
+  it('offers the earliest distinct times of the day', () => {
+    const slots = findAvailableSlots(availability, [], { durationMinutes: 60, earliestDate: monday, searchDays: 1 }, resources);
+
+    expect(times(slots)).toEqual(['Mon 09:00', 'Mon 10:00', 'Mon 11:00']);
+    expect(slots[0]).toMatchObject({ providerId: 'dr-a', roomId: 'room-1' });
+  });
+
+  it('skips times when the room is booked', () => {
+    const bookings: SlotBooking[] = [{ starts_at: at(9), ends_at: at(10), provider_id: null, room_id: 'room-1' }];
+
+    const slots = findAvailableSlots(availability, bookings, { durationMinutes: 30, earliestDate: monday, searchDays: 1 }, resources);
+
+    expect(times(slots)).toEqual(['Mon 10:00', 'Mon 10:30', 'Mon 11:00']);
+  });
+
+  it('falls back to another provider when the first is busy', () => {
+    const bookings: SlotBooking[] = [{ starts_at: at(9), ends_at: at(9, 30), provider_id: 'dr-a', room_id: null }];
+
+    const [first] = findAvailableSlots(availability, bookings, { durationMinutes: 30, earliestDate: monday, searchDays: 1 }, resources);
+
+    expect(first).toMatchObject({ providerId: 'dr-b' });
+    expect(times([first])).toEqual(['Mon 09:00']);
+  });
+
+  it('keeps to the requested provider, weekdays and time of day', () => {
+    const bookings: SlotBooking[] = [{ starts_at: at(9), ends_at: at(12), provider_id: 'dr-a', room_id: null }];
+    const criteria = { durationMinutes: 30, earliestDate: monday, searchDays: 7 };
+
+    expect(findAvailableSlots(availability, bookings, { ...criteria, providerId: 'dr-a' }, resources)).toEqual([]);
+    expect(findAvailableSlots(availability, [], { ...criteria, weekdays: [2, 3] }, resources)).toEqual([]);
+    expect(findAvailableSlots(availability, [], { ...criteria, timeWindow: 'afternoon' }, resources)).toEqual([]);
+  });
+
+  it('spreads candidates over several weeks up to the limit', () => {
+    const slots = findAvailableSlots(
+      availability,
+      [],
+      { durationMinutes: 60, earliestDate: monday, searchDays: 14, perDay: 1, limit: 5 },
+      resources
+    );
+
+    expect(slots.map(slot => format(slot.start, 'yyyy-MM-dd HH:mm'))).toEqual(['2036-01-07 09:00', '2036-01-14 09:00']);
+  });
+});
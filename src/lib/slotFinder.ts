@@ -0,0 +1,118 @@
+import { addDays, addMinutes, startOfDay } from 'date-fns';
+import { parseAvailability, type AvailabilityConfig, type SlotTime } from '@/lib/availability';
+
+export type TimeWindow = 'any' | 'morning' | 'afternoon' | 'evening';
+
+export const TIME_WINDOWS: { value: TimeWindow; label: string; from: number; to: number }[] = [
+  { value: 'any', label: 'Any time', from: 0, to: 24 * 60 },
+  { value: 'morning', label: 'Morning (before 12:00)', from: 0, to: 12 * 60 },
+  { value: 'afternoon', label: 'Afternoon (12:00–17:00)', from: 12 * 60, to: 17 * 60 },
+  { value: 'evening', label: 'Evening (after 17:00)', from: 17 * 60, to: 24 * 60 },
+];
+
+export interface SlotSearchCriteria {
+  durationMinutes: number;
+  earliestDate: Date;
+  providerId?: string; // any free provider when omitted
+  roomId?: string; // any open, free room when omitted
+  weekdays?: number[]; // 0 = Sunday; any day when empty
+  timeWindow?: TimeWindow;
+  limit?: number;
+  searchDays?: number; // how far ahead to look
+  perDay?: number; // spread candidates over several days
+}
+
+export interface SlotCandidate {
+  start: Date;
+  end: Date;
+  providerId: string | null;
+  roomId: string | null;
+}
+
+export interface SlotBooking {
+  starts_at: string;
+  ends_at: string;
+  provider_id: string | null;
+  room_id: string | null;
+}
+
+export const DEFAULT_SEARCH_DAYS = 30;
+
+const overlaps = (booking: SlotBooking, start: Date, end: Date) =>
+  new Date(booking.starts_at) < end && new Date(booking.ends_at) > start;
+
+/**
+ * Earliest free slots of the requested length, across rooms and providers. Each room
+ * only offers its own hours (clinic hours, room hours and both sets of exceptions), each
+ * provider only their working hours outside time off, and a slot is skipped when its
+ * room or every eligible provider is already booked.
+ * Returns non-overlapping candidates, earliest first, with at most `perDay` on any day.
+ */
+export function findAvailableSlots(
+  availability: AvailabilityConfig,
+  bookings: SlotBooking[],
+  criteria: SlotSearchCriteria,
+  { providerIds, roomIds }: { providerIds: string[]; roomIds: string[] }
+): SlotCandidate[] {
+  const limit = criteria.limit ?? 5;
+  const perDay = criteria.perDay ?? 3;
+  const step = availability.slot_minutes || 15;
+  const hours = TIME_WINDOWS.find(w => w.value === (criteria.timeWindow || 'any'))!;
+  const now = new Date();
+  const notBefore = criteria.earliestDate > now ? criteria.earliestDate : now;
+
+  const rooms: (string | null)[] = criteria.roomId ? [criteria.roomId] : roomIds.length ? roomIds : [null];
+  const providers: (string | null)[] = criteria.providerId ? [criteria.providerId] : providerIds.length ? providerIds : [null];
+  const candidates: SlotCandidate[] = [];
+
+  for (let dayOffset = 0; dayOffset < (criteria.searchDays ?? DEFAULT_SEARCH_DAYS); dayOffset++) {
+    const day = addDays(startOfDay(criteria.earliestDate), dayOffset);
+    if (criteria.weekdays?.length && !criteria.weekdays.includes(day.getDay())) continue;
+
+    // Earliest free room and provider for every start time on this day
+    const byStart = new Map<number, SlotCandidate>();
+    const openHours = new Map<string, SlotTime[]>();
+    const isWorking = (roomId: string | null, providerId: string, start: Date, end: Date) => {
+      const key = `${roomId}|${providerId}`;
+      if (!openHours.has(key)) {
+        openHours.set(key, parseAvailability(availability, day, roomId || undefined, providerId));
+      }
+      return openHours.get(key)!.some(range => start >= range.start && end <= range.end);
+    };
+
+    for (const roomId of rooms) {
+      for (const range of parseAvailability(availability, day, roomId || undefined)) {
+        for (let start = range.start; addMinutes(start, criteria.durationMinutes) <= range.end; start = addMinutes(start, step)) {
+          const end = addMinutes(start, criteria.durationMinutes);
+          const minutes = start.getHours() * 60 + start.getMinutes();
+
+          if (start < notBefore || byStart.has(start.getTime())) continue;
+          if (minutes < hours.from || minutes >= hours.to) continue;
+          if (roomId && bookings.some(b => b.room_id === roomId && overlaps(b, start, end))) continue;
+
+          const providerId = providers.find(id =>
+            !id || (isWorking(roomId, id, start, end) && !bookings.some(b => b.provider_id === id && overlaps(b, start, end)))
+          );
+          if (providerId === undefined) continue;
+
+          byStart.set(start.getTime(), { start, end, providerId, roomId });
+        }
+      }
+    }
+
+    // Offer distinct times rather than the same slot shifted by a few minutes
+    let dayCount = 0;
+    let lastEnd: Date | null = null;
+    for (const slot of Array.from(byStart.values()).sort((a, b) => a.start.getTime() - b.start.getTime())) {
+      if (dayCount >= perDay) break;
+      if (lastEnd && slot.start < lastEnd) continue;
+      candidates.push(slot);
+      lastEnd = slot.end;
+      dayCount++;
+    }
+
+    if (candidates.length >= limit) break;
+  }
+
+  return candidates.slice(0, limit);
+}
@@ -0,0 +1,47 @@
+import type { QueuePriority } from '@/lib/readyQueue';
+
+export interface TriageAnswers {
+  chief_complaint: string;
+  pain_score: number; // 0–10
+  swelling: boolean;
+  bleeding: boolean;
+  trauma: boolean;
+}
+
+export const EMPTY_TRIAGE: TriageAnswers = {
+  chief_complaint: '',
+  pain_score: 0,
+  swelling: false,
+  bleeding: false,
+  trauma: false,
+};
+
+// Pain scores from here on count as severe / as worth seeing sooner
+const SEVERE_PAIN = 7;
+const MODERATE_PAIN = 4;
+
+/**
+ * The queue priority the answers call for: trauma, bleeding, or swelling with severe pain is
+ * an emergency; moderate pain or any swelling goes ahead of routine. `null` is routine.
+ */
+export function getTriagePriority(answers: TriageAnswers): QueuePriority | null {
+  if (answers.trauma || answers.bleeding) return 'emergency';
+  if (answers.swelling && answers.pain_score >= SEVERE_PAIN) return 'emergency';
+  if (answers.swelling || answers.pain_score >= MODERATE_PAIN) return 'pain';
+  return null;
+}
+
+/**
+ * One line for badges and the queue priority reason, e.g. "Broken tooth · pain 8/10 · bleeding"
+ */
+export function describeTriage(answers: TriageAnswers): string {
+  const signs = [
+    answers.trauma && 'trauma',
+    answers.bleeding && 'bleeding',
+    answers.swelling && 'swelling',
+  ].filter(Boolean);
+
+  return [answers.chief_complaint.trim(), `pain ${answers.pain_score}/10`, ...signs]
+    .filter(Boolean)
+    .join(' · ');
+}
@@ -0,0 +1,53 @@
+import { differenceInMinutes } from 'date-fns';
+
+export type WaitingStage = 'arrived' | 'ready' | 'in_chair';
+
+export const WAITING_STAGES: WaitingStage[] = ['arrived', 'ready', 'in_chair'];
+
+export const DEFAULT_WAIT_ALERT_MINUTES = 20;
+
+export interface WaitingRoomEntry {
+  id: string; // appointment id
+  patient_id: string;
+  status: WaitingStage;
+  starts_at: string;
+  arrived_at: string | null;
+  ready_at: string | null;
+  in_chair_at: string | null;
+  patients: {
+    id: string;
+    arabic_full_name: string;
+  };
+  providers: { display_name: string } | null;
+  rooms: { name: string } | null;
+}
+
+/**
+ * When the patient entered their current stage. Visits checked in before the
+ * timestamps were recorded fall back to the appointment start.
+ */
+export function getStageStartedAt(entry: WaitingRoomEntry): Date {
+  const stamp = {
+    arrived: entry.arrived_at,
+    ready: entry.ready_at,
+    in_chair: entry.in_chair_at,
+  }[entry.status];
+
+  return new Date(stamp || entry.arrived_at || entry.starts_at);
+}
+
+/**
+ * Minutes since the patient walked in; once in the chair the wait stops counting
+ */
+export function getMinutesWaited(entry: WaitingRoomEntry, now: Date): number {
+  const arrived = new Date(entry.arrived_at || entry.ready_at || entry.starts_at);
+  const until = entry.status === 'in_chair' && entry.in_chair_at ? new Date(entry.in_chair_at) : now;
+  return Math.max(0, differenceInMinutes(until, arrived));
+}
+
+/**
+ * Patients still waiting to be seen are flagged once their wait passes the threshold
+ */
+export function isWaitingTooLong(entry: WaitingRoomEntry, now: Date, thresholdMinutes: number): boolean {
+  return entry.status !== 'in_chair' && getMinutesWaited(entry, now) >= thresholdMinutes;
+}
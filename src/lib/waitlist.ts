@@ -0,0 +1,86 @@
+import { format, roundToNearestMinutes } from 'date-fns';
+
+export type WaitlistStatus = 'waiting' | 'booked' | 'removed';
+
+export interface WaitlistEntry {
+  id: string;
+  clinic_id: string;
+  patient_id: string;
+  provider_id: string | null;
+  treatment_id: string | null;
+  earliest_date: string; // "YYYY-MM-DD" format
+  latest_date: string; // "YYYY-MM-DD" format, inclusive
+  duration_minutes: number;
+  notes: string | null;
+  status: WaitlistStatus;
+  created_at: string;
+  patients: {
+    id: string;
+    arabic_full_name: string;
+    phone: string | null;
+  };
+  providers: {
+    id: string;
+    display_name: string;
+  } | null;
+  treatments: {
+    id: string;
+    name_en: string;
+  } | null;
+}
+
+/**
+ * A slot given back by a cancellation or no-show
+ */
+export interface FreedSlot {
+  appointmentId: string;
+  clinicId: string;
+  start: Date;
+  end: Date;
+  providerId: string | null;
+  roomId: string | null;
+  reason: 'cancelled' | 'no_show';
+}
+
+export interface WaitlistMatch {
+  entry: WaitlistEntry;
+  start: Date; // the slot start, or the next 5 minutes when the slot has begun
+  end: Date;
+  sameProvider: boolean;
+}
+
+/**
+ * Waiting entries that fit a freed slot: the slot's day is inside the entry's window,
+ * the requested provider (if any) is the slot's provider, and the visit fits in what
+ * is left of the slot. Entries asking for the slot's provider come first, then the
+ * longest waiting.
+ */
+export function matchWaitlistEntries(
+  entries: WaitlistEntry[],
+  slot: FreedSlot,
+  now: Date = new Date()
+): WaitlistMatch[] {
+  // A slot that has already started can still take a visit for the rest of it
+  const start = slot.start > now ? slot.start : roundToNearestMinutes(now, { nearestTo: 5, roundingMethod: 'ceil' });
+  const available = (slot.end.getTime() - start.getTime()) / 60000;
+  const day = format(slot.start, 'yyyy-MM-dd');
+
+  return entries
+    .filter(entry =>
+      entry.status === 'waiting' &&
+      entry.earliest_date <= day &&
+      entry.latest_date >= day &&
+      (!entry.provider_id || entry.provider_id === slot.providerId) &&
+      entry.duration_minutes <= available
+    )
+    .map(entry => ({
+      entry,
+      start,
+      end: new Date(start.getTime() + entry.duration_minutes * 60000),
+      sameProvider: !!entry.provider_id && entry.provider_id === slot.providerId,
+    }))
+    .sort((a, b) =>
+      Number(b.sameProvider) - Number(a.sameProvider) ||
+      a.entry.created_at.localeCompare(b.entry.created_at)
+    );
+}
@@ -4,7 +4,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { StaffManagement } from '@/components/admin/StaffManagement';
 import { ProvidersManagement } from '@/components/admin/ProvidersManagement';
 import { CatalogWorkspace } from '@/components/admin/CatalogWorkspace';
+import { FeeScheduleManagement } from '@/components/admin/FeeScheduleManagement';
 import { AuditManagement } from '@/components/admin/AuditManagement';
+import { CashClosingsManagement } from '@/components/admin/CashClosingsManagement';
 import { ConfigurationManagement } from '@/components/admin/ConfigurationManagement';
 
 export default function Admin() {
@@ -38,6 +40,8 @@ export default function Admin() {
                 <TabsTrigger value="staff">Staff</TabsTrigger>
                 <TabsTrigger value="providers">Providers</TabsTrigger>
                 <TabsTrigger value="catalog">Catalog</TabsTrigger>
+                <TabsTrigger value="fees">Fees</TabsTrigger>
+                <TabsTrigger value="cash">Cash Closings</TabsTrigger>
                 <TabsTrigger value="audit">Audit</TabsTrigger>
                 <TabsTrigger value="configuration">Configuration</TabsTrigger>
               </TabsList>
@@ -55,6 +59,14 @@ export default function Admin() {
               <CatalogWorkspace />
             </TabsContent>
 
+            <TabsContent value="fees">
+              <FeeScheduleManagement />
+            </TabsContent>
+
+            <TabsContent value="cash">
+              <CashClosingsManagement />
+            </TabsContent>
+
             <TabsContent value="audit">
               <AuditManagement />
             </TabsContent>
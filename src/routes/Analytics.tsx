@@ -28,7 +28,7 @@ export default function Analytics() {
       </div>
 
       {/* KPI Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">New Patients</CardTitle>
@@ -62,6 +62,24 @@ export default function Analytics() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Collections</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{kpis?.collections?.toFixed(0)} EGP</div>
+            <p className="text-xs text-muted-foreground">
+              After {kpis?.refunds?.toFixed(0)} EGP refunds
+            </p>
+            {((kpis?.creditNotes || 0) + (kpis?.writeOffs || 0)) > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {kpis?.creditNotes?.toFixed(0)} EGP credited · {kpis?.writeOffs?.toFixed(0)} EGP written off
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
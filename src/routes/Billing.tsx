@@ -4,14 +4,34 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { CreditCard, Receipt, Plus, Eye, Banknote } from 'lucide-react';
-import { useBilling } from '@/hooks/useBilling';
+import { CreditCard, Receipt, Plus, Eye, Banknote, Printer } from 'lucide-react';
+import { useBilling, type Invoice } from '@/hooks/useBilling';
 import { format } from 'date-fns';
+import { deriveInvoiceStatus, formatInvoiceNumber, formatMoney, getInvoiceBalance, getTotalPaid } from '@/lib/invoice';
+import { NewInvoiceModal } from '@/components/Billing/NewInvoiceModal';
+import { RecordPaymentModal } from '@/components/Billing/RecordPaymentModal';
+import { VoidInvoiceModal } from '@/components/Billing/VoidInvoiceModal';
+import { InvoiceDetailsDrawer } from '@/components/Billing/InvoiceDetailsDrawer';
+import { InstallmentPlanModal } from '@/components/Billing/InstallmentPlanModal';
+import { OverdueInstallments } from '@/components/Billing/OverdueInstallments';
+import { InvoiceAdjustments } from '@/components/Billing/InvoiceAdjustments';
+import { AdjustmentModal } from '@/components/Billing/AdjustmentModal';
+import type { AdjustmentKind } from '@/lib/adjustments';
 
 export default function Billing() {
   const [activeTab, setActiveTab] = useState('open_partial');
-  const { useInvoices } = useBilling();
-  const { data: invoices, isLoading } = useInvoices(activeTab as any);
+  const { useInvoices, printInvoice } = useBilling();
+  const isWorklistTab = activeTab === 'overdue' || activeTab === 'adjustments';
+  const { data: invoices, isLoading } = useInvoices((isWorklistTab ? 'open_partial' : activeTab) as any);
+  const [showNewInvoice, setShowNewInvoice] = useState(false);
+  const [detailsInvoiceId, setDetailsInvoiceId] = useState<string | null>(null);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState<number | undefined>();
+  const [voidingInvoice, setVoidingInvoice] = useState<Invoice | null>(null);
+  const [installmentInvoice, setInstallmentInvoice] = useState<Invoice | null>(null);
+  const [adjusting, setAdjusting] = useState<{ invoice: Invoice; kind: AdjustmentKind } | null>(null);
+
+  const detailsInvoice = invoices?.find(invoice => invoice.id === detailsInvoiceId) || null;
 
   const getStatusBadge = (status: string) => {
     const variants = {
@@ -43,10 +63,26 @@ export default function Billing() {
         <TabsList>
           <TabsTrigger value="open_partial">Open/Partial</TabsTrigger>
           <TabsTrigger value="paid">Paid</TabsTrigger>
+          <TabsTrigger value="void">Void</TabsTrigger>
           <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="overdue">Overdue Installments</TabsTrigger>
+          <TabsTrigger value="adjustments">Adjustments</TabsTrigger>
         </TabsList>
 
-        <TabsContent value={activeTab} className="space-y-6">
+        <TabsContent value="overdue">
+          <OverdueInstallments
+            onTakePayment={(invoice, amount) => {
+              setPaymentAmount(amount);
+              setPaymentInvoice(invoice);
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="adjustments">
+          <InvoiceAdjustments />
+        </TabsContent>
+
+        <TabsContent value={isWorklistTab ? 'open_partial' : activeTab} className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
@@ -54,7 +90,7 @@ export default function Billing() {
                   <Receipt className="h-5 w-5 mr-2" />
                   Invoices
                 </div>
-                <Button>
+                <Button onClick={() => setShowNewInvoice(true)}>
                   <Plus className="h-4 w-4 mr-2" />
                   New Invoice
                 </Button>
@@ -76,25 +112,34 @@ export default function Billing() {
                 </TableHeader>
                 <TableBody>
                   {invoices?.map((invoice) => {
-                    const totalPaid = invoice.payments?.reduce((sum, p) => sum + p.amount, 0) || 0;
-                    const balance = invoice.total_amount - totalPaid;
+                    const totalPaid = getTotalPaid(invoice.payments);
+                    const balance = getInvoiceBalance(invoice);
                     
                     return (
                       <TableRow key={invoice.id}>
-                        <TableCell className="font-mono">#{invoice.id.slice(-8)}</TableCell>
+                        <TableCell className="font-mono">{formatInvoiceNumber(invoice)}</TableCell>
                         <TableCell>{invoice.patients?.arabic_full_name}</TableCell>
                         <TableCell>{format(new Date(invoice.created_at), 'MMM dd, yyyy')}</TableCell>
-                        <TableCell>{invoice.total_amount} {invoice.currency}</TableCell>
-                        <TableCell>{totalPaid} {invoice.currency}</TableCell>
-                        <TableCell>{balance} {invoice.currency}</TableCell>
-                        <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                        <TableCell>{formatMoney(invoice.total_amount, invoice.currency)}</TableCell>
+                        <TableCell>{formatMoney(totalPaid, invoice.currency)}</TableCell>
+                        <TableCell>{formatMoney(balance, invoice.currency)}</TableCell>
+                        <TableCell>{getStatusBadge(deriveInvoiceStatus(invoice))}</TableCell>
                         <TableCell>
                           <div className="flex space-x-2">
-                            <Button size="sm" variant="outline">
+                            <Button size="sm" variant="outline" onClick={() => setDetailsInvoiceId(invoice.id)}>
                               <Eye className="h-4 w-4" />
                             </Button>
-                            {balance > 0 && (
-                              <Button size="sm">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => printInvoice.mutate({ invoiceId: invoice.id })}
+                              disabled={printInvoice.isPending}
+                              title="Print invoice"
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            {balance > 0 && invoice.status !== 'void' && (
+                              <Button size="sm" onClick={() => setPaymentInvoice(invoice)}>
                                 <Banknote className="h-4 w-4" />
                               </Button>
                             )}
@@ -105,10 +150,61 @@ export default function Billing() {
                   })}
                 </TableBody>
               </Table>
+
+              {invoices?.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No invoices found.
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      <NewInvoiceModal
+        open={showNewInvoice}
+        onOpenChange={setShowNewInvoice}
+      />
+
+      <InvoiceDetailsDrawer
+        invoice={detailsInvoice}
+        onClose={() => setDetailsInvoiceId(null)}
+        onTakePayment={setPaymentInvoice}
+        onVoid={setVoidingInvoice}
+        onSetupInstallments={setInstallmentInvoice}
+        onAdjust={(invoice, kind) => setAdjusting({ invoice, kind })}
+      />
+
+      <RecordPaymentModal
+        open={!!paymentInvoice}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPaymentInvoice(null);
+            setPaymentAmount(undefined);
+          }
+        }}
+        invoice={paymentInvoice}
+        defaultAmount={paymentAmount}
+      />
+
+      <VoidInvoiceModal
+        open={!!voidingInvoice}
+        onOpenChange={(open) => !open && setVoidingInvoice(null)}
+        invoice={voidingInvoice}
+      />
+
+      <InstallmentPlanModal
+        open={!!installmentInvoice}
+        onOpenChange={(open) => !open && setInstallmentInvoice(null)}
+        invoice={installmentInvoice}
+      />
+
+      <AdjustmentModal
+        open={!!adjusting}
+        onOpenChange={(open) => !open && setAdjusting(null)}
+        invoice={adjusting?.invoice || null}
+        kind={adjusting?.kind || 'refund'}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { useState, useMemo } from 'react';
 import { Calendar as BigCalendar, momentLocalizer, View, Views } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
 import moment from 'moment';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -11,25 +13,45 @@ import {
   ChevronRight, 
   Clock,
   Users,
-  MapPin
+  MapPin,
+  Undo2,
+  ListPlus
 } from 'lucide-react';
 import { 
   useCalendarAppointments, 
+  useProviders,
+  useRooms,
   CalendarAppointment, 
   CalendarFilters 
 } from '@/hooks/useCalendarData';
+import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
 import { useFrontDeskRealtime } from '@/hooks/useFrontDeskRealtime';
-import CalendarFiltersComponent from '@/components/Calendar/CalendarFilters';
+import { useCalendarReschedule, isAppointmentMovable } from '@/hooks/useCalendarReschedule';
+import {
+  createOpenHoursLookup,
+  getAppointmentResourceId,
+  getResourceValue,
+  isWithinOpenHours,
+  UNASSIGNED_RESOURCE_ID,
+  type CalendarResource,
+  type CalendarResourceMode,
+} from '@/lib/calendarResources';
+import CalendarFiltersComponent, { type CalendarColorBy } from '@/components/Calendar/CalendarFilters';
 import AppointmentCard, { getStatusBackgroundColor } from '@/components/Calendar/AppointmentCard';
 import AddAppointmentModal from '@/components/Calendar/AddAppointmentModal';
 import AppointmentDetailsDrawer from '@/components/Calendar/AppointmentDetailsDrawer';
-import { exportAppointmentsToCSV, exportAppointmentsToPDF, getExportFilename } from '@/utils/calendarExport';
+import WaitlistSheet from '@/components/Calendar/WaitlistSheet';
+import WaitlistBackfillDialog from '@/components/Calendar/WaitlistBackfillDialog';
+import CalendarFeedDialog from '@/components/Calendar/CalendarFeedDialog';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { exportAppointmentsToCSV, exportAppointmentsToICS, exportAppointmentsToPDF, getExportFilename } from '@/utils/calendarExport';
 import { useToast } from '@/hooks/use-toast';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addDays } from 'date-fns';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Calendar as DayCalendar } from '@/components/ui/calendar';
 
 const localizer = momentLocalizer(moment);
+const DnDCalendar = withDragAndDrop(BigCalendar);
 
 interface CalendarEvent {
   id: string;
@@ -37,6 +59,15 @@ interface CalendarEvent {
   start: Date;
   end: Date;
   resource: CalendarAppointment;
+  resourceId?: string; // room or provider column in day view
+}
+
+interface EventDropArgs {
+  event: CalendarEvent;
+  start: Date | string;
+  end: Date | string;
+  isAllDay?: boolean;
+  resourceId?: string;
 }
 
 export default function Calendar() {
@@ -44,6 +75,7 @@ export default function Calendar() {
   
   // Enable real-time updates
   useFrontDeskRealtime();
+  const { moveAppointment, undoLastMove, canUndo, pendingMoves, isSaving } = useCalendarReschedule();
 
   // State
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -52,6 +84,9 @@ export default function Calendar() {
   const [selectedAppointment, setSelectedAppointment] = useState<CalendarAppointment | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [isWaitlistOpen, setIsWaitlistOpen] = useState(false);
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
+  const { entries: waitlistEntries } = useWaitlist();
   const [selectedSlot, setSelectedSlot] = useState<{
     date: Date;
     time?: string;
@@ -59,6 +94,9 @@ export default function Calendar() {
     room?: string;
   } | null>(null);
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [resourceMode, setResourceMode] = useState<CalendarResourceMode | null>(null);
+  const [hiddenResourceIds, setHiddenResourceIds] = useState<string[]>([]);
+  const [colorBy, setColorBy] = useState<CalendarColorBy>('provider');
 
   // Calculate date range based on view
   const dateRange = useMemo(() => {
@@ -92,6 +130,26 @@ export default function Calendar() {
     dateRange.end,
     filters
   );
+  const { data: providers = [] } = useProviders();
+  const { data: rooms = [] } = useRooms();
+  const { availability } = useAvailabilityValidation();
+
+  // Day view can split into one column per room or provider
+  const showResources = currentView === 'day' && !!resourceMode;
+
+  const resources: CalendarResource[] = useMemo(() => {
+    if (!resourceMode) return [];
+
+    const columns: CalendarResource[] = resourceMode === 'room'
+      ? rooms.map(room => ({ id: room.id, title: room.name }))
+      : providers.map(provider => ({ id: provider.id, title: provider.display_name }));
+    if (appointments.some(a => getAppointmentResourceId(a, resourceMode) === UNASSIGNED_RESOURCE_ID)) {
+      columns.push({ id: UNASSIGNED_RESOURCE_ID, title: 'Unassigned' });
+    }
+    return columns.filter(column => !hiddenResourceIds.includes(column.id));
+  }, [resourceMode, rooms, providers, appointments, hiddenResourceIds]);
+
+  const getOpenHours = useMemo(() => createOpenHoursLookup(availability), [availability]);
 
   // Provider color palette and deterministic mapping
   const COLORS = ['#4f46e5','#16a34a','#06b6d4','#f59e0b','#ef4444','#8b5cf6','#10b981','#e11d48'];
@@ -105,14 +163,19 @@ export default function Calendar() {
   // Convert appointments to calendar events with extended props and local timezone parsing
   const events: CalendarEvent[] = useMemo(() => {
     return appointments.map(appointment => {
-      const start = appointment.starts_at ? new Date(appointment.starts_at) : new Date();
-      let end = appointment.ends_at ? new Date(appointment.ends_at) : new Date(start.getTime() + 30*60000);
+      // A dropped appointment shows in its new slot while the save is in flight
+      const pending = pendingMoves[appointment.id];
+      const start = pending?.start || (appointment.starts_at ? new Date(appointment.starts_at) : new Date());
+      let end = pending?.end || (appointment.ends_at ? new Date(appointment.ends_at) : new Date(start.getTime() + 30*60000));
       // Ensure end > start
       if (end <= start) end = new Date(start.getTime() + 30*60000);
 
       const providerId = appointment.provider_id || appointment.providers?.id;
       const providerName = appointment.providers?.display_name || '';
       const roomName = appointment.rooms?.name || '';
+      const color = colorBy === 'type' && appointment.appointment_types
+        ? appointment.appointment_types.color
+        : colorFor(providerId as string | undefined);
 
       return {
         id: appointment.id,
@@ -120,24 +183,35 @@ export default function Calendar() {
         start,
         end,
         resource: appointment,
+        resourceId: resourceMode ? getAppointmentResourceId(appointment, resourceMode) : undefined,
         // Extended props for rendering
         patient_name_ar: appointment.patients?.arabic_full_name,
         provider_id: providerId,
         provider_name: providerName,
         room_name: roomName,
         status: appointment.status,
-        backgroundColor: colorFor(providerId as string | undefined),
-        borderColor: colorFor(providerId as string | undefined),
+        backgroundColor: color,
+        borderColor: color,
       } as unknown as CalendarEvent;
     });
-  }, [appointments]);
+  }, [appointments, pendingMoves, resourceMode, colorBy]);
+
+  // Hidden columns keep their appointments off the day view
+  const visibleEvents = useMemo(() => {
+    if (!showResources) return events;
+    const visibleIds = new Set(resources.map(resource => resource.id));
+    return events.filter(event => visibleIds.has(event.resourceId as string));
+  }, [events, resources, showResources]);
 
   // Handle slot selection (clicking empty time slot)
-  const handleSelectSlot = ({ start, end }: { start: Date; end: Date }) => {
+  const handleSelectSlot = ({ start, end, resourceId }: { start: Date; end: Date; resourceId?: string }) => {
     const timeStr = format(start, 'HH:mm');
+    const resourceValue = showResources && resourceId ? getResourceValue(resourceId) : null;
     setSelectedSlot({
       date: start,
       time: timeStr,
+      provider: resourceMode === 'provider' && resourceValue ? resourceValue : undefined,
+      room: resourceMode === 'room' && resourceValue ? resourceValue : undefined,
     });
     setIsAddModalOpen(true);
   };
@@ -148,6 +222,34 @@ export default function Calendar() {
     setIsDrawerOpen(true);
   };
 
+  // Drag an appointment to another slot. Month view moves the day and keeps the time.
+  // Dropping into another resource column reassigns the room or provider.
+  const handleEventDrop = ({ event, start, end, resourceId }: EventDropArgs) => {
+    const newStart = new Date(start);
+    const duration = event.end.getTime() - event.start.getTime();
+    if (currentView === 'month') {
+      newStart.setHours(event.start.getHours(), event.start.getMinutes(), 0, 0);
+    }
+    const newEnd = currentView === 'month' ? new Date(newStart.getTime() + duration) : new Date(end);
+    const columnChanged = showResources && !!resourceId && resourceId !== event.resourceId;
+
+    if (!columnChanged && newStart.getTime() === event.start.getTime() && newEnd.getTime() === event.end.getTime()) return;
+    moveAppointment({
+      appointment: event.resource,
+      start: newStart,
+      end: newEnd,
+      ...(columnChanged && resourceMode === 'room' ? { roomId: getResourceValue(resourceId) } : {}),
+      ...(columnChanged && resourceMode === 'provider' ? { providerId: getResourceValue(resourceId) } : {}),
+    });
+  };
+
+  // Drag the bottom edge to change the length; the start stays put
+  const handleEventResize = ({ event, end }: EventDropArgs) => {
+    const newEnd = new Date(end);
+    if (newEnd.getTime() === event.end.getTime()) return;
+    moveAppointment({ appointment: event.resource, start: event.start, end: newEnd });
+  };
+
   // Handle view change
   const handleViewChange = (view: string) => {
     setCurrentView(view);
@@ -176,6 +278,9 @@ export default function Calendar() {
     const bg = (event as any).backgroundColor || getStatusBackgroundColor(appt.status) || '#4f46e5';
     const providerName = (event as any).provider_name || appt.providers?.display_name;
     const roomName = (event as any).room_name || appt.rooms?.name;
+    const overbookChip = appt.overbook && (
+      <span className="inline-block mt-0.5 ml-1 px-1.5 py-0.5 rounded bg-orange-300 text-black">Overbooked</span>
+    );
 
     // Render compact content for month view (no action buttons or large chips)
     if (currentView === 'month') {
@@ -190,15 +295,33 @@ export default function Calendar() {
     return (
       <div className="p-2 rounded text-sm text-white/95 custom-event" style={{ backgroundColor: bg, borderLeft: `4px solid ${bg}` }}>
         <div className="font-semibold truncate" dir="rtl">{(event as any).patient_name_ar}</div>
-        <div className="opacity-90 text-xs">{format(event.start, 'HH:mm')}–{format(event.end, 'HH:mm')}</div>
+        <div className="opacity-90 text-xs">
+          {format(event.start, 'HH:mm')}–{format(event.end, 'HH:mm')}
+          {appt.appointment_types && ` · ${appt.appointment_types.name}`}
+        </div>
         <div className="opacity-90 truncate text-xs">{roomName}{roomName && providerName ? ' · ' : ''}{providerName}</div>
-        <div><span className={chipClass(appt.status)}>{prettyStatus(appt.status)}</span></div>
+        <div><span className={chipClass(appt.status)}>{prettyStatus(appt.status)}</span>{overbookChip}</div>
       </div>
     );
   };
 
+  // Shade slots outside opening hours; room and provider columns use their own hours
+  const slotPropGetter = (date: Date, resourceId?: string) => {
+    if (currentView === 'month') return {};
+
+    const resourceValue = showResources && resourceId ? getResourceValue(resourceId) : null;
+    const openHours = getOpenHours(
+      date,
+      resourceMode === 'room' && resourceValue ? resourceValue : undefined,
+      resourceMode === 'provider' && resourceValue ? resourceValue : undefined
+    );
+    if (!openHours || isWithinOpenHours(openHours, date)) return {};
+
+    return { style: { backgroundColor: '#f3f4f6' } };
+  };
+
   // Export handlers
-  const handleExport = (type: 'csv' | 'pdf') => {
+  const handleExport = (type: 'csv' | 'pdf' | 'ics') => {
     if (appointments.length === 0) {
       toast({
         title: "No Data",
@@ -213,6 +336,8 @@ export default function Calendar() {
 
     if (type === 'csv') {
       exportAppointmentsToCSV(appointments, filename);
+    } else if (type === 'ics') {
+      exportAppointmentsToICS(appointments, filename, title);
     } else {
       exportAppointmentsToPDF(appointments, filename, title);
     }
@@ -294,6 +419,21 @@ export default function Calendar() {
             </div>
             
             <div className="flex items-center gap-2">
+              {canUndo && (
+                <Button onClick={undoLastMove} variant="outline" size="sm" disabled={isSaving}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Undo Move
+                </Button>
+              )}
+              <Button onClick={() => setIsWaitlistOpen(true)} variant="outline" size="sm">
+                <ListPlus className="mr-2 h-4 w-4" />
+                Waitlist
+                {waitlistEntries.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 text-xs">
+                    {waitlistEntries.length}
+                  </Badge>
+                )}
+              </Button>
               <Button onClick={handleAddWalkIn} variant="outline" size="sm">
                 <Users className="mr-2 h-4 w-4" />
                 Add Walk-in
@@ -312,6 +452,16 @@ export default function Calendar() {
         filters={filters}
         onFiltersChange={setFilters}
         onExport={handleExport}
+        resourceMode={resourceMode}
+        onResourceModeChange={(mode) => {
+          setResourceMode(mode);
+          if (mode) setCurrentView('day');
+        }}
+        hiddenResourceIds={hiddenResourceIds}
+        onHiddenResourceIdsChange={setHiddenResourceIds}
+        colorBy={colorBy}
+        onColorByChange={setColorBy}
+        onSubscribe={() => setIsFeedDialogOpen(true)}
       />
 
       {/* Calendar Navigation and View Controls */}
@@ -417,12 +567,19 @@ export default function Calendar() {
       <div className="flex-1 p-4">
         {/* Legend */}
         <div className="flex items-center gap-4 mb-3">
-          {Array.from(new Map(appointments.map(a => [a.provider_id || a.providers?.id, a.providers?.display_name || 'Unassigned']))).map(([pid, name]) => (
-            <div key={pid} className="flex items-center gap-2">
-              <span className="w-3 h-3 rounded" style={{ backgroundColor: colorFor(pid as string | undefined) }} />
-              <span className="text-sm">{name}</span>
-            </div>
-          ))}
+          {colorBy === 'type'
+            ? Array.from(new Map(appointments.filter(a => a.appointment_types).map(a => [a.appointment_types!.id, a.appointment_types!]))).map(([typeId, type]) => (
+              <div key={typeId} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded" style={{ backgroundColor: type.color }} />
+                <span className="text-sm">{type.name}</span>
+              </div>
+            ))
+            : Array.from(new Map(appointments.map(a => [a.provider_id || a.providers?.id, a.providers?.display_name || 'Unassigned']))).map(([pid, name]) => (
+              <div key={pid} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded" style={{ backgroundColor: colorFor(pid as string | undefined) }} />
+                <span className="text-sm">{name}</span>
+              </div>
+            ))}
         </div>
 
         {currentView === 'agenda' ? (
@@ -435,22 +592,30 @@ export default function Calendar() {
           </div>
         ) : (
         <div style={{ height: 'calc(100vh - 300px)' }}>
-          <BigCalendar
+          <DnDCalendar
             localizer={localizer}
-            events={events}
+            events={visibleEvents}
             startAccessor="start"
             endAccessor="end"
+            {...(showResources ? { resources, resourceIdAccessor: 'id', resourceTitleAccessor: 'title' } : {})}
             {...(currentView !== 'agenda' ? { view: currentView as View, onView: (v: any)=>handleViewChange(v) } : {})}
             date={currentDate}
             onNavigate={handleNavigate}
             onSelectSlot={handleSelectSlot}
             onSelectEvent={handleSelectEvent}
+            onEventDrop={handleEventDrop}
+            onEventResize={handleEventResize}
+            draggableAccessor={(event: CalendarEvent) => isAppointmentMovable(event.resource)}
+            resizableAccessor={(event: CalendarEvent) => currentView !== 'month' && isAppointmentMovable(event.resource)}
+            resizable
             selectable
             views={[Views.MONTH, Views.WEEK, Views.DAY]}
             step={15}
             timeslots={4}
             defaultView={Views.WEEK}
             toolbar={false}
+            // Overbooked appointments share a slot; keep them side by side
+            dayLayoutAlgorithm="no-overlap"
             components={{
               event: EventComponent,
             }}
@@ -460,7 +625,7 @@ export default function Calendar() {
               return {
                 style: {
                   backgroundColor: bg,
-                  border: 'none',
+                  border: appointment.overbook ? '2px dashed #f97316' : 'none',
                   borderRadius: '8px',
                   minHeight: 28,
                   color: '#fff',
@@ -468,6 +633,7 @@ export default function Calendar() {
                 },
               };
             }}
+            slotPropGetter={slotPropGetter}
             dayPropGetter={(date) => ({
               style: {
                 backgroundColor: date.getDay() === 0 || date.getDay() === 6 ? '#fafafa' : 'white',
@@ -499,6 +665,18 @@ export default function Calendar() {
           setSelectedAppointment(null);
         }}
       />
+
+      <WaitlistSheet
+        isOpen={isWaitlistOpen}
+        onClose={() => setIsWaitlistOpen(false)}
+      />
+
+      <WaitlistBackfillDialog />
+
+      <CalendarFeedDialog
+        isOpen={isFeedDialogOpen}
+        onClose={() => setIsFeedDialogOpen(false)}
+      />
     </div>
   );
 }
@@ -42,6 +42,7 @@ export default function Clinical() {
             <DoctorPlanExecution 
               visitId={activeVisitId}
               patient={activePatient}
+              providerId={activeVisit?.provider_id}
             />
           </div>
         </div>
@@ -62,6 +63,7 @@ export default function Clinical() {
             <DoctorPlanExecution 
               visitId={activeVisitId}
               patient={activePatient}
+              providerId={activeVisit?.provider_id}
             />
           </div>
         </div>
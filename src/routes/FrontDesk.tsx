@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { UserPlus, Calendar, Clock, Stethoscope, Activity, CheckCircle } from 'lucide-react';
+import { UserPlus, Calendar, Clock, Stethoscope, Activity, CheckCircle, Lock } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useFrontDeskRealtime } from '@/hooks/useFrontDeskRealtime';
 import AddPatientModal from './FrontDesk/AddPatientModal';
@@ -11,6 +11,7 @@ import InChairQueue from './FrontDesk/InChairQueue';
 import CompletedQueue from './FrontDesk/CompletedQueue';
 import GlobalPatientSlideOver from './FrontDesk/GlobalPatientSlideOver';
 import QuickSwitcher from './FrontDesk/QuickSwitcher';
+import CloseDayDialog from './FrontDesk/CloseDayDialog';
 import { useToast } from '@/hooks/use-toast';
 
 export default function FrontDesk() {
@@ -24,6 +25,7 @@ export default function FrontDesk() {
   const [addPatientOpen, setAddPatientOpen] = useState(false);
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
   const [quickSwitcherOpen, setQuickSwitcherOpen] = useState(false);
+  const [closeDayOpen, setCloseDayOpen] = useState(false);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -69,10 +71,16 @@ export default function FrontDesk() {
             <h1 className="text-2xl font-bold">Front Desk</h1>
             <p className="text-sm text-muted-foreground">Press <kbd className="px-1 py-0.5 text-xs bg-muted rounded">A</kbd> to add patient</p>
           </div>
-          <Button onClick={handleAddPatient} className="shrink-0">
-            <UserPlus className="mr-2 h-4 w-4" />
-            Add
-          </Button>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" onClick={() => setCloseDayOpen(true)}>
+              <Lock className="mr-2 h-4 w-4" />
+              Close Day
+            </Button>
+            <Button onClick={handleAddPatient}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
         </div>
 
         {/* Grid layout */}
@@ -194,6 +202,11 @@ export default function FrontDesk() {
         onClose={() => setQuickSwitcherOpen(false)}
         onPatientSelect={handlePatientSelect}
       />
+
+      <CloseDayDialog
+        isOpen={closeDayOpen}
+        onClose={() => setCloseDayOpen(false)}
+      />
     </div>
   );
 }
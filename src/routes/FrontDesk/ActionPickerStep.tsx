@@ -1,16 +1,21 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ArrowLeft, Info } from 'lucide-react';
+import { AlertTriangle, ArrowLeft, Info } from 'lucide-react';
 import { useWalkInWithProvider } from '@/hooks/useFrontDeskActions';
 import { useToast } from '@/hooks/use-toast';
 import { SearchResult, CreatedPatient } from './AddPatientModal';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useProviders, useRooms } from '@/hooks/useCalendarData';
+import { useOverbookingCheck } from '@/hooks/useOverbookingPolicy';
+import { EMPTY_TRIAGE, type TriageAnswers } from '@/lib/triage';
+import { addMinutes } from 'date-fns';
 import { useEffect } from 'react';
+import TriageFields from './TriageFields';
 
 interface ActionPickerStepProps {
   patient: SearchResult | CreatedPatient;
@@ -28,6 +33,23 @@ export default function ActionPickerStep({ patient, onWalkIn, onAppointment, onC
   const [providerId, setProviderId] = useState('');
   const [roomId, setRoomId] = useState('');
   const [notes, setNotes] = useState('');
+  const [overbookReason, setOverbookReason] = useState('');
+  const [withTriage, setWithTriage] = useState(false);
+  const [triage, setTriage] = useState<TriageAnswers>(EMPTY_TRIAGE);
+
+  // The next 30 minutes, which is what a walk-in books
+  const walkInPlacement = useMemo(() => {
+    if (!providerId) return null;
+    const start = new Date();
+    return {
+      providerId,
+      roomId: roomId || null,
+      startTime: start.toISOString(),
+      endTime: addMinutes(start, 30).toISOString(),
+    };
+  }, [providerId, roomId]);
+  const { data: overbooking } = useOverbookingCheck(walkInPlacement);
+  const needsOverbook = !!overbooking && !overbooking.withinPolicy;
 
   // When provider changes, auto-select their default room if available (but allow modifying)
   useEffect(() => {
@@ -46,23 +68,35 @@ export default function ActionPickerStep({ patient, onWalkIn, onAppointment, onC
       return;
     }
     try {
-      await walkInMutation.mutateAsync({
+      const result = await walkInMutation.mutateAsync({
         patientId: patient.id,
         providerId,
         roomId: roomId || undefined,
         notes: notes || undefined,
+        overbookReason: needsOverbook ? overbookReason : undefined,
+        triage: withTriage ? triage : undefined,
       });
       const provider = providers.find(p => p.id === providerId);
       toast({
         title: 'Checked in',
-        description: provider ? `Assigned to ${provider.display_name}` : 'Patient checked in',
+        description: [
+          provider ? `Assigned to ${provider.display_name}` : 'Patient checked in',
+          result.priority && 'moved up the queue after triage',
+        ].filter(Boolean).join(', '),
       });
+      if (result.triageError) {
+        toast({
+          title: 'Triage not saved',
+          description: `The patient is checked in, but the triage could not be saved: ${result.triageError.message}`,
+          variant: 'destructive',
+        });
+      }
       onWalkIn();
     } catch (error) {
       console.error('Error with walk-in:', error);
       toast({
         title: 'Error',
-        description: 'Failed to check in patient. Please try again.',
+        description: (error as Error).message || 'Failed to check in patient. Please try again.',
         variant: 'destructive',
       });
     }
@@ -126,14 +160,49 @@ export default function ActionPickerStep({ patient, onWalkIn, onAppointment, onC
                   </Select>
                 </div>
 
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                    <Checkbox checked={withTriage} onCheckedChange={(checked) => setWithTriage(checked === true)} />
+                    Emergency or in pain? Record triage
+                  </label>
+                  {withTriage && <TriageFields value={triage} onChange={setTriage} />}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium mb-1">Notes (optional)</label>
                   <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes" />
                 </div>
+
+                {needsOverbook && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription className="space-y-2">
+                      <p>{overbooking.message}.</p>
+                      {overbooking.canOverride ? (
+                        <Textarea
+                          value={overbookReason}
+                          onChange={(e) => setOverbookReason(e.target.value)}
+                          placeholder="Overbook reason (required)"
+                          rows={2}
+                        />
+                      ) : (
+                        <p>Your role cannot approve overbooking. Pick another provider or room, or ask someone who can.</p>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
               </div>
 
               <div className="mt-4 flex justify-end">
-                <Button onClick={handleWalkIn} disabled={isPatientAlreadyHere || walkInMutation.isPending}>
+                <Button
+                  onClick={handleWalkIn}
+                  disabled={
+                    isPatientAlreadyHere ||
+                    walkInMutation.isPending ||
+                    (withTriage && !triage.chief_complaint.trim()) ||
+                    (needsOverbook && (!overbooking.canOverride || !overbookReason.trim()))
+                  }
+                >
                   {walkInMutation.isPending ? 'Processing...' : 'Check In'}
                 </Button>
               </div>
@@ -37,10 +37,10 @@ export default function ArrivedQueue({ searchTerm, onPatientSelect }: ArrivedQue
           providers(display_name),
           rooms(name)
         `)
-        .in('status', ['arrived', 'ready'])
+        // Checked in and waiting on intake; signing it moves the appointment to ready
+        .eq('status', 'arrived')
         .gte('starts_at', start)
         .lte('starts_at', end)
-        .eq('patients.intake_signed', false)
         .order('starts_at', { ascending: true });
 
       if (searchTerm) {
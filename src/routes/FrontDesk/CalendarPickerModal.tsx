@@ -12,6 +12,9 @@ import { useToast } from '@/hooks/use-toast';
 import { SearchResult, CreatedPatient } from './AddPatientModal';
 import { format, addMinutes, setHours, setMinutes, startOfDay, endOfDay } from 'date-fns';
 import { useAvailabilityValidation } from '@/hooks/useAvailabilityValidation';
+import { useSlotFinder } from '@/hooks/useSlotFinder';
+import SlotFinder from '@/components/Calendar/SlotFinder';
+import { DEFAULT_SEARCH_DAYS, type SlotCandidate } from '@/lib/slotFinder';
 
 interface CalendarPickerModalProps {
   isOpen: boolean;
@@ -20,6 +23,8 @@ interface CalendarPickerModalProps {
   onAppointmentCreated: () => void;
 }
 
+const DEFAULT_DURATION_MINUTES = 30;
+
 export default function CalendarPickerModal({ isOpen, onClose, patient, onAppointmentCreated }: CalendarPickerModalProps) {
   const { toast } = useToast();
   const [selectedDate, setSelectedDate] = useState<Date>();
@@ -33,13 +38,16 @@ export default function CalendarPickerModal({ isOpen, onClose, patient, onAppoin
 
   // Availability & conflicts
   const { getAvailableSlots } = useAvailabilityValidation();
+  const { findSlots } = useSlotFinder();
 
   // Appointments for the selected date to check provider conflicts
   const start = selectedDate ? startOfDay(selectedDate) : startOfDay(new Date());
   const end = selectedDate ? endOfDay(selectedDate) : endOfDay(new Date());
   const { data: dayAppointments = [] } = useCalendarAppointments(start, end, {});
 
-  const slots = selectedDate ? getAvailableSlots(selectedDate, selectedRoom) : [];
+  const slots = selectedDate
+    ? getAvailableSlots(selectedDate, selectedRoom, selectedProvider && selectedProvider !== 'all' ? selectedProvider : undefined)
+    : [];
 
   const overlaps = (aStart: string | Date, aEnd: string | Date, bStart: Date, bEnd: Date) => {
     const as = typeof aStart === 'string' ? new Date(aStart) : aStart;
@@ -70,7 +78,7 @@ export default function CalendarPickerModal({ isOpen, onClose, patient, onAppoin
     try {
       const [hours, minutes] = selectedTime.split(':').map(Number);
       const startDateTime = setMinutes(setHours(selectedDate, hours), minutes);
-      const endDateTime = addMinutes(startDateTime, 30); // Default 30 minutes
+      const endDateTime = addMinutes(startDateTime, DEFAULT_DURATION_MINUTES);
 
       // Check provider conflict
       if (selectedProvider && isSlotConflictingForProvider({ start: startDateTime, end: endDateTime }, selectedProvider)) {
@@ -102,23 +110,32 @@ export default function CalendarPickerModal({ isOpen, onClose, patient, onAppoin
     }
   };
 
-  const findNearestAvailable = () => {
-    if (!slots || slots.length === 0) return null;
-    for (const slot of slots) {
-      // If selectedProvider is 'all' or empty, treat as any provider
-      if (!selectedProvider || selectedProvider === 'all') {
-        const freeProvider = providers.find((p: any) => !dayAppointments.some((appt: any) => appt.provider_id === p.id && overlaps(appt.starts_at, appt.ends_at, slot.start, slot.end)));
-        if (freeProvider) {
-          return { slot, provider: freeProvider.id };
-        }
+  const applySlot = (candidate: SlotCandidate) => {
+    setSelectedDate(candidate.start);
+    setSelectedTime(format(candidate.start, 'HH:mm'));
+    if (candidate.providerId) setSelectedProvider(candidate.providerId);
+    if (candidate.roomId) setSelectedRoom(candidate.roomId);
+  };
+
+  // Earliest free slot from the selected day on, for the chosen provider and room if any
+  const findNearestAvailable = async () => {
+    try {
+      const [found] = await findSlots({
+        durationMinutes: DEFAULT_DURATION_MINUTES,
+        earliestDate: selectedDate || new Date(),
+        providerId: selectedProvider && selectedProvider !== 'all' ? selectedProvider : undefined,
+        roomId: selectedRoom || undefined,
+        limit: 1,
+      });
+
+      if (found) {
+        applySlot(found);
       } else {
-        // specific provider selected
-        if (!isSlotConflictingForProvider(slot, selectedProvider)) {
-          return { slot, provider: selectedProvider };
-        }
+        toast({ title: 'No available slots', description: `No free times found in the next ${DEFAULT_SEARCH_DAYS} days`, variant: 'destructive' });
       }
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
     }
-    return null;
   };
 
   const selectedProviderData = selectedProvider === 'all' ? { display_name: 'All' } : providers.find(p => p.id === selectedProvider);
@@ -161,16 +178,7 @@ export default function CalendarPickerModal({ isOpen, onClose, patient, onAppoin
                 <div className="flex items-center justify-between">
                   <h3 className="font-medium mb-2">Select Time</h3>
                   <div>
-                    <Button size="sm" variant="outline" onClick={() => {
-                      const found = findNearestAvailable();
-                      if (found) {
-                        const timeStr = format(found.slot.start, 'HH:mm');
-                        setSelectedTime(timeStr);
-                        if ((!selectedProvider || selectedProvider === 'all') && found.provider) setSelectedProvider(found.provider);
-                      } else {
-                        toast({ title: 'No available slots', description: 'No available times found in clinic availability', variant: 'destructive' });
-                      }
-                    }}>Nearest Available</Button>
+                    <Button size="sm" variant="outline" onClick={findNearestAvailable}>Nearest Available</Button>
                   </div>
                 </div>
 
@@ -234,6 +242,17 @@ export default function CalendarPickerModal({ isOpen, onClose, patient, onAppoin
                 </Select>
               </div>
             </div>
+
+            {/* Slot search */}
+            <div>
+              <h3 className="font-medium mb-2">Find a Slot</h3>
+              <SlotFinder
+                durationMinutes={DEFAULT_DURATION_MINUTES}
+                providerId={selectedProvider && selectedProvider !== 'all' ? selectedProvider : undefined}
+                roomId={selectedRoom || undefined}
+                onSelect={applySlot}
+              />
+            </div>
           </div>
 
           {/* Right: Preview Card */}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Lock, Printer } from 'lucide-react';
+import { useCashDrawer } from '@/hooks/useCashDrawer';
+import { formatMoney, getPaymentMethodLabel, roundMoney } from '@/lib/invoice';
+
+interface CloseDayDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CloseDayDialog({ isOpen, onClose }: CloseDayDialogProps) {
+  const { today, timezone, useCashDay, closeDay, printZReport } = useCashDrawer();
+  const [day, setDay] = useState(today);
+  const [countedCash, setCountedCash] = useState('');
+  const [notes, setNotes] = useState('');
+  const { data: cashDay, isLoading } = useCashDay(isOpen ? day : '');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDay(today);
+      setCountedCash('');
+      setNotes('');
+    }
+  }, [isOpen, today]);
+
+  const summary = cashDay?.closing?.summary || cashDay?.summary;
+  const closing = cashDay?.closing;
+  const methods = summary?.byMethod.map(total => total.method) || [];
+  const difference = countedCash === '' || !summary
+    ? null
+    : roundMoney(Number(countedCash) - summary.expectedCash);
+
+  const handleClose = async () => {
+    try {
+      await closeDay.mutateAsync({ day, countedCash: Number(countedCash), notes });
+      printZReport.mutate(day);
+    } catch (error) {
+      // Error handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Close Day
+            {closing && (
+              <Badge className="bg-gray-100 text-gray-800">
+                <Lock className="h-3 w-3 mr-1" />
+                Closed
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Count the cash drawer and lock the day's payments. Days follow the clinic clock ({timezone}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="close-day-date">Business day</Label>
+              <Input
+                id="close-day-date"
+                type="date"
+                value={day}
+                max={today}
+                onChange={(e) => setDay(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => printZReport.mutate(day)}
+              disabled={printZReport.isPending || !cashDay}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              {closing ? 'Print Z-report' : 'Print X-report'}
+            </Button>
+          </div>
+
+          {isLoading || !summary ? (
+            <div className="text-center py-8">Loading payments...</div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Refunded</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.byMethod.map(total => (
+                    <TableRow key={total.method}>
+                      <TableCell>{getPaymentMethodLabel(total.method)}</TableCell>
+                      <TableCell className="text-right">{total.count}</TableCell>
+                      <TableCell className="text-right">{formatMoney(total.received)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(total.refunded)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(total.net)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right">{summary.transactionCount}</TableCell>
+                    <TableCell />
+                    <TableCell />
+                    <TableCell className="text-right font-semibold">{formatMoney(summary.totalCollected)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              {summary.byStaff.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Staff</TableHead>
+                      {methods.map(method => (
+                        <TableHead key={method} className="text-right">{getPaymentMethodLabel(method)}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.byStaff.map(staff => (
+                      <TableRow key={staff.staffId || 'unknown'}>
+                        <TableCell>{staff.staffName}</TableCell>
+                        {methods.map(method => (
+                          <TableCell key={method} className="text-right">
+                            {formatMoney(staff.byMethod[method] || 0)}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{formatMoney(staff.net)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <Separator />
+
+              {closing ? (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Expected cash</span>
+                    <span>{formatMoney(closing.expected_cash)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Counted cash</span>
+                    <span>{formatMoney(closing.counted_cash)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Difference</span>
+                    <span className={Number(closing.difference) < 0 ? 'text-red-600' : undefined}>
+                      {formatMoney(Number(closing.difference))}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground pt-2">
+                    Closed by {closing.closer?.full_name || 'unknown'} at {format(new Date(closing.closed_at), 'MMM dd, HH:mm')}
+                    {closing.notes && ` · ${closing.notes}`}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label>Expected cash</Label>
+                      <div className="h-10 flex items-center font-medium">{formatMoney(summary.expectedCash)}</div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="counted-cash">Counted cash *</Label>
+                      <Input
+                        id="counted-cash"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={countedCash}
+                        onChange={(e) => setCountedCash(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Difference</Label>
+                      <div
+                        className={`h-10 flex items-center font-semibold ${
+                          difference !== null && difference < 0 ? 'text-red-600' : ''
+                        }`}
+                      >
+                        {difference === null
+                          ? '—'
+                          : difference === 0
+                            ? 'Balanced'
+                            : `${difference < 0 ? 'Short' : 'Over'} ${formatMoney(Math.abs(difference))}`}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="close-day-notes">Notes{difference ? ' *' : ''}</Label>
+                    <Textarea
+                      id="close-day-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. 50 EGP paid out for courier"
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={onClose}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleClose}
+                      disabled={countedCash === '' || (!!difference && !notes.trim()) || closeDay.isPending}
+                    >
+                      {closeDay.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      <Lock className="h-4 w-4 mr-2" />
+                      Close Day
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,8 +3,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, User, Phone, Clock, CreditCard } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { formatDistanceToNow } from 'date-fns';
+import { endOfDay, formatDistanceToNow, startOfDay } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { dischargePatient, invalidateStatusQueries } from '@/hooks/useAppointmentStatus';
 
 interface CompletedQueueProps {
   searchTerm: string;
@@ -25,56 +26,54 @@ export default function CompletedQueue({ searchTerm, onPatientSelect }: Complete
   const { data: patients = [], isLoading } = useQuery({
     queryKey: ['completed-queue', searchTerm],
     queryFn: async () => {
+      const today = new Date();
+      // Today's finished visits whose patient hasn't been checked out yet
       let query = supabase
-        .from('patients')
-        .select('id, arabic_full_name, phone, updated_at')
+        .from('appointments')
+        .select('id, completed_at, starts_at, patients!inner(id, arabic_full_name, phone, status)')
         .eq('status', 'completed')
-        .order('updated_at', { ascending: false });
+        .eq('patients.status', 'completed')
+        .gte('starts_at', startOfDay(today).toISOString())
+        .lte('starts_at', endOfDay(today).toISOString())
+        .order('completed_at', { ascending: false });
 
       if (searchTerm) {
-        query = query.or(`arabic_full_name.ilike.%${searchTerm}%,phone.ilike.%${searchTerm}%`);
+        query = query.or(`patients.arabic_full_name.ilike.%${searchTerm}%,patients.phone.ilike.%${searchTerm}%`);
       }
 
       const { data, error } = await query;
       if (error) throw error;
-      return (data as CompletedPatient[]) || [];
+
+      const byPatient = new Map<string, CompletedPatient>();
+      for (const appointment of data || []) {
+        if (byPatient.has(appointment.patients.id)) continue;
+        byPatient.set(appointment.patients.id, {
+          id: appointment.patients.id,
+          arabic_full_name: appointment.patients.arabic_full_name,
+          phone: appointment.patients.phone,
+          updated_at: appointment.completed_at || appointment.starts_at,
+        });
+      }
+      return [...byPatient.values()];
     },
   });
 
   const checkoutMutation = useMutation({
     mutationFn: async (patientId: string) => {
-      // Update patient status to discharged
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: 'discharged' })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
-
-      // Update appointment status if exists
-      await supabase
-        .from('appointments')
-        .update({ status: 'completed' })
-        .eq('patient_id', patientId)
-        .eq('status', 'completed');
+      await dischargePatient(patientId);
     },
     onSuccess: () => {
       toast({
         title: "Patient discharged",
         description: "Patient checkout completed",
       });
-      queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
-      queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['in-chair-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['completed-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+      invalidateStatusQueries(queryClient);
     },
     onError: (error) => {
       console.error('Error during checkout:', error);
       toast({
         title: "Error",
-        description: "Failed to complete checkout. Please try again.",
+        description: error.message || "Failed to complete checkout. Please try again.",
         variant: "destructive",
       });
     },
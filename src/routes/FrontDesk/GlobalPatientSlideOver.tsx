@@ -31,6 +31,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { format, isValid } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useUpdatePatientStatusMutation } from '../Patients/usePatientsQuery';
+import { canMovePatient } from '@/lib/appointmentStatus';
 
 interface GlobalPatientSlideOverProps {
   patientId: string | null;
@@ -336,25 +337,29 @@ export default function GlobalPatientSlideOver({
               </Button>
             )}
 
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => patientId && statusUpdateMutation.mutate({ patientId, status: 'no_show' })}
-              disabled={statusUpdateMutation.isPending}
-            >
-              <XCircle className="mr-1 h-3 w-3" />
-              No-show
-            </Button>
+            {canMovePatient(patient.status, 'no_show') && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => patientId && statusUpdateMutation.mutate({ patientId, status: 'no_show' })}
+                disabled={statusUpdateMutation.isPending}
+              >
+                <XCircle className="mr-1 h-3 w-3" />
+                No-show
+              </Button>
+            )}
 
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => patientId && statusUpdateMutation.mutate({ patientId, status: 'cancelled' })}
-              disabled={statusUpdateMutation.isPending}
-            >
-              <XCircle className="mr-1 h-3 w-3" />
-              Cancel
-            </Button>
+            {canMovePatient(patient.status, 'cancelled') && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => patientId && statusUpdateMutation.mutate({ patientId, status: 'cancelled' })}
+                disabled={statusUpdateMutation.isPending}
+              >
+                <XCircle className="mr-1 h-3 w-3" />
+                Cancel
+              </Button>
+            )}
           </div>
         </div>
       </SheetContent>
@@ -3,27 +3,34 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Activity, User, Phone, Clock, MapPin, Stethoscope } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { formatDistanceToNow } from 'date-fns';
+import { endOfDay, formatDistanceToNow, startOfDay } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { invalidateStatusQueries, transitionAppointment } from '@/hooks/useAppointmentStatus';
 
 interface InChairQueueProps {
   searchTerm: string;
   onPatientSelect: (patientId: string) => void;
 }
 
-interface InChairPatient {
-  id: string;
-  arabic_full_name: string;
-  phone: string | null;
+interface InChairAppointment {
+  id: string; // appointment id
+  starts_at: string;
+  in_chair_at: string | null;
+  patients: {
+    id: string;
+    arabic_full_name: string;
+    phone: string | null;
+  };
+  providers: {
+    display_name: string;
+  } | null;
+  rooms: {
+    name: string;
+  } | null;
   visits: {
     id: string;
+    status: string;
     started_at: string;
-    providers: {
-      display_name: string;
-    } | null;
-    rooms: {
-      name: string;
-    } | null;
   }[];
 }
 
@@ -31,76 +38,62 @@ export default function InChairQueue({ searchTerm, onPatientSelect }: InChairQue
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: patients = [], isLoading } = useQuery({
+  const { data: appointments = [], isLoading } = useQuery({
     queryKey: ['in-chair-queue', searchTerm],
     queryFn: async () => {
+      const today = new Date();
       let query = supabase
-        .from('patients')
+        .from('appointments')
         .select(`
           id,
-          arabic_full_name,
-          phone,
-          visits!inner(
+          starts_at,
+          in_chair_at,
+          patients!inner(
             id,
-            started_at,
-            providers(display_name),
-            rooms(name)
-          )
+            arabic_full_name,
+            phone
+          ),
+          providers(display_name),
+          rooms(name),
+          visits(id, status, started_at)
         `)
         .eq('status', 'in_chair')
-        .eq('visits.status', 'in_chair')
-        .order('updated_at', { ascending: true });
+        .gte('starts_at', startOfDay(today).toISOString())
+        .lte('starts_at', endOfDay(today).toISOString())
+        .order('in_chair_at', { ascending: true });
 
       if (searchTerm) {
-        query = query.or(`arabic_full_name.ilike.%${searchTerm}%,phone.ilike.%${searchTerm}%`);
+        query = query.or(`patients.arabic_full_name.ilike.%${searchTerm}%,patients.phone.ilike.%${searchTerm}%`);
       }
 
       const { data, error } = await query;
       if (error) throw error;
-      return (data as InChairPatient[]) || [];
+      return (data as InChairAppointment[]) || [];
     },
   });
 
   const completeVisitMutation = useMutation({
-    mutationFn: async ({ visitId, patientId }: { visitId: string; patientId: string }) => {
-      const now = new Date().toISOString();
+    mutationFn: async ({ appointmentId, visitId }: { appointmentId: string; visitId?: string }) => {
+      await transitionAppointment(appointmentId, 'completed');
 
       // End visit
-      const { error: visitErr } = await supabase
-        .from('visits')
-        .update({ ended_at: now, status: 'completed' })
-        .eq('id', visitId);
-      if (visitErr) throw visitErr;
-
-      // Update patient status
-      const { error: patientErr } = await supabase
-        .from('patients')
-        .update({ status: 'completed' })
-        .eq('id', patientId);
-      if (patientErr) throw patientErr;
-
-      // Update any matching appointment for today
-      const { error: apptErr } = await supabase
-        .from('appointments')
-        .update({ status: 'completed' })
-        .eq('patient_id', patientId)
-        .eq('status', 'in_chair');
-      if (apptErr) throw apptErr;
+      if (visitId) {
+        const { error: visitErr } = await supabase
+          .from('visits')
+          .update({ ended_at: new Date().toISOString(), status: 'completed' })
+          .eq('id', visitId);
+        if (visitErr) throw visitErr;
+      }
 
-      return { visitId, patientId };
+      return { appointmentId };
     },
     onSuccess: () => {
       toast({ title: 'Visit completed', description: 'Patient moved to completed queue' });
-      queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
-      queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['in-chair-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['completed-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+      invalidateStatusQueries(queryClient);
     },
     onError: (error) => {
       console.error('Error completing visit:', error);
-      toast({ title: 'Error', description: 'Failed to complete visit', variant: 'destructive' });
+      toast({ title: 'Error', description: error.message || 'Failed to complete visit', variant: 'destructive' });
     },
   });
 
@@ -117,7 +110,7 @@ export default function InChairQueue({ searchTerm, onPatientSelect }: InChairQue
     );
   }
 
-  if (patients.length === 0) {
+  if (appointments.length === 0) {
     return (
       <div className="p-4 text-center text-muted-foreground flex items-center justify-center h-full">
         <Activity className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -131,13 +124,14 @@ export default function InChairQueue({ searchTerm, onPatientSelect }: InChairQue
 
   return (
     <div className="p-2 space-y-2">
-      {patients.map((patient) => {
-        const visit = patient.visits[0]; // Current visit
-        const startTime = new Date(visit.started_at);
+      {appointments.map((appointment) => {
+        const patient = appointment.patients;
+        const visit = appointment.visits.find(v => v.status === 'in_chair');
+        const startTime = new Date(visit?.started_at || appointment.in_chair_at || appointment.starts_at);
 
         return (
           <div
-            key={patient.id}
+            key={appointment.id}
             className="bg-background border rounded-lg p-3 hover:bg-muted/50 transition-colors"
           >
             {/* Status */}
@@ -172,17 +166,17 @@ export default function InChairQueue({ searchTerm, onPatientSelect }: InChairQue
 
             {/* Provider & Room */}
             <div className="space-y-1 mb-3">
-              {visit.providers && (
+              {appointment.providers && (
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <Stethoscope className="h-3 w-3" />
-                  <span>{visit.providers.display_name}</span>
+                  <span>{appointment.providers.display_name}</span>
                 </div>
               )}
 
-              {visit.rooms && (
+              {appointment.rooms && (
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <MapPin className="h-3 w-3" />
-                  <span>{visit.rooms.name}</span>
+                  <span>{appointment.rooms.name}</span>
                 </div>
               )}
             </div>
@@ -201,7 +195,7 @@ export default function InChairQueue({ searchTerm, onPatientSelect }: InChairQue
 
               <Button
                 size="sm"
-                onClick={() => completeVisitMutation.mutate({ visitId: visit.id, patientId: patient.id })}
+                onClick={() => completeVisitMutation.mutate({ appointmentId: appointment.id, visitId: visit?.id })}
                 className="flex-1 text-xs bg-amber-600 hover:bg-amber-700"
                 disabled={completeVisitMutation.isPending}
               >
@@ -16,6 +16,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAppStore } from '@/store/appStore';
+import { checkInPatient, fetchTodayAppointment } from '@/hooks/useAppointmentStatus';
+import { recordTriage } from '@/hooks/useTriage';
+import { EMPTY_TRIAGE, type TriageAnswers } from '@/lib/triage';
+import { Checkbox } from '@/components/ui/checkbox';
+import TriageFields from './TriageFields';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { UserPlus, FileText } from 'lucide-react';
 
@@ -37,6 +42,8 @@ export default function QuickAddDrawer({ isOpen, onClose, onPatientCreated }: Qu
   const { toast } = useToast();
   const { profile, currentClinic } = useAppStore();
   const [isCreatingAndChecking, setIsCreatingAndChecking] = useState(false);
+  const [withTriage, setWithTriage] = useState(false);
+  const [triage, setTriage] = useState<TriageAnswers>(EMPTY_TRIAGE);
 
   const form = useForm<QuickAddData>({
     resolver: zodResolver(quickAddSchema),
@@ -48,6 +55,15 @@ export default function QuickAddDrawer({ isOpen, onClose, onPatientCreated }: Qu
   });
 
   const handleQuickAddAndCheckin = async (data: QuickAddData) => {
+    if (withTriage && (!currentClinic?.id || !triage.chief_complaint.trim())) {
+      toast({
+        title: "Error",
+        description: currentClinic?.id ? "Enter the chief complaint" : "No clinic selected",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setIsCreatingAndChecking(true);
 
@@ -58,7 +74,6 @@ export default function QuickAddDrawer({ isOpen, onClose, onPatientCreated }: Qu
           arabic_full_name: data.arabic_full_name,
           phone: data.phone || null,
           reason_for_visit: data.reason_for_visit || null,
-          status: 'arrived',
           clinic_id: currentClinic?.id || null,
           created_by: profile?.user_id || null,
         })
@@ -67,43 +82,46 @@ export default function QuickAddDrawer({ isOpen, onClose, onPatientCreated }: Qu
 
       if (patientError) throw patientError;
 
-      // Create today's appointment if none exists
-      const today = new Date();
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59);
+      // A new patient has no booking, so this books the walk-in and checks it in
+      await checkInPatient(patient.id, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+      });
 
-      const { data: existingAppointment } = await supabase
-        .from('appointments')
-        .select('id')
-        .eq('patient_id', patient.id)
-        .gte('starts_at', startOfDay.toISOString())
-        .lte('starts_at', endOfDay.toISOString())
-        .maybeSingle();
-
-      if (!existingAppointment) {
-        const now = new Date();
-        const appointmentEnd = new Date(now.getTime() + 30 * 60000); // 30 minutes default
-
-        await supabase
-          .from('appointments')
-          .insert({
-            patient_id: patient.id,
-            starts_at: now.toISOString(),
-            ends_at: appointmentEnd.toISOString(),
-            status: 'arrived',
-            clinic_id: currentClinic?.id || null,
-            created_by: profile?.user_id || null,
+      // The patient is checked in by now, so a failed triage is reported on its own
+      let triageError: Error | null = null;
+      if (withTriage && currentClinic?.id) {
+        try {
+          const appointment = await fetchTodayAppointment(patient.id);
+          if (!appointment) throw new Error("today's appointment was not found");
+          await recordTriage(triage, {
+            appointmentId: appointment.id,
+            patientId: patient.id,
+            clinicId: currentClinic.id,
+            userId: profile?.user_id || null,
           });
+        } catch (error) {
+          triageError = error as Error;
+        }
       }
 
       toast({
         title: "Patient checked in successfully",
         description: "Patient created and ready for Arabic intake form",
       });
+      if (triageError) {
+        toast({
+          title: "Triage not saved",
+          description: `The patient is checked in, but the triage could not be saved: ${triageError.message}`,
+          variant: "destructive",
+        });
+      }
 
       onPatientCreated();
       onClose();
       form.reset();
+      setWithTriage(false);
+      setTriage(EMPTY_TRIAGE);
     } catch (error) {
       console.error('Error creating patient:', error);
       toast({
@@ -176,11 +194,20 @@ export default function QuickAddDrawer({ isOpen, onClose, onPatientCreated }: Qu
               />
             </div>
 
+            {/* Triage */}
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                <Checkbox checked={withTriage} onCheckedChange={(checked) => setWithTriage(checked === true)} />
+                Emergency or in pain? Record triage
+              </label>
+              {withTriage && <TriageFields value={triage} onChange={setTriage} />}
+            </div>
+
             {/* Action Buttons */}
             <div className="flex flex-col gap-3 pt-4">
               <Button 
                 type="submit" 
-                disabled={isCreatingAndChecking}
+                disabled={isCreatingAndChecking || (withTriage && !triage.chief_complaint.trim())}
                 className="w-full"
               >
                 {isCreatingAndChecking ? (
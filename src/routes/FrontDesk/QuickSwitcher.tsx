@@ -100,17 +100,23 @@ export default function QuickSwitcher({ isOpen, onClose, onPatientSelect }: Quic
         });
       }
 
-      // Search recent invoices
-      const { data: invoices } = await supabase
+      // Search recent invoices, by invoice number (INV-...) or by patient
+      let invoicesQuery = supabase
         .from('invoices')
         .select(`
           id,
+          invoice_number,
           total_amount,
           status,
           created_at,
           patients!inner(id, arabic_full_name, phone)
-        `)
-        .or(`patients.arabic_full_name.ilike.%${searchTerm}%,patients.phone.ilike.%${searchTerm}%`)
+        `);
+
+      invoicesQuery = /^inv-/i.test(searchTerm.trim())
+        ? invoicesQuery.ilike('invoice_number', `%${searchTerm.trim()}%`)
+        : invoicesQuery.or(`patients.arabic_full_name.ilike.%${searchTerm}%,patients.phone.ilike.%${searchTerm}%`);
+
+      const { data: invoices } = await invoicesQuery
         .order('created_at', { ascending: false })
         .limit(3);
 
@@ -121,7 +127,7 @@ export default function QuickSwitcher({ isOpen, onClose, onPatientSelect }: Quic
             id: patient.id,
             type: 'invoice',
             title: patient.arabic_full_name,
-            subtitle: `Invoice ${invoice.total_amount} EGP`,
+            subtitle: `${invoice.invoice_number || 'Invoice'} · ${invoice.total_amount} EGP`,
             status: invoice.status,
             date: invoice.created_at,
           });
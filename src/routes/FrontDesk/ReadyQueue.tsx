@@ -8,12 +8,12 @@ import {
   closestCenter,
   KeyboardSensor,
   PointerSensor,
+  useDroppable,
   useSensor,
   useSensors,
   DragEndEvent,
 } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
@@ -24,6 +24,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useAppStore } from '@/store/appStore';
+import { invalidateStatusQueries, transitionAppointment, transitionPatientToday } from '@/hooks/useAppointmentStatus';
+import { useProviders } from '@/hooks/useCalendarData';
+import { useQueueOrder, useQueueOrderRealtime } from '@/hooks/useQueueOrder';
+import { QueuePriorityBadge, QueuePriorityControl } from '@/components/Clinical/QueuePriority';
+import { buildQueueLanes, moveInQueue, type QueueLane, type QueuePriority } from '@/lib/readyQueue';
 import { useState } from 'react';
 import React from 'react';
 
@@ -38,7 +43,11 @@ interface ReadyItem {
   provider_id: string | null;
   room_id: string | null;
   starts_at: string;
+  ready_at: string | null;
   status: string;
+  queue_order: number | null;
+  queue_priority: QueuePriority | null;
+  queue_priority_reason: string | null;
   patients: {
     id: string;
     arabic_full_name: string;
@@ -55,16 +64,17 @@ interface SortablePatientProps {
   onPatientSelect: (patientId: string) => void;
   onStartVisit: (item: ReadyItem) => void;
   isStarting: boolean;
+  canReorder: boolean;
 }
 
-function SortablePatient({ item, index, onPatientSelect, onStartVisit, isStarting }: SortablePatientProps) {
+function SortablePatient({ item, index, onPatientSelect, onStartVisit, isStarting, canReorder }: SortablePatientProps) {
   const {
     attributes,
     listeners,
     setNodeRef,
     transform,
     transition,
-  } = useSortable({ id: item.id });
+  } = useSortable({ id: item.id, disabled: !canReorder });
 
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
@@ -76,19 +86,32 @@ function SortablePatient({ item, index, onPatientSelect, onStartVisit, isStartin
       <div className="p-3 pt-4">
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center gap-2">
-            <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing p-1 hover:bg-muted rounded">
-              <GripVertical className="h-4 w-4 text-muted-foreground" />
-            </div>
+            {canReorder && (
+              <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing p-1 hover:bg-muted rounded">
+                <GripVertical className="h-4 w-4 text-muted-foreground" />
+              </div>
+            )}
             <Badge variant="outline" className="text-xs">
               #{index + 1} in queue
             </Badge>
           </div>
 
-          <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-            Ready
-          </Badge>
+          <div className="flex items-center gap-1">
+            <QueuePriorityControl appointmentId={item.id} priority={item.queue_priority} />
+            <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+              Ready
+            </Badge>
+          </div>
         </div>
 
+        {item.queue_priority && (
+          <QueuePriorityBadge
+            priority={item.queue_priority}
+            reason={item.queue_priority_reason}
+            className="mb-2"
+          />
+        )}
+
         <div className="flex items-start justify-between mb-3">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-1">
@@ -119,7 +142,7 @@ function SortablePatient({ item, index, onPatientSelect, onStartVisit, isStartin
 
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <Clock className="h-3 w-3" />
-          <span>Ready for {formatDistanceToNow(new Date(item.patients.updated_at))}</span>
+          <span>Ready for {formatDistanceToNow(new Date(item.ready_at || item.patients.updated_at))}</span>
         </div>
       </div>
 
@@ -138,11 +161,27 @@ function SortablePatient({ item, index, onPatientSelect, onStartVisit, isStartin
   );
 }
 
+// Lets a patient be dropped on a queue with no one in it yet
+function LaneDropZone({ laneId, children }: { laneId: string; children: React.ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: laneId });
+
+  return (
+    <div ref={setNodeRef} className={`h-full rounded-md overflow-hidden ${isOver ? 'bg-primary/5' : 'bg-muted/10'}`}>
+      {children}
+    </div>
+  );
+}
+
 export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueueProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { profile, currentClinic } = useAppStore();
   const [items, setItems] = useState<ReadyItem[]>([]);
+  const { data: providers = [] } = useProviders();
+  const { reorderLane } = useQueueOrder();
+  useQueueOrderRealtime();
+  // A filtered queue only shows part of each lane, so its order can't be saved
+  const canReorder = !searchTerm;
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -166,7 +205,11 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
           provider_id,
           room_id,
           starts_at,
+          ready_at,
           status,
+          queue_order,
+          queue_priority,
+          queue_priority_reason,
           patients!inner(
             id,
             arabic_full_name,
@@ -177,10 +220,11 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
           providers(display_name),
           rooms(name)
         `)
-        .eq('patients.status', 'ready')
+        .eq('status', 'ready')
         .gte('starts_at', start)
         .lte('starts_at', end)
-        .order('starts_at', { ascending: true });
+        .order('queue_order', { ascending: true, nullsFirst: false })
+        .order('ready_at', { ascending: true });
 
       if (searchTerm) {
         query = query.or(`patients.arabic_full_name.ilike.%${searchTerm}%,patients.phone.ilike.%${searchTerm}%`);
@@ -235,6 +279,13 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
       providerId?: string;
       roomId?: string;
     }) => {
+      // Moving the appointment first refuses a patient who is no longer ready
+      if (appointmentId) {
+        await transitionAppointment(appointmentId, 'in_chair');
+      } else {
+        await transitionPatientToday(patientId, 'in_chair');
+      }
+
       // Create visit
       const { data: visit, error: visitError } = await supabase
         .from('visits')
@@ -253,22 +304,6 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
 
       if (visitError) throw visitError;
 
-      // Update patient status
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: 'in_chair' })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
-
-      // Update appointment status if exists
-      if (appointmentId) {
-        await supabase
-          .from('appointments')
-          .update({ status: 'in_chair' })
-          .eq('id', appointmentId);
-      }
-
       return visit;
     },
     onSuccess: () => {
@@ -277,18 +312,13 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
         description: "Patient moved to clinical console",
       });
       // Invalidate all front desk related queries to refresh lists
-      queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
-      queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['in-chair-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['completed-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
+      invalidateStatusQueries(queryClient);
     },
     onError: (error) => {
       console.error('Error starting visit:', error);
       toast({
         title: "Error",
-        description: "Failed to start visit. Please try again.",
+        description: error.message || "Failed to start visit. Please try again.",
         variant: "destructive",
       });
     },
@@ -303,20 +333,25 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
     });
   };
 
+  const lanes = buildQueueLanes(items, providers, item => item.providers?.display_name);
+
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event;
-
-    if (over && active.id !== over.id) {
-      const oldIndex = items.findIndex(it => it.id === String(active.id));
-      const newIndex = items.findIndex(it => it.id === String(over.id));
-
-      setItems(arrayMove(items, oldIndex, newIndex));
-      
-      toast({
-        title: "Queue updated",
-        description: "Patient order has been changed",
-      });
-    }
+    if (!over || !canReorder) return;
+
+    const moved = moveInQueue(lanes, String(active.id), String(over.id));
+    if (!moved) return;
+
+    // Show the new order straight away; the saved order comes back through realtime
+    setItems(moved.lanes.flatMap(lane => lane.items));
+    reorderLane.mutate(
+      {
+        providerId: moved.target.providerId,
+        appointmentIds: moved.target.items.map(it => it.id),
+        reassignedTo: moved.reassigned ? moved.target.name : undefined,
+      },
+      { onError: () => setItems(fetchedItems) }
+    );
   }
 
   if (isLoading) {
@@ -344,20 +379,13 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
     );
   }
 
-  // Group items by provider id (preserve provider id for keys)
-  const groupsMap = items.reduce((acc: Record<string, { providerId: string; providerName: string; items: ReadyItem[] }>, it) => {
-    const key = it.provider_id || 'unassigned';
-    if (!acc[key]) acc[key] = { providerId: key, providerName: it.providers?.display_name || 'Unassigned', items: [] };
-    acc[key].items.push(it);
-    return acc;
-  }, {} as Record<string, { providerId: string; providerName: string; items: ReadyItem[] }>);
-
-  const lanes = Object.values(groupsMap).filter(g => g.items.length > 0);
+  // While searching only queues with matches are shown; otherwise every queue is a drop target
+  const visibleLanes: QueueLane<ReadyItem>[] = canReorder ? lanes : lanes.filter(l => l.items.length > 0);
 
   return (
     <div className="h-full p-2">
       <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-        {lanes.length === 0 ? (
+        {visibleLanes.length === 0 ? (
           <div className="h-full">
             <div className="h-full grid place-items-center text-muted-foreground">
               <div className="text-center">
@@ -368,16 +396,16 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
             </div>
           </div>
         ) : (
-          <div className="gap-4 h-full" style={{ display: 'grid', gridTemplateColumns: `repeat(${lanes.length}, minmax(0, 1fr))` }}>
-            {lanes.map((lane) => (
-              <div key={lane.providerId} className="h-full">
+          <div className="gap-4 h-full overflow-x-auto" style={{ display: 'grid', gridTemplateColumns: `repeat(${visibleLanes.length}, minmax(220px, 1fr))` }}>
+            {visibleLanes.map((lane) => (
+              <div key={lane.id} className="h-full">
                 <div className="h-full flex flex-col rounded-md">
                   <div className="text-xs font-medium mb-2 px-1 flex items-center justify-between">
-                    <div>{lane.providerName}</div>
+                    <div>{lane.name}</div>
                     <Badge variant="secondary">{lane.items.length} in queue</Badge>
                   </div>
 
-                  <div className="h-full bg-muted/10 rounded-md overflow-hidden">
+                  <LaneDropZone laneId={lane.id}>
                     <SortableContext items={lane.items.map((it) => it.id)} strategy={verticalListSortingStrategy}>
                       <div className="p-2 space-y-2 h-full overflow-y-auto min-h-0">
                         {lane.items.map((item, index) => (
@@ -388,11 +416,15 @@ export default function ReadyQueue({ searchTerm, onPatientSelect }: ReadyQueuePr
                             onPatientSelect={onPatientSelect}
                             onStartVisit={handleStartVisit}
                             isStarting={startVisitMutation.isPending}
+                            canReorder={canReorder}
                           />
                         ))}
+                        {lane.items.length === 0 && (
+                          <p className="text-xs text-muted-foreground text-center py-6">Drop a patient here</p>
+                        )}
                       </div>
                     </SortableContext>
-                  </div>
+                  </LaneDropZone>
                 </div>
               </div>
             ))}
@@ -5,6 +5,9 @@ import { Calendar, User, Phone, Clock, UserCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useAppStore } from '@/store/appStore';
+import { checkInPatient, invalidateStatusQueries } from '@/hooks/useAppointmentStatus';
+import { canTransition, type AppointmentStatus } from '@/lib/appointmentStatus';
 
 interface TodayAppointmentsProps {
   searchTerm: string;
@@ -15,7 +18,7 @@ interface Appointment {
   id: string;
   starts_at: string;
   ends_at: string;
-  status: string;
+  status: AppointmentStatus;
   patients: {
     id: string;
     arabic_full_name: string;
@@ -26,6 +29,7 @@ interface Appointment {
 
 export default function TodayAppointments({ searchTerm, onPatientSelect }: TodayAppointmentsProps) {
   const { toast } = useToast();
+  const { profile, currentClinic } = useAppStore();
   const queryClient = useQueryClient();
 
   const { data: appointments = [], isLoading } = useQuery({
@@ -64,35 +68,15 @@ export default function TodayAppointments({ searchTerm, onPatientSelect }: Today
   });
 
   const checkInMutation = useMutation({
-    mutationFn: async (patientId: string) => {
-      // Check if patient has signed intake form
-      const { data: intakeForm } = await supabase
-        .from('intake_forms')
-        .select('id')
-        .eq('patient_id', patientId)
-        .eq('is_active', true)
-        .eq('active_signed', true)
-        .maybeSingle();
-
-      const newStatus = intakeForm ? 'ready' : 'arrived';
-
-      // Update patient status
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: newStatus })
-        .eq('id', patientId);
-
-      if (patientError) throw patientError;
-
-      // Update appointment status
-      const { error: appointmentError } = await supabase
-        .from('appointments')
-        .update({ status: newStatus })
-        .eq('patient_id', patientId);
-
-      if (appointmentError) throw appointmentError;
+    mutationFn: async ({ appointmentId, patientId }: { appointmentId: string; patientId: string }) => {
+      // Straight to ready when intake is already signed
+      const status = await checkInPatient(patientId, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+        appointmentId,
+      });
 
-      return { status: newStatus };
+      return { status };
     },
     onSuccess: (data) => {
       const statusMessage = data.status === 'ready' 
@@ -103,15 +87,13 @@ export default function TodayAppointments({ searchTerm, onPatientSelect }: Today
         title: "Patient checked in",
         description: statusMessage,
       });
-      queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
-      queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
+      invalidateStatusQueries(queryClient);
     },
     onError: (error) => {
       console.error('Error checking in patient:', error);
       toast({
         title: "Error",
-        description: "Failed to check in patient. Please try again.",
+        description: error.message || "Failed to check in patient. Please try again.",
         variant: "destructive",
       });
     },
@@ -203,10 +185,10 @@ export default function TodayAppointments({ searchTerm, onPatientSelect }: Today
 
           {/* Actions */}
           <div className="flex gap-2">
-            {appointment.status === 'planned' && (
+            {canTransition(appointment.status, 'arrived') && (
               <Button
                 size="sm"
-                onClick={() => checkInMutation.mutate(appointment.patients.id)}
+                onClick={() => checkInMutation.mutate({ appointmentId: appointment.id, patientId: appointment.patients.id })}
                 disabled={checkInMutation.isPending}
                 className="flex-1 text-xs"
               >
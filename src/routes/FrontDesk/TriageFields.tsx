@@ -0,0 +1,73 @@
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { QueuePriorityBadge } from '@/components/Clinical/QueuePriority';
+import { describeTriage, getTriagePriority, type TriageAnswers } from '@/lib/triage';
+
+interface TriageFieldsProps {
+  value: TriageAnswers;
+  onChange: (value: TriageAnswers) => void;
+}
+
+const SIGNS: { key: 'swelling' | 'bleeding' | 'trauma'; label: string }[] = [
+  { key: 'swelling', label: 'Swelling' },
+  { key: 'bleeding', label: 'Bleeding' },
+  { key: 'trauma', label: 'Trauma' },
+];
+
+/**
+ * The short triage asked at the desk for a walk-in, with the queue priority it gives
+ */
+export default function TriageFields({ value, onChange }: TriageFieldsProps) {
+  const priority = getTriagePriority(value);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="block text-sm font-medium mb-1">Chief complaint</Label>
+        <Input
+          value={value.chief_complaint}
+          onChange={(e) => onChange({ ...value, chief_complaint: e.target.value })}
+          placeholder="e.g. toothache lower left"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label className="text-sm font-medium">Pain</Label>
+          <span className="text-sm tabular-nums">{value.pain_score}/10</span>
+        </div>
+        <Slider
+          min={0}
+          max={10}
+          step={1}
+          value={[value.pain_score]}
+          onValueChange={([score]) => onChange({ ...value, pain_score: score })}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {SIGNS.map(sign => (
+          <label key={sign.key} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={value[sign.key]}
+              onCheckedChange={(checked) => onChange({ ...value, [sign.key]: checked === true })}
+            />
+            {sign.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Queue priority:</span>
+        {priority ? (
+          <QueuePriorityBadge priority={priority} reason={describeTriage(value)} />
+        ) : (
+          <Badge variant="outline" className="text-xs">Routine</Badge>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import { Save, X, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useAppStore } from '@/store/appStore';
+import { checkInPatient } from '@/hooks/useAppointmentStatus';
 
 const intakeFormSchema = z.object({
   // Demographics
@@ -82,6 +84,7 @@ export default function IntakeForm() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const { toast } = useToast();
+  const { profile, currentClinic } = useAppStore();
 
   const {
     register,
@@ -245,7 +248,7 @@ export default function IntakeForm() {
 
       if (intakeError) throw intakeError;
 
-      // Update patient with intake data and mark as ready
+      // Update patient with intake data
       const { error: patientError } = await supabase
         .from('patients')
         .update({
@@ -259,17 +262,16 @@ export default function IntakeForm() {
           prior_surgeries: data.hasSurgeries ? data.surgeries : null,
           smoker: data.isSmoker,
           reason_for_visit: data.reasonForVisit,
-          status: 'ready'
         })
         .eq('id', patientId);
 
       if (patientError) throw patientError;
 
-      // Sync any related appointments to ready
-      await supabase
-        .from('appointments')
-        .update({ status: 'ready' })
-        .eq('patient_id', patientId);
+      // With intake signed, today's appointment moves on to ready
+      await checkInPatient(patientId, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+      });
 
       toast({
         title: "تم الحفظ بنجاح",
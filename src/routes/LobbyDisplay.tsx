@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Megaphone, MonitorX } from 'lucide-react';
+import { useLobbyBoard } from '@/hooks/useLobbyDisplays';
+import { estimateWaitMinutes, formatCallUp, type LobbyCallUp } from '@/lib/lobbyDisplay';
+
+const TOKEN_STORAGE_KEY = 'lobby-display-token';
+const ANNOUNCEMENT_MS = 15 * 1000;
+
+/**
+ * Full-screen queue for a TV in the waiting area. No navigation and no staff session:
+ * the screen is opened once with ?token=..., which is then remembered on the device.
+ */
+export default function LobbyDisplay() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [token] = useState(() => {
+    const fromUrl = searchParams.get('token');
+    if (fromUrl) localStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+    return fromUrl || localStorage.getItem(TOKEN_STORAGE_KEY);
+  });
+  const { data: board, error } = useLobbyBoard(token);
+  const [now, setNow] = useState(() => new Date());
+  const [announcements, setAnnouncements] = useState<LobbyCallUp[]>([]);
+  const seenCallUps = useRef<Set<string> | null>(null);
+
+  // Keep the token out of the address bar once it is stored
+  useEffect(() => {
+    if (searchParams.has('token')) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Patients moved into a room since the last refresh are announced; those already
+  // in a chair when the screen starts are not
+  useEffect(() => {
+    if (!board) return;
+    if (!seenCallUps.current) {
+      seenCallUps.current = new Set(board.called.map(c => c.id));
+      return;
+    }
+    const seen = seenCallUps.current;
+    const fresh = board.called.filter(c => !seen.has(c.id)).reverse();
+    fresh.forEach(c => seen.add(c.id));
+    if (fresh.length > 0) {
+      setAnnouncements(prev => [...prev, ...fresh]);
+    }
+  }, [board]);
+
+  const currentAnnouncement = announcements[0];
+  useEffect(() => {
+    if (!currentAnnouncement) return;
+    const timeout = setTimeout(() => setAnnouncements(prev => prev.slice(1)), ANNOUNCEMENT_MS);
+    return () => clearTimeout(timeout);
+  }, [currentAnnouncement]);
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-300 flex flex-col items-center justify-center gap-4 p-8 text-center">
+        <MonitorX className="h-16 w-16" />
+        <h1 className="text-3xl font-semibold">This screen is not connected</h1>
+        <p className="text-lg max-w-xl">
+          {token
+            ? 'The display link was removed or could not be reached. It will keep retrying.'
+            : 'Open the lobby display link from Admin → Configuration on this screen.'}
+        </p>
+      </div>
+    );
+  }
+
+  if (!board) {
+    return <div className="min-h-screen bg-slate-950" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white flex flex-col select-none cursor-none">
+      <header className="flex items-center justify-between px-10 py-6 border-b border-slate-800">
+        <h1 className="text-4xl font-bold">{board.clinic_name}</h1>
+        <span className="text-4xl font-light tabular-nums">{format(now, 'HH:mm')}</span>
+      </header>
+
+      <main className="flex-1 grid grid-cols-5 gap-8 p-10">
+        <section className="col-span-3 space-y-4">
+          <h2 className="text-2xl uppercase tracking-wide text-slate-400">Now serving</h2>
+          {board.called.length === 0 ? (
+            <p className="text-2xl text-slate-500">—</p>
+          ) : (
+            board.called.map(callUp => (
+              <div
+                key={callUp.id}
+                className="flex items-center justify-between rounded-xl bg-slate-900 px-8 py-5"
+              >
+                <span className="text-5xl font-bold" dir="auto">{callUp.label}</span>
+                <span className="text-4xl text-emerald-400">{callUp.room || '—'}</span>
+              </div>
+            ))
+          )}
+        </section>
+
+        <section className="col-span-2 space-y-4">
+          <h2 className="text-2xl uppercase tracking-wide text-slate-400">Waiting</h2>
+          {board.ready.length === 0 && board.arrived.length === 0 && (
+            <p className="text-2xl text-slate-500">No one waiting</p>
+          )}
+          {board.ready.map((entry, index) => (
+            <div key={entry.id} className="flex items-center justify-between rounded-xl bg-slate-900 px-6 py-4">
+              <div className="flex items-center gap-4">
+                <span className="text-2xl text-slate-500 tabular-nums w-10">{index + 1}</span>
+                <span className="text-3xl font-semibold" dir="auto">{entry.label}</span>
+              </div>
+              <span className="text-2xl text-slate-300">
+                ~{estimateWaitMinutes(index, board.average_visit_minutes, board.chairs_in_use)} min
+              </span>
+            </div>
+          ))}
+          {board.arrived.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between rounded-xl bg-slate-900/60 px-6 py-4">
+              <span className="text-3xl font-semibold text-slate-300 pl-14" dir="auto">{entry.label}</span>
+              <span className="text-xl text-slate-500">Checking in</span>
+            </div>
+          ))}
+        </section>
+      </main>
+
+      {currentAnnouncement && (
+        <div className="fixed inset-0 bg-emerald-600 flex flex-col items-center justify-center gap-8 p-12 text-center animate-in fade-in-0">
+          <Megaphone className="h-24 w-24" />
+          <p className="text-7xl font-bold leading-tight" dir="auto">
+            {formatCallUp(currentAnnouncement, board.label_mode)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useMe } from '@/hooks/useMe';
+import { invalidateStatusQueries, movePatient } from '@/hooks/useAppointmentStatus';
 import type { Patient, PatientFilters, PatientFormData, PatientStatus } from './types';
 
 interface PatientsQueryResult {
@@ -169,55 +170,20 @@ export function useUpdatePatientMutation() {
 export function useUpdatePatientStatusMutation() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { profile, currentClinic } = useMe();
 
   return useMutation({
     mutationFn: async ({ patientId, status }: { patientId: string; status: PatientStatus }) => {
-      // If setting to 'arrived', auto-skip intake if already signed (move to 'ready')
-      let nextStatus: PatientStatus = status;
-      if (status === 'arrived') {
-        const { data: intakeForm, error: intakeError } = await supabase
-          .from('intake_forms')
-          .select('id')
-          .eq('patient_id', patientId)
-          .eq('is_active', true)
-          .eq('active_signed', true)
-          .maybeSingle();
-        if (intakeError) throw intakeError;
-        if (intakeForm) {
-          nextStatus = 'ready';
-        }
-      }
-
-      const { error: patientError } = await supabase
-        .from('patients')
-        .update({ status: nextStatus })
-        .eq('id', patientId);
-      if (patientError) throw patientError;
-
-      // Keep appointments in sync - map patient status to appointment status
-      let appointmentStatus: "planned" | "confirmed" | "arrived" | "ready" | "in_chair" | "completed" | "no_show" | "cancelled" = 
-        nextStatus === 'discharged' ? 'completed' : nextStatus as "planned" | "confirmed" | "arrived" | "ready" | "in_chair" | "completed" | "no_show" | "cancelled";
-      
-      const { error: apptError } = await supabase
-        .from('appointments')
-        .update({ status: appointmentStatus })
-        .eq('patient_id', patientId);
-      if (apptError) throw apptError;
+      // Check-in moves straight on to 'ready' when intake is already signed
+      const nextStatus = await movePatient(patientId, status, {
+        clinicId: currentClinic?.id || null,
+        userId: profile?.user_id || null,
+      });
 
       return { nextStatus };
     },
     onSuccess: (data) => {
-      // Invalidate patients lists/detail
-      queryClient.invalidateQueries({ queryKey: ['patients'] });
-      queryClient.invalidateQueries({ queryKey: ['patient'] });
-
-      // Invalidate front desk/intake related queries
-      queryClient.invalidateQueries({ queryKey: ['today-appointments'] });
-      queryClient.invalidateQueries({ queryKey: ['arrived-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['ready-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['in-chair-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['completed-queue'] });
-      queryClient.invalidateQueries({ queryKey: ['intake-patients'] });
+      invalidateStatusQueries(queryClient);
 
       const desc = data?.nextStatus === 'ready'
         ? 'Patient moved to ready (intake already signed).'
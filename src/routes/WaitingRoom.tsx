@@ -1,34 +1,197 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, Clock, MapPin, Stethoscope, User } from 'lucide-react';
+import { differenceInMinutes, format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/store/appStore';
+import { useClinicSettings } from '@/hooks/useClinicSettings';
+import { useWaitingRoomBoard } from '@/hooks/useWaitingRoom';
+import {
+  DEFAULT_WAIT_ALERT_MINUTES,
+  WAITING_STAGES,
+  getMinutesWaited,
+  getStageStartedAt,
+  isWaitingTooLong,
+  type WaitingRoomEntry,
+  type WaitingStage,
+} from '@/lib/waitingRoom';
+
+const STAGE_CONFIG: Record<WaitingStage, { label: string; badgeClass: string }> = {
+  arrived: { label: 'Arrived', badgeClass: 'bg-amber-100 text-amber-800' },
+  ready: { label: 'Ready', badgeClass: 'bg-blue-100 text-blue-800' },
+  in_chair: { label: 'In Chair', badgeClass: 'bg-green-100 text-green-800' },
+};
+
+interface WaitingPatientCardProps {
+  entry: WaitingRoomEntry;
+  now: Date;
+  thresholdMinutes: number;
+}
+
+function WaitingPatientCard({ entry, now, thresholdMinutes }: WaitingPatientCardProps) {
+  const stageStartedAt = getStageStartedAt(entry);
+  const minutesWaited = getMinutesWaited(entry, now);
+  const overdue = isWaitingTooLong(entry, now, thresholdMinutes);
+
+  return (
+    <div
+      className={cn(
+        'border rounded-lg p-3 bg-background space-y-2',
+        overdue && 'border-destructive bg-destructive/5'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <User className="h-4 w-4 text-muted-foreground shrink-0" />
+          <h3 className="font-medium text-sm truncate">{entry.patients.arabic_full_name}</h3>
+        </div>
+        {overdue && <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />}
+      </div>
+
+      <div className="space-y-1 text-xs text-muted-foreground">
+        {entry.providers && (
+          <div className="flex items-center gap-2">
+            <Stethoscope className="h-3 w-3" />
+            <span>{entry.providers.display_name}</span>
+          </div>
+        )}
+        {entry.rooms && (
+          <div className="flex items-center gap-2">
+            <MapPin className="h-3 w-3" />
+            <span>{entry.rooms.name}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <div className={cn('flex items-center gap-1 font-medium', overdue ? 'text-destructive' : 'text-foreground')}>
+          <Clock className="h-3 w-3" />
+          {entry.status === 'in_chair' ? `Waited ${minutesWaited} min` : `${minutesWaited} min waiting`}
+        </div>
+        <span className="text-muted-foreground">
+          {STAGE_CONFIG[entry.status].label} since {format(stageStartedAt, 'HH:mm')}
+          {entry.status === 'in_chair' && ` · ${Math.max(0, differenceInMinutes(now, stageStartedAt))} min`}
+        </span>
+      </div>
+    </div>
+  );
+}
 
 export default function WaitingRoom() {
+  const { profile } = useAppStore();
+  const { entries, isLoading, now } = useWaitingRoomBoard();
+  const { settings, updateSettings } = useClinicSettings();
+  const thresholdMinutes = settings?.wait_alert_minutes ?? DEFAULT_WAIT_ALERT_MINUTES;
+  const [thresholdInput, setThresholdInput] = useState(String(thresholdMinutes));
+
+  useEffect(() => {
+    setThresholdInput(String(thresholdMinutes));
+  }, [thresholdMinutes]);
+
+  const overdueCount = entries.filter(entry => isWaitingTooLong(entry, now, thresholdMinutes)).length;
+
+  const handleSaveThreshold = () => {
+    if (!settings) return;
+    const minutes = Math.max(1, Math.round(Number(thresholdInput)) || DEFAULT_WAIT_ALERT_MINUTES);
+
+    updateSettings.mutate({
+      availability: settings.availability,
+      timezone: settings.timezone,
+      slot_minutes: settings.slot_minutes,
+      overbooking_policy: settings.overbooking_policy,
+      wait_alert_minutes: minutes,
+    });
+  };
+
   return (
     <div className="p-6">
       <div className="space-y-6">
-        <div className="space-y-2">
-          <h1 className="text-3xl font-bold">Waiting Room</h1>
-          <p className="text-muted-foreground">
-            Patient queue management: Arrived → Ready → In-chair
-          </p>
-        </div>
-
-        <Card className="medical-shadow">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Clock className="h-5 w-5" />
-              <span>Queue Management</span>
-            </CardTitle>
-            <CardDescription>
-              Coming soon: Real-time patient queue with status tracking
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">Waiting Room</h1>
             <p className="text-muted-foreground">
-              This section will handle patient queue management with status transitions and real-time updates.
+              Arrived → Ready → In-chair · patients waiting {thresholdMinutes}+ min are highlighted
             </p>
-          </CardContent>
-        </Card>
+          </div>
+
+          <div className="flex items-end gap-3">
+            {overdueCount > 0 && (
+              <Badge variant="destructive" className="h-8">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {overdueCount} waiting too long
+              </Badge>
+            )}
+            {profile?.role === 'admin' && (
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="wait-alert-minutes" className="text-xs">Alert after (min)</Label>
+                  <Input
+                    id="wait-alert-minutes"
+                    type="number"
+                    min="1"
+                    className="w-24 h-8"
+                    value={thresholdInput}
+                    onChange={(e) => setThresholdInput(e.target.value)}
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleSaveThreshold}
+                  disabled={!settings || updateSettings.isPending || thresholdInput === String(thresholdMinutes)}
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {WAITING_STAGES.map(stage => {
+            const stageEntries = entries
+              .filter(entry => entry.status === stage)
+              .sort((a, b) => getStageStartedAt(a).getTime() - getStageStartedAt(b).getTime());
+
+            return (
+              <Card key={stage} className="medical-shadow">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span>{STAGE_CONFIG[stage].label}</span>
+                    <Badge variant="secondary" className={STAGE_CONFIG[stage].badgeClass}>
+                      {stageEntries.length}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {isLoading ? (
+                    <>
+                      <Skeleton className="h-24 w-full" />
+                      <Skeleton className="h-24 w-full" />
+                    </>
+                  ) : stageEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No patients</p>
+                  ) : (
+                    stageEntries.map(entry => (
+                      <WaitingPatientCard
+                        key={entry.id}
+                        entry={entry}
+                        now={now}
+                        thresholdMinutes={thresholdMinutes}
+                      />
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
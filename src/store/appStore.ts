@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { User } from '@supabase/supabase-js';
 import type { UserRole } from '@/lib/roles';
+import type { FreedSlot } from '@/lib/waitlist';
 
 // Type definitions matching the database
 interface Profile {
@@ -41,6 +42,7 @@ interface AppState {
   
   // UI state
   isOnline: boolean;
+  freedSlot: FreedSlot | null; // offered to the waitlist until booked or dismissed
   
   // Actions
   setUser: (user: User | null) => void;
@@ -50,6 +52,7 @@ interface AppState {
   setRooms: (rooms: Room[]) => void;
   setLoading: (loading: boolean) => void;
   setOnline: (online: boolean) => void;
+  setFreedSlot: (slot: FreedSlot | null) => void;
   reset: () => void;
 }
 
@@ -62,6 +65,7 @@ export const useAppStore = create<AppState>((set) => ({
   clinics: [],
   rooms: [],
   isOnline: navigator.onLine,
+  freedSlot: null,
   
   // Actions
   setUser: (user) => set({ user }),
@@ -76,6 +80,7 @@ export const useAppStore = create<AppState>((set) => ({
   setRooms: (rooms) => set({ rooms }),
   setLoading: (loading) => set({ isLoading: loading }),
   setOnline: (online) => set({ isOnline: online }),
+  setFreedSlot: (slot) => set({ freedSlot: slot }),
   reset: () => set({
     user: null,
     profile: null,
@@ -83,6 +88,7 @@ export const useAppStore = create<AppState>((set) => ({
     clinics: [],
     rooms: [],
     isLoading: false,
+    freedSlot: null,
   }),
 }));
 
@@ -1,5 +1,6 @@
 import { CalendarAppointment } from '@/hooks/useCalendarData';
 import { format } from 'date-fns';
+import { buildIcsCalendar, getInitials } from '@/lib/ical';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 
@@ -152,6 +153,38 @@ export function exportAppointmentsToPDF(
   doc.save(`${filename}.pdf`);
 }
 
+// Patient initials and the appointment type only, as the file ends up on personal phones
+export function exportAppointmentsToICS(
+  appointments: CalendarAppointment[],
+  filename: string = 'appointments',
+  calendarName: string = 'Appointments'
+) {
+  const icsContent = buildIcsCalendar(
+    calendarName,
+    appointments.map(appointment => ({
+      uid: `${appointment.id}@iconident`,
+      start: new Date(appointment.starts_at),
+      end: new Date(appointment.ends_at),
+      summary: [getInitials(appointment.patients.arabic_full_name), appointment.appointment_types?.name || 'Appointment'].join(' · '),
+      location: appointment.rooms?.name,
+      cancelled: appointment.status === 'cancelled' || appointment.status === 'no_show',
+    }))
+  );
+
+  const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${filename}.ics`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+}
+
 export function getExportFilename(viewType: string, date: Date): string {
   const dateStr = format(date, 'yyyy-MM-dd');
   return `appointments-${viewType}-${dateStr}`;
@@ -0,0 +1,442 @@
+import { format } from 'date-fns';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import type { CellHookData } from 'jspdf-autotable';
+import amiriFontUrl from '@/assets/fonts/Amiri-Regular.ttf?url';
+import { formatToothLocation } from '@/lib/odontogram';
+import {
+  formatInvoiceNumber,
+  formatMoney,
+  getInvoiceBalance,
+  getPaymentMethodLabel,
+  getTotalPaid,
+  type InvoiceStatus,
+} from '@/lib/invoice';
+
+export type InvoicePdfKind = 'invoice' | 'receipt';
+
+export interface InvoiceDocument {
+  id: string;
+  invoice_number: string | null;
+  status: InvoiceStatus;
+  created_at: string;
+  currency: string;
+  subtotal: number;
+  discount_amount: number;
+  total_amount: number;
+  adjustment_total: number | null;
+  notes: string | null;
+  void_reason: string | null;
+  clinics: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+  } | null;
+  patients: {
+    arabic_full_name: string;
+    latin_name: string | null;
+    phone: string | null;
+  } | null;
+  invoice_items: {
+    id: string;
+    description: string;
+    qty: number;
+    unit_price: number;
+    discount: number;
+    line_total: number;
+    procedure_plan_rows: {
+      treatments: { name_en: string; name_ar: string | null } | null;
+      visit_diagnoses: {
+        tooth_set: string;
+        quadrant: string | null;
+        tooth_number: number | null;
+        surfaces: string[] | null;
+      } | null;
+    } | null;
+  }[];
+  payments: {
+    id: string;
+    amount: number;
+    method: string | null;
+    reference: string | null;
+    paid_at: string;
+    receipt_number: string | null;
+  }[];
+  installment_plans: {
+    id: string;
+    installment_items: {
+      id: string;
+      due_date: string;
+      amount: number;
+      paid: boolean;
+    }[];
+  }[];
+}
+
+// Amiri ships with the app (src/assets/fonts), so printing never depends on a CDN
+const ARABIC_FONT = 'Amiri';
+const ARABIC_FONT_FILE = 'Amiri-Regular.ttf';
+
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const PAGE_MARGIN = 14;
+
+let arabicFontData: string | null = null;
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Register the Arabic font with the document. jsPDF shapes Arabic and applies
+ * right-to-left ordering itself once a font with Arabic glyphs is active.
+ * Throws rather than print a document with the patient's Arabic name missing.
+ */
+async function loadArabicFont(doc: jsPDF) {
+  if (!arabicFontData) {
+    const response = await fetch(amiriFontUrl).catch(() => null);
+    if (!response?.ok) {
+      throw new Error('The Arabic font could not be loaded. Reload the page and try again.');
+    }
+    arabicFontData = toBase64(await response.arrayBuffer());
+  }
+
+  doc.addFileToVFS(ARABIC_FONT_FILE, arabicFontData);
+  doc.addFont(ARABIC_FONT_FILE, ARABIC_FONT, 'normal');
+}
+
+function isArabic(text?: string | null): boolean {
+  return !!text && ARABIC_PATTERN.test(text);
+}
+
+/**
+ * Bilingual label pair: English on the left margin, Arabic right-aligned on the right margin
+ */
+function labelPair(doc: jsPDF, english: string, arabic: string, y: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFont('helvetica', 'bold');
+  doc.text(english, PAGE_MARGIN, y);
+  doc.setFont(ARABIC_FONT, 'normal');
+  doc.text(arabic, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+}
+
+/**
+ * Field row: "Label / التسمية" and its value, with Arabic values drawn right-to-left
+ */
+function fieldRow(
+  doc: jsPDF,
+  english: string,
+  arabic: string,
+  value: string,
+  y: number
+) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(110);
+  doc.text(english, PAGE_MARGIN, y);
+  doc.setFont(ARABIC_FONT, 'normal');
+  doc.text(arabic, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+
+  doc.setTextColor(0);
+  if (isArabic(value)) {
+    doc.setFont(ARABIC_FONT, 'normal');
+    doc.text(value, pageWidth / 2 + 30, y, { align: 'right' });
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.text(value, PAGE_MARGIN + 40, y);
+  }
+  doc.setFont('helvetica', 'normal');
+}
+
+function drawHeader(doc: jsPDF, data: InvoiceDocument, kind: InvoicePdfKind): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const clinic = data.clinics;
+
+  doc.setFontSize(16);
+  if (isArabic(clinic?.name)) {
+    doc.setFont(ARABIC_FONT, 'normal');
+    doc.text(clinic!.name, pageWidth - PAGE_MARGIN, 20, { align: 'right' });
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.text(clinic?.name || 'Clinic', PAGE_MARGIN, 20);
+  }
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  const contact = [clinic?.address, clinic?.phone].filter(Boolean).join('  |  ');
+  if (contact) {
+    if (isArabic(contact)) {
+      doc.setFont(ARABIC_FONT, 'normal');
+      doc.text(contact, pageWidth - PAGE_MARGIN, 27, { align: 'right' });
+    } else {
+      doc.text(contact, PAGE_MARGIN, 27);
+    }
+  }
+
+  doc.setDrawColor(200);
+  doc.line(PAGE_MARGIN, 31, pageWidth - PAGE_MARGIN, 31);
+
+  doc.setFontSize(14);
+  if (kind === 'invoice') {
+    labelPair(doc, 'INVOICE', 'فاتورة', 41);
+  } else {
+    labelPair(doc, 'PAYMENT RECEIPT', 'إيصال استلام نقدية', 41);
+  }
+
+  return 49;
+}
+
+function drawTotals(doc: jsPDF, data: InvoiceDocument, startY: number): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const lineDiscounts = data.invoice_items.reduce((sum, item) => sum + Number(item.discount || 0), 0);
+  const rows: [string, string, number][] = [
+    ['Subtotal', 'المجموع', Number(data.subtotal) || Number(data.total_amount)],
+  ];
+  if (lineDiscounts > 0) rows.push(['Line discounts', 'خصم البنود', -lineDiscounts]);
+  if (Number(data.discount_amount) > 0) rows.push(['Invoice discount', 'خصم الفاتورة', -Number(data.discount_amount)]);
+  rows.push(
+    ['Total', 'الإجمالي', Number(data.total_amount)],
+  );
+  if (Number(data.adjustment_total) > 0) {
+    rows.push(['Credits & write-offs', 'إشعارات دائنة وشطب', -Number(data.adjustment_total)]);
+  }
+  rows.push(
+    ['Paid', 'المدفوع', getTotalPaid(data.payments)],
+    ['Balance due', 'المتبقي', getInvoiceBalance(data)],
+  );
+
+  doc.setFontSize(10);
+  let y = startY;
+  rows.forEach(([english, arabic, amount]) => {
+    const emphasise = english === 'Total' || english === 'Balance due';
+    doc.setFont('helvetica', emphasise ? 'bold' : 'normal');
+    doc.text(english, pageWidth / 2, y);
+    doc.text(formatMoney(amount, data.currency), pageWidth - PAGE_MARGIN - 30, y, { align: 'right' });
+    doc.setFont(ARABIC_FONT, 'normal');
+    doc.text(arabic, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFont('helvetica', 'normal');
+
+  return y;
+}
+
+function lastTableY(doc: jsPDF, fallback: number): number {
+  return (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || fallback;
+}
+
+/**
+ * Switch autoTable cells holding Arabic text to the Arabic font, right-aligned
+ */
+function arabicCellHook(hookData: CellHookData) {
+  const text = Array.isArray(hookData.cell.text) ? hookData.cell.text.join(' ') : hookData.cell.text;
+  if (isArabic(text)) {
+    hookData.cell.styles.font = ARABIC_FONT;
+    hookData.cell.styles.fontStyle = 'normal';
+    hookData.cell.styles.halign = 'right';
+  }
+}
+
+const TABLE_STYLES = {
+  styles: { fontSize: 9, cellPadding: 2.5 },
+  headStyles: { fillColor: [66, 139, 202], textColor: 255, fontStyle: 'bold' },
+  alternateRowStyles: { fillColor: [245, 245, 245] },
+};
+
+/**
+ * Build the invoice (or a payment receipt for it) as a bilingual A4 PDF.
+ */
+export async function buildInvoicePDF(
+  data: InvoiceDocument,
+  kind: InvoicePdfKind = 'invoice',
+  paymentId?: string
+): Promise<jsPDF> {
+  const doc = new jsPDF();
+  await loadArabicFont(doc);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const payment = kind === 'receipt'
+    ? data.payments.find(p => p.id === paymentId) || data.payments[data.payments.length - 1]
+    : undefined;
+
+  let y = drawHeader(doc, data, kind);
+
+  // Document details
+  doc.setFontSize(10);
+  if (kind === 'receipt' && payment) {
+    fieldRow(doc, 'Receipt No.', 'رقم الإيصال', payment.receipt_number || '-', y);
+    y += 6;
+    fieldRow(doc, 'Date', 'التاريخ', format(new Date(payment.paid_at), 'yyyy-MM-dd HH:mm'), y);
+    y += 6;
+    fieldRow(doc, 'Invoice No.', 'رقم الفاتورة', formatInvoiceNumber(data), y);
+    y += 6;
+  } else {
+    fieldRow(doc, 'Invoice No.', 'رقم الفاتورة', formatInvoiceNumber(data), y);
+    y += 6;
+    fieldRow(doc, 'Date', 'التاريخ', format(new Date(data.created_at), 'yyyy-MM-dd'), y);
+    y += 6;
+  }
+
+  if (data.patients) {
+    fieldRow(doc, 'Patient', 'اسم المريض', data.patients.arabic_full_name, y);
+    if (data.patients.latin_name) {
+      doc.setFont('helvetica', 'bold');
+      doc.text(data.patients.latin_name, PAGE_MARGIN + 40, y);
+      doc.setFont('helvetica', 'normal');
+    }
+    y += 6;
+    if (data.patients.phone) {
+      fieldRow(doc, 'Phone', 'الهاتف', data.patients.phone, y);
+      y += 6;
+    }
+  }
+
+  if (data.status === 'void') {
+    doc.setTextColor(200, 0, 0);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`VOID${data.void_reason ? ` - ${data.void_reason}` : ''}`, PAGE_MARGIN, y + 2);
+    doc.setTextColor(0);
+    doc.setFont('helvetica', 'normal');
+    y += 8;
+  }
+
+  if (kind === 'receipt' && payment) {
+    // Single payment being acknowledged
+    doc.autoTable({
+      head: [['Method', 'Reference', 'Amount']],
+      body: [[
+        getPaymentMethodLabel(payment.method),
+        payment.reference || '',
+        formatMoney(payment.amount, data.currency),
+      ]],
+      startY: y + 4,
+      ...TABLE_STYLES,
+      columnStyles: { 2: { halign: 'right' } },
+    });
+    y = lastTableY(doc, y) + 8;
+  }
+
+  // Line items with tooth location and the Arabic treatment name where known
+  doc.autoTable({
+    head: [['#', 'Description', 'Tooth', 'Qty', 'Unit Price', 'Discount', 'Total', 'البيان']],
+    body: data.invoice_items.map((item, index) => {
+      const row = item.procedure_plan_rows;
+      const tooth = row?.visit_diagnoses ? formatToothLocation(row.visit_diagnoses) : '';
+      const description = row?.treatments?.name_en || item.description;
+      return [
+        String(index + 1),
+        description,
+        tooth === 'General' ? '' : tooth,
+        String(item.qty),
+        formatMoney(item.unit_price, ''),
+        Number(item.discount) > 0 ? formatMoney(item.discount, '') : '',
+        formatMoney(item.line_total, ''),
+        row?.treatments?.name_ar || '',
+      ];
+    }),
+    startY: y + 2,
+    ...TABLE_STYLES,
+    columnStyles: {
+      0: { cellWidth: 8 },
+      2: { cellWidth: 18 },
+      3: { cellWidth: 10, halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+    },
+    didParseCell: arabicCellHook,
+  });
+  y = lastTableY(doc, y) + 8;
+
+  y = drawTotals(doc, data, y);
+
+  // Payments received
+  if (kind === 'invoice' && data.payments.length > 0) {
+    y += 4;
+    doc.setFontSize(11);
+    labelPair(doc, 'Payments', 'المدفوعات', y);
+    doc.autoTable({
+      head: [['Receipt No.', 'Date', 'Method', 'Reference', 'Amount']],
+      body: data.payments.map(p => [
+        p.receipt_number || '',
+        format(new Date(p.paid_at), 'yyyy-MM-dd HH:mm'),
+        getPaymentMethodLabel(p.method),
+        p.reference || '',
+        formatMoney(p.amount, data.currency),
+      ]),
+      startY: y + 3,
+      ...TABLE_STYLES,
+      columnStyles: { 4: { halign: 'right' } },
+    });
+    y = lastTableY(doc, y) + 8;
+  }
+
+  // Installment schedule
+  const installments = data.installment_plans
+    .flatMap(plan => plan.installment_items)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+  if (installments.length > 0) {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    doc.setFontSize(11);
+    labelPair(doc, 'Installment Schedule', 'جدول الأقساط', y);
+    doc.autoTable({
+      head: [['#', 'Due Date', 'Amount', 'Status']],
+      body: installments.map((inst, index) => [
+        String(index + 1),
+        inst.due_date,
+        formatMoney(inst.amount, data.currency),
+        inst.paid ? 'Paid' : inst.due_date < today ? 'Overdue' : 'Due',
+      ]),
+      startY: y + 3,
+      ...TABLE_STYLES,
+      columnStyles: { 2: { halign: 'right' } },
+    });
+    y = lastTableY(doc, y) + 8;
+  }
+
+  if (data.notes) {
+    doc.setFontSize(9);
+    if (isArabic(data.notes)) {
+      doc.setFont(ARABIC_FONT, 'normal');
+      doc.text(doc.splitTextToSize(data.notes, pageWidth - PAGE_MARGIN * 2), pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    } else {
+      doc.text(doc.splitTextToSize(data.notes, pageWidth - PAGE_MARGIN * 2), PAGE_MARGIN, y);
+    }
+    doc.setFont('helvetica', 'normal');
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(130);
+    doc.text(`Printed ${format(new Date(), 'yyyy-MM-dd HH:mm')}`, PAGE_MARGIN, pageHeight - 10);
+    doc.text(`${page} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' });
+    doc.setTextColor(0);
+  }
+
+  return doc;
+}
+
+/**
+ * Open the PDF in a new tab with the print dialog
+ */
+export function printPDF(doc: jsPDF) {
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+}
+
+export function getInvoiceFilename(data: InvoiceDocument, kind: InvoicePdfKind, paymentId?: string): string {
+  if (kind === 'receipt') {
+    const payment = data.payments.find(p => p.id === paymentId);
+    return payment?.receipt_number || `receipt-${data.id.slice(-8)}`;
+  }
+  return data.invoice_number || `invoice-${data.id.slice(-8)}`;
+}
@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { formatMoney, getPaymentMethodLabel } from '@/lib/invoice';
+import type { CashDaySummary, DrawerTransaction } from '@/lib/cashDrawer';
+
+export interface ZReportData {
+  clinicName: string;
+  businessDate: string; // yyyy-MM-dd
+  timezone: string;
+  summary: CashDaySummary;
+  transactions: DrawerTransaction[];
+  countedCash: number | null; // null while the day is still open
+  notes?: string | null;
+  closedBy?: string | null;
+  closedAt?: string | null;
+}
+
+const PAGE_MARGIN = 14;
+
+const getFinalY = (doc: jsPDF, fallback: number) =>
+  (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || fallback;
+
+/**
+ * End-of-day Z-report: totals by method and staff member, the cash count and every transaction
+ */
+export function buildZReportPDF(data: ZReportData): jsPDF {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { summary } = data;
+  const isClosed = data.countedCash !== null;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(data.clinicName, PAGE_MARGIN, 20);
+  doc.setFontSize(13);
+  doc.text(isClosed ? 'Z-REPORT' : 'X-REPORT (day not closed)', PAGE_MARGIN, 30);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Business day: ${format(new Date(`${data.businessDate}T00:00:00`), 'EEEE, MMM dd, yyyy')}`, PAGE_MARGIN, 38);
+  doc.text(`Timezone: ${data.timezone}`, PAGE_MARGIN, 44);
+  if (data.closedAt) {
+    doc.text(
+      `Closed ${format(new Date(data.closedAt), 'yyyy-MM-dd HH:mm')}${data.closedBy ? ` by ${data.closedBy}` : ''}`,
+      PAGE_MARGIN,
+      50
+    );
+  }
+
+  doc.setDrawColor(200);
+  doc.line(PAGE_MARGIN, 54, pageWidth - PAGE_MARGIN, 54);
+
+  doc.autoTable({
+    startY: 60,
+    head: [['Method', 'Count', 'Received', 'Refunded', 'Net']],
+    body: summary.byMethod.map(total => [
+      getPaymentMethodLabel(total.method),
+      total.count,
+      formatMoney(total.received),
+      formatMoney(total.refunded),
+      formatMoney(total.net),
+    ]),
+    foot: [['Total', summary.transactionCount, '', '', formatMoney(summary.totalCollected)]],
+    theme: 'grid',
+    headStyles: { fillColor: [66, 66, 66] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 0 },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  const methods = summary.byMethod.map(total => total.method);
+  doc.autoTable({
+    startY: getFinalY(doc, 60) + 8,
+    head: [['Staff', 'Count', ...methods.map(getPaymentMethodLabel), 'Net']],
+    body: summary.byStaff.map(staff => [
+      staff.staffName,
+      staff.count,
+      ...methods.map(method => formatMoney(staff.byMethod[method] || 0)),
+      formatMoney(staff.net),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [66, 66, 66] },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  // Cash count
+  let y = getFinalY(doc, 60) + 10;
+  const cashRows: [string, string][] = [['Expected cash', formatMoney(summary.expectedCash)]];
+  if (isClosed) {
+    const difference = Number(data.countedCash) - summary.expectedCash;
+    cashRows.push(
+      ['Counted cash', formatMoney(Number(data.countedCash))],
+      [difference < 0 ? 'Short' : difference > 0 ? 'Over' : 'Difference', formatMoney(difference)],
+    );
+  }
+  doc.setFontSize(10);
+  cashRows.forEach(([label, value], index) => {
+    doc.setFont('helvetica', index === cashRows.length - 1 ? 'bold' : 'normal');
+    doc.text(label, pageWidth / 2, y);
+    doc.text(value, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFont('helvetica', 'normal');
+
+  if (data.notes) {
+    y += 2;
+    const lines = doc.splitTextToSize(`Notes: ${data.notes}`, pageWidth - PAGE_MARGIN * 2);
+    doc.text(lines, PAGE_MARGIN, y);
+    y += lines.length * 5;
+  }
+
+  doc.autoTable({
+    startY: y + 4,
+    head: [['Time', 'Receipt', 'Description', 'Method', 'Staff', 'Amount']],
+    body: data.transactions.map(transaction => [
+      format(new Date(transaction.at), 'HH:mm'),
+      transaction.reference || '',
+      transaction.description || '',
+      getPaymentMethodLabel(transaction.method),
+      transaction.staffName || '',
+      formatMoney(transaction.amount),
+    ]),
+    theme: 'striped',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 66, 66] },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(130);
+    doc.text(`Printed ${format(new Date(), 'yyyy-MM-dd HH:mm')}`, PAGE_MARGIN, pageHeight - 10);
+    doc.text(`${page} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' });
+    doc.setTextColor(0);
+  }
+
+  return doc;
+}
@@ -0,0 +1,10 @@
+/**
+ * Initials only, e.g. "محمد أحمد علي" to "م.ع.", so queues and calendars leaving the
+ * clinic never carry a patient's full name
+ */
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  const picked = words.length > 1 ? [words[0], words[words.length - 1]] : [words[0]];
+  return picked.map((word) => `${Array.from(word)[0]}.`).join("");
+}
@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { getInitials } from "../_shared/initials.ts";
+
+// Anonymized queue for a lobby TV. The screen has no staff session, so access is by
+// the display's device token (GET ?token=...). Patients appear as initials or as the
+// day's ticket number (order of arrival); names and phones never leave this function.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DisplayRow {
+  id: string;
+  clinic_id: string;
+  label_mode: "initials" | "ticket";
+  clinics: { name: string } | null;
+}
+
+interface AppointmentRow {
+  id: string;
+  status: string;
+  queue_order: number | null;
+  arrived_at: string | null;
+  ready_at: string | null;
+  in_chair_at: string | null;
+  completed_at: string | null;
+  patients: { arabic_full_name: string } | null;
+  rooms: { name: string } | null;
+}
+
+// The current working day without timezone maths: long enough for a full day of
+// opening hours, too short to reach the previous one
+const WINDOW_HOURS = 16;
+const MAX_CALL_UPS = 6;
+const DEFAULT_VISIT_MINUTES = 30;
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+const time = (value: string | null) => (value ? new Date(value).getTime() : Infinity);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl) {
+    return jsonResponse({ error: "SUPABASE_URL not set" }, 500);
+  }
+  if (!serviceRoleKey) {
+    return jsonResponse({ error: "SUPABASE_SERVICE_ROLE_KEY not set" }, 500);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return jsonResponse({ error: "Missing token" }, 400);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: displayData, error: displayErr } = await supabaseAdmin
+      .from("lobby_displays")
+      .select("id, clinic_id, label_mode, clinics(name)")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (displayErr) {
+      console.error("display lookup error", displayErr);
+      return jsonResponse({ error: "Unexpected error" }, 500);
+    }
+    const display = displayData as unknown as DisplayRow | null;
+    // Same answer for unknown and revoked tokens
+    if (!display) {
+      return jsonResponse({ error: "Not found" }, 404);
+    }
+
+    const since = new Date(Date.now() - WINDOW_HOURS * 3600000).toISOString();
+    const [{ data: appointmentsData, error: appointmentsErr }, { data: settings }] = await Promise.all([
+      supabaseAdmin
+        .from("appointments")
+        .select("id, status, queue_order, arrived_at, ready_at, in_chair_at, completed_at, patients(arabic_full_name), rooms(name)")
+        .eq("clinic_id", display.clinic_id)
+        .not("arrived_at", "is", null)
+        .gte("arrived_at", since),
+      supabaseAdmin
+        .from("clinic_settings")
+        .select("slot_minutes")
+        .eq("clinic_id", display.clinic_id)
+        .maybeSingle(),
+    ]);
+
+    if (appointmentsErr) {
+      console.error("appointments lookup error", appointmentsErr);
+      return jsonResponse({ error: "Unexpected error" }, 500);
+    }
+
+    await supabaseAdmin
+      .from("lobby_displays")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("id", display.id);
+
+    const appointments = (appointmentsData || []) as unknown as AppointmentRow[];
+
+    // Ticket numbers follow arrival order, so they stay put as the queue moves
+    const tickets = new Map(
+      [...appointments]
+        .sort((a, b) => time(a.arrived_at) - time(b.arrived_at))
+        .map((appointment, index) => [appointment.id, String(index + 1).padStart(3, "0")]),
+    );
+    const label = (appointment: AppointmentRow) =>
+      display.label_mode === "ticket"
+        ? tickets.get(appointment.id)!
+        : getInitials(appointment.patients?.arabic_full_name || "");
+
+    const ready = appointments
+      .filter((a) => a.status === "ready")
+      .sort((a, b) =>
+        (a.queue_order ?? Infinity) - (b.queue_order ?? Infinity) || time(a.ready_at) - time(b.ready_at)
+      )
+      .map((a) => ({ id: a.id, label: label(a), stage: "ready" }));
+
+    const arrived = appointments
+      .filter((a) => a.status === "arrived")
+      .sort((a, b) => time(a.arrived_at) - time(b.arrived_at))
+      .map((a) => ({ id: a.id, label: label(a), stage: "arrived" }));
+
+    const inChair = appointments.filter((a) => a.status === "in_chair" && a.in_chair_at);
+    const called = [...inChair]
+      .sort((a, b) => time(b.in_chair_at) - time(a.in_chair_at))
+      .slice(0, MAX_CALL_UPS)
+      .map((a) => ({ id: a.id, label: label(a), room: a.rooms?.name || null, called_at: a.in_chair_at }));
+
+    // Visit length from today's finished visits, else the clinic's slot length
+    const finished = appointments.filter((a) => a.in_chair_at && a.completed_at);
+    const averageVisitMinutes = finished.length > 0
+      ? Math.round(
+        finished.reduce((sum, a) => sum + (time(a.completed_at) - time(a.in_chair_at)), 0) / finished.length / 60000,
+      )
+      : settings?.slot_minutes || DEFAULT_VISIT_MINUTES;
+
+    return jsonResponse({
+      clinic_name: display.clinics?.name || "Clinic",
+      label_mode: display.label_mode,
+      ready,
+      arrived,
+      called,
+      average_visit_minutes: Math.max(5, averageVisitMinutes),
+      chairs_in_use: Math.max(1, inChair.length),
+    }, 200);
+  } catch (e) {
+    console.error("lobby-display error", e);
+    return jsonResponse({ error: (e as Error).message || "Unexpected error" }, 500);
+  }
+});
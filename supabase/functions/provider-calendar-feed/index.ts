@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { escapeText, foldLine } from "../_shared/ical.ts";
+import { getInitials } from "../_shared/initials.ts";
+
+// Read-only iCalendar feed of one provider's appointments, for phone calendar
+// subscriptions. Calendar apps cannot sign in, so access is by the feed's token
+// (GET ?token=...). Events carry patient initials and the appointment type only.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface FeedRow {
+  id: string;
+  clinic_id: string;
+  provider_id: string;
+  providers: { display_name: string } | null;
+  clinics: { name: string } | null;
+}
+
+interface AppointmentRow {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  patients: { arabic_full_name: string } | null;
+  appointment_types: { name: string } | null;
+  rooms: { name: string } | null;
+}
+
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function textResponse(body: string, status: number) {
+  return new Response(body, {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl) {
+    return textResponse("SUPABASE_URL not set", 500);
+  }
+  if (!serviceRoleKey) {
+    return textResponse("SUPABASE_SERVICE_ROLE_KEY not set", 500);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return textResponse("Missing token", 400);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: feedData, error: feedErr } = await supabaseAdmin
+      .from("provider_calendar_feeds")
+      .select("id, clinic_id, provider_id, providers(display_name), clinics(name)")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (feedErr) {
+      console.error("feed lookup error", feedErr);
+      return textResponse("Unexpected error", 500);
+    }
+    const feed = feedData as unknown as FeedRow | null;
+    // Same answer for unknown and revoked tokens
+    if (!feed) {
+      return textResponse("Not found", 404);
+    }
+
+    const now = Date.now();
+    const { data: appointments, error: appointmentsErr } = await supabaseAdmin
+      .from("appointments")
+      .select("id, starts_at, ends_at, status, patients(arabic_full_name), appointment_types(name), rooms(name)")
+      .eq("clinic_id", feed.clinic_id)
+      .eq("provider_id", feed.provider_id)
+      .gte("starts_at", new Date(now - PAST_DAYS * 86400000).toISOString())
+      .lte("starts_at", new Date(now + FUTURE_DAYS * 86400000).toISOString())
+      .order("starts_at");
+
+    if (appointmentsErr) {
+      console.error("appointments lookup error", appointmentsErr);
+      return textResponse("Unexpected error", 500);
+    }
+
+    await supabaseAdmin
+      .from("provider_calendar_feeds")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    const providerName = feed.providers?.display_name || "Provider";
+    const clinicName = feed.clinics?.name || "Clinic";
+    const stamp = formatDateTime(new Date());
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//IconiDent OS//Appointments//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(`${providerName} · ${clinicName}`)}`,
+      "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+      "X-PUBLISHED-TTL:PT1H",
+    ];
+
+    for (const appointment of (appointments || []) as unknown as AppointmentRow[]) {
+      const summary = [
+        getInitials(appointment.patients?.arabic_full_name || ""),
+        appointment.appointment_types?.name || "Appointment",
+      ].join(" · ");
+      const cancelled = appointment.status === "cancelled" || appointment.status === "no_show";
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${appointment.id}@iconident`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatDateTime(appointment.starts_at)}`,
+        `DTEND:${formatDateTime(appointment.ends_at)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        ...(appointment.rooms?.name ? [`LOCATION:${escapeText(appointment.rooms.name)}`] : []),
+        `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+        "END:VEVENT",
+      );
+    }
+
+    lines.push("END:VCALENDAR");
+
+    return new Response(lines.map(foldLine).join("\r\n") + "\r\n", {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (e) {
+    console.error("provider-calendar-feed error", e);
+    return textResponse((e as Error).message || "Unexpected error", 500);
+  }
+});
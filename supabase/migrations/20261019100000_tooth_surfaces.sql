@@ -0,0 +1,11 @@
+-- Per-surface findings (Mesial, Occlusal/Incisal, Distal, Buccal, Lingual)
+ALTER TABLE public.visit_diagnoses
+  ADD COLUMN IF NOT EXISTS surfaces text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.visit_diagnoses
+  ADD CONSTRAINT visit_diagnoses_surfaces_check
+  CHECK (surfaces <@ ARRAY['M', 'O', 'D', 'B', 'L']::text[]);
+
+-- Restorative diagnoses (caries, fillings...) can require at least one surface
+ALTER TABLE public.diagnosis_rules
+  ADD COLUMN IF NOT EXISTS requires_surfaces boolean NOT NULL DEFAULT false;
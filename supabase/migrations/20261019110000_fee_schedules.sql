@@ -0,0 +1,106 @@
+-- Versioned treatment fee schedules per clinic, with optional per-provider overrides.
+-- A schedule row is one version: a newer effective_from for the same clinic/provider
+-- supersedes the older one. Prices are only copied into procedure_plan_rows.price when a
+-- row is planned, so editing a schedule never changes prices already recorded.
+CREATE TABLE public.fee_schedules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  provider_id uuid REFERENCES public.providers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  effective_from date NOT NULL DEFAULT current_date,
+  effective_to date,
+  currency text NOT NULL DEFAULT 'EGP',
+  created_by uuid REFERENCES public.profiles(user_id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT fee_schedules_effective_range CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE TABLE public.fee_schedule_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  fee_schedule_id uuid NOT NULL REFERENCES public.fee_schedules(id) ON DELETE CASCADE,
+  treatment_id uuid NOT NULL REFERENCES public.treatments(id) ON DELETE CASCADE,
+  price numeric(12, 2) NOT NULL CHECK (price >= 0),
+  UNIQUE (fee_schedule_id, treatment_id)
+);
+
+CREATE INDEX fee_schedules_clinic_effective_idx
+  ON public.fee_schedules (clinic_id, provider_id, effective_from DESC);
+
+-- Enable RLS
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_schedule_items ENABLE ROW LEVEL SECURITY;
+
+-- Clinic staff can read their clinic's fee schedules
+CREATE POLICY "Users can view their clinic fee schedules"
+ON public.fee_schedules
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Only admins can change prices
+CREATE POLICY "Admins can manage their clinic fee schedules"
+ON public.fee_schedules
+FOR ALL
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+CREATE POLICY "Users can view their clinic fee schedule items"
+ON public.fee_schedule_items
+FOR SELECT
+USING (
+  fee_schedule_id IN (
+    SELECT fs.id
+    FROM fee_schedules fs
+    JOIN staff_clinics sc ON sc.clinic_id = fs.clinic_id
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage their clinic fee schedule items"
+ON public.fee_schedule_items
+FOR ALL
+USING (
+  fee_schedule_id IN (
+    SELECT fs.id
+    FROM fee_schedules fs
+    JOIN staff_clinics sc ON sc.clinic_id = fs.clinic_id
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  fee_schedule_id IN (
+    SELECT fs.id
+    FROM fee_schedules fs
+    JOIN staff_clinics sc ON sc.clinic_id = fs.clinic_id
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+-- Add trigger for automatic timestamp updates
+CREATE TRIGGER update_fee_schedules_updated_at
+BEFORE UPDATE ON public.fee_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,103 @@
+-- Invoice lifecycle: per-line and whole-invoice discounts, voiding with a reason,
+-- split payments by method, and a status that is always derived from the payments.
+
+-- Discounts
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS discount numeric(12, 2) NOT NULL DEFAULT 0
+  CHECK (discount >= 0);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(12, 2) NOT NULL DEFAULT 0
+    CHECK (discount_amount >= 0);
+
+-- Voiding
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS void_reason text,
+  ADD COLUMN IF NOT EXISTS voided_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES public.profiles(user_id);
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_void_requires_reason
+  CHECK (status <> 'void' OR (void_reason IS NOT NULL AND length(trim(void_reason)) > 0));
+
+-- Split payments: one payments row per method
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_method_check
+  CHECK (method IS NULL OR method IN ('cash', 'card', 'wallet', 'bank_transfer'));
+
+-- Keep invoices.status in sync with the payment total.
+-- Mirrors deriveInvoiceStatus() in src/lib/invoice.ts.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total numeric;
+  v_status invoice_status_enum;
+  v_paid numeric;
+BEGIN
+  SELECT total_amount, status INTO v_total, v_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR v_status IN ('void', 'draft') THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM payments
+  WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices
+  SET status = CASE
+    WHEN v_total <= 0 OR v_paid >= v_total THEN 'paid'::invoice_status_enum
+    WHEN v_paid > 0 THEN 'partial'::invoice_status_enum
+    ELSE 'open'::invoice_status_enum
+  END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.payments_refresh_invoice_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_invoice_status(OLD.invoice_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_invoice_status(NEW.invoice_id);
+  IF TG_OP = 'UPDATE' AND OLD.invoice_id <> NEW.invoice_id THEN
+    PERFORM public.refresh_invoice_status(OLD.invoice_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_invoice_status_on_payment
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.payments_refresh_invoice_status();
+
+-- Payments cannot be recorded against a void invoice
+CREATE OR REPLACE FUNCTION public.payments_reject_void_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM invoices WHERE id = NEW.invoice_id AND status = 'void') THEN
+    RAISE EXCEPTION 'Cannot record a payment on a void invoice';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_payment_on_void_invoice
+BEFORE INSERT ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.payments_reject_void_invoice();
@@ -0,0 +1,186 @@
+-- Sequential, gap-free document numbers per clinic and year, e.g. INV-2026-000123.
+-- Numbers are allocated inside the same transaction that issues the document, so a
+-- failed insert rolls the counter back with it and no number is ever skipped.
+CREATE TABLE public.document_sequences (
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  doc_type text NOT NULL CHECK (doc_type IN ('invoice', 'receipt', 'credit_note')),
+  year integer NOT NULL,
+  last_number integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (clinic_id, doc_type, year)
+);
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see the counters; only the numbering functions below write them
+CREATE POLICY "Users can view their clinic document sequences"
+ON public.document_sequences
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS invoice_number text;
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS receipt_number text;
+
+CREATE UNIQUE INDEX invoices_clinic_invoice_number_key
+  ON public.invoices (clinic_id, invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+-- Allocate the next number for a clinic. The year follows the clinic's timezone.
+CREATE OR REPLACE FUNCTION public.next_document_number(p_clinic_id uuid, p_doc_type text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix text;
+  v_year integer;
+  v_number integer;
+BEGIN
+  v_prefix := CASE p_doc_type
+    WHEN 'invoice' THEN 'INV'
+    WHEN 'receipt' THEN 'RCT'
+    WHEN 'credit_note' THEN 'CN'
+  END;
+
+  IF v_prefix IS NULL THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_doc_type;
+  END IF;
+
+  IF p_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'A clinic is required to number a %', p_doc_type;
+  END IF;
+
+  v_year := extract(year FROM now() AT TIME ZONE COALESCE(
+    (SELECT cs.timezone FROM clinic_settings cs WHERE cs.clinic_id = p_clinic_id),
+    'Africa/Cairo'
+  ))::integer;
+
+  -- The upsert takes a row lock, so concurrent callers queue instead of sharing a number
+  INSERT INTO document_sequences (clinic_id, doc_type, year, last_number)
+  VALUES (p_clinic_id, p_doc_type, v_year, 1)
+  ON CONFLICT (clinic_id, doc_type, year)
+  DO UPDATE SET last_number = document_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN v_prefix || '-' || v_year || '-' || lpad(v_number::text, 6, '0');
+END;
+$$;
+
+-- Numbers are only handed out by the triggers, never directly by clients
+REVOKE EXECUTE ON FUNCTION public.next_document_number(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Invoices are numbered when issued (drafts get their number once they leave draft)
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.invoice_number IS NOT NULL
+     AND NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    RAISE EXCEPTION 'Invoice numbers cannot be changed once issued';
+  END IF;
+
+  IF NEW.invoice_number IS NULL AND NEW.status <> 'draft' THEN
+    NEW.invoice_number := public.next_document_number(NEW.clinic_id, 'invoice');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_number
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Every payment gets its own receipt number
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.receipt_number IS NOT NULL
+       AND NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+      RAISE EXCEPTION 'Receipt numbers cannot be changed once issued';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.receipt_number := public.next_document_number(
+    (SELECT i.clinic_id FROM invoices i WHERE i.id = NEW.invoice_id),
+    'receipt'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_receipt_number
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_receipt_number();
+
+-- Backfill existing documents in issue order and move the counters past them
+WITH numbered AS (
+  SELECT
+    i.id,
+    extract(year FROM i.created_at AT TIME ZONE COALESCE(cs.timezone, 'Africa/Cairo'))::integer AS year,
+    row_number() OVER (
+      PARTITION BY i.clinic_id, extract(year FROM i.created_at AT TIME ZONE COALESCE(cs.timezone, 'Africa/Cairo'))
+      ORDER BY i.created_at, i.id
+    ) AS seq
+  FROM invoices i
+  LEFT JOIN clinic_settings cs ON cs.clinic_id = i.clinic_id
+  WHERE i.invoice_number IS NULL AND i.status <> 'draft' AND i.clinic_id IS NOT NULL
+)
+UPDATE invoices i
+SET invoice_number = 'INV-' || n.year || '-' || lpad(n.seq::text, 6, '0')
+FROM numbered n
+WHERE n.id = i.id;
+
+WITH numbered AS (
+  SELECT
+    p.id,
+    extract(year FROM p.paid_at AT TIME ZONE COALESCE(cs.timezone, 'Africa/Cairo'))::integer AS year,
+    row_number() OVER (
+      PARTITION BY i.clinic_id, extract(year FROM p.paid_at AT TIME ZONE COALESCE(cs.timezone, 'Africa/Cairo'))
+      ORDER BY p.paid_at, p.id
+    ) AS seq
+  FROM payments p
+  JOIN invoices i ON i.id = p.invoice_id
+  LEFT JOIN clinic_settings cs ON cs.clinic_id = i.clinic_id
+  WHERE p.receipt_number IS NULL AND i.clinic_id IS NOT NULL
+)
+UPDATE payments p
+SET receipt_number = 'RCT-' || n.year || '-' || lpad(n.seq::text, 6, '0')
+FROM numbered n
+WHERE n.id = p.id;
+
+INSERT INTO document_sequences (clinic_id, doc_type, year, last_number)
+SELECT clinic_id, 'invoice', split_part(invoice_number, '-', 2)::integer, max(split_part(invoice_number, '-', 3)::integer)
+FROM invoices
+WHERE invoice_number IS NOT NULL
+GROUP BY clinic_id, split_part(invoice_number, '-', 2)
+ON CONFLICT (clinic_id, doc_type, year) DO UPDATE SET last_number = EXCLUDED.last_number;
+
+INSERT INTO document_sequences (clinic_id, doc_type, year, last_number)
+SELECT i.clinic_id, 'receipt', split_part(p.receipt_number, '-', 2)::integer, max(split_part(p.receipt_number, '-', 3)::integer)
+FROM payments p
+JOIN invoices i ON i.id = p.invoice_id
+WHERE p.receipt_number IS NOT NULL
+GROUP BY i.clinic_id, split_part(p.receipt_number, '-', 2)
+ON CONFLICT (clinic_id, doc_type, year) DO UPDATE SET last_number = EXCLUDED.last_number;
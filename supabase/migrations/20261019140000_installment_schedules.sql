@@ -0,0 +1,123 @@
+-- Installment schedules: how a plan was generated, reminder tracking for collections,
+-- and items that are marked paid automatically as payments come in.
+
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS down_payment numeric(12, 2) NOT NULL DEFAULT 0
+    CHECK (down_payment >= 0),
+  ADD COLUMN IF NOT EXISTS installment_count integer
+    CHECK (installment_count IS NULL OR installment_count > 0),
+  ADD COLUMN IF NOT EXISTS frequency text
+    CHECK (frequency IS NULL OR frequency IN ('weekly', 'biweekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES public.profiles(user_id);
+
+ALTER TABLE public.installment_items
+  ADD COLUMN IF NOT EXISTS paid_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_reminded_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS reminder_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reminder_note text;
+
+ALTER TABLE public.installment_items
+  ADD CONSTRAINT installment_items_amount_positive CHECK (amount > 0);
+
+CREATE INDEX IF NOT EXISTS idx_installment_items_unpaid_due
+  ON public.installment_items (due_date)
+  WHERE paid = false;
+
+-- Allocate an invoice's payments to its installment items, earliest due first.
+-- Anything paid before the plan was set up (invoice total minus plan total) is
+-- consumed first. An item is paid once the running payment total covers it, and
+-- is linked to the payment that completed it.
+CREATE OR REPLACE FUNCTION public.refresh_installment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan record;
+  v_item record;
+  v_threshold numeric;
+  v_payment_id uuid;
+  v_paid_at timestamp with time zone;
+BEGIN
+  FOR v_plan IN
+    SELECT ip.id, ip.total_amount, i.total_amount AS invoice_total
+    FROM installment_plans ip
+    JOIN invoices i ON i.id = ip.invoice_id
+    WHERE ip.invoice_id = p_invoice_id
+  LOOP
+    v_threshold := GREATEST(v_plan.invoice_total - v_plan.total_amount, 0);
+
+    FOR v_item IN
+      SELECT id, amount
+      FROM installment_items
+      WHERE plan_id = v_plan.id
+      ORDER BY due_date, id
+    LOOP
+      v_threshold := v_threshold + v_item.amount;
+
+      SELECT p.id, p.paid_at INTO v_payment_id, v_paid_at
+      FROM (
+        SELECT id, paid_at,
+          SUM(amount) OVER (ORDER BY paid_at, id) AS running_total
+        FROM payments
+        WHERE invoice_id = p_invoice_id
+      ) p
+      WHERE p.running_total >= v_threshold
+      ORDER BY p.paid_at, p.id
+      LIMIT 1;
+
+      UPDATE installment_items
+      SET paid = v_payment_id IS NOT NULL,
+        payment_id = v_payment_id,
+        paid_at = v_paid_at
+      WHERE id = v_item.id;
+
+      v_payment_id := NULL;
+      v_paid_at := NULL;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.payments_refresh_installment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_installment_status(OLD.invoice_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_installment_status(NEW.invoice_id);
+  IF TG_OP = 'UPDATE' AND OLD.invoice_id <> NEW.invoice_id THEN
+    PERFORM public.refresh_installment_status(OLD.invoice_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_installment_status_on_payment
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.payments_refresh_installment_status();
+
+-- Items created after payments already exist (e.g. a down payment taken at checkout)
+CREATE OR REPLACE FUNCTION public.installment_items_refresh_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.refresh_installment_status(ip.invoice_id)
+  FROM installment_plans ip
+  WHERE ip.id IN (SELECT DISTINCT plan_id FROM new_items);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_installment_status_on_items
+AFTER INSERT ON public.installment_items
+REFERENCING NEW TABLE AS new_items
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.installment_items_refresh_status();
@@ -0,0 +1,156 @@
+-- Patient account credit: money received ahead of an invoice (prepayments), which is
+-- later applied to invoices as payments with method 'credit'.
+
+CREATE TABLE public.patient_credits (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'wallet', 'bank_transfer')),
+  reference text,
+  notes text,
+  receipt_number text,
+  received_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_by uuid REFERENCES public.profiles(user_id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_patient_credits_patient ON public.patient_credits (patient_id, received_at);
+
+ALTER TABLE public.patient_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their clinic patient credits"
+ON public.patient_credits
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can record patient credits for their clinics"
+ON public.patient_credits
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Applying credit to an invoice is recorded as a payment linked to the credit
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS credit_id uuid REFERENCES public.patient_credits(id);
+
+CREATE INDEX IF NOT EXISTS idx_payments_credit ON public.payments (credit_id)
+  WHERE credit_id IS NOT NULL;
+
+ALTER TABLE public.payments
+  DROP CONSTRAINT payments_method_check;
+
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_method_check
+  CHECK (method IS NULL OR method IN ('cash', 'card', 'wallet', 'bank_transfer', 'credit'));
+
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_credit_method
+  CHECK ((method = 'credit') = (credit_id IS NOT NULL));
+
+-- A credit can only be applied to the same patient's invoices, and never beyond its amount
+CREATE OR REPLACE FUNCTION public.payments_check_credit_application()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_credit patient_credits%ROWTYPE;
+  v_applied numeric;
+BEGIN
+  IF NEW.credit_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_credit
+  FROM patient_credits
+  WHERE id = NEW.credit_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM invoices
+    WHERE id = NEW.invoice_id AND patient_id = v_credit.patient_id
+  ) THEN
+    RAISE EXCEPTION 'Credit can only be applied to the same patient''s invoices';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_applied
+  FROM payments
+  WHERE credit_id = NEW.credit_id
+    AND id <> NEW.id;
+
+  IF v_applied + NEW.amount > v_credit.amount THEN
+    RAISE EXCEPTION 'Only % of this credit is left to apply', v_credit.amount - v_applied;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_credit_application
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.payments_check_credit_application();
+
+-- The receipt is issued when the prepayment is taken, not when it is applied
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.receipt_number IS NOT NULL
+       AND NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+      RAISE EXCEPTION 'Receipt numbers cannot be changed once issued';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.credit_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.receipt_number := public.next_document_number(
+    (SELECT i.clinic_id FROM invoices i WHERE i.id = NEW.invoice_id),
+    'receipt'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_credit_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.receipt_number IS NOT NULL
+       AND NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+      RAISE EXCEPTION 'Receipt numbers cannot be changed once issued';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.receipt_number := public.next_document_number(NEW.clinic_id, 'receipt');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_credit_receipt_number
+BEFORE INSERT OR UPDATE ON public.patient_credits
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_credit_receipt_number();
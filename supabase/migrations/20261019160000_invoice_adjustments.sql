@@ -0,0 +1,345 @@
+-- Refunds, credit notes and write-offs against invoices. Each carries a reason code and
+-- takes effect once approved; admins' own requests are approved on entry.
+--   refund:      money handed back, recorded as a negative payment
+--   credit_note: reduces what is owed on the invoice (numbered CN-YYYY-000123)
+--   write_off:   clears a balance that will not be collected
+
+CREATE TABLE public.invoice_adjustments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('refund', 'credit_note', 'write_off')),
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  reason_code text NOT NULL CHECK (reason_code IN (
+    'overpayment', 'duplicate_payment', 'treatment_cancelled', 'service_complaint',
+    'pricing_error', 'goodwill', 'insurance_adjustment',
+    'uncollectable', 'small_balance', 'hardship', 'patient_deceased',
+    'other'
+  )),
+  reason_note text,
+  method text CHECK (method IS NULL OR method IN ('cash', 'card', 'wallet', 'bank_transfer')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  document_number text,
+  payment_id uuid REFERENCES public.payments(id),
+  requested_by uuid REFERENCES public.profiles(user_id),
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  decided_by uuid REFERENCES public.profiles(user_id),
+  decided_at timestamp with time zone,
+  decision_note text,
+  CONSTRAINT invoice_adjustments_other_needs_note
+    CHECK (reason_code <> 'other' OR (reason_note IS NOT NULL AND length(trim(reason_note)) > 0)),
+  CONSTRAINT invoice_adjustments_refund_needs_method
+    CHECK (kind <> 'refund' OR method IS NOT NULL)
+);
+
+CREATE INDEX idx_invoice_adjustments_invoice ON public.invoice_adjustments (invoice_id);
+CREATE INDEX idx_invoice_adjustments_pending ON public.invoice_adjustments (clinic_id)
+  WHERE status = 'pending';
+CREATE UNIQUE INDEX invoice_adjustments_clinic_document_number_key
+  ON public.invoice_adjustments (clinic_id, document_number)
+  WHERE document_number IS NOT NULL;
+
+ALTER TABLE public.invoice_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their clinic invoice adjustments"
+ON public.invoice_adjustments
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can request invoice adjustments for their clinics"
+ON public.invoice_adjustments
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can decide invoice adjustments"
+ON public.invoice_adjustments
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid() AND p.role = 'admin'
+  )
+  AND clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Approved credit notes and write-offs, kept on the invoice so every balance
+-- calculation can read it without joining
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS adjustment_total numeric(12, 2) NOT NULL DEFAULT 0
+    CHECK (adjustment_total >= 0);
+
+-- Status now follows what is owed after adjustments.
+-- Mirrors deriveInvoiceStatus() in src/lib/invoice.ts.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total numeric;
+  v_status invoice_status_enum;
+  v_paid numeric;
+BEGIN
+  SELECT total_amount - adjustment_total, status INTO v_total, v_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR v_status IN ('void', 'draft') THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM payments
+  WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices
+  SET status = CASE
+    WHEN v_total <= 0 OR v_paid >= v_total THEN 'paid'::invoice_status_enum
+    WHEN v_paid > 0 THEN 'partial'::invoice_status_enum
+    ELSE 'open'::invoice_status_enum
+  END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Installments are measured against what is owed after adjustments too, so a credit note
+-- or write-off counts towards the schedule, earliest due first
+CREATE OR REPLACE FUNCTION public.refresh_installment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan record;
+  v_item record;
+  v_threshold numeric;
+  v_payment_id uuid;
+  v_paid_at timestamp with time zone;
+BEGIN
+  FOR v_plan IN
+    SELECT ip.id, ip.total_amount, i.total_amount - i.adjustment_total AS invoice_total
+    FROM installment_plans ip
+    JOIN invoices i ON i.id = ip.invoice_id
+    WHERE ip.invoice_id = p_invoice_id
+  LOOP
+    v_threshold := GREATEST(v_plan.invoice_total - v_plan.total_amount, 0);
+
+    FOR v_item IN
+      SELECT id, amount
+      FROM installment_items
+      WHERE plan_id = v_plan.id
+      ORDER BY due_date, id
+    LOOP
+      v_threshold := v_threshold + v_item.amount;
+
+      SELECT p.id, p.paid_at INTO v_payment_id, v_paid_at
+      FROM (
+        SELECT id, paid_at,
+          SUM(amount) OVER (ORDER BY paid_at, id) AS running_total
+        FROM payments
+        WHERE invoice_id = p_invoice_id
+      ) p
+      WHERE p.running_total >= v_threshold
+      ORDER BY p.paid_at, p.id
+      LIMIT 1;
+
+      UPDATE installment_items
+      SET paid = v_payment_id IS NOT NULL,
+        payment_id = v_payment_id,
+        paid_at = v_paid_at
+      WHERE id = v_item.id;
+
+      v_payment_id := NULL;
+      v_paid_at := NULL;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Stamp the requester, apply the approval rule and validate against the invoice
+CREATE OR REPLACE FUNCTION public.invoice_adjustments_before_write()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin boolean;
+  v_invoice invoices%ROWTYPE;
+  v_paid numeric;
+  v_limit numeric;
+BEGIN
+  v_is_admin := EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid() AND p.role = 'admin'
+  );
+
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.clinic_id := v_invoice.clinic_id;
+    NEW.patient_id := v_invoice.patient_id;
+    NEW.requested_by := auth.uid();
+    NEW.requested_at := now();
+    NEW.document_number := NULL;
+    NEW.payment_id := NULL;
+
+    IF v_is_admin THEN
+      NEW.status := 'approved';
+      NEW.decided_by := auth.uid();
+      NEW.decided_at := now();
+    ELSE
+      NEW.status := 'pending';
+      NEW.decided_by := NULL;
+      NEW.decided_at := NULL;
+    END IF;
+  ELSE
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'This adjustment has already been %', OLD.status;
+    END IF;
+    IF NEW.kind <> OLD.kind OR NEW.amount <> OLD.amount OR NEW.invoice_id <> OLD.invoice_id THEN
+      RAISE EXCEPTION 'Adjustments cannot be edited; reject it and request a new one';
+    END IF;
+    IF NEW.status <> OLD.status THEN
+      IF NOT v_is_admin THEN
+        RAISE EXCEPTION 'Only an admin can approve or reject adjustments';
+      END IF;
+      NEW.decided_by := auth.uid();
+      NEW.decided_at := now();
+    END IF;
+  END IF;
+
+  IF v_invoice.status = 'void' THEN
+    RAISE EXCEPTION 'Cannot adjust a void invoice';
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid
+    FROM payments
+    WHERE invoice_id = NEW.invoice_id;
+
+    v_limit := CASE NEW.kind
+      WHEN 'refund' THEN v_paid
+      WHEN 'credit_note' THEN v_invoice.total_amount - v_invoice.adjustment_total
+      WHEN 'write_off' THEN v_invoice.total_amount - v_invoice.adjustment_total - v_paid
+    END;
+
+    IF NEW.amount > v_limit THEN
+      RAISE EXCEPTION 'The most that can be applied as a % is %', replace(NEW.kind, '_', ' '), GREATEST(v_limit, 0);
+    END IF;
+
+    IF NEW.kind = 'credit_note' THEN
+      NEW.document_number := public.next_document_number(NEW.clinic_id, 'credit_note');
+    ELSIF NEW.kind = 'refund' THEN
+      NEW.payment_id := gen_random_uuid();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoice_adjustments_before_write
+BEFORE INSERT OR UPDATE ON public.invoice_adjustments
+FOR EACH ROW
+EXECUTE FUNCTION public.invoice_adjustments_before_write();
+
+-- Put an approved adjustment into effect
+CREATE OR REPLACE FUNCTION public.invoice_adjustments_apply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.kind = 'refund' THEN
+    INSERT INTO payments (id, invoice_id, amount, method, reference, paid_at, created_by)
+    VALUES (
+      NEW.payment_id,
+      NEW.invoice_id,
+      -NEW.amount,
+      NEW.method,
+      'Refund: ' || replace(NEW.reason_code, '_', ' '),
+      now(),
+      NEW.decided_by
+    );
+  ELSE
+    UPDATE invoices
+    SET adjustment_total = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM invoice_adjustments
+      WHERE invoice_id = NEW.invoice_id
+        AND status = 'approved'
+        AND kind IN ('credit_note', 'write_off')
+    )
+    WHERE id = NEW.invoice_id;
+
+    PERFORM public.refresh_invoice_status(NEW.invoice_id);
+    PERFORM public.refresh_installment_status(NEW.invoice_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoice_adjustments_apply
+AFTER INSERT OR UPDATE ON public.invoice_adjustments
+FOR EACH ROW
+EXECUTE FUNCTION public.invoice_adjustments_apply();
+
+-- Record adjustment requests, decisions and prepayments in the audit log
+CREATE OR REPLACE FUNCTION public.audit_billing_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO audit_log (table_name, row_pk, operation, changed_by, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(NEW.id, OLD.id)::text,
+    TG_OP,
+    auth.uid(),
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_invoice_adjustments
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_adjustments
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_billing_document();
+
+CREATE TRIGGER audit_patient_credits
+AFTER INSERT OR UPDATE OR DELETE ON public.patient_credits
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_billing_document();
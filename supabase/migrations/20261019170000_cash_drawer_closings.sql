@@ -0,0 +1,155 @@
+-- End-of-day cash drawer closings. Each clinic day (in the clinic's timezone) is
+-- closed once; the totals are kept as they were at closing for the Z-report, and
+-- payments and prepayments taken that day are locked from further changes.
+
+CREATE TABLE public.cash_drawer_closings (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  business_date date NOT NULL,
+  timezone text NOT NULL DEFAULT 'Africa/Cairo',
+  expected_cash numeric(12, 2) NOT NULL DEFAULT 0,
+  counted_cash numeric(12, 2) NOT NULL CHECK (counted_cash >= 0),
+  difference numeric(12, 2) GENERATED ALWAYS AS (counted_cash - expected_cash) STORED,
+  total_collected numeric(12, 2) NOT NULL DEFAULT 0,
+  payment_count integer NOT NULL DEFAULT 0,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb, -- totals by method and by staff member
+  notes text,
+  closed_by uuid REFERENCES public.profiles(user_id),
+  closed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cash_drawer_closings_clinic_day_key UNIQUE (clinic_id, business_date)
+);
+
+ALTER TABLE public.cash_drawer_closings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their clinic cash drawer closings"
+ON public.cash_drawer_closings
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can close the cash drawer for their clinics"
+ON public.cash_drawer_closings
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Reopening a day removes its closing
+CREATE POLICY "Admins can reopen cash drawer closings"
+ON public.cash_drawer_closings
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid() AND p.role = 'admin'
+  )
+  AND clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Whether the clinic day containing p_at has been closed
+CREATE OR REPLACE FUNCTION public.is_cash_day_closed(p_clinic_id uuid, p_at timestamp with time zone)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM cash_drawer_closings c
+    WHERE c.clinic_id = p_clinic_id
+      AND c.business_date = (p_at AT TIME ZONE c.timezone)::date
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_payment_day_open()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row payments%ROWTYPE;
+  v_clinic_id uuid;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  SELECT clinic_id INTO v_clinic_id
+  FROM invoices
+  WHERE id = v_row.invoice_id;
+
+  IF public.is_cash_day_closed(v_clinic_id, v_row.paid_at)
+    OR (TG_OP = 'UPDATE' AND public.is_cash_day_closed(v_clinic_id, OLD.paid_at)) THEN
+    RAISE EXCEPTION 'The cash drawer for that day has been closed; its payments can no longer be changed';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE TRIGGER check_payment_day_open
+BEFORE INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_payment_day_open();
+
+CREATE OR REPLACE FUNCTION public.check_credit_day_open()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row patient_credits%ROWTYPE;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  IF public.is_cash_day_closed(v_row.clinic_id, v_row.received_at)
+    OR (TG_OP = 'UPDATE' AND public.is_cash_day_closed(OLD.clinic_id, OLD.received_at)) THEN
+    RAISE EXCEPTION 'The cash drawer for that day has been closed; its prepayments can no longer be changed';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE TRIGGER check_credit_day_open
+BEFORE INSERT OR UPDATE OR DELETE ON public.patient_credits
+FOR EACH ROW
+EXECUTE FUNCTION public.check_credit_day_open();
+
+-- Stamp who closed the drawer and when
+CREATE OR REPLACE FUNCTION public.cash_drawer_closings_before_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.closed_by := auth.uid();
+  NEW.closed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cash_drawer_closings_before_insert
+BEFORE INSERT ON public.cash_drawer_closings
+FOR EACH ROW
+EXECUTE FUNCTION public.cash_drawer_closings_before_insert();
+
+CREATE TRIGGER audit_cash_drawer_closings
+AFTER INSERT OR UPDATE OR DELETE ON public.cash_drawer_closings
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_billing_document();
@@ -0,0 +1,81 @@
+-- Recurring appointment series, e.g. orthodontic adjustments every 4 weeks or perio
+-- maintenance every 3 months. The series keeps the recurrence rule it was booked
+-- with; each occurrence is a regular appointment linked back to it.
+
+CREATE TABLE public.appointment_series (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  provider_id uuid REFERENCES public.providers(id) ON DELETE SET NULL,
+  room_id uuid REFERENCES public.rooms(id) ON DELETE SET NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 52),
+  weekday smallint CHECK (weekday IS NULL OR weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  occurrence_count integer CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+  until_date date,
+  first_starts_at timestamp with time zone NOT NULL,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  notes text,
+  created_by uuid REFERENCES public.profiles(user_id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT appointment_series_end_check CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL)
+);
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_index integer;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series
+  ON public.appointments (series_id, series_index)
+  WHERE series_id IS NOT NULL;
+
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their clinic appointment series"
+ON public.appointment_series
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create appointment series for their clinics"
+ON public.appointment_series
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their clinic appointment series"
+ON public.appointment_series
+FOR UPDATE
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.appointment_series_before_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER appointment_series_before_insert
+BEFORE INSERT ON public.appointment_series
+FOR EACH ROW
+EXECUTE FUNCTION public.appointment_series_before_insert();
@@ -0,0 +1,106 @@
+-- Appointment types (consultation, cleaning, root canal, ortho adjustment...) per clinic,
+-- each with a default length and a calendar color. A type can be linked to treatments,
+-- optionally with the treatment's own expected chair time, so booking a planned
+-- procedure picks the right type and length without the front desk guessing.
+CREATE TABLE public.appointment_types (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#4f46e5',
+  default_duration_minutes integer NOT NULL DEFAULT 30 CHECK (default_duration_minutes > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (clinic_id, name)
+);
+
+CREATE TABLE public.appointment_type_treatments (
+  appointment_type_id uuid NOT NULL REFERENCES public.appointment_types(id) ON DELETE CASCADE,
+  treatment_id uuid NOT NULL REFERENCES public.treatments(id) ON DELETE CASCADE,
+  chair_minutes integer CHECK (chair_minutes IS NULL OR chair_minutes > 0), -- falls back to the type's default
+  PRIMARY KEY (appointment_type_id, treatment_id)
+);
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS appointment_type_id uuid REFERENCES public.appointment_types(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_type
+  ON public.appointments (appointment_type_id)
+  WHERE appointment_type_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.appointment_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appointment_type_treatments ENABLE ROW LEVEL SECURITY;
+
+-- Clinic staff can read their clinic's appointment types
+CREATE POLICY "Users can view their clinic appointment types"
+ON public.appointment_types
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Only admins can change the type catalog
+CREATE POLICY "Admins can manage their clinic appointment types"
+ON public.appointment_types
+FOR ALL
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+CREATE POLICY "Users can view their clinic appointment type treatments"
+ON public.appointment_type_treatments
+FOR SELECT
+USING (
+  appointment_type_id IN (
+    SELECT at.id
+    FROM appointment_types at
+    JOIN staff_clinics sc ON sc.clinic_id = at.clinic_id
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage their clinic appointment type treatments"
+ON public.appointment_type_treatments
+FOR ALL
+USING (
+  appointment_type_id IN (
+    SELECT at.id
+    FROM appointment_types at
+    JOIN staff_clinics sc ON sc.clinic_id = at.clinic_id
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  appointment_type_id IN (
+    SELECT at.id
+    FROM appointment_types at
+    JOIN staff_clinics sc ON sc.clinic_id = at.clinic_id
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+-- Add trigger for automatic timestamp updates
+CREATE TRIGGER update_appointment_types_updated_at
+BEFORE UPDATE ON public.appointment_types
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,95 @@
+-- Per-clinic waitlist for backfilling cancelled and no-show slots. An entry is a patient
+-- who wants to come in sooner, optionally with a specific provider or for a specific
+-- treatment, between two dates. Entries are never deleted: booking or removing one
+-- resolves it, and every change is written to the audit log.
+
+CREATE TABLE public.waitlist_entries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  provider_id uuid REFERENCES public.providers(id) ON DELETE SET NULL,
+  treatment_id uuid REFERENCES public.treatments(id) ON DELETE SET NULL,
+  earliest_date date NOT NULL DEFAULT current_date,
+  latest_date date NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 30 CHECK (duration_minutes > 0),
+  notes text,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'removed')),
+  booked_appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES public.profiles(user_id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  resolved_by uuid REFERENCES public.profiles(user_id),
+  resolved_at timestamp with time zone,
+  CONSTRAINT waitlist_entries_window_check CHECK (latest_date >= earliest_date),
+  CONSTRAINT waitlist_entries_booked_check CHECK (status <> 'booked' OR booked_appointment_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_waiting
+  ON public.waitlist_entries (clinic_id, earliest_date, latest_date)
+  WHERE status = 'waiting';
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their clinic waitlist"
+ON public.waitlist_entries
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can add to their clinic waitlist"
+ON public.waitlist_entries
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their clinic waitlist"
+ON public.waitlist_entries
+FOR UPDATE
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.waitlist_entries_before_write()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  ELSIF OLD.status <> 'waiting' THEN
+    RAISE EXCEPTION 'This waitlist entry has already been %', OLD.status;
+  END IF;
+
+  IF NEW.status <> 'waiting' THEN
+    NEW.resolved_by := COALESCE(NEW.resolved_by, auth.uid());
+    NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER waitlist_entries_before_write
+BEFORE INSERT OR UPDATE ON public.waitlist_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.waitlist_entries_before_write();
+
+-- Record additions, bookings and removals in the audit log
+CREATE TRIGGER audit_waitlist_entries
+AFTER INSERT OR UPDATE OR DELETE ON public.waitlist_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_billing_document();
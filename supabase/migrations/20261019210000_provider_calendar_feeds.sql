@@ -0,0 +1,80 @@
+-- Read-only iCalendar subscriptions for a provider's appointments in one clinic. Calendar
+-- apps cannot sign in, so the feed URL carries a random token; the provider-calendar-feed
+-- edge function looks it up with the service role. Revoking sets revoked_at, and a new
+-- token means a new row, so an old URL never comes back to life.
+CREATE TABLE public.provider_calendar_feeds (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES public.providers(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_by uuid REFERENCES public.profiles(user_id) DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_accessed_at timestamp with time zone,
+  revoked_at timestamp with time zone
+);
+
+-- One live feed per provider and clinic
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_calendar_feeds_active
+  ON public.provider_calendar_feeds (clinic_id, provider_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.provider_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Providers manage their own feed; clinic admins manage everyone's
+CREATE POLICY "Providers and admins can view calendar feeds"
+ON public.provider_calendar_feeds
+FOR SELECT
+USING (
+  provider_id IN (
+    SELECT pr.id
+    FROM providers pr
+    WHERE pr.user_id = auth.uid()
+  )
+  OR clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+CREATE POLICY "Providers and admins can create calendar feeds"
+ON public.provider_calendar_feeds
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+  AND (
+    provider_id IN (
+      SELECT pr.id
+      FROM providers pr
+      WHERE pr.user_id = auth.uid()
+    )
+    OR clinic_id IN (
+      SELECT sc.clinic_id
+      FROM staff_clinics sc
+      JOIN profiles p ON p.user_id = sc.user_id
+      WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+    )
+  )
+);
+
+CREATE POLICY "Providers and admins can revoke calendar feeds"
+ON public.provider_calendar_feeds
+FOR UPDATE
+USING (
+  provider_id IN (
+    SELECT pr.id
+    FROM providers pr
+    WHERE pr.user_id = auth.uid()
+  )
+  OR clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
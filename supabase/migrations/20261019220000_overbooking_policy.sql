@@ -0,0 +1,103 @@
+-- Per-clinic overbooking policy. max_per_provider and max_per_room are how many
+-- appointments may overlap at any moment (1 means no double-booking). Booking past either
+-- limit is an overbook: it needs appointments.overbook set, a written reason, and a caller
+-- whose role is in override_roles. The trigger below enforces this for every insert and
+-- move, so the calendar, walk-ins and anything added later follow the same rules.
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS overbooking_policy jsonb NOT NULL
+  DEFAULT '{"max_per_provider": 1, "max_per_room": 1, "override_roles": ["admin", "doctor"]}'::jsonb;
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS overbook_reason text,
+  ADD COLUMN IF NOT EXISTS overbook_approved_by uuid REFERENCES public.profiles(user_id);
+
+CREATE OR REPLACE FUNCTION public.enforce_overbooking_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy jsonb;
+  v_max_provider integer;
+  v_max_room integer;
+  v_provider_overlaps integer := 0;
+  v_room_overlaps integer := 0;
+  v_role text;
+BEGIN
+  -- Cancelled and no-show appointments hold no time
+  IF NEW.status IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.starts_at = OLD.starts_at
+     AND NEW.ends_at = OLD.ends_at
+     AND NEW.provider_id IS NOT DISTINCT FROM OLD.provider_id
+     AND NEW.room_id IS NOT DISTINCT FROM OLD.room_id
+     AND NEW.status = OLD.status
+     AND NEW.overbook = OLD.overbook
+     AND NEW.overbook_reason IS NOT DISTINCT FROM OLD.overbook_reason THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT cs.overbooking_policy INTO v_policy
+  FROM clinic_settings cs
+  WHERE cs.clinic_id = NEW.clinic_id;
+
+  v_max_provider := COALESCE((v_policy ->> 'max_per_provider')::integer, 1);
+  v_max_room := COALESCE((v_policy ->> 'max_per_room')::integer, 1);
+
+  IF NEW.provider_id IS NOT NULL THEN
+    SELECT count(*) INTO v_provider_overlaps
+    FROM appointments a
+    WHERE a.provider_id = NEW.provider_id
+      AND a.id <> NEW.id
+      AND a.status NOT IN ('cancelled', 'no_show')
+      AND a.starts_at < NEW.ends_at
+      AND a.ends_at > NEW.starts_at;
+  END IF;
+
+  IF NEW.room_id IS NOT NULL THEN
+    SELECT count(*) INTO v_room_overlaps
+    FROM appointments a
+    WHERE a.room_id = NEW.room_id
+      AND a.id <> NEW.id
+      AND a.status NOT IN ('cancelled', 'no_show')
+      AND a.starts_at < NEW.ends_at
+      AND a.ends_at > NEW.starts_at;
+  END IF;
+
+  IF v_provider_overlaps < v_max_provider AND v_room_overlaps < v_max_room THEN
+    RETURN NEW;
+  END IF;
+
+  -- Server-side callers (edge functions) have no user and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.overbook OR COALESCE(btrim(NEW.overbook_reason), '') = '' THEN
+    RAISE EXCEPTION 'This booking is beyond the clinic''s overbooking limit and needs an overbook reason';
+  END IF;
+
+  SELECT p.role::text INTO v_role
+  FROM profiles p
+  WHERE p.user_id = auth.uid();
+
+  IF NOT COALESCE(v_policy -> 'override_roles', '["admin", "doctor"]'::jsonb) ? v_role THEN
+    RAISE EXCEPTION 'Your role cannot approve overbooking';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.overbook_reason IS DISTINCT FROM OLD.overbook_reason OR NOT OLD.overbook THEN
+    NEW.overbook_approved_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_overbooking_policy
+BEFORE INSERT OR UPDATE ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_overbooking_policy();
@@ -0,0 +1,55 @@
+-- When each appointment reached each step of the visit, for wait times on the waiting-room
+-- board. The trigger stamps the time whenever the status moves, so every path that changes
+-- status (walk-ins, intake, starting and finishing visits) is covered.
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS arrived_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS ready_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS in_chair_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
+
+-- Minutes a patient may wait before the board highlights them
+ALTER TABLE public.clinic_settings
+  ADD COLUMN IF NOT EXISTS wait_alert_minutes integer NOT NULL DEFAULT 20 CHECK (wait_alert_minutes > 0);
+
+CREATE OR REPLACE FUNCTION public.stamp_appointment_status_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'arrived' THEN NEW.arrived_at := COALESCE(NEW.arrived_at, now());
+    WHEN 'ready' THEN NEW.ready_at := COALESCE(NEW.ready_at, now());
+    WHEN 'in_chair' THEN NEW.in_chair_at := COALESCE(NEW.in_chair_at, now());
+    WHEN 'completed' THEN NEW.completed_at := COALESCE(NEW.completed_at, now());
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_appointment_status_times
+BEFORE INSERT OR UPDATE OF status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_appointment_status_times();
+
+CREATE INDEX IF NOT EXISTS idx_appointments_waiting
+  ON public.appointments (clinic_id, starts_at)
+  WHERE status IN ('arrived', 'ready', 'in_chair');
+
+-- The board listens for appointment changes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'appointments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.appointments;
+  END IF;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Lobby TVs show the clinic's queue without a staff session. Each screen is registered
+-- with a random device token; the lobby-display edge function looks it up with the
+-- service role and returns initials or ticket numbers only, never names or phones.
+CREATE TABLE public.lobby_displays (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  label_mode text NOT NULL DEFAULT 'initials' CHECK (label_mode IN ('initials', 'ticket')),
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_by uuid REFERENCES public.profiles(user_id) DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_seen_at timestamp with time zone,
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_lobby_displays_clinic ON public.lobby_displays (clinic_id);
+
+ALTER TABLE public.lobby_displays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view lobby displays"
+ON public.lobby_displays
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can register lobby displays"
+ON public.lobby_displays
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can update lobby displays"
+ON public.lobby_displays
+FOR UPDATE
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
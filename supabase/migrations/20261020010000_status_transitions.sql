@@ -0,0 +1,173 @@
+-- One status machine for appointments and patients. The appointment is the source of truth:
+-- every status move is checked against the legal moves and recorded with who made it and
+-- when, and the patient's status follows their appointment of the day instead of being
+-- set separately. The only patient-level move left is checkout (completed -> discharged).
+CREATE TABLE public.appointment_status_transitions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid REFERENCES public.clinics(id) ON DELETE CASCADE,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  from_status text, -- NULL when the appointment was booked
+  to_status text NOT NULL, -- an appointment status, or 'discharged' at checkout
+  changed_by uuid REFERENCES public.profiles(user_id),
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_status_transitions_appointment
+  ON public.appointment_status_transitions (appointment_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_appointment_status_transitions_patient
+  ON public.appointment_status_transitions (patient_id, changed_at);
+
+ALTER TABLE public.appointment_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the triggers below, so there are no insert or update policies
+CREATE POLICY "Staff can view status history in their clinics"
+ON public.appointment_status_transitions
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Keep in step with APPOINTMENT_TRANSITIONS in src/lib/appointmentStatus.ts
+CREATE OR REPLACE FUNCTION public.is_appointment_transition_allowed(
+  p_from appointment_status_enum,
+  p_to appointment_status_enum
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'planned' THEN p_to IN ('confirmed', 'arrived', 'no_show', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('planned', 'arrived', 'no_show', 'cancelled')
+    WHEN 'arrived' THEN p_to IN ('ready', 'cancelled')
+    WHEN 'ready' THEN p_to IN ('in_chair', 'arrived', 'cancelled')
+    WHEN 'in_chair' THEN p_to IN ('completed', 'ready')
+    WHEN 'no_show' THEN p_to IN ('planned', 'arrived')
+    WHEN 'cancelled' THEN p_to IN ('planned', 'confirmed')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_appointment_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_appointment_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An appointment can''t move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_appointment_transition
+BEFORE UPDATE OF status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_appointment_transition();
+
+-- Records the move and carries it to the patient. Day-of statuses always belong to the
+-- visit in progress; booking changes only count when the appointment is today in the
+-- clinic's time zone, so rescheduling next month's visit leaves today's status alone.
+CREATE OR REPLACE FUNCTION public.record_appointment_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone text;
+  v_is_today boolean;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.appointment_status_transitions
+    (clinic_id, appointment_id, patient_id, from_status, to_status, changed_by)
+  VALUES (
+    NEW.clinic_id,
+    NEW.id,
+    NEW.patient_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::text END,
+    NEW.status::text,
+    auth.uid()
+  );
+
+  SELECT cs.timezone INTO v_timezone
+  FROM public.clinic_settings cs
+  WHERE cs.clinic_id = NEW.clinic_id;
+
+  v_is_today := (NEW.starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date
+    = (now() AT TIME ZONE COALESCE(v_timezone, 'UTC'))::date;
+
+  IF NEW.status IN ('arrived', 'ready', 'in_chair', 'completed', 'no_show') OR v_is_today THEN
+    UPDATE public.patients
+    SET status = (CASE WHEN NEW.status = 'confirmed' THEN 'planned' ELSE NEW.status::text END)::patient_status_enum,
+        updated_at = now()
+    WHERE id = NEW.patient_id
+      AND status::text IS DISTINCT FROM (CASE WHEN NEW.status = 'confirmed' THEN 'planned' ELSE NEW.status::text END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_appointment_transition
+AFTER INSERT OR UPDATE OF status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.record_appointment_transition();
+
+-- Staff no longer set a patient's status directly; it comes from the appointment above.
+-- Checkout is the exception and is recorded against the completed appointment.
+-- Server-side jobs (no signed-in user) are left alone.
+CREATE OR REPLACE FUNCTION public.guard_patient_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+BEGIN
+  IF NEW.status = OLD.status OR pg_trigger_depth() > 1 OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (OLD.status = 'completed' AND NEW.status = 'discharged') THEN
+    RAISE EXCEPTION 'A patient''s status follows their appointment; change the appointment status instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT a.id, a.clinic_id INTO v_appointment
+  FROM public.appointments a
+  WHERE a.patient_id = NEW.id AND a.status = 'completed'
+  ORDER BY a.completed_at DESC NULLS LAST, a.starts_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.appointment_status_transitions
+    (clinic_id, appointment_id, patient_id, from_status, to_status, changed_by)
+  VALUES (
+    COALESCE(v_appointment.clinic_id, NEW.clinic_id),
+    v_appointment.id,
+    NEW.id,
+    OLD.status::text,
+    NEW.status::text,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_patient_status
+BEFORE UPDATE OF status ON public.patients
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_patient_status();
@@ -0,0 +1,82 @@
+-- Staff-ordered ready queue. Each provider has their own queue and appointments without a
+-- provider form the shared "any doctor" queue; queue_order is the position within it.
+-- Patients not yet placed (NULL) follow, in the order they became ready.
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS queue_order integer,
+  ADD COLUMN IF NOT EXISTS queue_priority text CHECK (queue_priority IN ('emergency', 'pain')),
+  ADD COLUMN IF NOT EXISTS queue_priority_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_ready_queue
+  ON public.appointments (clinic_id, provider_id, queue_order)
+  WHERE status = 'ready';
+
+-- Saves one queue as dropped: the appointments in the given order, all with the given
+-- provider (NULL for any doctor), so dragging between queues reassigns the patient.
+-- Runs as the caller, so the usual appointment policies apply.
+CREATE OR REPLACE FUNCTION public.reorder_ready_queue(
+  p_provider_id uuid,
+  p_appointment_ids uuid[]
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.appointments a
+  SET queue_order = o.position::integer,
+      provider_id = p_provider_id
+  FROM unnest(p_appointment_ids) WITH ORDINALITY AS o(id, position)
+  WHERE a.id = o.id
+    AND a.status = 'ready';
+$$;
+
+-- Flags (or clears, with p_priority NULL) an urgent patient. Flagging moves them up past
+-- everyone without a flag in their queue, emergencies before pain; clearing leaves them
+-- where they are.
+CREATE OR REPLACE FUNCTION public.set_queue_priority(
+  p_appointment_id uuid,
+  p_priority text,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+BEGIN
+  IF p_priority IS NOT NULL AND NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A priority needs a reason' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.appointments
+  SET queue_priority = p_priority,
+      queue_priority_reason = CASE WHEN p_priority IS NULL THEN NULL ELSE trim(p_reason) END
+  WHERE id = p_appointment_id
+  RETURNING clinic_id, provider_id, status INTO v_appointment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF p_priority IS NULL OR v_appointment.status <> 'ready' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.appointments a
+  SET queue_order = ranked.position::integer
+  FROM (
+    SELECT q.id,
+      row_number() OVER (
+        ORDER BY
+          CASE q.queue_priority WHEN 'emergency' THEN 0 WHEN 'pain' THEN 1 ELSE 2 END,
+          q.queue_order NULLS LAST,
+          q.ready_at
+      ) AS position
+    FROM public.appointments q
+    WHERE q.clinic_id = v_appointment.clinic_id
+      AND q.status = 'ready'
+      AND q.provider_id IS NOT DISTINCT FROM v_appointment.provider_id
+  ) ranked
+  WHERE a.id = ranked.id;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Triage answers taken at the desk when a walk-in arrives. The priority they give is also
+-- set on the appointment (queue_priority), so the ready queues move the patient up.
+CREATE TABLE public.appointment_triage (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  appointment_id uuid NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  chief_complaint text NOT NULL,
+  pain_score integer NOT NULL CHECK (pain_score BETWEEN 0 AND 10),
+  swelling boolean NOT NULL DEFAULT false,
+  bleeding boolean NOT NULL DEFAULT false,
+  trauma boolean NOT NULL DEFAULT false,
+  priority text CHECK (priority IN ('emergency', 'pain')), -- NULL is routine
+  recorded_by uuid REFERENCES public.profiles(user_id),
+  recorded_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.appointment_triage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view triage in their clinics"
+ON public.appointment_triage
+FOR SELECT
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can record triage in their clinics"
+ON public.appointment_triage
+FOR INSERT
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can update triage in their clinics"
+ON public.appointment_triage
+FOR UPDATE
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+  )
+);
+
+-- Renumbers one ready queue with flagged patients first (emergencies before pain), keeping
+-- everyone else in their saved order
+CREATE OR REPLACE FUNCTION public.rank_ready_queue(
+  p_clinic_id uuid,
+  p_provider_id uuid
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.appointments a
+  SET queue_order = ranked.position::integer
+  FROM (
+    SELECT q.id,
+      row_number() OVER (
+        ORDER BY
+          CASE q.queue_priority WHEN 'emergency' THEN 0 WHEN 'pain' THEN 1 ELSE 2 END,
+          q.queue_order NULLS LAST,
+          q.ready_at
+      ) AS position
+    FROM public.appointments q
+    WHERE q.clinic_id = p_clinic_id
+      AND q.status = 'ready'
+      AND q.provider_id IS NOT DISTINCT FROM p_provider_id
+  ) ranked
+  WHERE a.id = ranked.id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_queue_priority(
+  p_appointment_id uuid,
+  p_priority text,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+BEGIN
+  IF p_priority IS NOT NULL AND NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A priority needs a reason' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.appointments
+  SET queue_priority = p_priority,
+      queue_priority_reason = CASE WHEN p_priority IS NULL THEN NULL ELSE trim(p_reason) END
+  WHERE id = p_appointment_id
+  RETURNING clinic_id, provider_id, status INTO v_appointment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF p_priority IS NOT NULL AND v_appointment.status = 'ready' THEN
+    PERFORM public.rank_ready_queue(v_appointment.clinic_id, v_appointment.provider_id);
+  END IF;
+END;
+$$;
+
+-- A patient flagged at triage is still checking in; they move up once they are ready
+CREATE OR REPLACE FUNCTION public.rank_priority_on_ready()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'ready' AND OLD.status IS DISTINCT FROM 'ready' AND NEW.queue_priority IS NOT NULL THEN
+    PERFORM public.rank_ready_queue(NEW.clinic_id, NEW.provider_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rank_priority_on_ready
+AFTER UPDATE OF status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.rank_priority_on_ready();
@@ -0,0 +1,55 @@
+-- Creates a new fee schedule version together with its prices. Done in one call so a
+-- failed price insert can't leave an empty newer version behind that hides every price.
+-- Runs as the caller, so only admins of the clinic can use it (see fee schedule policies).
+CREATE OR REPLACE FUNCTION public.create_fee_schedule_version(
+  p_schedule_id uuid,
+  p_effective_from date,
+  p_items jsonb -- [{ "treatment_id": uuid, "price": number }]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule public.fee_schedules%ROWTYPE;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM public.fee_schedules
+  WHERE id = p_schedule_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price list not found';
+  END IF;
+
+  IF p_effective_from <= v_schedule.effective_from THEN
+    RAISE EXCEPTION 'A new version must start after the current one';
+  END IF;
+
+  INSERT INTO public.fee_schedules
+    (clinic_id, provider_id, name, version, effective_from, effective_to, currency, created_by)
+  VALUES (
+    v_schedule.clinic_id,
+    v_schedule.provider_id,
+    v_schedule.name,
+    (
+      SELECT max(fs.version) + 1
+      FROM public.fee_schedules fs
+      WHERE fs.clinic_id = v_schedule.clinic_id
+        AND fs.provider_id IS NOT DISTINCT FROM v_schedule.provider_id
+        AND fs.name = v_schedule.name
+    ),
+    p_effective_from,
+    CASE WHEN v_schedule.effective_to >= p_effective_from THEN v_schedule.effective_to END,
+    v_schedule.currency,
+    auth.uid()
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO public.fee_schedule_items (fee_schedule_id, treatment_id, price)
+  SELECT v_new_id, (item->>'treatment_id')::uuid, (item->>'price')::numeric
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item;
+
+  RETURN v_new_id;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Receipt numbers restart every year per clinic, so the clinic is kept on the payment
+-- itself and the database refuses a second payment with the same number.
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS clinic_id uuid REFERENCES public.clinics(id) ON DELETE CASCADE;
+
+UPDATE public.payments p
+SET clinic_id = i.clinic_id
+FROM public.invoices i
+WHERE i.id = p.invoice_id AND p.clinic_id IS NULL;
+
+CREATE UNIQUE INDEX payments_clinic_receipt_number_key
+  ON public.payments (clinic_id, receipt_number)
+  WHERE receipt_number IS NOT NULL;
+
+-- Every payment gets its own receipt number, in the clinic of the invoice it pays. Applied
+-- credit keeps none: its receipt was issued when the prepayment was taken.
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.receipt_number IS NOT NULL
+       AND NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+      RAISE EXCEPTION 'Receipt numbers cannot be changed once issued';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.clinic_id := (SELECT i.clinic_id FROM invoices i WHERE i.id = NEW.invoice_id);
+
+  IF NEW.credit_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.receipt_number := public.next_document_number(NEW.clinic_id, 'receipt');
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Booking a series and editing several of its occurrences each take one transaction, so a
+-- failed appointment (e.g. over the overbooking limit) leaves no half-booked or half-moved
+-- series behind.
+
+-- The series header and all its appointments. Appointment rows take their columns from
+-- p_appointments; series_id is filled in here.
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  p_series jsonb,
+  p_appointments jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id uuid;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_appointments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'There are no dates to book';
+  END IF;
+
+  INSERT INTO public.appointment_series (
+    clinic_id, patient_id, provider_id, room_id, frequency, interval_count, weekday,
+    occurrence_count, until_date, first_starts_at, duration_minutes, notes
+  )
+  SELECT
+    s.clinic_id, s.patient_id, s.provider_id, s.room_id, s.frequency, COALESCE(s.interval_count, 1), s.weekday,
+    s.occurrence_count, s.until_date, s.first_starts_at, s.duration_minutes, s.notes
+  FROM jsonb_populate_record(NULL::public.appointment_series, p_series) s
+  RETURNING id INTO v_series_id;
+
+  INSERT INTO public.appointments (
+    clinic_id, patient_id, provider_id, room_id, appointment_type_id,
+    starts_at, ends_at, status, notes, series_id, series_index
+  )
+  SELECT
+    a.clinic_id, a.patient_id, a.provider_id, a.room_id, a.appointment_type_id,
+    a.starts_at, a.ends_at, a.status, a.notes, v_series_id, a.series_index
+  FROM jsonb_populate_recordset(NULL::public.appointments, p_appointments) a;
+
+  RETURN v_series_id;
+END;
+$$;
+
+-- Move a set of occurrences to new times and apply the same edit to each. Only the fields
+-- present in p_updates are changed; p_moves holds { id, starts_at, ends_at } per occurrence.
+CREATE OR REPLACE FUNCTION public.update_appointment_occurrences(
+  p_updates jsonb,
+  p_moves jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  p_updates := COALESCE(p_updates, '{}'::jsonb);
+
+  UPDATE public.appointments a
+  SET starts_at = m.starts_at,
+      ends_at = m.ends_at,
+      provider_id = CASE WHEN p_updates ? 'provider_id' THEN u.provider_id ELSE a.provider_id END,
+      room_id = CASE WHEN p_updates ? 'room_id' THEN u.room_id ELSE a.room_id END,
+      appointment_type_id = CASE WHEN p_updates ? 'appointment_type_id' THEN u.appointment_type_id ELSE a.appointment_type_id END,
+      status = CASE WHEN p_updates ? 'status' THEN u.status ELSE a.status END,
+      notes = CASE WHEN p_updates ? 'notes' THEN u.notes ELSE a.notes END
+  FROM jsonb_to_recordset(COALESCE(p_moves, '[]'::jsonb)) AS m(id uuid, starts_at timestamp with time zone, ends_at timestamp with time zone),
+    jsonb_populate_record(NULL::public.appointments, p_updates) u
+  WHERE a.id = m.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count <> jsonb_array_length(COALESCE(p_moves, '[]'::jsonb)) THEN
+    RAISE EXCEPTION 'Some occurrences could not be found';
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- The audit trigger function is shared by billing documents, cash drawer closings and the
+-- waitlist, so it gets a name that says what it does. Triggers follow the rename.
+ALTER FUNCTION public.audit_billing_document() RENAME TO audit_row_change;
+
+-- Book a waitlist patient into a freed slot: the appointment and the resolved entry are
+-- saved together, so an entry is never left waiting for a slot it already has (or marked
+-- booked for an appointment that failed). Clinic and patient come from the entry.
+CREATE OR REPLACE FUNCTION public.book_from_waitlist(
+  p_entry_id uuid,
+  p_appointment jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.waitlist_entries;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.waitlist_entries
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  IF v_entry.status <> 'waiting' THEN
+    RAISE EXCEPTION 'This waitlist entry has already been %', v_entry.status;
+  END IF;
+
+  INSERT INTO public.appointments (
+    clinic_id, patient_id, provider_id, room_id, appointment_type_id,
+    starts_at, ends_at, status, notes, created_by
+  )
+  SELECT
+    v_entry.clinic_id, v_entry.patient_id, a.provider_id, a.room_id, a.appointment_type_id,
+    a.starts_at, a.ends_at, COALESCE(a.status, 'confirmed'), a.notes, auth.uid()
+  FROM jsonb_populate_record(NULL::public.appointments, p_appointment) a
+  RETURNING id INTO v_appointment_id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked',
+      booked_appointment_id = v_appointment_id
+  WHERE id = p_entry_id;
+
+  RETURN v_appointment_id;
+END;
+$$;
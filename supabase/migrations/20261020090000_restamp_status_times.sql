@@ -0,0 +1,37 @@
+-- Patients can move back a step (e.g. in chair back to ready), so the ready and in-chair
+-- times are the latest time the appointment entered that status, not the first. The ready
+-- queue and the lobby call-ups order by these times. Arrival is kept from the first time
+-- the patient walked in, so waits and lobby tickets don't restart after a step back.
+-- A time given with a new appointment is kept.
+CREATE OR REPLACE FUNCTION public.stamp_appointment_status_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    CASE NEW.status
+      WHEN 'arrived' THEN NEW.arrived_at := COALESCE(NEW.arrived_at, now());
+      WHEN 'ready' THEN NEW.ready_at := COALESCE(NEW.ready_at, now());
+      WHEN 'in_chair' THEN NEW.in_chair_at := COALESCE(NEW.in_chair_at, now());
+      WHEN 'completed' THEN NEW.completed_at := COALESCE(NEW.completed_at, now());
+      ELSE NULL;
+    END CASE;
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'arrived' THEN NEW.arrived_at := COALESCE(OLD.arrived_at, now());
+    WHEN 'ready' THEN NEW.ready_at := now();
+    WHEN 'in_chair' THEN NEW.in_chair_at := now();
+    WHEN 'completed' THEN NEW.completed_at := now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- Dragging a patient to another lane of the ready queue reassigns their provider, which
+-- the overbooking check treated as a new booking ("needs an overbook reason"). The queue
+-- RPC now marks its own update so the check lets same-day hand-overs through.
+CREATE OR REPLACE FUNCTION public.reorder_ready_queue(
+  p_provider_id uuid,
+  p_appointment_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Local to this transaction, read by enforce_overbooking_policy
+  PERFORM set_config('app.ready_queue_move', 'on', true);
+
+  UPDATE public.appointments a
+  SET queue_order = o.position::integer,
+      provider_id = p_provider_id
+  FROM unnest(p_appointment_ids) WITH ORDINALITY AS o(id, position)
+  WHERE a.id = o.id
+    AND a.status = 'ready';
+
+  PERFORM set_config('app.ready_queue_move', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_overbooking_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy jsonb;
+  v_max_provider integer;
+  v_max_room integer;
+  v_provider_overlaps integer := 0;
+  v_room_overlaps integer := 0;
+  v_role text;
+BEGIN
+  -- Cancelled and no-show appointments hold no time
+  IF NEW.status IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a new placement, or bringing back a cancelled or no-show appointment, takes up
+  -- time the policy has to allow. Status changes along the visit (arrived, ready, in chair)
+  -- and edits to notes or the reason keep the placement that was already accepted.
+  IF TG_OP = 'UPDATE'
+     AND NEW.starts_at = OLD.starts_at
+     AND NEW.ends_at = OLD.ends_at
+     AND NEW.provider_id IS NOT DISTINCT FROM OLD.provider_id
+     AND NEW.room_id IS NOT DISTINCT FROM OLD.room_id
+     AND OLD.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Dragging a waiting patient to another doctor's ready queue hands them over for today;
+  -- it doesn't book the doctor's time, so only the time and room still count
+  IF TG_OP = 'UPDATE'
+     AND current_setting('app.ready_queue_move', true) = 'on'
+     AND OLD.status = 'ready'
+     AND NEW.status = 'ready'
+     AND NEW.starts_at = OLD.starts_at
+     AND NEW.ends_at = OLD.ends_at
+     AND NEW.room_id IS NOT DISTINCT FROM OLD.room_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT cs.overbooking_policy INTO v_policy
+  FROM clinic_settings cs
+  WHERE cs.clinic_id = NEW.clinic_id;
+
+  v_max_provider := COALESCE((v_policy ->> 'max_per_provider')::integer, 1);
+  v_max_room := COALESCE((v_policy ->> 'max_per_room')::integer, 1);
+
+  IF NEW.provider_id IS NOT NULL THEN
+    SELECT count(*) INTO v_provider_overlaps
+    FROM appointments a
+    WHERE a.provider_id = NEW.provider_id
+      AND a.id <> NEW.id
+      AND a.status NOT IN ('cancelled', 'no_show')
+      AND a.starts_at < NEW.ends_at
+      AND a.ends_at > NEW.starts_at;
+  END IF;
+
+  IF NEW.room_id IS NOT NULL THEN
+    SELECT count(*) INTO v_room_overlaps
+    FROM appointments a
+    WHERE a.room_id = NEW.room_id
+      AND a.id <> NEW.id
+      AND a.status NOT IN ('cancelled', 'no_show')
+      AND a.starts_at < NEW.ends_at
+      AND a.ends_at > NEW.starts_at;
+  END IF;
+
+  IF v_provider_overlaps < v_max_provider AND v_room_overlaps < v_max_room THEN
+    RETURN NEW;
+  END IF;
+
+  -- Server-side callers (edge functions) have no user and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.overbook OR COALESCE(btrim(NEW.overbook_reason), '') = '' THEN
+    RAISE EXCEPTION 'This booking is beyond the clinic''s overbooking limit and needs an overbook reason';
+  END IF;
+
+  SELECT p.role::text INTO v_role
+  FROM profiles p
+  WHERE p.user_id = auth.uid();
+
+  IF NOT COALESCE(v_policy -> 'override_roles', '["admin", "doctor"]'::jsonb) ? v_role THEN
+    RAISE EXCEPTION 'Your role cannot approve overbooking';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.overbook_reason IS DISTINCT FROM OLD.overbook_reason OR NOT OLD.overbook THEN
+    NEW.overbook_approved_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
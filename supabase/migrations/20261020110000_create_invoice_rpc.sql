@@ -0,0 +1,53 @@
+-- Issue an invoice and its lines in one transaction. The invoice number is taken by the
+-- numbering trigger on insert, so the header must never be saved without its lines: a
+-- failed line rolls the number back with it and the clinic's sequence stays gap-free.
+-- Runs as owner so the number and lines commit together; the caller must work at the clinic.
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_invoice jsonb,
+  p_items jsonb
+)
+RETURNS TABLE (id uuid, invoice_number text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+BEGIN
+  v_invoice := jsonb_populate_record(NULL::public.invoices, p_invoice);
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+      AND sc.clinic_id = v_invoice.clinic_id
+  ) THEN
+    RAISE EXCEPTION 'You cannot invoice for this clinic';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.invoices AS i (
+    clinic_id, patient_id, visit_id, status, subtotal, discount_amount, total_amount,
+    currency, notes, created_by
+  )
+  VALUES (
+    v_invoice.clinic_id, v_invoice.patient_id, v_invoice.visit_id, v_invoice.status,
+    v_invoice.subtotal, v_invoice.discount_amount, v_invoice.total_amount,
+    COALESCE(v_invoice.currency, 'EGP'), v_invoice.notes, auth.uid()
+  )
+  RETURNING i.id, i.invoice_number INTO v_invoice.id, v_invoice.invoice_number;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, procedure_row_id, description, qty, unit_price, discount, line_total
+  )
+  SELECT
+    v_invoice.id, li.procedure_row_id, li.description, li.qty, li.unit_price,
+    COALESCE(li.discount, 0), li.line_total
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, p_items) li;
+
+  RETURN QUERY SELECT v_invoice.id, v_invoice.invoice_number;
+END;
+$$;
@@ -0,0 +1,62 @@
+-- Create an installment plan and its items in one transaction, so a failed item never
+-- leaves an empty plan that blocks setting one up again. The invoice is locked while
+-- checking, so two desks cannot both add a plan to it.
+CREATE OR REPLACE FUNCTION public.create_installment_plan(
+  p_invoice_id uuid,
+  p_plan jsonb,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_plan public.installment_plans;
+  v_plan_id uuid;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1
+    FROM staff_clinics sc
+    WHERE sc.user_id = auth.uid()
+      AND sc.clinic_id = v_invoice.clinic_id
+  ) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status = 'void' THEN
+    RAISE EXCEPTION 'Cannot set up installments on a void invoice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.installment_plans WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'This invoice already has an installment plan';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'The schedule needs at least one installment';
+  END IF;
+
+  v_plan := jsonb_populate_record(NULL::public.installment_plans, p_plan);
+
+  INSERT INTO public.installment_plans (
+    invoice_id, total_amount, down_payment, installment_count, frequency, created_by
+  )
+  VALUES (
+    p_invoice_id, v_plan.total_amount, COALESCE(v_plan.down_payment, 0),
+    v_plan.installment_count, v_plan.frequency, auth.uid()
+  )
+  RETURNING id INTO v_plan_id;
+
+  INSERT INTO public.installment_items (plan_id, due_date, amount, paid)
+  SELECT v_plan_id, item.due_date, item.amount, false
+  FROM jsonb_populate_recordset(NULL::public.installment_items, p_items) item;
+
+  RETURN v_plan_id;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Feed and display tokens are bearer secrets, so a table update may only revoke a row
+-- (or, from the edge functions, record when it was last used). The token and clinic
+-- never change, and a revoked row stays revoked.
+CREATE OR REPLACE FUNCTION public.guard_revocable_token()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This link has been revoked and cannot be changed';
+  END IF;
+
+  IF NEW.token IS DISTINCT FROM OLD.token OR NEW.clinic_id IS DISTINCT FROM OLD.clinic_id THEN
+    RAISE EXCEPTION 'The token and clinic of a link cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER provider_calendar_feeds_guard_update
+BEFORE UPDATE ON public.provider_calendar_feeds
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_revocable_token();
+
+-- A provider can only keep a feed on themselves; admins stay within their clinic.
+DROP POLICY "Providers and admins can revoke calendar feeds" ON public.provider_calendar_feeds;
+
+CREATE POLICY "Providers and admins can revoke calendar feeds"
+ON public.provider_calendar_feeds
+FOR UPDATE
+USING (
+  provider_id IN (
+    SELECT pr.id
+    FROM providers pr
+    WHERE pr.user_id = auth.uid()
+  )
+  OR clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  provider_id IN (
+    SELECT pr.id
+    FROM providers pr
+    WHERE pr.user_id = auth.uid()
+  )
+  OR clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);
@@ -0,0 +1,28 @@
+-- Lobby display tokens get the same guard as calendar feeds: admins can rename or revoke
+-- a screen, but not change its token, move it to another clinic or bring it back.
+CREATE TRIGGER lobby_displays_guard_update
+BEFORE UPDATE ON public.lobby_displays
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_revocable_token();
+
+DROP POLICY "Admins can update lobby displays" ON public.lobby_displays;
+
+CREATE POLICY "Admins can update lobby displays"
+ON public.lobby_displays
+FOR UPDATE
+USING (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+)
+WITH CHECK (
+  clinic_id IN (
+    SELECT sc.clinic_id
+    FROM staff_clinics sc
+    JOIN profiles p ON p.user_id = sc.user_id
+    WHERE sc.user_id = auth.uid() AND p.role = 'admin'
+  )
+);